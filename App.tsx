@@ -1,44 +1,161 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { features } from './data/features.ts';
 import { mockData } from './data/mockData.ts';
 // Fix: Added missing types for call history and agent sessions which are now part of the app's state.
-import type { Feature, User, SavedScript, IvrFlow, Campaign, Qualification, QualificationGroup, UserGroup, Trunk, Did, BackupLog, BackupSchedule, SystemLog, VersionInfo, ConnectivityService, Contact, CallHistoryRecord, AgentSession, AudioFile, PlanningEvent, ActivityType } from './types.ts';
+import type { Feature, User, PermissionProfile, Permission, SavedScript, IvrFlow, Campaign, CampaignContact, CampaignRunStatus, PublicHoliday, Qualification, QualificationGroup, UserGroup, Trunk, Did, BackupLog, BackupSchedule, VersionInfo, ConnectivityService, Contact, CallHistoryRecord, CallData, AudioFile, PlanningEvent, AuditLogEntry, SupervisorActionRecord, CallRecording, RecordingRetentionPolicy, AcdQueue, DncEntry, ContactCallback, PreviewDecisionRecord } from './types.ts';
 import Sidebar from './components/Sidebar.tsx';
 import FeatureDetail from './components/FeatureDetail.tsx';
 import LoginScreen from './components/LoginScreen.tsx';
 import AgentView from './components/AgentView.tsx';
 import Header from './components/Header.tsx';
 import MonitoringDashboard from './components/MonitoringDashboard.tsx';
+import { createApiClient } from './services/apiClient.ts';
+import type { AuthSession, RecordingPurgeReport, SupervisorActionRequest, AcdCallStatus } from './services/apiContract.ts';
+import { usePersistentCollection, usePersistentSetting } from './services/apiSync.ts';
+import type { RealtimeConnection } from './services/realtimeClient.ts';
+import { connectRealtime } from './services/realtimeClient.ts';
+import { canReadCampaignContacts } from './services/permissions.ts';
+
+const SESSION_TOKEN_STORAGE_KEY = 'sessionToken';
+
+// Unauthenticated client, only used to log in.
+const authApi = createApiClient();
 
 const App: React.FC = () => {
     // --- STATE MANAGEMENT ---
     const [activeFeatureId, setActiveFeatureId] = useState<string | null>(null);
-    const [currentUser, setCurrentUser] = useState<User | null>(null);
+    const [session, setSession] = useState<AuthSession | null>(null);
+    const currentUser = session ? session.user : null;
     const [activeView, setActiveView] = useState<'app' | 'monitoring'>('app');
     
     // Data states
-    const [users, setUsers] = useState<User[]>(mockData.users);
-    const [userGroups, setUserGroups] = useState<UserGroup[]>(mockData.userGroups);
-    const [savedScripts, setSavedScripts] = useState<SavedScript[]>(mockData.savedScripts);
-    const [savedIvrFlows, setSavedIvrFlows] = useState<IvrFlow[]>(mockData.savedIvrFlows);
-    const [campaigns, setCampaigns] = useState<Campaign[]>(mockData.campaigns);
-    const [qualifications, setQualifications] = useState<Qualification[]>(mockData.qualifications);
-    const [qualificationGroups, setQualificationGroups] = useState<QualificationGroup[]>(mockData.qualificationGroups);
-    const [trunks, setTrunks] = useState<Trunk[]>(mockData.trunks);
-    const [dids, setDids] = useState<Did[]>(mockData.dids);
-    const [backupLogs, setBackupLogs] = useState<BackupLog[]>(mockData.backupLogs);
-    const [backupSchedule, setBackupSchedule] = useState<BackupSchedule>(mockData.backupSchedule);
-    const [systemLogs, setSystemLogs] = useState<SystemLog[]>(mockData.systemLogs);
+    // Data is only loaded from and saved to the API once logged in.
+    const api = useMemo(() => session ? createApiClient('/api', session.token) : null, [session]);
+
+    const [users, setUsers] = usePersistentCollection(api, 'users', mockData.users);
+    const [permissionProfiles, setPermissionProfiles] = usePersistentCollection(api, 'permissionProfiles', mockData.permissionProfiles);
+    const [userGroups, setUserGroups] = usePersistentCollection(api, 'userGroups', mockData.userGroups);
+    const [savedScripts, setSavedScripts] = usePersistentCollection(api, 'savedScripts', mockData.savedScripts);
+    const [savedIvrFlows, setSavedIvrFlows] = usePersistentCollection(api, 'ivrFlows', mockData.savedIvrFlows);
+    const [acdQueues, setAcdQueues] = usePersistentCollection(api, 'acdQueues', mockData.acdQueues);
+    const [campaignSettings, setCampaigns, applySavedCampaign] = usePersistentCollection(api, 'campaigns', mockData.campaigns);
+    const [dncEntries, setDncEntries] = usePersistentCollection(api, 'dncEntries', mockData.dncEntries);
+    const [publicHolidays, setPublicHolidays] = usePersistentCollection(api, 'publicHolidays', mockData.publicHolidays);
+    const [qualifications, setQualifications] = usePersistentCollection(api, 'qualifications', mockData.qualifications);
+    const [qualificationGroups, setQualificationGroups] = usePersistentCollection(api, 'qualificationGroups', mockData.qualificationGroups);
+    const [trunks, setTrunks] = usePersistentCollection(api, 'trunks', mockData.trunks);
+    const [dids, setDids] = usePersistentCollection(api, 'dids', mockData.dids);
+    const [backupLogs, setBackupLogs] = usePersistentCollection(api, 'backupLogs', mockData.backupLogs);
+    const [backupSchedule, setBackupSchedule] = usePersistentSetting(api, 'backupSchedule', mockData.backupSchedule);
+    const [recordingRetention, setRecordingRetention] = usePersistentSetting(api, 'recordingRetention', mockData.recordingRetention);
+    const [systemLogs, setSystemLogs] = usePersistentCollection(api, 'systemLogs', mockData.systemLogs);
     const [versionInfo] = useState<VersionInfo>(mockData.versionInfo);
     const [connectivityServices] = useState<ConnectivityService[]>(mockData.connectivityServices);
-    const [audioFiles, setAudioFiles] = useState<AudioFile[]>(mockData.audioFiles);
-    const [planningEvents, setPlanningEvents] = useState<PlanningEvent[]>(mockData.planningEvents);
-    const [activityTypes] = useState<ActivityType[]>(mockData.activityTypes);
+    const [audioFiles, setAudioFiles] = usePersistentCollection(api, 'audioFiles', mockData.audioFiles);
+    const [planningEvents, setPlanningEvents] = usePersistentCollection(api, 'planningEvents', mockData.planningEvents);
+    const [activityTypes] = usePersistentCollection(api, 'activityTypes', mockData.activityTypes);
     // Fix: Added state for call history and agent sessions for the reporting dashboard.
-    const [callHistory] = useState<CallHistoryRecord[]>(mockData.callHistory);
-    const [agentSessions] = useState<AgentSession[]>(mockData.agentSessions);
+    const [callHistory, setCallHistory] = usePersistentCollection(api, 'callHistory', mockData.callHistory);
+    const [callData, setCallData] = usePersistentCollection(api, 'callData', mockData.callData);
+    const [previewDecisions, setPreviewDecisions] = usePersistentCollection(api, 'previewDecisions', mockData.previewDecisions);
+    const [agentSessions] = usePersistentCollection(api, 'agentSessions', mockData.agentSessions);
+    // Read-only: the audit log is written by the API server, so it is loaded on demand instead of synced.
+    const [auditLogs, setAuditLogs] = useState<AuditLogEntry[]>([]);
+    const [supervisorActions, setSupervisorActions] = useState<SupervisorActionRecord[]>([]);
+    const [recordings, setRecordings] = useState<CallRecording[]>([]);
+
+    // Live supervision events: supervisors receive them, agents publish their status.
+    const [realtime, setRealtime] = useState<RealtimeConnection | null>(null);
+    useEffect(() => {
+        if (!session) return;
+        const connection = connectRealtime(session.token);
+        setRealtime(connection);
+        return () => {
+            connection.close();
+            setRealtime(null);
+        };
+    }, [session]);
+
+    // Contacts are only changed by the API (see server/contacts.ts). Those of the campaigns
+    // the user reads (agents: their own) are loaded once, then follow the changes sent on
+    // the event stream and the API's answer to each change made here.
+    const [contacts, setContacts] = useState<CampaignContact[]>(mockData.contacts);
+    // Bumped when the event stream reconnects: the changes sent meanwhile are lost.
+    const [contactsReloadCount, setContactsReloadCount] = useState(0);
+    const contactCampaignIds = session
+        ? campaignSettings.filter(campaign => canReadCampaignContacts(session.user, session.permissions, campaign.id)).map(campaign => campaign.id).join(',')
+        : '';
+    useEffect(() => {
+        if (!api) return;
+        const campaignIds = contactCampaignIds.split(',').filter(Boolean);
+        let cancelled = false;
+        setContacts(prev => prev.filter(contact => campaignIds.includes(contact.campaignId)));
+        campaignIds.forEach(campaignId => api.listCampaignContacts(campaignId)
+            .then(loaded => {
+                if (!cancelled) setContacts(prev => [...prev.filter(contact => contact.campaignId !== campaignId), ...loaded]);
+            })
+            .catch(err => {
+                if (!cancelled) console.warn(`Failed to load the contacts of campaign '${campaignId}':`, err.message);
+            }));
+        return () => { cancelled = true; };
+    }, [api, contactCampaignIds, contactsReloadCount]);
+
+    const mergeContacts = (updated: CampaignContact[]) => {
+        const updatedById = new Map(updated.map(contact => [contact.id, contact]));
+        setContacts(prev => [
+            ...prev.map(contact => updatedById.get(contact.id) ?? contact),
+            ...updated.filter(contact => !prev.some(c => c.id === contact.id)),
+        ]);
+    };
+
+    // The components get the campaigns with their contacts.
+    const campaigns = useMemo<Campaign[]>(() => {
+        const contactsByCampaign = new Map<string, CampaignContact[]>();
+        contacts.forEach(contact => {
+            const campaignContacts = contactsByCampaign.get(contact.campaignId);
+            if (campaignContacts) campaignContacts.push(contact);
+            else contactsByCampaign.set(contact.campaignId, [contact]);
+        });
+        return campaignSettings.map(campaign => ({ ...campaign, contacts: contactsByCampaign.get(campaign.id) ?? [] }));
+    }, [campaignSettings, contacts]);
+
+    useEffect(() => {
+        if (!realtime) return;
+        let wasConnected = false;
+        let isConnected = false;
+        const unsubscribe = realtime.subscribe((_snapshot, connected) => {
+            if (connected && !isConnected && wasConnected) setContactsReloadCount(count => count + 1);
+            wasConnected = wasConnected || connected;
+            isConnected = connected;
+        });
+        // Quota counters are counted by the server as calls are qualified.
+        const unsubscribeChanges = realtime.onDataChanged(message => {
+            if (message.type === 'contacts.changed') mergeContacts(message.contacts);
+            else applySavedCampaign(message.campaign);
+        });
+        return () => {
+            unsubscribe();
+            unsubscribeChanges();
+        };
+    }, [realtime, applySavedCampaign]);
 
-    const activeFeature = useMemo(() => features.find(f => f.id === activeFeatureId), [activeFeatureId]);
+    // Resume the session of this browser tab after a page reload.
+    useEffect(() => {
+        const token = sessionStorage.getItem(SESSION_TOKEN_STORAGE_KEY);
+        if (!token) return;
+        createApiClient('/api', token).getSession()
+            .then(setSession)
+            .catch(() => sessionStorage.removeItem(SESSION_TOKEN_STORAGE_KEY));
+    }, []);
+
+    // Permissions are computed by the API at login; it enforces them again on every request.
+    const permissions = session ? session.permissions : [];
+    const hasPermission = (permission: Permission) => permissions.includes(permission);
+    const visibleFeatures = useMemo(
+        () => features.filter(f => !f.permission || (session?.permissions ?? []).includes(f.permission)),
+        [session]
+    );
+    const activeFeature = useMemo(() => visibleFeatures.find(f => f.id === activeFeatureId), [visibleFeatures, activeFeatureId]);
 
     // --- CRUD Handlers ---
     const handleSaveUser = (userToSave: User, groupIds: string[]) => {
@@ -76,6 +193,24 @@ const App: React.FC = () => {
     const handleDeleteUser = (userId: string) => {
         setUsers(prev => prev.filter(u => u.id !== userId));
     };
+
+    const handleSavePermissionProfile = (profile: PermissionProfile) => {
+        setPermissionProfiles(prev => {
+            const index = prev.findIndex(p => p.id === profile.id);
+            if (index > -1) {
+                const updated = [...prev];
+                updated[index] = profile;
+                return updated;
+            }
+            return [...prev, profile];
+        });
+    };
+
+    const handleDeletePermissionProfile = (profileId: string) => {
+        setPermissionProfiles(prev => prev.filter(p => p.id !== profileId));
+        // Users of the deleted profile fall back to the defaults of their role.
+        setUsers(prev => prev.map(u => u.profileId === profileId ? { ...u, profileId: null } : u));
+    };
     
     const handleGenerateUsers = (count: number) => {
         const newUsers: User[] = [];
@@ -123,7 +258,7 @@ const App: React.FC = () => {
             const index = prev.findIndex(s => s.id === script.id);
             if (index > -1) {
                 const updated = [...prev];
-                updated[index] = script;
+                updated[index] = { ...script, version: prev[index].version + 1 };
                 return updated;
             }
             return [...prev, script];
@@ -140,6 +275,7 @@ const App: React.FC = () => {
             const newScript = JSON.parse(JSON.stringify(scriptToDuplicate));
             newScript.id = `script-${Date.now()}`;
             newScript.name = `${newScript.name} (Copie)`;
+            newScript.version = 1;
             setSavedScripts(prev => [...prev, newScript]);
         }
     };
@@ -170,7 +306,36 @@ const App: React.FC = () => {
         }
     };
     
-    const handleSaveCampaign = (campaign: Campaign) => {
+    const handleSaveAcdQueue = (queue: AcdQueue) => {
+        setAcdQueues(prev => {
+            const index = prev.findIndex(q => q.id === queue.id);
+            if (index > -1) {
+                const updated = [...prev];
+                updated[index] = queue;
+                return updated;
+            }
+            return [...prev, queue];
+        });
+    };
+
+    // Queues overflowing to the deleted one overflow to their IVR node instead.
+    const handleDeleteAcdQueue = (queueId: string) => {
+        setAcdQueues(prev => prev
+            .filter(q => q.id !== queueId)
+            .map(q => q.overflowQueueId === queueId ? { ...q, overflowQueueId: null } : q));
+    };
+
+    const handlePlaceAcdTestCall = (queueId: string, callerNumber: string): Promise<AcdCallStatus> =>
+        api ? api.enqueueAcdCall({ queueId, callerNumber, did: 'test' }) : Promise.reject(new Error('Not connected to the API'));
+
+    const handleAnswerInboundCall = (callId: string): Promise<AcdCallStatus> =>
+        api ? api.answerAcdCall(callId) : Promise.reject(new Error('Not connected to the API'));
+
+    const handleRejectInboundCall = (callId: string): Promise<AcdCallStatus> =>
+        api ? api.rejectAcdCall(callId) : Promise.reject(new Error('Not connected to the API'));
+
+    // Only the settings are saved: the contacts are imported and updated on their own.
+    const handleSaveCampaign = ({ contacts: _contacts, ...campaign }: Campaign) => {
          setCampaigns(prev => {
             const index = prev.findIndex(c => c.id === campaign.id);
             if (index > -1) {
@@ -182,17 +347,87 @@ const App: React.FC = () => {
         });
     };
 
+    // Rejects with the API error so the supervision board can report it.
+    const handleChangeCampaignRunStatus = async (campaignId: string, runStatus: CampaignRunStatus) => {
+        if (!api) throw new Error('Not connected to the API');
+        applySavedCampaign(await api.setCampaignRunStatus(campaignId, runStatus));
+    };
+
+    // The campaign's contacts and own Do-Not-Call list go with it.
     const handleDeleteCampaign = (campaignId: string) => {
         setCampaigns(prev => prev.filter(c => c.id !== campaignId));
+        setContacts(prev => prev.filter(c => c.campaignId !== campaignId));
+        setDncEntries(prev => prev.filter(e => e.campaignId !== campaignId));
     };
     
     const handleImportContacts = (campaignId: string, newContacts: Contact[]) => {
-        setCampaigns(prev => prev.map(c => {
-            if (c.id === campaignId) {
-                return { ...c, contacts: [...c.contacts, ...newContacts] };
+        api?.importContacts(campaignId, newContacts)
+            .then(mergeContacts)
+            .catch(err => alert(`L'import des contacts a échoué : ${err.message}`));
+    };
+    
+    const handleAddDncEntries = (entries: DncEntry[]) => {
+        setDncEntries(prev => [...entries, ...prev]);
+    };
+
+    const handleDeleteDncEntry = (entryId: string) => {
+        setDncEntries(prev => prev.filter(e => e.id !== entryId));
+    };
+
+    // Resolves with null when the campaign has no contact left to serve.
+    const handlePickNextContact = (campaignId: string, excludedContactIds: string[]): Promise<Contact | null> =>
+        api ? api.pickNextContact(campaignId, excludedContactIds) : Promise.reject(new Error('Not connected to the API'));
+
+    // Stores a qualified call; the API applies its outcome to the contact (retry rules,
+    // callback promised during the call) and to the campaign quotas.
+    const handleRecordCall = (record: CallHistoryRecord, callback?: ContactCallback) => {
+        setCallHistory(prev => [record, ...prev]);
+        if (!record.campaignId || !record.contactId || !record.qualificationId) return;
+        api?.recordContactAttempt(record.contactId, { qualificationId: record.qualificationId, callId: record.id, callback })
+            .then(contact => mergeContacts([contact]))
+            .catch(err => console.error(`Failed to record the call of contact '${record.contactId}':`, err.message));
+    };
+
+    // Moved, reassigned or cancelled by the supervisors.
+    const handleSaveCallback = (contactId: string, callback: ContactCallback | null) => {
+        api?.saveContactCallback(contactId, callback)
+            .then(contact => mergeContacts([contact]))
+            .catch(err => alert(`Le rappel n'a pas pu être enregistré : ${err.message}`));
+    };
+
+    // Contacts skipped or rejected during the preview of progressive campaigns: the API
+    // closes a rejected contact, whose new state comes from the event stream.
+    const handleRecordPreviewDecision = (record: PreviewDecisionRecord) => {
+        setPreviewDecisions(prev => [record, ...prev]);
+    };
+
+    // Script answers are saved once per call; saving again during the call replaces them.
+    const handleSaveCallData = (data: CallData) => {
+        setCallData(prev => {
+            const index = prev.findIndex(d => d.callId === data.callId);
+            if (index > -1) {
+                const updated = [...prev];
+                updated[index] = data;
+                return updated;
             }
-            return c;
-        }));
+            return [...prev, data];
+        });
+    };
+
+    const handleSavePublicHoliday = (holiday: PublicHoliday) => {
+        setPublicHolidays(prev => {
+            const index = prev.findIndex(h => h.id === holiday.id);
+            if (index > -1) {
+                const updated = [...prev];
+                updated[index] = holiday;
+                return updated;
+            }
+            return [...prev, holiday].sort((a, b) => a.date.localeCompare(b.date));
+        });
+    };
+
+    const handleDeletePublicHoliday = (holidayId: string) => {
+        setPublicHolidays(prev => prev.filter(h => h.id !== holidayId));
     };
     
     const handleSaveQualification = (qual: Qualification) => {
@@ -324,21 +559,84 @@ const App: React.FC = () => {
         setPlanningEvents(prev => prev.filter(e => e.id !== eventId));
     };
 
+    const handleRefreshAuditLogs = () => {
+        api?.list('auditLogs')
+            .then(setAuditLogs)
+            .catch(err => console.error('Failed to load the audit log:', err.message));
+    };
+
+    const handleRefreshSupervisorActions = () => {
+        api?.list('supervisorActions')
+            .then(setSupervisorActions)
+            .catch(err => console.error('Failed to load the supervisor actions:', err.message));
+    };
+
+    // Rejects with the API error so the supervision boards can explain the failure.
+    const handleSupervisorAction = async (request: SupervisorActionRequest) => {
+        if (!api) return;
+        const record = await api.performSupervisorAction(request);
+        setSupervisorActions(prev => [record, ...prev]);
+    };
+
+    const handleRefreshRecordings = () => {
+        api?.list('recordings')
+            .then(setRecordings)
+            .catch(err => console.error('Failed to load the recordings:', err.message));
+    };
+
+    // Rejects with the API error so RecordsManager can report it.
+    const handleDeleteRecording = async (recordingId: string) => {
+        if (!api) return;
+        await api.remove('recordings', recordingId);
+        setRecordings(prev => prev.filter(r => r.id !== recordingId));
+    };
+
+    const handleFetchRecordingAudio = (recordingId: string): Promise<Blob> =>
+        api ? api.fetchRecordingAudio(recordingId) : Promise.reject(new Error('Not connected to the API'));
+
+    const handleSaveRecordingRetention = (policy: RecordingRetentionPolicy) => {
+        setRecordingRetention(policy);
+    };
+
+    // Rejects with the API error; the report is also written to the system logs by the server.
+    const handlePurgeRecordings = async (): Promise<RecordingPurgeReport> => {
+        if (!api) throw new Error('Not connected to the API');
+        const report = await api.purgeExpiredRecordings();
+        setRecordings(prev => prev.filter(r => !report.callIds.includes(r.callId)));
+        return report;
+    };
+
+    const handleLoginSuccess = (newSession: AuthSession) => {
+        sessionStorage.setItem(SESSION_TOKEN_STORAGE_KEY, newSession.token);
+        setSession(newSession);
+    };
+
+    const handleLogout = () => {
+        api?.logout().catch(err => console.error('Logout failed:', err.message));
+        sessionStorage.removeItem(SESSION_TOKEN_STORAGE_KEY);
+        setSession(null);
+    };
+
     // --- RENDER LOGIC ---
     if (!currentUser) {
-        return <LoginScreen users={users} onLoginSuccess={setCurrentUser} />;
+        return <LoginScreen api={authApi} onLoginSuccess={handleLoginSuccess} />;
     }
     
-    if (currentUser.role === 'Agent') {
-        return <AgentView agent={currentUser} campaigns={campaigns} savedScripts={savedScripts} onLogout={() => setCurrentUser(null)} />;
+    // Users who can take calls and have no back-office feature get the agent interface.
+    if (hasPermission('agent.call') && !visibleFeatures.some(f => f.permission)) {
+        return <AgentView agent={currentUser} campaigns={campaigns} savedScripts={savedScripts} publicHolidays={publicHolidays} qualifications={qualifications} dncEntries={dncEntries} onPickNextContact={handlePickNextContact} onRecordCall={handleRecordCall} onAddDncEntries={handleAddDncEntries} onSaveCallData={handleSaveCallData} onRecordPreviewDecision={handleRecordPreviewDecision} onAnswerInboundCall={handleAnswerInboundCall} onRejectInboundCall={handleRejectInboundCall} onLogout={handleLogout} realtime={realtime} />;
     }
     
     const featureProps = {
         users,
+        permissionProfiles,
         userGroups,
         savedScripts,
         ivrFlows: savedIvrFlows,
+        acdQueues,
         campaigns,
+        dncEntries,
+        publicHolidays,
         qualifications,
         qualificationGroups,
         trunks,
@@ -353,10 +651,18 @@ const App: React.FC = () => {
         activityTypes,
         // Fix: Pass callHistory and agentSessions to feature components.
         callHistory,
+        callData,
+        previewDecisions,
         agentSessions,
+        auditLogs,
+        supervisorActions,
+        recordings,
+        recordingRetention,
         onSaveUser: handleSaveUser,
         onDeleteUser: handleDeleteUser,
         onGenerateUsers: handleGenerateUsers,
+        onSavePermissionProfile: handleSavePermissionProfile,
+        onDeletePermissionProfile: handleDeletePermissionProfile,
         onSaveUserGroup: handleSaveUserGroup,
         onDeleteUserGroup: handleDeleteUserGroup,
         onSaveOrUpdateScript: handleSaveOrUpdateScript,
@@ -365,9 +671,18 @@ const App: React.FC = () => {
         onSaveOrUpdateIvrFlow: handleSaveOrUpdateIvrFlow,
         onDeleteIvrFlow: handleDeleteIvrFlow,
         onDuplicateIvrFlow: handleDuplicateIvrFlow,
+        onSaveAcdQueue: handleSaveAcdQueue,
+        onDeleteAcdQueue: handleDeleteAcdQueue,
+        onPlaceTestCall: handlePlaceAcdTestCall,
         onSaveCampaign: handleSaveCampaign,
+        onChangeCampaignRunStatus: handleChangeCampaignRunStatus,
         onDeleteCampaign: handleDeleteCampaign,
         onImportContacts: handleImportContacts,
+        onAddDncEntries: handleAddDncEntries,
+        onDeleteDncEntry: handleDeleteDncEntry,
+        onSaveCallback: handleSaveCallback,
+        onSavePublicHoliday: handleSavePublicHoliday,
+        onDeletePublicHoliday: handleDeletePublicHoliday,
         onSaveQualification: handleSaveQualification,
         onDeleteQualification: handleDeleteQualification,
         onSaveQualificationGroup: handleSaveQualificationGroup,
@@ -383,11 +698,21 @@ const App: React.FC = () => {
         onDeleteAudioFile: handleDeleteAudioFile,
         onSavePlanningEvent: handleSavePlanningEvent,
         onDeletePlanningEvent: handleDeletePlanningEvent,
-        currentUser
+        onRefreshAuditLogs: handleRefreshAuditLogs,
+        onRefreshSupervisorActions: handleRefreshSupervisorActions,
+        onSupervisorAction: handleSupervisorAction,
+        onRefreshRecordings: handleRefreshRecordings,
+        onDeleteRecording: handleDeleteRecording,
+        onFetchRecordingAudio: handleFetchRecordingAudio,
+        onSaveRecordingRetention: handleSaveRecordingRetention,
+        onPurgeRecordings: handlePurgeRecordings,
+        realtime,
+        currentUser,
+        hasPermission
     };
 
     const renderMainContent = () => {
-        if (activeView === 'monitoring') {
+        if (activeView === 'monitoring' && hasPermission('monitoring.view')) {
             return <MonitoringDashboard {...featureProps} />;
         }
         if (activeFeature && activeFeature.component) {
@@ -399,14 +724,14 @@ const App: React.FC = () => {
 
     return (
         <div className="h-screen w-screen flex flex-col font-sans bg-slate-100">
-            <Header activeView={activeView} onViewChange={setActiveView} />
+            <Header activeView={activeView} onViewChange={setActiveView} canViewMonitoring={hasPermission('monitoring.view')} />
             <div className="flex-1 flex overflow-hidden">
                 <Sidebar
-                    features={features}
+                    features={visibleFeatures}
                     activeFeatureId={activeFeatureId}
                     onSelectFeature={setActiveFeatureId}
                     currentUser={currentUser}
-                    onLogout={() => setCurrentUser(null)}
+                    onLogout={handleLogout}
                 />
                 <main className="flex-1 p-8 overflow-y-auto">
                     {renderMainContent()}
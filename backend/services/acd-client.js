@@ -0,0 +1,64 @@
+/**
+ * Client of the ACD of the API server (../server/acd.ts), which distributes
+ * the calls of the IVR 'queue' nodes to the agents.
+ */
+
+/**
+ * @typedef {object} AcdCallStatus
+ * @property {string} id
+ * @property {string} queueId
+ * @property {'waiting'|'offered'|'connected'|'overflow'} state
+ * @property {number} position 1 for the next call to be answered, 0 once out of the queue.
+ * @property {string|null} agentExtension Extension to dial once the call is connected.
+ * @property {string|null} overflowReason
+ * @property {string|null} musicOnHold File name of the music on hold, null for the default class.
+ * @property {boolean} announcePosition
+ * @property {number} announceFrequency Seconds between two announcements.
+ */
+
+const apiUrl = () => (process.env.API_URL || 'http://localhost:3001').replace(/\/$/, '');
+
+async function request(method, path, body) {
+  const response = await fetch(`${apiUrl()}/api/acd${path}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${process.env.TELEPHONY_API_TOKEN || ''}`,
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (response.status === 404) return null;
+  if (!response.ok) throw new Error(`ACD request ${method} ${path} failed with status ${response.status}`);
+  return response.status === 204 ? null : response.json();
+}
+
+/**
+ * Puts a call in a queue.
+ * @param {string} queueId
+ * @param {string} callerNumber
+ * @param {string} did
+ * @param {string[]} ivrPath Names of the IVR nodes the caller went through.
+ * @returns {Promise<AcdCallStatus|null>} null if the queue does not exist.
+ */
+function enqueue(queueId, callerNumber, did, ivrPath) {
+  return request('POST', '/calls', { queueId, callerNumber, did, ivrPath });
+}
+
+/**
+ * @param {string} callId
+ * @returns {Promise<AcdCallStatus|null>} null if the ACD no longer knows the call.
+ */
+function getCall(callId) {
+  return request('GET', `/calls/${encodeURIComponent(callId)}`);
+}
+
+/**
+ * Removes a call from the ACD: the caller hung up or the flow moves on.
+ * @param {string} callId
+ * @returns {Promise<void>}
+ */
+async function release(callId) {
+  await request('DELETE', `/calls/${encodeURIComponent(callId)}`);
+}
+
+module.exports = { enqueue, getCall, release };
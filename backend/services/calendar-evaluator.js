@@ -0,0 +1,164 @@
+/**
+ * Evaluates the events of an IVR 'calendar' node against the current time.
+ * Mirrors the `CalendarEvent` type defined in the frontend's types.ts.
+ */
+
+/** @typedef {'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun'} DayOfWeek */
+
+/**
+ * @typedef {object} CalendarEvent
+ * @property {string} id Also used as the id of the node's output port.
+ * @property {string} name
+ * @property {'open' | 'closed'} eventType
+ * @property {boolean} isRecurring
+ * @property {boolean} allDay
+ * @property {DayOfWeek[]} days
+ * @property {string} startTime HH:mm
+ * @property {string} endTime HH:mm
+ * @property {string} startDate YYYY-MM-DD
+ * @property {string} endDate YYYY-MM-DD
+ */
+
+/**
+ * @typedef {object} CalendarNodeContent
+ * @property {string} timezone IANA timezone, e.g. 'Europe/Paris'.
+ * @property {CalendarEvent[]} events Ordered by priority, highest first.
+ */
+
+/**
+ * @typedef {object} LocalTime
+ * @property {string} date YYYY-MM-DD
+ * @property {DayOfWeek} day
+ * @property {number} minutes Minutes since local midnight.
+ */
+
+/**
+ * @typedef {object} CalendarResult
+ * @property {CalendarEvent | null} event The event that applies, or null if none does.
+ * @property {string} portId The output port to follow ('out-default' when no event applies).
+ */
+
+const DEFAULT_TIMEZONE = 'Europe/Paris';
+const DEFAULT_PORT_ID = 'out-default';
+const DAY_KEYS = /** @type {DayOfWeek[]} */ (['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']);
+const WEEKDAY_TO_KEY = /** @type {Record<string, DayOfWeek>} */ ({
+  Sun: 'sun', Mon: 'mon', Tue: 'tue', Wed: 'wed', Thu: 'thu', Fri: 'fri', Sat: 'sat',
+});
+
+/**
+ * Converts an 'HH:mm' string to minutes since midnight.
+ * @param {string} time
+ * @returns {number | null}
+ */
+function parseTime(time) {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time || '');
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Returns the wall-clock date, weekday and time of `now` in the given timezone.
+ * Falls back to the default timezone when the configured one is unknown.
+ * @param {Date} now
+ * @param {string} timezone
+ * @returns {LocalTime}
+ */
+function getLocalTime(now, timezone) {
+  let formatter;
+  try {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone || DEFAULT_TIMEZONE,
+      year: 'numeric', month: '2-digit', day: '2-digit',
+      weekday: 'short', hour: '2-digit', minute: '2-digit', hourCycle: 'h23',
+    });
+  } catch (err) {
+    console.warn(`Unknown calendar timezone '${timezone}', using ${DEFAULT_TIMEZONE}.`);
+    return getLocalTime(now, DEFAULT_TIMEZONE);
+  }
+
+  const parts = Object.fromEntries(formatter.formatToParts(now).map(p => [p.type, p.value]));
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    day: WEEKDAY_TO_KEY[parts.weekday],
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+/**
+ * @param {DayOfWeek} day
+ * @returns {DayOfWeek}
+ */
+function previousDay(day) {
+  return DAY_KEYS[(DAY_KEYS.indexOf(day) + 6) % 7];
+}
+
+/**
+ * A recurring event applies on its days between startTime and endTime.
+ * Ranges ending before they start (e.g. 22:00-06:00) run past midnight
+ * and belong to the day they started on.
+ * @param {CalendarEvent} event
+ * @param {LocalTime} local
+ * @returns {boolean}
+ */
+function matchesRecurring(event, local) {
+  const days = event.days || [];
+  if (event.allDay) return days.includes(local.day);
+
+  const start = parseTime(event.startTime);
+  const end = parseTime(event.endTime);
+  if (start === null || end === null) return false;
+
+  if (start <= end) {
+    return days.includes(local.day) && local.minutes >= start && local.minutes < end;
+  }
+  if (local.minutes >= start) return days.includes(local.day);
+  if (local.minutes < end) return days.includes(previousDay(local.day));
+  return false;
+}
+
+/**
+ * A date-range event covers whole days when allDay is set, otherwise the
+ * continuous period from startDate/startTime to endDate/endTime.
+ * @param {CalendarEvent} event
+ * @param {LocalTime} local
+ * @returns {boolean}
+ */
+function matchesDateRange(event, local) {
+  if (!event.startDate) return false;
+  const endDate = event.endDate || event.startDate;
+  if (local.date < event.startDate || local.date > endDate) return false;
+  if (event.allDay) return true;
+
+  const start = parseTime(event.startTime);
+  const end = parseTime(event.endTime);
+  if (start === null || end === null) return false;
+  if (local.date === event.startDate && local.minutes < start) return false;
+  if (local.date === endDate && local.minutes >= end) return false;
+  return true;
+}
+
+/**
+ * @param {CalendarEvent} event
+ * @param {LocalTime} local
+ * @returns {boolean}
+ */
+function isEventActive(event, local) {
+  return event.isRecurring ? matchesRecurring(event, local) : matchesDateRange(event, local);
+}
+
+/**
+ * Finds the event that applies at `now`. Closures take precedence over opening
+ * hours so that holidays override the weekly schedule; among events of the same
+ * type, the first one in the node's list wins.
+ * @param {CalendarNodeContent} content
+ * @param {Date} [now]
+ * @returns {CalendarResult}
+ */
+function evaluateCalendar(content, now = new Date()) {
+  const local = getLocalTime(now, content.timezone);
+  const activeEvents = (content.events || []).filter(event => isEventActive(event, local));
+  const event = activeEvents.find(e => e.eventType === 'closed') || activeEvents.find(e => e.eventType === 'open') || null;
+  return { event, portId: event ? event.id : DEFAULT_PORT_ID };
+}
+
+module.exports = { evaluateCalendar, DEFAULT_PORT_ID };
@@ -1,3 +1,52 @@
+const { evaluateCalendar, DEFAULT_PORT_ID } = require('./calendar-evaluator.js');
+const acd = require('./acd-client.js');
+
+// Seconds of music on hold between two polls of the ACD.
+const QUEUE_POLL_SECONDS = 5;
+
+/**
+ * Holds the caller in an ACD queue until an agent takes the call, then bridges
+ * them. The call is always removed from the ACD on the way out, including
+ * when the caller hangs up.
+ * @param {object} context The fast-agi context object.
+ * @param {string} queueId
+ * @param {string[]} ivrPath Names of the nodes the caller went through, shown to the agent.
+ * @returns {Promise<boolean>} true if an agent answered, false if the call overflowed.
+ */
+async function waitInQueue(context, queueId, ivrPath) {
+    const did = context.network_script || context.request.dnid || 'default';
+    let status = await acd.enqueue(queueId, context.request.callerid || '', did, ivrPath);
+    if (!status) {
+        await context.verbose(`Queue '${queueId}' not found.`);
+        return false;
+    }
+    const callId = status.id;
+    try {
+        let lastAnnounce = 0;
+        while (status && (status.state === 'waiting' || status.state === 'offered')) {
+            if (status.announcePosition && status.position > 0 && Date.now() - lastAnnounce >= status.announceFrequency * 1000) {
+                await context.sayText(`You are caller number ${status.position}.`);
+                lastAnnounce = Date.now();
+            }
+            // A custom music on hold is a class named after its file in musiconhold.conf.
+            const mohClass = status.musicOnHold ? status.musicOnHold.replace(/\.[^.]+$/, '') : 'default';
+            await context.exec('MusicOnHold', `${mohClass},${QUEUE_POLL_SECONDS}`);
+            status = await acd.getCall(callId);
+        }
+        if (!status || status.state !== 'connected') {
+            await context.verbose(`Queue overflow: ${status ? status.overflowReason : 'call unknown to the ACD'}`);
+            return false;
+        }
+        await context.verbose(`Connecting to agent: ${status.agentExtension}`);
+        await context.exec('Dial', `SIP/${status.agentExtension}`);
+        const dialStatus = await context.getVariable('DIALSTATUS');
+        await context.verbose(`Dial status: ${dialStatus}`);
+        return dialStatus === 'ANSWER';
+    } finally {
+        await acd.release(callId).catch(error => console.error('Could not release the ACD call:', error));
+    }
+}
+
 /**
  * Executes an IVR flow using the provided AGI context.
  * @param {object} context The fast-agi context object.
@@ -11,9 +60,11 @@ async function executeFlow(context, flow) {
     }
 
     await context.verbose(`Starting IVR Flow: ${flow.name}`);
+    const ivrPath = [];
 
     while (currentNode) {
         await context.verbose(`Executing node: ${currentNode.name} (Type: ${currentNode.type}, ID: ${currentNode.id})`);
+        ivrPath.push(currentNode.name);
         let nextNodeId = null;
 
         try {
@@ -72,16 +123,31 @@ async function executeFlow(context, flow) {
                     }
                     break;
                 
-                case 'calendar':
-                    // This is a simplified simulation. A real implementation would be more complex.
-                    await context.verbose(`Checking calendar rules...`);
-                    const now = new Date();
-                    // For now, let's just assume it's "open" and take the first event path.
-                    // In a real scenario, you'd iterate through events, check days, times, dates.
-                    const defaultConnection = flow.connections.find(c => c.fromNodeId === currentNode.id && c.fromPortId === 'out-default');
-                    nextNodeId = defaultConnection ? defaultConnection.toNodeId : null;
-                    await context.verbose(`Calendar result: Following default path.`);
+                case 'queue': {
+                    await context.verbose(`Queueing call in: ${currentNode.content.queueId}`);
+                    const isAnswered = await waitInQueue(context, currentNode.content.queueId, ivrPath);
+                    // Once bridged with an agent, our script ends here.
+                    const overflowConnection = isAnswered ? null : flow.connections.find(c => c.fromNodeId === currentNode.id && c.fromPortId === 'out-overflow');
+                    nextNodeId = overflowConnection ? overflowConnection.toNodeId : null;
+                    break;
+                }
+
+                case 'calendar': {
+                    await context.verbose(`Checking calendar rules (timezone: ${currentNode.content.timezone})...`);
+                    const { event, portId } = evaluateCalendar(currentNode.content);
+                    let calendarConnection = flow.connections.find(c => c.fromNodeId === currentNode.id && c.fromPortId === portId);
+                    if (event) {
+                        await context.verbose(`Calendar result: '${event.name}' (${event.eventType}) applies.`);
+                        if (!calendarConnection) {
+                            await context.verbose(`No route for event '${event.name}', following default path.`);
+                            calendarConnection = flow.connections.find(c => c.fromNodeId === currentNode.id && c.fromPortId === DEFAULT_PORT_ID);
+                        }
+                    } else {
+                        await context.verbose(`Calendar result: No event applies, following default path.`);
+                    }
+                    nextNodeId = calendarConnection ? calendarConnection.toNodeId : null;
                     break;
+                }
 
                 case 'voicemail':
                     await context.verbose(`Sending to voicemail: ${currentNode.content.prompt}`);
@@ -0,0 +1,255 @@
+import React, { useState, useEffect } from 'react';
+import type { Feature, AcdQueue, AudioFile, SavedScript, User, Permission } from '../types.ts';
+import type { AcdCallStatus } from '../services/apiContract.ts';
+import type { RealtimeConnection } from '../services/realtimeClient.ts';
+import type { SupervisionSnapshot } from '../services/realtimeEvents.ts';
+import { EMPTY_SNAPSHOT } from '../services/realtimeEvents.ts';
+import { ACD_OVERFLOW_REASON_LABELS, hasRequiredSkills, parseSkills } from '../services/acd.ts';
+import { PlusIcon, EditIcon, TrashIcon, PhoneIcon } from './Icons.tsx';
+
+interface AcdQueueModalProps {
+    queue: AcdQueue | null;
+    queues: AcdQueue[];
+    audioFiles: AudioFile[];
+    savedScripts: SavedScript[];
+    onSave: (queue: AcdQueue) => void;
+    onClose: () => void;
+}
+
+const AcdQueueModal: React.FC<AcdQueueModalProps> = ({ queue, queues, audioFiles, savedScripts, onSave, onClose }) => {
+    const [formData, setFormData] = useState<AcdQueue>(queue || {
+        id: `queue-${Date.now()}`,
+        name: '',
+        requiredSkills: [],
+        priority: 5,
+        mohAudioFileId: null,
+        announcePosition: true,
+        announceFrequency: 30,
+        maxWaitTime: 300,
+        maxWaitingCalls: 0,
+        overflowWhenNoAgents: false,
+        overflowQueueId: null,
+        scriptId: null,
+    });
+    const [skillsText, setSkillsText] = useState(formData.requiredSkills.join(', '));
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        const { name, value, type } = e.target;
+        if (type === 'checkbox') {
+            setFormData(prev => ({ ...prev, [name]: (e.target as HTMLInputElement).checked }));
+        } else if (type === 'number') {
+            setFormData(prev => ({ ...prev, [name]: parseInt(value, 10) || 0 }));
+        } else {
+            setFormData(prev => ({ ...prev, [name]: value || null }));
+        }
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        onSave({ ...formData, name: formData.name.trim(), requiredSkills: parseSkills(skillsText), priority: Math.min(10, Math.max(1, formData.priority)) });
+    };
+
+    return (
+        <div className="fixed inset-0 bg-slate-800 bg-opacity-75 flex items-center justify-center p-4 z-50">
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl">
+                <form onSubmit={handleSubmit}>
+                    <div className="p-6">
+                        <h3 className="text-lg font-medium leading-6 text-slate-900">{queue ? 'Modifier la file d\'attente' : 'Nouvelle file d\'attente'}</h3>
+                        <div className="mt-4 grid grid-cols-2 gap-4">
+                            <div>
+                                <label htmlFor="name" className="block text-sm font-medium text-slate-700">Nom</label>
+                                <input type="text" name="name" id="name" value={formData.name} onChange={handleChange} required className="mt-1 block w-full p-2 border border-slate-300 rounded-md" placeholder="Ex: Ventes"/>
+                            </div>
+                            <div>
+                                <label htmlFor="priority" className="block text-sm font-medium text-slate-700">Priorité (1 à 10)</label>
+                                <input type="number" name="priority" id="priority" min={1} max={10} value={formData.priority} onChange={handleChange} className="mt-1 block w-full p-2 border border-slate-300 rounded-md"/>
+                            </div>
+                            <div className="col-span-2">
+                                <label htmlFor="requiredSkills" className="block text-sm font-medium text-slate-700">Compétences requises</label>
+                                <input type="text" id="requiredSkills" value={skillsText} onChange={e => setSkillsText(e.target.value)} className="mt-1 block w-full p-2 border border-slate-300 rounded-md" placeholder="Ex: ventes, anglais"/>
+                                <p className="text-xs text-slate-500 mt-1">Séparées par des virgules. Seuls les agents ayant toutes ces compétences reçoivent les appels ; vide = tous les agents.</p>
+                            </div>
+                            <div>
+                                <label htmlFor="mohAudioFileId" className="block text-sm font-medium text-slate-700">Musique d'attente</label>
+                                <select name="mohAudioFileId" id="mohAudioFileId" value={formData.mohAudioFileId || ''} onChange={handleChange} className="mt-1 block w-full p-2 border border-slate-300 rounded-md bg-white">
+                                    <option value="">Musique par défaut</option>
+                                    {audioFiles.map(file => <option key={file.id} value={file.id}>{file.name}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label htmlFor="announceFrequency" className="block text-sm font-medium text-slate-700">Annonce de la position toutes les (s)</label>
+                                <div className="mt-1 flex items-center space-x-2">
+                                    <input type="checkbox" name="announcePosition" checked={formData.announcePosition} onChange={handleChange} className="h-4 w-4 text-indigo-600 border-slate-300 rounded"/>
+                                    <input type="number" name="announceFrequency" id="announceFrequency" min={10} value={formData.announceFrequency} onChange={handleChange} disabled={!formData.announcePosition} className="block w-full p-2 border border-slate-300 rounded-md disabled:bg-slate-50"/>
+                                </div>
+                            </div>
+                            <div className="col-span-2">
+                                <label htmlFor="scriptId" className="block text-sm font-medium text-slate-700">Script affiché à l'agent</label>
+                                <select name="scriptId" id="scriptId" value={formData.scriptId || ''} onChange={handleChange} className="mt-1 block w-full p-2 border border-slate-300 rounded-md bg-white">
+                                    <option value="">Script du numéro appelé (SDA)</option>
+                                    {savedScripts.map(script => <option key={script.id} value={script.id}>{script.name}</option>)}
+                                </select>
+                            </div>
+                        </div>
+
+                        <h4 className="mt-6 text-md font-semibold text-slate-800 border-b pb-1">Débordement</h4>
+                        <div className="mt-4 grid grid-cols-2 gap-4">
+                            <div>
+                                <label htmlFor="maxWaitTime" className="block text-sm font-medium text-slate-700">Attente maximale (s, 0 = illimitée)</label>
+                                <input type="number" name="maxWaitTime" id="maxWaitTime" min={0} value={formData.maxWaitTime} onChange={handleChange} className="mt-1 block w-full p-2 border border-slate-300 rounded-md"/>
+                            </div>
+                            <div>
+                                <label htmlFor="maxWaitingCalls" className="block text-sm font-medium text-slate-700">Appels en attente max. (0 = illimité)</label>
+                                <input type="number" name="maxWaitingCalls" id="maxWaitingCalls" min={0} value={formData.maxWaitingCalls} onChange={handleChange} className="mt-1 block w-full p-2 border border-slate-300 rounded-md"/>
+                            </div>
+                            <div className="col-span-2 flex items-center">
+                                <input type="checkbox" name="overflowWhenNoAgents" id="overflowWhenNoAgents" checked={formData.overflowWhenNoAgents} onChange={handleChange} className="h-4 w-4 text-indigo-600 border-slate-300 rounded"/>
+                                <label htmlFor="overflowWhenNoAgents" className="ml-2 text-sm text-slate-700">Déborder lorsqu'aucun agent compétent n'est connecté</label>
+                            </div>
+                            <div className="col-span-2">
+                                <label htmlFor="overflowQueueId" className="block text-sm font-medium text-slate-700">Destination du débordement</label>
+                                <select name="overflowQueueId" id="overflowQueueId" value={formData.overflowQueueId || ''} onChange={handleChange} className="mt-1 block w-full p-2 border border-slate-300 rounded-md bg-white">
+                                    <option value="">Sortie 'Débordement' du noeud SVI</option>
+                                    {queues.filter(q => q.id !== formData.id).map(q => <option key={q.id} value={q.id}>File : {q.name}</option>)}
+                                </select>
+                            </div>
+                        </div>
+                    </div>
+                    <div className="bg-slate-50 px-4 py-3 sm:flex sm:flex-row-reverse rounded-b-lg">
+                        <button type="submit" className="inline-flex w-full justify-center rounded-md border border-transparent bg-indigo-600 px-4 py-2 font-medium text-white shadow-sm hover:bg-indigo-700 sm:ml-3 sm:w-auto">Enregistrer</button>
+                        <button type="button" onClick={onClose} className="mt-3 inline-flex w-full justify-center rounded-md border border-slate-300 bg-white px-4 py-2 font-medium text-slate-700 shadow-sm hover:bg-slate-50 sm:mt-0 sm:w-auto">Annuler</button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+interface AcdQueueManagerProps {
+    feature: Feature;
+    acdQueues: AcdQueue[];
+    audioFiles: AudioFile[];
+    savedScripts: SavedScript[];
+    users: User[];
+    realtime: RealtimeConnection | null;
+    onSaveAcdQueue: (queue: AcdQueue) => void;
+    onDeleteAcdQueue: (queueId: string) => void;
+    onPlaceTestCall: (queueId: string, callerNumber: string) => Promise<AcdCallStatus>;
+    hasPermission: (permission: Permission) => boolean;
+}
+
+const AcdQueueManager: React.FC<AcdQueueManagerProps> = ({ feature, acdQueues, audioFiles, savedScripts, users, realtime, onSaveAcdQueue, onDeleteAcdQueue, onPlaceTestCall, hasPermission }) => {
+    const canEdit = hasPermission('queue.edit');
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [editingQueue, setEditingQueue] = useState<AcdQueue | null>(null);
+    const [snapshot, setSnapshot] = useState<SupervisionSnapshot>(EMPTY_SNAPSHOT);
+
+    // Waiting calls and connected agents, for users who receive the supervision events.
+    useEffect(() => {
+        if (!realtime) return;
+        return realtime.subscribe(setSnapshot);
+    }, [realtime]);
+
+    const handleAddNew = () => {
+        setEditingQueue(null);
+        setIsModalOpen(true);
+    };
+
+    const handleEdit = (queue: AcdQueue) => {
+        setEditingQueue(queue);
+        setIsModalOpen(true);
+    };
+
+    const handleSave = (queue: AcdQueue) => {
+        onSaveAcdQueue(queue);
+        setIsModalOpen(false);
+        setEditingQueue(null);
+    };
+
+    const handleDelete = (queue: AcdQueue) => {
+        if (!window.confirm(`Supprimer la file '${queue.name}' ? Les noeuds SVI qui l'utilisent suivront leur sortie 'Débordement'.`)) return;
+        onDeleteAcdQueue(queue.id);
+    };
+
+    const handleTestCall = (queue: AcdQueue) => {
+        const callerNumber = window.prompt(`Numéro de l'appelant fictif pour la file '${queue.name}' :`, '0600000000');
+        if (!callerNumber) return;
+        onPlaceTestCall(queue.id, callerNumber)
+            .then(call => {
+                if (call.state === 'overflow' && call.overflowReason) alert(`L'appel a débordé : ${ACD_OVERFLOW_REASON_LABELS[call.overflowReason]}.`);
+            })
+            .catch(err => alert(`Appel test impossible : ${err.message}`));
+    };
+
+    const skilledAgents = (queue: AcdQueue) => users.filter(u => u.role === 'Agent' && u.isActive && hasRequiredSkills(u, queue));
+
+    return (
+        <div className="max-w-6xl mx-auto space-y-8">
+            {isModalOpen && <AcdQueueModal queue={editingQueue} queues={acdQueues} audioFiles={audioFiles} savedScripts={savedScripts} onSave={handleSave} onClose={() => setIsModalOpen(false)} />}
+            <header>
+                <h1 className="text-4xl font-bold text-slate-900 tracking-tight">{feature.title}</h1>
+                <p className="mt-2 text-lg text-slate-600">{feature.description}</p>
+            </header>
+
+            <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200">
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-2xl font-semibold text-slate-800">Files configurées</h2>
+                    {canEdit && (
+                        <button onClick={handleAddNew} className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg shadow-md inline-flex items-center">
+                            <PlusIcon className="w-5 h-5 mr-2" />Ajouter une file
+                        </button>
+                    )}
+                </div>
+
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-slate-200">
+                        <thead className="bg-slate-50">
+                            <tr>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase">Nom</th>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase">Compétences</th>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase">Priorité</th>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase">Agents connectés</th>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase">En attente</th>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase">Débordement</th>
+                                <th className="px-4 py-3 text-right text-xs font-medium text-slate-500 uppercase">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-slate-200 text-sm">
+                            {acdQueues.map(queue => {
+                                const agents = skilledAgents(queue);
+                                const loggedIn = agents.filter(a => snapshot.agents.some(s => s.agentId === a.id)).length;
+                                const waiting = snapshot.calls.filter(c => c.queueId === queue.id && c.status === 'queued').length;
+                                const overflowQueue = acdQueues.find(q => q.id === queue.overflowQueueId);
+                                return (
+                                    <tr key={queue.id}>
+                                        <td className="px-4 py-3 font-medium text-slate-800">{queue.name}</td>
+                                        <td className="px-4 py-3">
+                                            {queue.requiredSkills.length === 0
+                                                ? <span className="text-slate-400">Tous les agents</span>
+                                                : queue.requiredSkills.map(skill => <span key={skill} className="inline-block bg-indigo-50 text-indigo-700 text-xs font-semibold px-2 py-0.5 rounded-full mr-1">{skill}</span>)}
+                                        </td>
+                                        <td className="px-4 py-3 text-slate-600">{queue.priority}</td>
+                                        <td className="px-4 py-3 text-slate-600">{loggedIn} / {agents.length}</td>
+                                        <td className="px-4 py-3 font-semibold text-slate-800">{waiting}</td>
+                                        <td className="px-4 py-3 text-slate-600">
+                                            {queue.maxWaitTime > 0 ? `Après ${queue.maxWaitTime} s` : 'Sans limite'}
+                                            {' → '}{overflowQueue ? overflowQueue.name : 'sortie SVI'}
+                                        </td>
+                                        <td className="px-4 py-3 text-right font-medium space-x-4 whitespace-nowrap">
+                                            {canEdit && <button onClick={() => handleTestCall(queue)} className="text-slate-600 hover:text-slate-900"><PhoneIcon className="w-4 h-4 inline-block -mt-1"/> Appel test</button>}
+                                            {canEdit && <button onClick={() => handleEdit(queue)} className="text-indigo-600 hover:text-indigo-900"><EditIcon className="w-4 h-4 inline-block -mt-1"/> Modifier</button>}
+                                            {canEdit && <button onClick={() => handleDelete(queue)} className="text-red-600 hover:text-red-900"><TrashIcon className="w-4 h-4 inline-block -mt-1"/> Supprimer</button>}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                    {acdQueues.length === 0 && <p className="text-center py-8 text-slate-500">Aucune file d'attente configurée.</p>}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AcdQueueManager;
@@ -1,10 +1,11 @@
 import React from 'react';
-import type { AgentState, User } from '../types.ts';
+import type { AgentState, SupervisorActionType } from '../types.ts';
 import { MicrophoneIcon, PhoneArrowUpRightIcon, AcademicCapIcon, PauseIcon, TrashIcon } from './Icons.tsx';
 
 interface AgentBoardProps {
     agents: AgentState[];
-    currentUser: User;
+    canIntervene: boolean; // 'supervision.barge' permission
+    onSupervisorAction: (action: SupervisorActionType, agent: AgentState) => void;
 }
 
 const STATUS_CONFIG: { [key in AgentState['status']]: { label: string; color: string } } = {
@@ -20,17 +21,11 @@ const formatDuration = (seconds: number) => {
     return `${m}:${s}`;
 };
 
-const AgentBoard: React.FC<AgentBoardProps> = ({ agents, currentUser }) => {
-    
-    const hasPermission = currentUser.role === 'Administrateur' || currentUser.role === 'Superviseur';
+const AgentBoard: React.FC<AgentBoardProps> = ({ agents, canIntervene, onSupervisorAction }) => {
 
-    const handleAction = (action: string, agentName: string) => {
-        alert(`Action (simulation): ${action} sur l'agent ${agentName}`);
-    };
-
-    const handleForceLogout = (agentName: string) => {
-        if (window.confirm(`Êtes-vous sûr de vouloir déconnecter de force l'agent ${agentName} ?`)) {
-            alert(`Action (simulation): Déconnexion forcée de l'agent ${agentName}`);
+    const handleForceLogout = (agent: AgentState) => {
+        if (window.confirm(`Êtes-vous sûr de vouloir déconnecter de force l'agent ${agent.firstName} ${agent.lastName} ?`)) {
+            onSupervisorAction('forceLogout', agent);
         }
     };
 
@@ -50,8 +45,8 @@ const AgentBoard: React.FC<AgentBoardProps> = ({ agents, currentUser }) => {
                 <tbody className="bg-white divide-y divide-slate-200 text-sm">
                     {agents.map(agent => {
                         const agentFullName = `${agent.firstName} ${agent.lastName}`;
-                        const canCoach = hasPermission && agent.status === 'En Appel';
-                        const canForcePause = hasPermission && agent.status !== 'En Pause';
+                        const canCoach = canIntervene && agent.status === 'En Appel';
+                        const canForcePause = canIntervene && agent.status !== 'En Pause';
                         return (
                         <tr key={agent.id}>
                             <td className="px-4 py-3 font-medium text-slate-800">{agentFullName}</td>
@@ -64,11 +59,11 @@ const AgentBoard: React.FC<AgentBoardProps> = ({ agents, currentUser }) => {
                             <td className="px-4 py-3 text-slate-600">{agent.callsHandledToday}</td>
                             <td className="px-4 py-3 text-slate-600 font-mono">{formatDuration(agent.averageHandlingTime)}</td>
                             <td className="px-4 py-3 text-center space-x-1">
-                                <button onClick={() => handleAction('Écoute', agentFullName)} disabled={!canCoach} title="Écouter (Whisper)" className="p-1 rounded-md text-slate-500 hover:bg-slate-100 disabled:text-slate-300 disabled:cursor-not-allowed"><MicrophoneIcon className="w-4 h-4"/></button>
-                                <button onClick={() => handleAction('Intervention', agentFullName)} disabled={!canCoach} title="Intervenir (Barge)" className="p-1 rounded-md text-slate-500 hover:bg-slate-100 disabled:text-slate-300 disabled:cursor-not-allowed"><PhoneArrowUpRightIcon className="w-4 h-4"/></button>
-                                <button onClick={() => handleAction('Coaching', agentFullName)} disabled={!canCoach} title="Coacher" className="p-1 rounded-md text-slate-500 hover:bg-slate-100 disabled:text-slate-300 disabled:cursor-not-allowed"><AcademicCapIcon className="w-4 h-4"/></button>
-                                <button onClick={() => handleAction('Forcer Pause', agentFullName)} disabled={!canForcePause} title="Forcer la Pause" className="p-1 rounded-md text-slate-500 hover:bg-slate-100 disabled:text-slate-300 disabled:cursor-not-allowed"><PauseIcon className="w-4 h-4"/></button>
-                                <button onClick={() => handleForceLogout(agentFullName)} disabled={!hasPermission} title="Forcer la Déconnexion" className="p-1 rounded-md text-red-500 hover:bg-red-100 disabled:text-red-200 disabled:cursor-not-allowed"><TrashIcon className="w-4 h-4"/></button>
+                                <button onClick={() => onSupervisorAction('listen', agent)} disabled={!canCoach} title="Écouter (sans être entendu)" className="p-1 rounded-md text-slate-500 hover:bg-slate-100 disabled:text-slate-300 disabled:cursor-not-allowed"><MicrophoneIcon className="w-4 h-4"/></button>
+                                <button onClick={() => onSupervisorAction('whisper', agent)} disabled={!canCoach} title="Coacher (seul l'agent vous entend)" className="p-1 rounded-md text-slate-500 hover:bg-slate-100 disabled:text-slate-300 disabled:cursor-not-allowed"><AcademicCapIcon className="w-4 h-4"/></button>
+                                <button onClick={() => onSupervisorAction('barge', agent)} disabled={!canCoach} title="Intervenir (l'agent et le contact vous entendent)" className="p-1 rounded-md text-slate-500 hover:bg-slate-100 disabled:text-slate-300 disabled:cursor-not-allowed"><PhoneArrowUpRightIcon className="w-4 h-4"/></button>
+                                <button onClick={() => onSupervisorAction('forcePause', agent)} disabled={!canForcePause} title="Forcer la Pause" className="p-1 rounded-md text-slate-500 hover:bg-slate-100 disabled:text-slate-300 disabled:cursor-not-allowed"><PauseIcon className="w-4 h-4"/></button>
+                                <button onClick={() => handleForceLogout(agent)} disabled={!canIntervene} title="Forcer la Déconnexion" className="p-1 rounded-md text-red-500 hover:bg-red-100 disabled:text-red-200 disabled:cursor-not-allowed"><TrashIcon className="w-4 h-4"/></button>
                             </td>
                         </tr>
                         )
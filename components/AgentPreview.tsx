@@ -1,12 +1,18 @@
 import React, { useState, useEffect } from 'react';
 // Fix: added .ts extension to import path
-import type { SavedScript, ScriptBlock, DisplayCondition, Page, ButtonAction } from '../types.ts';
+import type { SavedScript, ScriptBlock, DisplayCondition, Page, ButtonAction, CallDataValue, Contact, Campaign } from '../types.ts';
 // Fix: added .tsx extension to import path
 import { UserCircleIcon } from './Icons.tsx';
+import { buildInitialFormValues, interpolatePlaceholders } from '../services/scriptBinding.ts';
 
 interface AgentPreviewProps {
   script: SavedScript;
   onClose: () => void;
+  // When provided (live call), the 'save' action hands the answers over instead of simulating.
+  onSave?: (values: Record<string, CallDataValue>) => void;
+  // Live call data used to pre-fill bound fields and resolve {{placeholders}}.
+  contact?: Contact | null;
+  campaign?: Campaign | null;
 }
 
 const checkCondition = (condition: DisplayCondition | null, values: Record<string, any>): boolean => {
@@ -18,9 +24,11 @@ const checkCondition = (condition: DisplayCondition | null, values: Record<strin
     return targetValue === condition.value;
 };
 
-const AgentPreview: React.FC<AgentPreviewProps> = ({ script, onClose }) => {
-  const [formValues, setFormValues] = useState<Record<string, any>>({});
+const AgentPreview: React.FC<AgentPreviewProps> = ({ script, onClose, onSave, contact = null, campaign = null }) => {
+  const bindingContext = { contact, campaign };
+  const [formValues, setFormValues] = useState<Record<string, any>>(() => buildInitialFormValues(script, bindingContext));
   const [currentPageId, setCurrentPageId] = useState<string>(script.startPageId);
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
 
   const handleValueChange = (name: string, value: any) => {
       setFormValues(prev => ({ ...prev, [name]: value }));
@@ -40,7 +48,12 @@ const AgentPreview: React.FC<AgentPreviewProps> = ({ script, onClose }) => {
   const handleButtonClick = (action: ButtonAction) => {
     switch(action.type) {
         case 'save':
-            alert('Données enregistrées (simulation):\n' + JSON.stringify(formValues, null, 2));
+            if (onSave) {
+                onSave(formValues);
+                setLastSavedAt(new Date());
+            } else {
+                alert('Données enregistrées (simulation):\n' + JSON.stringify(formValues, null, 2));
+            }
             break;
         case 'navigate':
             if (action.pageId) setCurrentPageId(action.pageId);
@@ -83,16 +96,17 @@ const AgentPreview: React.FC<AgentPreviewProps> = ({ script, onClose }) => {
 
     switch (block.type) {
         case 'label':
-            return <div {...commonContainerProps}><p className="font-bold text-lg whitespace-pre-wrap break-words">{block.content.text}</p></div>;
+            return <div {...commonContainerProps}><p className="font-bold text-lg whitespace-pre-wrap break-words">{interpolatePlaceholders(block.content.text, bindingContext)}</p></div>;
         case 'text':
-            return <div {...commonContainerProps}><p className="whitespace-pre-wrap break-words">{block.content.text}</p></div>;
+            return <div {...commonContainerProps}><p className="whitespace-pre-wrap break-words">{interpolatePlaceholders(block.content.text, bindingContext)}</p></div>;
         case 'input':
             return (
                 <div {...commonContainerProps}>
-                    <label className="block font-semibold mb-1">{block.content.label}</label>
+                    <label className="block font-semibold mb-1">{interpolatePlaceholders(block.content.label, bindingContext)}</label>
                     <input
                         type={block.content.format || 'text'}
                         placeholder={block.content.placeholder}
+                        value={formValues[block.name] ?? ''}
                         style={commonInputStyles}
                         className="w-full p-2 border rounded-md border-slate-300"
                         onChange={e => handleValueChange(block.name, e.target.value)}
@@ -102,7 +116,7 @@ const AgentPreview: React.FC<AgentPreviewProps> = ({ script, onClose }) => {
         case 'radio':
             return (
                 <div {...commonContainerProps}>
-                    <p className="font-semibold mb-2">{block.content.question}</p>
+                    <p className="font-semibold mb-2">{interpolatePlaceholders(block.content.question, bindingContext)}</p>
                     <div className="space-y-1">
                         {block.content.options.map((opt: string) => (
                             <label key={opt} className="flex items-center">
@@ -116,7 +130,7 @@ const AgentPreview: React.FC<AgentPreviewProps> = ({ script, onClose }) => {
         case 'checkbox':
             return (
                 <div {...commonContainerProps}>
-                    <p className="font-semibold mb-2">{block.content.question}</p>
+                    <p className="font-semibold mb-2">{interpolatePlaceholders(block.content.question, bindingContext)}</p>
                     <div className="space-y-1">
                         {block.content.options.map((opt: string) => (
                             <label key={opt} className="flex items-center">
@@ -130,7 +144,7 @@ const AgentPreview: React.FC<AgentPreviewProps> = ({ script, onClose }) => {
         case 'dropdown':
              return (
                 <div {...commonContainerProps}>
-                    <label className="block font-semibold mb-1">{block.content.label}</label>
+                    <label className="block font-semibold mb-1">{interpolatePlaceholders(block.content.label, bindingContext)}</label>
                     <select
                         style={commonInputStyles}
                         className="w-full p-2 border rounded-md border-slate-300"
@@ -144,7 +158,7 @@ const AgentPreview: React.FC<AgentPreviewProps> = ({ script, onClose }) => {
         case 'date':
             return (
                 <div {...commonContainerProps}>
-                    <label className="block font-semibold mb-1">{block.content.label}</label>
+                    <label className="block font-semibold mb-1">{interpolatePlaceholders(block.content.label, bindingContext)}</label>
                     <input
                         type="date"
                         style={commonInputStyles}
@@ -156,10 +170,11 @@ const AgentPreview: React.FC<AgentPreviewProps> = ({ script, onClose }) => {
         case 'phone':
              return (
                 <div {...commonContainerProps}>
-                    <label className="block font-semibold mb-1">{block.content.label}</label>
+                    <label className="block font-semibold mb-1">{interpolatePlaceholders(block.content.label, bindingContext)}</label>
                     <input
                         type="tel"
                         placeholder={block.content.placeholder}
+                        value={formValues[block.name] ?? ''}
                         style={commonInputStyles}
                         className="w-full p-2 border rounded-md border-slate-300"
                         onChange={e => handleValueChange(block.name, e.target.value)}
@@ -175,10 +190,11 @@ const AgentPreview: React.FC<AgentPreviewProps> = ({ script, onClose }) => {
         case 'email':
             return (
                 <div {...commonContainerProps}>
-                    <label className="block font-semibold mb-1">{block.content.label}</label>
+                    <label className="block font-semibold mb-1">{interpolatePlaceholders(block.content.label, bindingContext)}</label>
                     <input
                         type="email"
                         placeholder={block.content.placeholder}
+                        value={formValues[block.name] ?? ''}
                         style={commonInputStyles}
                         className="w-full p-2 border rounded-md border-slate-300"
                         onChange={e => handleValueChange(block.name, e.target.value)}
@@ -188,7 +204,7 @@ const AgentPreview: React.FC<AgentPreviewProps> = ({ script, onClose }) => {
         case 'time':
             return (
                 <div {...commonContainerProps}>
-                    <label className="block font-semibold mb-1">{block.content.label}</label>
+                    <label className="block font-semibold mb-1">{interpolatePlaceholders(block.content.label, bindingContext)}</label>
                     <input
                         type="time"
                         style={commonInputStyles}
@@ -205,7 +221,7 @@ const AgentPreview: React.FC<AgentPreviewProps> = ({ script, onClose }) => {
                         className="w-full p-2 border rounded-md font-semibold hover:opacity-80 transition-opacity"
                         onClick={() => handleButtonClick(block.content.action)}
                     >
-                        {block.content.text}
+                        {interpolatePlaceholders(block.content.text, bindingContext)}
                     </button>
                 </div>
             );
@@ -224,6 +240,7 @@ const AgentPreview: React.FC<AgentPreviewProps> = ({ script, onClose }) => {
             <h2 className="text-xl font-bold text-slate-800">Prévisualisation Agent - {script.name}</h2>
             <p className="text-sm text-slate-500">Page Actuelle: {currentPage?.name}</p>
           </div>
+          {lastSavedAt && <p className="text-sm text-green-700 font-medium">Réponses enregistrées à {lastSavedAt.toLocaleTimeString('fr-FR')}</p>}
           <button onClick={onClose} className="bg-slate-100 text-slate-800 font-bold py-2 px-4 rounded-lg hover:bg-slate-200">
             Retour à l'éditeur
           </button>
@@ -235,13 +252,29 @@ const AgentPreview: React.FC<AgentPreviewProps> = ({ script, onClose }) => {
             <div className="space-y-3 text-sm">
                 <div className="flex items-center space-x-3">
                     <UserCircleIcon className="w-10 h-10 text-slate-400 flex-shrink-0" />
-                    <div>
-                        <p className="font-bold text-slate-900">Exemple Client</p>
-                        <p className="text-slate-600">+33 6 12 34 56 78</p>
-                    </div>
+                    {contact ? (
+                        <div>
+                            <p className="font-bold text-slate-900">{contact.firstName} {contact.lastName}</p>
+                            <p className="text-slate-600">{contact.phoneNumber}</p>
+                        </div>
+                    ) : (
+                        <div>
+                            <p className="font-bold text-slate-900">Exemple Client</p>
+                            <p className="text-slate-600">+33 6 12 34 56 78</p>
+                        </div>
+                    )}
                 </div>
-                 <p><span className="font-semibold">Email:</span> client.exemple@email.com</p>
-                 <p><span className="font-semibold">Société:</span> Acme Corp</p>
+                {contact ? (
+                    <>
+                        <p><span className="font-semibold">Code Postal:</span> {contact.postalCode}</p>
+                        {campaign && <p><span className="font-semibold">Campagne:</span> {campaign.name}</p>}
+                    </>
+                ) : (
+                    <>
+                        <p><span className="font-semibold">Email:</span> client.exemple@email.com</p>
+                        <p><span className="font-semibold">Société:</span> Acme Corp</p>
+                    </>
+                )}
             </div>
           </div>
 
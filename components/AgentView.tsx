@@ -1,7 +1,22 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
-import type { User, Campaign, SavedScript, Contact } from '../types.ts';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import type { User, Campaign, SavedScript, Contact, ContactCallback, PreviewDecision, PreviewDecisionRecord, PublicHoliday, Qualification, DncEntry, CallHistoryRecord, CallData, CallDataValue, AgentStatus, CampaignRunStatus } from '../types.ts';
+import type { AcdCallStatus } from '../services/apiContract.ts';
+import type { ApiRequestError } from '../services/apiClient.ts';
+import type { RealtimeConnection } from '../services/realtimeClient.ts';
+import type { CallOfferMessage } from '../services/realtimeEvents.ts';
 import AgentPreview from './AgentPreview.tsx';
+import WrapUpPanel from './WrapUpPanel.tsx';
+import ManualDialPanel from './ManualDialPanel.tsx';
+import PreviewDialPanel from './PreviewDialPanel.tsx';
+import type { WrapUpResult } from './WrapUpPanel.tsx';
+import { checkCallingWindow } from '../services/callingWindow.ts';
+import { buildDncEntries } from '../services/dnc.ts';
+import { allowsManualDial, checkManualDial, findContactByNumber } from '../services/manualDial.ts';
+import { CALLBACK_SCOPE_LABELS, canServeCallback, isCallbackDue, listCallbacks } from '../services/callbacks.ts';
+import { CAMPAIGN_RUN_STATUS_LABELS, getCampaignRunStatus } from '../services/campaignLifecycle.ts';
+import { DEFAULT_PREVIEW_COUNTDOWN, hasPreviewStep } from '../services/preview.ts';
+import { isDialerDriven } from '../services/dialer.ts';
 // Fix: Added PauseIcon which was missing from Icons.tsx. It is now added there.
 import { PhoneIcon, PauseIcon, PlayIcon, UserCircleIcon, PhoneXMarkIcon } from './Icons.tsx';
 
@@ -15,27 +30,92 @@ const CTI_STATUS_CONFIG: { [key in AgentCtiStatus]: { text: string; color: strin
     PAUSED: { text: 'En pause', color: 'bg-orange-500' },
 };
 
+// Shown instead of WAITING while an inbound call rings; supervisors still see the agent waiting.
+const RINGING_STATUS_CONFIG = { text: 'Appel entrant', color: 'bg-green-500 animate-pulse' };
+
+// Status shown to the supervisors (see SupervisionDashboard).
+const SUPERVISION_STATUS: { [key in Exclude<AgentCtiStatus, 'LOGGED_OUT'>]: AgentStatus } = {
+    WAITING: 'En Attente',
+    IN_CALL: 'En Appel',
+    WRAP_UP: 'En Post-Appel',
+    PAUSED: 'En Pause',
+};
+
 interface AgentViewProps {
     agent: User;
     campaigns: Campaign[];
     savedScripts: SavedScript[];
+    publicHolidays: PublicHoliday[];
+    qualifications: Qualification[];
+    dncEntries: DncEntry[];
+    // Next contact of the campaign, reserved to the agent by the API; null when none is left.
+    onPickNextContact: (campaignId: string, excludedContactIds: string[]) => Promise<Contact | null>;
+    // The callback promised during the call, if any, is scheduled with the call's outcome.
+    onRecordCall: (record: CallHistoryRecord, callback?: ContactCallback) => void;
+    onAddDncEntries: (entries: DncEntry[]) => void;
+    onSaveCallData: (callData: CallData) => void;
+    onRecordPreviewDecision: (record: PreviewDecisionRecord) => void;
+    onAnswerInboundCall: (callId: string) => Promise<AcdCallStatus>;
+    onRejectInboundCall: (callId: string) => Promise<AcdCallStatus>;
     onLogout: () => void;
+    realtime: RealtimeConnection | null;
 }
 
-const AgentView: React.FC<AgentViewProps> = ({ agent, campaigns, savedScripts, onLogout }) => {
+type InboundCallOffer = Extract<CallOfferMessage, { type: 'call.offered' }>;
+
+const AgentView: React.FC<AgentViewProps> = ({ agent, campaigns, savedScripts, publicHolidays, qualifications, dncEntries, onPickNextContact, onRecordCall, onAddDncEntries, onSaveCallData, onRecordPreviewDecision, onAnswerInboundCall, onRejectInboundCall, onLogout, realtime }) => {
     const [ctiStatus, setCtiStatus] = useState<AgentCtiStatus>('LOGGED_OUT');
     const [statusTimer, setStatusTimer] = useState(0);
     const [currentContact, setCurrentContact] = useState<Contact | null>(null);
+    // Number typed on the dial pad that matches no contact of the campaign.
+    const [dialedNumber, setDialedNumber] = useState<string | null>(null);
+    const [callDuration, setCallDuration] = useState(0);
+    const [currentCallId, setCurrentCallId] = useState<string | null>(null);
+    // Pause forced by a supervisor during a call, applied once the call is qualified.
+    const [isPauseRequested, setIsPauseRequested] = useState(false);
+    const [supervisorNotice, setSupervisorNotice] = useState<string | null>(null);
+    // Inbound call offered by the ACD while waiting, then the inbound call in progress.
+    const [callOffer, setCallOffer] = useState<InboundCallOffer | null>(null);
+    const [inboundCall, setInboundCall] = useState<InboundCallOffer | null>(null);
+    // Contact previewed before the call (progressive campaigns with a preview step).
+    const [previewContact, setPreviewContact] = useState<Contact | null>(null);
+    // Contacts skipped during this session, not previewed again to the agent.
+    const [skippedContactIds, setSkippedContactIds] = useState<string[]>([]);
 
     const agentCampaign = useMemo(() => {
         return campaigns.find(c => c.id === agent.campaignIds[0] && c.isActive);
     }, [agent, campaigns]);
 
+    // Pushed when a supervisor pauses or stops the campaign; the saved status until then.
+    const [liveRunStatus, setLiveRunStatus] = useState<CampaignRunStatus | null>(null);
+    const agentCampaignId = agentCampaign?.id;
+    useEffect(() => {
+        if (!realtime || !agentCampaignId) return;
+        return realtime.subscribe(snapshot => {
+            setLiveRunStatus(snapshot.campaigns.find(c => c.id === agentCampaignId)?.status ?? null);
+        });
+    }, [realtime, agentCampaignId]);
+    // The current call goes on to wrap-up, only the next call is blocked.
+    const runStatus = agentCampaign ? liveRunStatus ?? getCampaignRunStatus(agentCampaign) : 'stopped';
+
     const agentScript = useMemo(() => {
         if (!agentCampaign) return null;
         return savedScripts.find(s => s.id === agentCampaign.scriptId);
     }, [agentCampaign, savedScripts]);
 
+    // Script of the queue or of the DID, popped once the inbound call is answered.
+    const inboundScript = useMemo(() => {
+        if (!inboundCall?.scriptId) return null;
+        return savedScripts.find(s => s.id === inboundCall.scriptId);
+    }, [inboundCall, savedScripts]);
+
+    // Inbound calls are outside any campaign: only the standard qualifications apply.
+    const campaignQualifications = useMemo(() => {
+        if (inboundCall) return qualifications.filter(q => q.isStandard);
+        if (!agentCampaign) return [];
+        return qualifications.filter(q => q.isStandard || (agentCampaign.qualificationGroupId !== null && q.groupId === agentCampaign.qualificationGroupId));
+    }, [agentCampaign, qualifications, inboundCall]);
+
     // Fix: Correctly handle interval creation and cleanup for the status timer.
     useEffect(() => {
         if (ctiStatus === 'LOGGED_OUT') {
@@ -52,6 +132,71 @@ const AgentView: React.FC<AgentViewProps> = ({ agent, campaigns, savedScripts, o
         return () => clearInterval(intervalId);
     }, [ctiStatus]);
     
+    useEffect(() => {
+        if (!realtime) return;
+        const at = new Date().toISOString();
+        realtime.publish(ctiStatus === 'LOGGED_OUT'
+            ? { type: 'agent.loggedOut', agentId: agent.id, at }
+            : { type: 'agent.status', agentId: agent.id, status: SUPERVISION_STATUS[ctiStatus], at });
+    }, [ctiStatus, realtime, agent.id]);
+
+    // Force pause / force logout sent by a supervisor (see SupervisionDashboard).
+    useEffect(() => {
+        if (!realtime) return;
+        return realtime.onCommand(command => {
+            if (command.command === 'pause') {
+                if (ctiStatus === 'WAITING') {
+                    setCtiStatus('PAUSED');
+                    setPreviewContact(null);
+                    setStatusTimer(0);
+                    setSupervisorNotice(`${command.by} vous a mis en pause.`);
+                } else if (ctiStatus === 'IN_CALL' || ctiStatus === 'WRAP_UP') {
+                    setIsPauseRequested(true);
+                    setSupervisorNotice(`${command.by} a demandé votre mise en pause : elle s'appliquera après la qualification de l'appel en cours.`);
+                }
+                return;
+            }
+            if (currentCallId && ctiStatus === 'IN_CALL') {
+                realtime.publish({ type: 'call.ended', callId: currentCallId, at: new Date().toISOString() });
+            }
+            setCtiStatus('LOGGED_OUT');
+            setCurrentContact(null);
+            setPreviewContact(null);
+            setDialedNumber(null);
+            setInboundCall(null);
+            setCallOffer(null);
+            setCurrentCallId(null);
+            setCallDuration(0);
+            setIsPauseRequested(false);
+            setSupervisorNotice(`${command.by} a fermé votre session d'appels.`);
+        });
+    }, [realtime, ctiStatus, currentCallId]);
+
+    // The ACD offers inbound calls while the agent waits (see server/acd.ts).
+    useEffect(() => {
+        if (!realtime) return;
+        return realtime.onCallOffer(message => {
+            if (message.type === 'call.offered') {
+                setCallOffer(message);
+            } else {
+                setCallOffer(prev => prev?.call.id === message.callId ? null : prev);
+            }
+        });
+    }, [realtime]);
+
+    // Progressive and predictive campaigns: the dialer connects answered calls (see server/dialing.ts).
+    useEffect(() => {
+        if (!realtime) return;
+        return realtime.onDialerCall(message => {
+            setCurrentContact(message.contact);
+            setPreviewContact(null);
+            setDialedNumber(null);
+            setCurrentCallId(message.call.id);
+            setCtiStatus('IN_CALL');
+            setStatusTimer(0);
+        });
+    }, [realtime]);
+
     const formatDuration = (seconds: number) => {
         const h = Math.floor(seconds / 3600).toString().padStart(2, '0');
         const m = Math.floor((seconds % 3600) / 60).toString().padStart(2, '0');
@@ -60,44 +205,233 @@ const AgentView: React.FC<AgentViewProps> = ({ agent, campaigns, savedScripts, o
     };
     
     const handleLoginClick = () => {
+        setSupervisorNotice(null);
+        setSkippedContactIds([]);
         setCtiStatus('WAITING');
         setStatusTimer(0);
     };
 
-    const handleNextCall = () => {
+    const startCall = (campaign: Campaign, contact: Contact | null, phoneNumber: string) => {
+        const callId = `call-${Date.now()}`;
+        realtime?.publish({ type: 'call.started', call: {
+            id: callId,
+            from: campaign.callerId,
+            to: phoneNumber,
+            agentId: agent.id,
+            campaignId: campaign.id,
+            status: 'active',
+            startedAt: new Date().toISOString(),
+        } });
+        setCurrentContact(contact);
+        setPreviewContact(null);
+        setDialedNumber(contact ? null : phoneNumber);
+        setCurrentCallId(callId);
+        setCtiStatus('IN_CALL');
+        setStatusTimer(0);
+    };
+
+    // With a preview step the contact is shown to the agent first, leaving out `excludedContactIds`.
+    const handleNextCall = (excludedContactIds: string[] = []) => {
+        if (!agentCampaign || runStatus !== 'running') return;
+        const callingWindow = checkCallingWindow(agentCampaign, publicHolidays);
+        if (!callingWindow.allowed) {
+            alert(callingWindow.message);
+            return;
+        }
+        const campaign = agentCampaign;
+        const withPreview = hasPreviewStep(campaign);
+        const excluded = withPreview ? [...skippedContactIds, ...excludedContactIds] : [];
+        onPickNextContact(campaign.id, excluded)
+            .then(nextContact => {
+                if (nextContact && withPreview) {
+                    setPreviewContact(nextContact);
+                } else if (nextContact) {
+                    startCall(campaign, nextContact, nextContact.phoneNumber);
+                } else {
+                    setPreviewContact(null);
+                    alert("Plus de contacts à appeler dans cette campagne.");
+                    setCtiStatus('WAITING');
+                }
+            })
+            .catch((err: ApiRequestError) => {
+                // Checked again by the server, on its own clock.
+                if (err.code === 'OUTSIDE_CALLING_WINDOW') alert("Appels interdits à cette heure pour cette campagne (plage horaire, jour ou jour férié).");
+                else alert(`Le prochain contact n'a pas pu être obtenu : ${err.message}`);
+            });
+    };
+
+    // The decision is logged, then the next contact is previewed.
+    const handlePreviewDecision = (contact: Contact, decision: PreviewDecision, reason: string, comment: string) => {
         if (!agentCampaign) return;
-        const nextContact = agentCampaign.contacts.find(c => c.status === 'pending');
-        if (nextContact) {
-            setCurrentContact(nextContact);
-            setCtiStatus('IN_CALL');
-            setStatusTimer(0);
-        } else {
-            alert("Plus de contacts à appeler dans cette campagne.");
-            setCtiStatus('WAITING');
+        onRecordPreviewDecision({
+            id: `preview-${Date.now()}`,
+            timestamp: new Date().toISOString(),
+            agentId: agent.id,
+            campaignId: agentCampaign.id,
+            contactId: contact.id,
+            decision,
+            reason,
+            comment,
+        });
+        if (decision === 'skip') setSkippedContactIds(prev => [...prev, contact.id]);
+        handleNextCall([contact.id]);
+    };
+
+    // Callbacks the agent may serve: their own and those of the whole campaign.
+    const agentCallbacks = useMemo(() => agentCampaign
+        ? listCallbacks([agentCampaign]).filter(({ contact }) => canServeCallback(contact.callback, agent.id))
+        : [], [agentCampaign, agent.id]);
+
+    // Contacts picked by the agent: a callback served ahead of its time or a search result.
+    const handleDialContact = (contact: Contact) => {
+        if (!agentCampaign || runStatus !== 'running') return;
+        const error = checkManualDial(contact.phoneNumber, agentCampaign, dncEntries, publicHolidays);
+        if (error) {
+            alert(error);
+            return;
         }
+        startCall(agentCampaign, contact, contact.phoneNumber);
+    };
+
+    // A dialed number of a known contact is recorded against the contact.
+    const handleDialNumber = (phoneNumber: string) => {
+        if (!agentCampaign || runStatus !== 'running') return;
+        const contact = findContactByNumber(agentCampaign.contacts, phoneNumber);
+        startCall(agentCampaign, contact ?? null, contact?.phoneNumber ?? phoneNumber);
     };
+
+    const checkCallbackTime = useCallback((scheduledAt: Date) => {
+        if (!agentCampaign) return null;
+        const callingWindow = checkCallingWindow(agentCampaign, publicHolidays, scheduledAt);
+        return callingWindow.allowed ? null : `Rappel impossible à cette date. ${callingWindow.message}`;
+    }, [agentCampaign, publicHolidays]);
     
+    const handleAnswerOffer = () => {
+        if (!callOffer) return;
+        const offer = callOffer;
+        setCallOffer(null);
+        onAnswerInboundCall(offer.call.id)
+            .then(() => {
+                setInboundCall(offer);
+                setPreviewContact(null);
+                setCurrentCallId(offer.call.id);
+                setCtiStatus('IN_CALL');
+                setStatusTimer(0);
+            })
+            .catch(err => alert(`L'appel n'est plus disponible : ${err.message}`));
+    };
+
+    // The call goes back to its queue for another agent. An offer that is already
+    // gone (rung out, caller hung up) needs nothing more.
+    const handleRejectOffer = () => {
+        if (!callOffer) return;
+        setCallOffer(null);
+        onRejectInboundCall(callOffer.call.id).catch(() => {});
+    };
+
+    useEffect(() => {
+        if (callOffer && agent.autoAnswer && ctiStatus === 'WAITING') handleAnswerOffer();
+    }, [callOffer]);
+
     const handleEndCall = () => {
+        if (currentCallId) realtime?.publish({ type: 'call.ended', callId: currentCallId, at: new Date().toISOString() });
+        setCallDuration(statusTimer);
         setCtiStatus('WRAP_UP');
         setStatusTimer(0);
-        // After 10 seconds of wrap-up, go back to waiting
-        setTimeout(() => {
-            setCtiStatus('WAITING');
-            setCurrentContact(null);
-            setStatusTimer(0);
-        }, 10000);
+    };
+
+    const handleSaveScriptData = (values: Record<string, CallDataValue>) => {
+        if (currentCallId && inboundCall && inboundScript) {
+            onSaveCallData({
+                callId: currentCallId,
+                contactId: null,
+                campaignId: null,
+                agentId: agent.id,
+                scriptId: inboundScript.id,
+                scriptVersion: inboundScript.version,
+                savedAt: new Date().toISOString(),
+                values,
+            });
+            return;
+        }
+        if (!currentCallId || !(currentContact || dialedNumber) || !agentCampaign || !agentScript) return;
+        onSaveCallData({
+            callId: currentCallId,
+            contactId: currentContact?.id ?? null,
+            campaignId: agentCampaign.id,
+            agentId: agent.id,
+            scriptId: agentScript.id,
+            scriptVersion: agentScript.version,
+            savedAt: new Date().toISOString(),
+            values,
+        });
+    };
+
+    // The agent stays in wrap-up until the call has been qualified.
+    const handleQualify = ({ qualificationId, doNotCall, callback }: WrapUpResult) => {
+        const calledNumber = inboundCall ? inboundCall.call.from : currentContact?.phoneNumber ?? dialedNumber;
+        if (doNotCall && calledNumber) {
+            const campaignId = doNotCall === 'campaign' && agentCampaign ? agentCampaign.id : null;
+            const entries = buildDncEntries([calledNumber], campaignId, dncEntries, 'agent', agent.id);
+            if (entries.length > 0) onAddDncEntries(entries);
+        }
+        if (currentCallId && inboundCall) {
+            onRecordCall({
+                id: currentCallId,
+                timestamp: new Date(Date.now() - (callDuration + statusTimer) * 1000).toISOString(),
+                direction: 'inbound',
+                agentId: agent.id,
+                campaignId: null,
+                callerNumber: inboundCall.call.from,
+                did: inboundCall.call.to,
+                duration: callDuration,
+                qualificationId,
+            });
+        } else if (currentCallId && (currentContact || dialedNumber) && agentCampaign) {
+            onRecordCall({
+                id: currentCallId,
+                timestamp: new Date(Date.now() - (callDuration + statusTimer) * 1000).toISOString(),
+                direction: 'outbound',
+                agentId: agent.id,
+                campaignId: agentCampaign.id,
+                contactId: currentContact?.id,
+                callerNumber: currentContact?.phoneNumber ?? dialedNumber as string,
+                did: agentCampaign.callerId || null,
+                duration: callDuration,
+                qualificationId,
+            }, callback && currentContact ? {
+                scheduledAt: callback.scheduledAt.toISOString(),
+                scope: callback.scope,
+                agentId: agent.id,
+                createdAt: new Date().toISOString(),
+            } : undefined);
+        } else {
+            return;
+        }
+        setCtiStatus(isPauseRequested ? 'PAUSED' : 'WAITING');
+        setIsPauseRequested(false);
+        setCurrentContact(null);
+        setDialedNumber(null);
+        setInboundCall(null);
+        setCurrentCallId(null);
+        setCallDuration(0);
+        setStatusTimer(0);
     };
 
     const handlePause = () => {
+        setPreviewContact(null);
         setCtiStatus('PAUSED');
         setStatusTimer(0);
     };
     
     const handleResume = () => {
+        setSupervisorNotice(null);
         setCtiStatus('WAITING');
         setStatusTimer(0);
     };
 
+    const displayedStatus = ctiStatus === 'WAITING' && callOffer ? RINGING_STATUS_CONFIG : CTI_STATUS_CONFIG[ctiStatus];
+
     return (
         <div className="h-screen w-screen flex flex-col bg-slate-100 font-sans">
             <header className="bg-white shadow-md p-3 flex justify-between items-center z-10 flex-shrink-0">
@@ -112,15 +446,34 @@ const AgentView: React.FC<AgentViewProps> = ({ agent, campaigns, savedScripts, o
                     Déconnexion
                 </button>
             </header>
+
+            {supervisorNotice && (
+                <div className="bg-amber-50 border-b border-amber-200 px-4 py-2 flex justify-between items-center text-sm text-amber-800">
+                    <span><span className="font-semibold">Superviseur :</span> {supervisorNotice}</span>
+                    <button onClick={() => setSupervisorNotice(null)} className="font-semibold hover:text-amber-900">Fermer</button>
+                </div>
+            )}
             
             <main className="flex-1 grid grid-cols-12 gap-4 p-4 overflow-hidden">
                 <div className="col-span-3 bg-white rounded-lg p-4 border border-slate-200 flex flex-col">
                     <h2 className="text-xl font-semibold text-slate-800 border-b pb-2 mb-4">Informations</h2>
+                    {inboundCall && ctiStatus === 'IN_CALL' && (
+                        <div className="mb-4">
+                            <h3 className="font-semibold text-slate-600">Appel entrant</h3>
+                            <p className="text-lg text-slate-800 font-bold">{inboundCall.call.from}</p>
+                            <p className="text-sm text-slate-600">Numéro appelé : {inboundCall.call.to}{inboundCall.didDescription && ` · ${inboundCall.didDescription}`}</p>
+                            <p className="text-sm text-slate-500">File : {inboundCall.queueName}</p>
+                            {inboundCall.ivrPath.length > 0 && <p className="text-xs text-slate-500 mt-1">Parcours SVI : {inboundCall.ivrPath.join(' › ')}</p>}
+                        </div>
+                    )}
                     {agentCampaign ? (
                         <div className="space-y-4">
                             <div>
                                 <h3 className="font-semibold text-slate-600">Campagne Actuelle</h3>
                                 <p className="text-lg text-indigo-700 font-bold">{agentCampaign.name}</p>
+                                {runStatus !== 'running' && (
+                                    <p className="mt-1 text-sm font-semibold text-amber-700">Campagne {CAMPAIGN_RUN_STATUS_LABELS[runStatus].toLowerCase()} : aucun nouvel appel.</p>
+                                )}
                             </div>
                              {currentContact && ctiStatus === 'IN_CALL' && (
                                 <div>
@@ -128,8 +481,49 @@ const AgentView: React.FC<AgentViewProps> = ({ agent, campaigns, savedScripts, o
                                     <p className="text-lg text-slate-800 font-bold">{currentContact.firstName} {currentContact.lastName}</p>
                                     <p className="text-md text-slate-600">{currentContact.phoneNumber}</p>
                                     <p className="text-sm text-slate-500">Code Postal: {currentContact.postalCode}</p>
+                                    {currentContact.callback && (
+                                        <p className="mt-1 text-sm font-semibold text-amber-700">
+                                            Rappel {CALLBACK_SCOPE_LABELS[currentContact.callback.scope].toLowerCase()} prévu le {new Date(currentContact.callback.scheduledAt).toLocaleString('fr-FR', { dateStyle: 'short', timeStyle: 'short' })}
+                                        </p>
+                                    )}
+                                </div>
+                             )}
+                             {dialedNumber && ctiStatus === 'IN_CALL' && (
+                                <div>
+                                    <h3 className="font-semibold text-slate-600">Numéro composé</h3>
+                                    <p className="text-lg text-slate-800 font-bold">{dialedNumber}</p>
+                                    <p className="text-sm text-slate-500">Hors fichier de la campagne</p>
                                 </div>
                              )}
+                            <div>
+                                <h3 className="font-semibold text-slate-600">Rappels ({agentCallbacks.length})</h3>
+                                <ul className="mt-2 space-y-2 max-h-64 overflow-y-auto">
+                                    {agentCallbacks.map(({ contact }) => {
+                                        const isDue = isCallbackDue(contact);
+                                        // Due callbacks of progressive and predictive campaigns are dialed by the dialer, ahead of the pending contacts.
+                                        const isDialedByDialer = isDue && isDialerDriven(agentCampaign);
+                                        return (
+                                            <li key={contact.id} className={`p-2 rounded-md border text-sm ${isDue ? 'border-amber-300 bg-amber-50' : 'border-slate-200'}`}>
+                                                <div className="flex justify-between items-center">
+                                                    <span className="font-medium text-slate-800">{contact.firstName} {contact.lastName}</span>
+                                                    <span className="text-xs text-slate-500">{CALLBACK_SCOPE_LABELS[contact.callback.scope]}</span>
+                                                </div>
+                                                <div className="flex justify-between items-center mt-1">
+                                                    <span className={isDue ? 'text-amber-700 font-semibold' : 'text-slate-500'}>
+                                                        {new Date(contact.callback.scheduledAt).toLocaleString('fr-FR', { dateStyle: 'short', timeStyle: 'short' })}
+                                                    </span>
+                                                    {isDialedByDialer ? (
+                                                        <span className="text-xs text-slate-500 italic">Appel automatique</span>
+                                                    ) : ctiStatus === 'WAITING' && !callOffer && runStatus === 'running' && (
+                                                        <button onClick={() => handleDialContact(contact)} className="text-indigo-600 hover:text-indigo-900 font-semibold inline-flex items-center"><PhoneIcon className="w-4 h-4 mr-1"/>Appeler</button>
+                                                    )}
+                                                </div>
+                                            </li>
+                                        );
+                                    })}
+                                </ul>
+                                {agentCallbacks.length === 0 && <p className="mt-2 text-sm text-slate-400 italic">Aucun rappel planifié.</p>}
+                            </div>
                         </div>
                     ) : (
                         <div className="flex-1 flex items-center justify-center">
@@ -138,8 +532,55 @@ const AgentView: React.FC<AgentViewProps> = ({ agent, campaigns, savedScripts, o
                     )}
                 </div>
                 <div className="col-span-9 bg-white rounded-lg border border-slate-200 overflow-hidden relative">
-                    {ctiStatus === 'IN_CALL' && agentScript && currentContact ? (
-                        <AgentPreview script={agentScript} onClose={() => {}} />
+                    {ctiStatus === 'WRAP_UP' && (currentContact || dialedNumber || inboundCall) ? (
+                        <WrapUpPanel
+                            callerLabel={currentContact ? `${currentContact.firstName} ${currentContact.lastName} · ${currentContact.phoneNumber}` : dialedNumber ? `Numéro composé · ${dialedNumber}` : `Appel entrant · ${inboundCall?.call.from}`}
+                            callDuration={callDuration}
+                            qualifications={campaignQualifications}
+                            canScopeToCampaign={!inboundCall}
+                            canScheduleCallback={!!currentContact}
+                            checkCallbackTime={checkCallbackTime}
+                            onSubmit={handleQualify}
+                        />
+                    ) : ctiStatus === 'IN_CALL' && inboundCall && inboundScript ? (
+                        <AgentPreview key={currentCallId} script={inboundScript} onClose={() => {}} onSave={handleSaveScriptData} />
+                    ) : ctiStatus === 'IN_CALL' && agentScript && (currentContact || dialedNumber) ? (
+                        <AgentPreview key={currentCallId} script={agentScript} contact={currentContact} campaign={agentCampaign} onClose={() => {}} onSave={handleSaveScriptData} />
+                    ) : ctiStatus === 'WAITING' && callOffer ? (
+                        <div className="w-full h-full flex items-center justify-center">
+                            <div className="text-center p-8 border-2 border-green-400 bg-green-50 rounded-lg max-w-lg">
+                                <p className="text-sm font-semibold text-green-700 uppercase animate-pulse">Appel entrant · File {callOffer.queueName}</p>
+                                <p className="mt-2 text-3xl font-bold text-slate-800">{callOffer.call.from}</p>
+                                <p className="mt-2 text-slate-600">Numéro appelé : <span className="font-mono">{callOffer.call.to}</span>{callOffer.didDescription && ` · ${callOffer.didDescription}`}</p>
+                                {callOffer.ivrPath.length > 0 && <p className="mt-1 text-sm text-slate-500">Parcours SVI : {callOffer.ivrPath.join(' › ')}</p>}
+                                <p className="mt-2 text-xs text-slate-500">Proposé à un autre agent dans {Math.max(0, Math.ceil((new Date(callOffer.expiresAt).getTime() - Date.now()) / 1000))} s</p>
+                                <div className="mt-6 flex justify-center space-x-3">
+                                    <button onClick={handleAnswerOffer} className="bg-green-600 hover:bg-green-700 text-white font-semibold py-2 px-6 rounded-lg inline-flex items-center"><PhoneIcon className="w-5 h-5 mr-2"/>Accepter</button>
+                                    <button onClick={handleRejectOffer} className="bg-red-600 hover:bg-red-700 text-white font-semibold py-2 px-6 rounded-lg inline-flex items-center"><PhoneXMarkIcon className="w-5 h-5 mr-2"/>Refuser</button>
+                                </div>
+                            </div>
+                        </div>
+                    ) : ctiStatus === 'WAITING' && agentCampaign && previewContact ? (
+                        <PreviewDialPanel
+                            key={previewContact.id}
+                            contact={previewContact}
+                            qualifications={qualifications}
+                            countdown={agentCampaign.previewCountdown ?? DEFAULT_PREVIEW_COUNTDOWN}
+                            warning={checkManualDial(previewContact.phoneNumber, agentCampaign, dncEntries, publicHolidays)}
+                            canDial={runStatus === 'running'}
+                            onDial={handleDialContact}
+                            onDecision={handlePreviewDecision}
+                        />
+                    ) : ctiStatus === 'WAITING' && agentCampaign && allowsManualDial(agentCampaign) ? (
+                        <ManualDialPanel
+                            campaign={agentCampaign}
+                            dncEntries={dncEntries}
+                            publicHolidays={publicHolidays}
+                            qualifications={qualifications}
+                            canDial={runStatus === 'running'}
+                            onDialContact={handleDialContact}
+                            onDialNumber={handleDialNumber}
+                        />
                     ) : (
                         <div className="w-full h-full flex items-center justify-center">
                             <p className="text-2xl text-slate-400">{CTI_STATUS_CONFIG[ctiStatus].text}</p>
@@ -150,8 +591,8 @@ const AgentView: React.FC<AgentViewProps> = ({ agent, campaigns, savedScripts, o
 
             <footer className="bg-slate-800 text-white p-3 flex justify-between items-center flex-shrink-0">
                 <div className="flex items-center space-x-4">
-                    <div className={`px-4 py-2 rounded-md flex items-center ${CTI_STATUS_CONFIG[ctiStatus].color}`}>
-                        <span className="font-bold">{CTI_STATUS_CONFIG[ctiStatus].text}</span>
+                    <div className={`px-4 py-2 rounded-md flex items-center ${displayedStatus.color}`}>
+                        <span className="font-bold">{displayedStatus.text}</span>
                     </div>
                     <div className="font-mono text-2xl">{formatDuration(statusTimer)}</div>
                 </div>
@@ -161,7 +602,9 @@ const AgentView: React.FC<AgentViewProps> = ({ agent, campaigns, savedScripts, o
                     )}
                     {ctiStatus === 'WAITING' && (
                         <>
-                            <button onClick={handleNextCall} className="bg-blue-600 hover:bg-blue-700 font-semibold py-2 px-4 rounded-lg inline-flex items-center"><PhoneIcon className="w-5 h-5 mr-2"/>Appel Suivant</button>
+                            {!(agentCampaign && isDialerDriven(agentCampaign)) && (
+                                <button onClick={() => handleNextCall()} disabled={runStatus !== 'running'} title={runStatus !== 'running' ? `Campagne ${CAMPAIGN_RUN_STATUS_LABELS[runStatus].toLowerCase()}` : undefined} className="bg-blue-600 hover:bg-blue-700 font-semibold py-2 px-4 rounded-lg inline-flex items-center disabled:opacity-50 disabled:cursor-not-allowed"><PhoneIcon className="w-5 h-5 mr-2"/>Appel Suivant</button>
+                            )}
                             <button onClick={handlePause} className="bg-slate-600 hover:bg-slate-700 font-semibold py-2 px-4 rounded-lg inline-flex items-center"><PauseIcon className="w-5 h-5 mr-2"/>Pause</button>
                         </>
                     )}
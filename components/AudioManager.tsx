@@ -1,6 +1,6 @@
 
 import React, { useState, useRef } from 'react';
-import type { Feature, AudioFile } from '../types.ts';
+import type { Feature, AudioFile, Permission } from '../types.ts';
 import { PlusIcon, EditIcon, TrashIcon, PlayIcon } from './Icons.tsx';
 
 // Helper functions
@@ -106,9 +106,11 @@ interface AudioManagerProps {
     audioFiles: AudioFile[];
     onSaveAudioFile: (file: AudioFile) => void;
     onDeleteAudioFile: (fileId: string) => void;
+    hasPermission: (permission: Permission) => boolean;
 }
 
-const AudioManager: React.FC<AudioManagerProps> = ({ feature, audioFiles, onSaveAudioFile, onDeleteAudioFile }) => {
+const AudioManager: React.FC<AudioManagerProps> = ({ feature, audioFiles, onSaveAudioFile, onDeleteAudioFile, hasPermission }) => {
+    const canEdit = hasPermission('audio.edit');
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [editingFile, setEditingFile] = useState<AudioFile | null>(null);
 
@@ -143,10 +145,12 @@ const AudioManager: React.FC<AudioManagerProps> = ({ feature, audioFiles, onSave
             <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200">
                 <div className="flex justify-between items-center mb-4">
                     <h2 className="text-2xl font-semibold text-slate-800">Fichiers Audio</h2>
-                    <button onClick={handleAddNew} className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg shadow-md inline-flex items-center">
-                        <PlusIcon className="w-5 h-5 mr-2" />
-                        Importer un fichier
-                    </button>
+                    {canEdit && (
+                        <button onClick={handleAddNew} className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg shadow-md inline-flex items-center">
+                            <PlusIcon className="w-5 h-5 mr-2" />
+                            Importer un fichier
+                        </button>
+                    )}
                 </div>
 
                 <div className="overflow-x-auto">
@@ -176,8 +180,8 @@ const AudioManager: React.FC<AudioManagerProps> = ({ feature, audioFiles, onSave
                                     <td className="px-6 py-4 text-slate-600">{formatBytes(file.size)}</td>
                                     <td className="px-6 py-4 text-slate-600">{new Date(file.uploadDate).toLocaleDateString('fr-FR')}</td>
                                     <td className="px-6 py-4 text-right text-sm font-medium space-x-4">
-                                        <button onClick={() => handleEdit(file)} className="text-indigo-600 hover:text-indigo-900"><EditIcon className="w-4 h-4 inline-block -mt-1"/> Modifier</button>
-                                        <button onClick={() => handleDelete(file.id, file.name)} className="text-red-600 hover:text-red-900"><TrashIcon className="w-4 h-4 inline-block -mt-1"/> Supprimer</button>
+                                        {canEdit && <button onClick={() => handleEdit(file)} className="text-indigo-600 hover:text-indigo-900"><EditIcon className="w-4 h-4 inline-block -mt-1"/> Modifier</button>}
+                                        {canEdit && <button onClick={() => handleDelete(file.id, file.name)} className="text-red-600 hover:text-red-900"><TrashIcon className="w-4 h-4 inline-block -mt-1"/> Supprimer</button>}
                                     </td>
                                 </tr>
                             ))}
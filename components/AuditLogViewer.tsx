@@ -0,0 +1,196 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import type { Feature, AuditLogEntry, AuditAction } from '../types.ts';
+import { ChevronDownIcon, InboxArrowDownIcon } from './Icons.tsx';
+import { AUDIT_ACTION_LABELS, AUDIT_ENTITY_LABELS, buildAuditCsv, formatAuditValue } from '../services/auditLog.ts';
+
+const ACTION_COLORS: Record<AuditAction, string> = {
+    create: 'bg-green-100 text-green-800',
+    update: 'bg-sky-100 text-sky-800',
+    delete: 'bg-red-100 text-red-800',
+};
+
+const toDateInputValue = (date: Date) => date.toISOString().split('T')[0];
+
+const AuditLogViewer: React.FC<{
+    feature: Feature;
+    auditLogs: AuditLogEntry[];
+    onRefreshAuditLogs: () => void;
+}> = ({ feature, auditLogs, onRefreshAuditLogs }) => {
+    const [filters, setFilters] = useState(() => {
+        const monthAgo = new Date();
+        monthAgo.setDate(monthAgo.getDate() - 30);
+        return {
+            entityType: 'all',
+            action: 'all',
+            startDate: toDateInputValue(monthAgo),
+            endDate: toDateInputValue(new Date()),
+            searchTerm: '',
+        };
+    });
+    const [expandedEntryId, setExpandedEntryId] = useState<string | null>(null);
+
+    // The audit log is written by the server only: reload it every time the viewer is opened.
+    useEffect(() => {
+        onRefreshAuditLogs();
+    }, []);
+
+    const handleFilterChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        const { name, value } = e.target;
+        setFilters(prev => ({ ...prev, [name]: value }));
+    };
+
+    const filteredEntries = useMemo(() => {
+        const start = new Date(filters.startDate);
+        start.setHours(0, 0, 0, 0);
+        const end = new Date(filters.endDate);
+        end.setHours(23, 59, 59, 999);
+        const term = filters.searchTerm.toLowerCase();
+
+        return auditLogs.filter(entry => {
+            const date = new Date(entry.timestamp);
+            if (date < start || date > end) return false;
+            if (filters.entityType !== 'all' && entry.entityType !== filters.entityType) return false;
+            if (filters.action !== 'all' && entry.action !== filters.action) return false;
+            if (term) {
+                const haystack = [entry.actorName, entry.entityName, entry.entityId, ...entry.changes.map(c => c.field)].join(' ').toLowerCase();
+                if (!haystack.includes(term)) return false;
+            }
+            return true;
+        }).sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+    }, [auditLogs, filters]);
+
+    const handleExport = () => {
+        if (filteredEntries.length === 0) {
+            alert("Aucune entrée d'audit à exporter pour les filtres sélectionnés.");
+            return;
+        }
+        // The BOM lets Excel detect UTF-8 and display accents correctly.
+        const blob = new Blob(['﻿' + buildAuditCsv(filteredEntries)], { type: 'text/csv;charset=utf-8' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `audit_${filters.startDate}_${filters.endDate}.csv`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    return (
+        <div className="max-w-7xl mx-auto space-y-8">
+            <header>
+                <h1 className="text-4xl font-bold text-slate-900 tracking-tight">{feature.title}</h1>
+                <p className="mt-2 text-lg text-slate-600">{feature.description}</p>
+            </header>
+
+            <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200">
+                <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end mb-4">
+                    <div>
+                        <label htmlFor="entityType" className="block text-sm font-medium text-slate-700">Type</label>
+                        <select id="entityType" name="entityType" value={filters.entityType} onChange={handleFilterChange} className="mt-1 block w-full p-2 border border-slate-300 rounded-md bg-white">
+                            <option value="all">Tous</option>
+                            {Object.entries(AUDIT_ENTITY_LABELS).map(([type, label]) => <option key={type} value={type}>{label}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="action" className="block text-sm font-medium text-slate-700">Action</label>
+                        <select id="action" name="action" value={filters.action} onChange={handleFilterChange} className="mt-1 block w-full p-2 border border-slate-300 rounded-md bg-white">
+                            <option value="all">Toutes</option>
+                            {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(action => <option key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</option>)}
+                        </select>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                        <div>
+                            <label htmlFor="startDate" className="block text-sm font-medium text-slate-700">Du</label>
+                            <input type="date" name="startDate" id="startDate" value={filters.startDate} onChange={handleFilterChange} className="mt-1 block w-full p-2 border border-slate-300 rounded-md"/>
+                        </div>
+                        <div>
+                            <label htmlFor="endDate" className="block text-sm font-medium text-slate-700">Au</label>
+                            <input type="date" name="endDate" id="endDate" value={filters.endDate} onChange={handleFilterChange} className="mt-1 block w-full p-2 border border-slate-300 rounded-md"/>
+                        </div>
+                    </div>
+                    <div className="md:col-span-2">
+                        <label htmlFor="searchTerm" className="block text-sm font-medium text-slate-700">Rechercher</label>
+                        <input type="text" name="searchTerm" id="searchTerm" value={filters.searchTerm} onChange={handleFilterChange} placeholder="Auteur, élément, identifiant, champ..." className="mt-1 block w-full p-2 border border-slate-300 rounded-md"/>
+                    </div>
+                </div>
+
+                <div className="flex justify-between items-center mb-4 mt-6 border-b pb-2">
+                    <h2 className="text-2xl font-semibold text-slate-800">Journal d'audit</h2>
+                    <div className="flex gap-2">
+                        <button onClick={onRefreshAuditLogs} className="bg-slate-200 hover:bg-slate-300 text-slate-800 font-bold py-2 px-4 rounded-lg shadow-sm">Rafraîchir</button>
+                        <button onClick={handleExport} className="bg-slate-200 hover:bg-slate-300 text-slate-800 font-bold py-2 px-4 rounded-lg shadow-sm inline-flex items-center">
+                            <InboxArrowDownIcon className="w-5 h-5 mr-2" /> Exporter (CSV)
+                        </button>
+                    </div>
+                </div>
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-slate-200">
+                        <thead className="bg-slate-50">
+                            <tr>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">Date & Heure</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">Auteur</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">Action</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">Type</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">Élément</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">Modifications</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-slate-200">
+                            {filteredEntries.map(entry => {
+                                const isExpanded = expandedEntryId === entry.id;
+                                return (
+                                <React.Fragment key={entry.id}>
+                                <tr>
+                                    <td className="px-6 py-4 text-sm text-slate-600">{new Date(entry.timestamp).toLocaleString('fr-FR')}</td>
+                                    <td className="px-6 py-4 text-sm font-medium text-slate-800">{entry.actorName}</td>
+                                    <td className="px-6 py-4 text-sm">
+                                        <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${ACTION_COLORS[entry.action]}`}>{AUDIT_ACTION_LABELS[entry.action]}</span>
+                                    </td>
+                                    <td className="px-6 py-4 text-sm text-slate-600">{AUDIT_ENTITY_LABELS[entry.entityType] || entry.entityType}</td>
+                                    <td className="px-6 py-4 text-sm text-slate-800">
+                                        {entry.entityName}
+                                        <span className="block text-xs font-mono text-slate-400">{entry.entityId}</span>
+                                    </td>
+                                    <td className="px-6 py-4 text-sm">
+                                        <button onClick={() => setExpandedEntryId(isExpanded ? null : entry.id)} className="inline-flex items-center text-indigo-600 hover:text-indigo-900 font-medium">
+                                            {entry.changes.length} champ(s)
+                                            <ChevronDownIcon className={`w-4 h-4 ml-1 transition-transform ${isExpanded ? '' : '-rotate-90'}`} />
+                                        </button>
+                                    </td>
+                                </tr>
+                                {isExpanded && (
+                                    <tr className="bg-slate-50">
+                                        <td colSpan={6} className="px-6 py-4">
+                                            <table className="min-w-full text-sm">
+                                                <thead>
+                                                    <tr className="text-left text-xs text-slate-500 uppercase">
+                                                        <th className="py-1 pr-4">Champ</th>
+                                                        <th className="py-1 pr-4">Avant</th>
+                                                        <th className="py-1">Après</th>
+                                                    </tr>
+                                                </thead>
+                                                <tbody>
+                                                    {entry.changes.map(change => (
+                                                        <tr key={change.field} className="align-top">
+                                                            <td className="py-1 pr-4 font-semibold text-slate-600">{change.field}</td>
+                                                            <td className="py-1 pr-4 font-mono text-xs text-red-700 break-all">{formatAuditValue(change.before) || <span className="text-slate-400 italic">—</span>}</td>
+                                                            <td className="py-1 font-mono text-xs text-green-700 break-all">{formatAuditValue(change.after) || <span className="text-slate-400 italic">—</span>}</td>
+                                                        </tr>
+                                                    ))}
+                                                </tbody>
+                                            </table>
+                                        </td>
+                                    </tr>
+                                )}
+                                </React.Fragment>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                    {filteredEntries.length === 0 && <p className="text-center py-8 text-slate-500">Aucune modification trouvée pour les filtres sélectionnés.</p>}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AuditLogViewer;
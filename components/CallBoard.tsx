@@ -1,11 +1,14 @@
 import React from 'react';
-import type { ActiveCall, User, Campaign } from '../types.ts';
-import { EyeIcon, ArrowRightIcon, PhoneXMarkIcon } from './Icons.tsx';
+import type { ActiveCall, User, Campaign, AcdQueue, SupervisorActionType } from '../types.ts';
+import { EyeIcon, AcademicCapIcon, PhoneArrowUpRightIcon, ArrowRightIcon, PhoneXMarkIcon } from './Icons.tsx';
 
 interface CallBoardProps {
     calls: ActiveCall[];
     agents: User[];
     campaigns: Campaign[];
+    queues: AcdQueue[];
+    canIntervene: boolean; // 'supervision.barge' permission
+    onSupervisorAction: (action: SupervisorActionType, call: ActiveCall) => void;
 }
 
 const formatDuration = (seconds: number) => {
@@ -19,7 +22,7 @@ const findEntityName = (id: string, collection: Array<{id: string, name?: string
     return item?.name || `${item?.firstName} ${item?.lastName}` || 'Inconnu';
 };
 
-const CallBoard: React.FC<CallBoardProps> = ({ calls, agents, campaigns }) => {
+const CallBoard: React.FC<CallBoardProps> = ({ calls, agents, campaigns, queues, canIntervene, onSupervisorAction }) => {
 
     const handleAction = (action: string, callId: string) => {
         alert(`Action (simulation): ${action} sur l'appel ${callId}`);
@@ -38,19 +41,24 @@ const CallBoard: React.FC<CallBoardProps> = ({ calls, agents, campaigns }) => {
                     </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-slate-200 text-sm">
-                    {calls.map(call => (
+                    {calls.map(call => {
+                        const canSpy = canIntervene && call.status === 'active' && !!call.agentId;
+                        return (
                         <tr key={call.id}>
                             <td className="px-4 py-3 font-mono text-slate-600">{call.from}</td>
-                            <td className="px-4 py-3 font-medium text-slate-800">{findEntityName(call.agentId, agents)}</td>
-                            <td className="px-4 py-3 text-slate-600">{findEntityName(call.campaignId, campaigns)}</td>
+                            <td className="px-4 py-3 font-medium text-slate-800">{call.agentId ? findEntityName(call.agentId, agents) : <span className="text-slate-400">{call.status === 'queued' ? 'En file' : 'Sonnerie'}</span>}</td>
+                            <td className="px-4 py-3 text-slate-600">{call.queueId ? `File ${findEntityName(call.queueId, queues)}` : findEntityName(call.campaignId, campaigns)}</td>
                             <td className="px-4 py-3 font-mono text-slate-600">{formatDuration(call.duration)}</td>
                             <td className="px-4 py-3 text-center space-x-1">
-                                <button onClick={() => handleAction('Monitorer', call.id)} title="Monitorer l'appel" className="p-1 rounded-md text-slate-500 hover:bg-slate-100"><EyeIcon className="w-4 h-4"/></button>
+                                <button onClick={() => onSupervisorAction('listen', call)} disabled={!canSpy} title="Écouter l'appel" className="p-1 rounded-md text-slate-500 hover:bg-slate-100 disabled:text-slate-300 disabled:cursor-not-allowed"><EyeIcon className="w-4 h-4"/></button>
+                                <button onClick={() => onSupervisorAction('whisper', call)} disabled={!canSpy} title="Coacher l'agent" className="p-1 rounded-md text-slate-500 hover:bg-slate-100 disabled:text-slate-300 disabled:cursor-not-allowed"><AcademicCapIcon className="w-4 h-4"/></button>
+                                <button onClick={() => onSupervisorAction('barge', call)} disabled={!canSpy} title="Intervenir dans l'appel" className="p-1 rounded-md text-slate-500 hover:bg-slate-100 disabled:text-slate-300 disabled:cursor-not-allowed"><PhoneArrowUpRightIcon className="w-4 h-4"/></button>
                                 <button onClick={() => handleAction('Transférer', call.id)} title="Transférer l'appel" className="p-1 rounded-md text-slate-500 hover:bg-slate-100"><ArrowRightIcon className="w-4 h-4"/></button>
                                 <button onClick={() => handleAction('Raccrocher', call.id)} title="Raccrocher l'appel" className="p-1 rounded-md text-red-500 hover:bg-red-100"><PhoneXMarkIcon className="w-4 h-4"/></button>
                             </td>
                         </tr>
-                    ))}
+                        );
+                    })}
                 </tbody>
             </table>
             {calls.length === 0 && <p className="text-center py-8 text-slate-500">Aucun appel actif pour le moment.</p>}
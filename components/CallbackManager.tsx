@@ -0,0 +1,173 @@
+import React, { useState, useMemo } from 'react';
+import type { Feature, Campaign, ContactCallback, User, Permission } from '../types.ts';
+import { EditIcon, TrashIcon } from './Icons.tsx';
+import { CALLBACK_SCOPE_LABELS, isCallbackDue, listCallbacks } from '../services/callbacks.ts';
+import type { ScheduledCallback } from '../services/callbacks.ts';
+
+// Value of the assignee select for the callbacks any agent of the campaign may serve.
+const CAMPAIGN_ASSIGNEE = 'campaign';
+
+const toLocalInputValue = (iso: string) => {
+    const date = new Date(iso);
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+interface CallbackManagerProps {
+    feature: Feature;
+    campaigns: Campaign[];
+    users: User[];
+    onSaveCallback: (contactId: string, callback: ContactCallback | null) => void;
+    hasPermission: (permission: Permission) => boolean;
+}
+
+const CallbackManager: React.FC<CallbackManagerProps> = ({ feature, campaigns, users, onSaveCallback, hasPermission }) => {
+    const canEdit = hasPermission('campaign.edit');
+    const [filters, setFilters] = useState({ campaignId: 'all', agentId: 'all', dueOnly: false });
+    // Row being edited: contact id, new time and assignee (an agent id or CAMPAIGN_ASSIGNEE).
+    const [editing, setEditing] = useState<{ contactId: string; scheduledAt: string; assignee: string } | null>(null);
+
+    const callbacks = useMemo(() => listCallbacks(campaigns), [campaigns]);
+    const now = new Date();
+
+    const filteredCallbacks = callbacks.filter(({ campaign, contact }) =>
+        (filters.campaignId === 'all' || campaign.id === filters.campaignId)
+        && (filters.agentId === 'all' || contact.callback.agentId === filters.agentId)
+        && (!filters.dueOnly || isCallbackDue(contact, now)));
+
+    const dueCount = callbacks.filter(({ contact }) => isCallbackDue(contact, now)).length;
+
+    const getAgentName = (agentId: string) => {
+        const agent = users.find(u => u.id === agentId);
+        return agent ? `${agent.firstName} ${agent.lastName}` : 'Agent inconnu';
+    };
+
+    const handleEdit = ({ contact }: ScheduledCallback) => {
+        setEditing({
+            contactId: contact.id,
+            scheduledAt: toLocalInputValue(contact.callback.scheduledAt),
+            assignee: contact.callback.scope === 'campaign' ? CAMPAIGN_ASSIGNEE : contact.callback.agentId,
+        });
+    };
+
+    const handleSave = ({ contact }: ScheduledCallback) => {
+        if (!editing) return;
+        const scheduledAt = new Date(editing.scheduledAt);
+        if (isNaN(scheduledAt.getTime())) return;
+        const isCampaignWide = editing.assignee === CAMPAIGN_ASSIGNEE;
+        onSaveCallback(contact.id, {
+            ...contact.callback,
+            scheduledAt: scheduledAt.toISOString(),
+            scope: isCampaignWide ? 'campaign' : 'personal',
+            agentId: isCampaignWide ? contact.callback.agentId : editing.assignee,
+        });
+        setEditing(null);
+    };
+
+    const handleCancelCallback = ({ contact }: ScheduledCallback) => {
+        if (window.confirm(`Annuler le rappel de ${contact.firstName} ${contact.lastName} ? Le contact sera remis dans la file d'appels de la campagne.`)) {
+            onSaveCallback(contact.id, null);
+        }
+    };
+
+    const agents = users.filter(u => u.role === 'Agent');
+
+    return (
+        <div className="max-w-7xl mx-auto space-y-8">
+            <header>
+                <h1 className="text-4xl font-bold text-slate-900 tracking-tight">{feature.title}</h1>
+                <p className="mt-2 text-lg text-slate-600">{feature.description}</p>
+            </header>
+
+            <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200">
+                <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+                    <h2 className="text-2xl font-semibold text-slate-800">Rappels planifiés</h2>
+                    <p className="text-sm text-slate-500">{callbacks.length} rappel(s), dont <span className="font-semibold text-amber-700">{dueCount} à traiter</span></p>
+                </div>
+                <div className="flex flex-wrap gap-3 mb-4">
+                    <select value={filters.campaignId} onChange={e => setFilters(prev => ({ ...prev, campaignId: e.target.value }))} className="p-2 border bg-white border-slate-300 rounded-md text-sm">
+                        <option value="all">Toutes les campagnes</option>
+                        {campaigns.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                    </select>
+                    <select value={filters.agentId} onChange={e => setFilters(prev => ({ ...prev, agentId: e.target.value }))} className="p-2 border bg-white border-slate-300 rounded-md text-sm">
+                        <option value="all">Tous les agents</option>
+                        {agents.map(a => <option key={a.id} value={a.id}>{a.firstName} {a.lastName}</option>)}
+                    </select>
+                    <label className="flex items-center text-sm text-slate-700">
+                        <input type="checkbox" checked={filters.dueOnly} onChange={e => setFilters(prev => ({ ...prev, dueOnly: e.target.checked }))} className="h-4 w-4 rounded border-slate-300 text-indigo-600 mr-2" />
+                        Rappels échus uniquement
+                    </label>
+                </div>
+
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-slate-200">
+                        <thead className="bg-slate-50">
+                            <tr>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">Date du rappel</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">Contact</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">Campagne</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">Type</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">Agent</th>
+                                <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-slate-200">
+                            {filteredCallbacks.map(item => {
+                                const { campaign, contact } = item;
+                                const isDue = isCallbackDue(contact, now);
+                                const isEditing = editing?.contactId === contact.id;
+                                return (
+                                    <tr key={contact.id} className={isDue ? 'bg-amber-50' : ''}>
+                                        <td className="px-6 py-4 text-sm">
+                                            {isEditing ? (
+                                                <input type="datetime-local" value={editing.scheduledAt} onChange={e => setEditing({ ...editing, scheduledAt: e.target.value })} className="p-1 border border-slate-300 rounded-md text-sm" />
+                                            ) : (
+                                                <span className={isDue ? 'font-semibold text-amber-700' : 'text-slate-700'}>
+                                                    {new Date(contact.callback.scheduledAt).toLocaleString('fr-FR')}{isDue && ' · échu'}
+                                                </span>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-4 text-sm">
+                                            <p className="font-medium text-slate-800">{contact.firstName} {contact.lastName}</p>
+                                            <p className="text-slate-500 font-mono">{contact.phoneNumber}</p>
+                                        </td>
+                                        <td className="px-6 py-4 text-sm text-slate-600">{campaign.name}</td>
+                                        <td className="px-6 py-4 text-sm text-slate-600">{CALLBACK_SCOPE_LABELS[contact.callback.scope]}</td>
+                                        <td className="px-6 py-4 text-sm text-slate-600">
+                                            {isEditing ? (
+                                                <select value={editing.assignee} onChange={e => setEditing({ ...editing, assignee: e.target.value })} className="p-1 border bg-white border-slate-300 rounded-md text-sm">
+                                                    <option value={CAMPAIGN_ASSIGNEE}>Tout agent de la campagne</option>
+                                                    {agents.filter(a => a.campaignIds.includes(campaign.id) || a.id === contact.callback.agentId).map(a => (
+                                                        <option key={a.id} value={a.id}>{a.firstName} {a.lastName}</option>
+                                                    ))}
+                                                </select>
+                                            ) : contact.callback.scope === 'personal' ? getAgentName(contact.callback.agentId) : (
+                                                <span className="text-slate-500">Tout agent <span className="text-xs">(planifié par {getAgentName(contact.callback.agentId)})</span></span>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-4 text-right text-sm font-medium space-x-4 whitespace-nowrap">
+                                            {canEdit && isEditing && (
+                                                <>
+                                                    <button onClick={() => handleSave(item)} className="text-indigo-600 hover:text-indigo-900">Enregistrer</button>
+                                                    <button onClick={() => setEditing(null)} className="text-slate-600 hover:text-slate-900">Annuler</button>
+                                                </>
+                                            )}
+                                            {canEdit && !isEditing && (
+                                                <>
+                                                    <button onClick={() => handleEdit(item)} className="text-indigo-600 hover:text-indigo-900"><EditIcon className="w-4 h-4 inline-block -mt-1"/> Modifier</button>
+                                                    <button onClick={() => handleCancelCallback(item)} className="text-red-600 hover:text-red-900"><TrashIcon className="w-4 h-4 inline-block -mt-1"/> Annuler</button>
+                                                </>
+                                            )}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                    {filteredCallbacks.length === 0 && <p className="text-center py-8 text-slate-500">Aucun rappel planifié.</p>}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CallbackManager;
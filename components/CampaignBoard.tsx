@@ -1,20 +1,20 @@
 import React from 'react';
-import type { CampaignState } from '../types.ts';
-import { PauseIcon, PlayIcon, BoltIcon, TrashIcon } from './Icons.tsx';
+import type { CampaignRunStatus, CampaignState } from '../types.ts';
+import { PauseIcon, PlayIcon, TrashIcon } from './Icons.tsx';
+import { CAMPAIGN_RUN_STATUS_LABELS } from '../services/campaignLifecycle.ts';
 
 interface CampaignBoardProps {
     campaignStates: CampaignState[];
+    canControl: boolean;
+    onChangeRunStatus: (campaignId: string, status: CampaignRunStatus) => void;
 }
 
-const CampaignBoard: React.FC<CampaignBoardProps> = ({ campaignStates }) => {
+const CampaignBoard: React.FC<CampaignBoardProps> = ({ campaignStates, canControl, onChangeRunStatus }) => {
 
-    const handleAction = (action: string, campaignName: string) => {
-        alert(`Action (simulation): ${action} sur la campagne ${campaignName}`);
-    };
-    
-    const handleStop = (campaignName: string) => {
-        if (window.confirm(`Êtes-vous sûr de vouloir arrêter définitivement la campagne ${campaignName} ?`)) {
-            handleAction('Arrêter', campaignName);
+    // Agents finish their current calls, no new call is placed.
+    const handleStop = (campaign: CampaignState) => {
+        if (window.confirm(`Êtes-vous sûr de vouloir arrêter la campagne ${campaign.name} ? Les appels en cours seront terminés normalement.`)) {
+            onChangeRunStatus(campaign.id, 'stopped');
         }
     };
 
@@ -42,7 +42,7 @@ const CampaignBoard: React.FC<CampaignBoardProps> = ({ campaignStates }) => {
                                         isRunning ? 'bg-green-100 text-green-800' : 
                                         campaign.status === 'paused' ? 'bg-yellow-100 text-yellow-800' : 'bg-slate-200 text-slate-800'
                                     }`}>
-                                        {campaign.status.charAt(0).toUpperCase() + campaign.status.slice(1)}
+                                        {CAMPAIGN_RUN_STATUS_LABELS[campaign.status]}
                                     </span>
                                 </td>
                                 <td className="px-4 py-3 text-slate-600">{campaign.offered}</td>
@@ -50,12 +50,11 @@ const CampaignBoard: React.FC<CampaignBoardProps> = ({ campaignStates }) => {
                                 <td className="px-4 py-3 text-slate-600">{campaign.hitRate.toFixed(1)}%</td>
                                 <td className="px-4 py-3 text-center space-x-1">
                                     {isRunning ? (
-                                        <button onClick={() => handleAction('Mettre en pause', campaign.name)} title="Mettre en pause" className="p-1 rounded-md text-slate-500 hover:bg-slate-100"><PauseIcon className="w-4 h-4"/></button>
+                                        <button onClick={() => onChangeRunStatus(campaign.id, 'paused')} disabled={!canControl} title="Mettre en pause" className="p-1 rounded-md text-slate-500 hover:bg-slate-100 disabled:opacity-40 disabled:cursor-not-allowed"><PauseIcon className="w-4 h-4"/></button>
                                     ) : (
-                                        <button onClick={() => handleAction('Démarrer', campaign.name)} title="Démarrer" className="p-1 rounded-md text-slate-500 hover:bg-slate-100"><PlayIcon className="w-4 h-4"/></button>
+                                        <button onClick={() => onChangeRunStatus(campaign.id, 'running')} disabled={!canControl} title="Démarrer" className="p-1 rounded-md text-slate-500 hover:bg-slate-100 disabled:opacity-40 disabled:cursor-not-allowed"><PlayIcon className="w-4 h-4"/></button>
                                     )}
-                                    <button onClick={() => handleAction('Booster', campaign.name)} title="Booster la campagne" className="p-1 rounded-md text-slate-500 hover:bg-slate-100"><BoltIcon className="w-4 h-4"/></button>
-                                    <button onClick={() => handleStop(campaign.name)} title="Arrêter la campagne" className="p-1 rounded-md text-red-500 hover:bg-red-100"><TrashIcon className="w-4 h-4"/></button>
+                                    <button onClick={() => handleStop(campaign)} disabled={!canControl || campaign.status === 'stopped'} title="Arrêter la campagne" className="p-1 rounded-md text-red-500 hover:bg-red-100 disabled:opacity-40 disabled:cursor-not-allowed"><TrashIcon className="w-4 h-4"/></button>
                                 </td>
                             </tr>
                         );
@@ -0,0 +1,245 @@
+import React, { useState, useRef, useMemo } from 'react';
+import type { Campaign, Contact, DncEntry } from '../types.ts';
+import { ArrowUpTrayIcon, ArrowLeftIcon, ArrowRightIcon } from './Icons.tsx';
+import { CONTACT_IMPORT_FIELDS, readContactFile, guessColumnMapping, buildContactsFromSheet } from '../services/contactImport.ts';
+import type { ParsedSheet, ColumnMapping } from '../services/contactImport.ts';
+import { DNC_EXCLUSION_REASON_LABELS, countExclusionsByReason, scrubContacts } from '../services/dnc.ts';
+
+const PREVIEW_ROW_LIMIT = 200;
+
+type WizardStep = 'upload' | 'mapping' | 'preview';
+
+interface ContactImportModalProps {
+    campaign: Campaign;
+    dncEntries: DncEntry[];
+    onImport: (campaignId: string, contacts: Contact[]) => void;
+    onClose: () => void;
+}
+
+const STEP_LABELS: { key: WizardStep; label: string }[] = [
+    { key: 'upload', label: '1. Fichier' },
+    { key: 'mapping', label: '2. Correspondance' },
+    { key: 'preview', label: '3. Vérification' },
+];
+
+const ContactImportModal: React.FC<ContactImportModalProps> = ({ campaign, dncEntries, onImport, onClose }) => {
+    const [step, setStep] = useState<WizardStep>('upload');
+    const [fileName, setFileName] = useState('');
+    const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+    const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+    const [showErrorsOnly, setShowErrorsOnly] = useState(false);
+    const [isReading, setIsReading] = useState(false);
+    const [error, setError] = useState('');
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const importResult = useMemo(() => {
+        if (step !== 'preview' || !sheet || !mapping) return null;
+        return buildContactsFromSheet(sheet, mapping, campaign.contacts);
+    }, [step, sheet, mapping, campaign.contacts]);
+
+    // Numbers on the global list or on the campaign's list are left out of the import.
+    const scrubResult = useMemo(
+        () => importResult ? scrubContacts(importResult.contacts, campaign.id, dncEntries) : null,
+        [importResult, campaign.id, dncEntries],
+    );
+
+    const exclusionReasons = useMemo(
+        () => new Map(scrubResult?.excluded.map(e => [e.contact.id, e.reason]) ?? []),
+        [scrubResult],
+    );
+
+    const previewRows = useMemo(() => {
+        if (!importResult) return [];
+        const rows = showErrorsOnly ? importResult.rows.filter(r => r.errors.length > 0) : importResult.rows;
+        return rows.slice(0, PREVIEW_ROW_LIMIT);
+    }, [importResult, showErrorsOnly]);
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        setError('');
+        setIsReading(true);
+        try {
+            const parsed = await readContactFile(file);
+            if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+                setError("Le fichier ne contient aucune ligne de données.");
+                return;
+            }
+            setFileName(file.name);
+            setSheet(parsed);
+            setMapping(guessColumnMapping(parsed.headers));
+            setStep('mapping');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Impossible de lire le fichier.');
+        } finally {
+            setIsReading(false);
+            e.target.value = '';
+        }
+    };
+
+    const handleMappingChange = (field: keyof ColumnMapping, value: string) => {
+        setMapping(prev => prev ? { ...prev, [field]: value === '' ? null : Number(value) } : prev);
+    };
+
+    const canPreview = !!mapping && CONTACT_IMPORT_FIELDS.every(f => !f.required || mapping[f.key] !== null);
+
+    const handleImport = () => {
+        if (!scrubResult || scrubResult.kept.length === 0) return;
+        onImport(campaign.id, scrubResult.kept);
+        onClose();
+    };
+
+    const renderUploadStep = () => (
+        <div className="space-y-4">
+            <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".csv,.txt,.xlsx,.xls" className="hidden" />
+            <button type="button" onClick={() => fileInputRef.current?.click()} disabled={isReading} className="w-full text-center p-10 border-2 border-dashed border-slate-300 rounded-md hover:border-indigo-500 disabled:opacity-50">
+                <ArrowUpTrayIcon className="w-8 h-8 mx-auto text-slate-400" />
+                <p className="mt-2 text-sm text-slate-500">
+                    {isReading ? 'Lecture du fichier en cours...' : 'Cliquez pour sélectionner un fichier (.csv, .xlsx)'}
+                </p>
+            </button>
+            <p className="text-xs text-slate-500">La première ligne du fichier doit contenir les en-têtes de colonnes. Les séparateurs ';' et ',' sont détectés automatiquement.</p>
+        </div>
+    );
+
+    const renderMappingStep = () => sheet && mapping && (
+        <div className="space-y-4">
+            <p className="text-sm text-slate-600">
+                <span className="font-semibold">{fileName}</span> : {sheet.rows.length.toLocaleString('fr-FR')} lignes détectées. Associez les colonnes du fichier aux champs du contact.
+            </p>
+            <div className="space-y-3">
+                {CONTACT_IMPORT_FIELDS.map(field => (
+                    <div key={field.key} className="grid grid-cols-2 gap-4 items-center">
+                        <label className="text-sm font-medium text-slate-700">
+                            {field.label}{field.required && <span className="text-red-500"> *</span>}
+                        </label>
+                        <select
+                            value={mapping[field.key] ?? ''}
+                            onChange={e => handleMappingChange(field.key, e.target.value)}
+                            className="block w-full p-2 border bg-white border-slate-300 rounded-md text-sm"
+                        >
+                            <option value="">-- Ne pas importer --</option>
+                            {sheet.headers.map((header, index) => (
+                                <option key={index} value={index}>{header || `Colonne ${index + 1}`} (ex: {sheet.rows[0]?.[index] || '-'})</option>
+                            ))}
+                        </select>
+                    </div>
+                ))}
+            </div>
+            {!canPreview && <p className="text-sm text-red-600">La colonne du numéro de téléphone est obligatoire.</p>}
+        </div>
+    );
+
+    const renderPreviewStep = () => importResult && scrubResult && (
+        <div className="space-y-4">
+            <div className="grid grid-cols-4 gap-4">
+                <div className="bg-slate-50 p-3 rounded-md border">
+                    <p className="text-xs text-slate-500">Lignes lues</p>
+                    <p className="text-2xl font-bold text-slate-800">{importResult.rows.length.toLocaleString('fr-FR')}</p>
+                </div>
+                <div className="bg-green-50 p-3 rounded-md border border-green-200">
+                    <p className="text-xs text-green-700">Contacts valides</p>
+                    <p className="text-2xl font-bold text-green-700">{scrubResult.kept.length.toLocaleString('fr-FR')}</p>
+                </div>
+                <div className="bg-amber-50 p-3 rounded-md border border-amber-200">
+                    <p className="text-xs text-amber-700">Exclus (liste DNC)</p>
+                    <p className="text-2xl font-bold text-amber-700">{scrubResult.excluded.length.toLocaleString('fr-FR')}</p>
+                    {scrubResult.excluded.length > 0 && (
+                        <p className="text-xs text-amber-700 mt-1">
+                            {Object.entries(countExclusionsByReason(scrubResult.excluded)).filter(([, count]) => count > 0)
+                                .map(([reason, count]) => `${DNC_EXCLUSION_REASON_LABELS[reason as keyof typeof DNC_EXCLUSION_REASON_LABELS]} : ${count}`).join(' · ')}
+                        </p>
+                    )}
+                </div>
+                <div className="bg-red-50 p-3 rounded-md border border-red-200">
+                    <p className="text-xs text-red-700">Lignes en erreur</p>
+                    <p className="text-2xl font-bold text-red-700">{importResult.errorCount.toLocaleString('fr-FR')}</p>
+                </div>
+            </div>
+            <div className="flex items-center justify-between">
+                <label className="flex items-center text-sm text-slate-700">
+                    <input type="checkbox" checked={showErrorsOnly} onChange={e => setShowErrorsOnly(e.target.checked)} className="h-4 w-4 rounded border-slate-300 text-indigo-600 mr-2" />
+                    Afficher uniquement les lignes en erreur
+                </label>
+                <p className="text-xs text-slate-500">Aperçu limité aux {PREVIEW_ROW_LIMIT} premières lignes. Les lignes en erreur et les numéros exclus ne seront pas importés.</p>
+            </div>
+            <div className="overflow-x-auto border rounded-md max-h-80 overflow-y-auto">
+                <table className="min-w-full divide-y divide-slate-200 text-sm">
+                    <thead className="bg-slate-50 sticky top-0">
+                        <tr>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-slate-500 uppercase">Ligne</th>
+                            {CONTACT_IMPORT_FIELDS.map(f => <th key={f.key} className="px-3 py-2 text-left text-xs font-medium text-slate-500 uppercase">{f.label}</th>)}
+                            <th className="px-3 py-2 text-left text-xs font-medium text-slate-500 uppercase">Erreurs</th>
+                        </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-slate-200">
+                        {previewRows.map(row => {
+                            const hasErrors = row.errors.length > 0;
+                            const exclusion = row.contact ? exclusionReasons.get(row.contact.id) : undefined;
+                            return (
+                                <tr key={row.rowNumber} className={hasErrors ? 'bg-red-50' : exclusion ? 'bg-amber-50' : ''}>
+                                    <td className="px-3 py-2 font-mono text-slate-500">{row.rowNumber}</td>
+                                    {CONTACT_IMPORT_FIELDS.map(f => (
+                                        <td key={f.key} className="px-3 py-2 text-slate-700">
+                                            {row.contact ? row.contact[f.key] : (mapping![f.key] !== null ? row.cells[mapping![f.key]!] : '')}
+                                        </td>
+                                    ))}
+                                    <td className="px-3 py-2 text-xs">
+                                        <span className="text-red-600">{row.errors.join(' ')}</span>
+                                        {exclusion && <span className="text-amber-700">Exclu : {DNC_EXCLUSION_REASON_LABELS[exclusion]}</span>}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+                {previewRows.length === 0 && <p className="text-center py-6 text-slate-500">Aucune ligne à afficher.</p>}
+            </div>
+        </div>
+    );
+
+    return (
+        <div className="fixed inset-0 bg-slate-800 bg-opacity-75 flex items-center justify-center p-4 z-50">
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+                <div className="p-6 border-b">
+                    <h3 className="text-lg font-medium leading-6 text-slate-900">Importer des contacts - {campaign.name}</h3>
+                    <nav className="mt-3 flex space-x-4 text-sm">
+                        {STEP_LABELS.map(s => (
+                            <span key={s.key} className={step === s.key ? 'font-semibold text-indigo-600' : 'text-slate-400'}>{s.label}</span>
+                        ))}
+                    </nav>
+                </div>
+                <div className="p-6 overflow-y-auto flex-1">
+                    {step === 'upload' && renderUploadStep()}
+                    {step === 'mapping' && renderMappingStep()}
+                    {step === 'preview' && renderPreviewStep()}
+                    {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+                </div>
+                <div className="bg-slate-50 px-4 py-3 flex justify-between rounded-b-lg flex-shrink-0">
+                    <div>
+                        {step !== 'upload' && (
+                            <button type="button" onClick={() => setStep(step === 'preview' ? 'mapping' : 'upload')} className="inline-flex items-center rounded-md border border-slate-300 bg-white px-4 py-2 font-medium text-slate-700 shadow-sm hover:bg-slate-50">
+                                <ArrowLeftIcon className="w-4 h-4 mr-2" /> Retour
+                            </button>
+                        )}
+                    </div>
+                    <div className="space-x-3">
+                        <button type="button" onClick={onClose} className="inline-flex justify-center rounded-md border border-slate-300 bg-white px-4 py-2 font-medium text-slate-700 shadow-sm hover:bg-slate-50">Annuler</button>
+                        {step === 'mapping' && (
+                            <button type="button" onClick={() => setStep('preview')} disabled={!canPreview} className="inline-flex items-center rounded-md border border-transparent bg-indigo-600 px-4 py-2 font-medium text-white shadow-sm hover:bg-indigo-700 disabled:opacity-50">
+                                Vérifier <ArrowRightIcon className="w-4 h-4 ml-2" />
+                            </button>
+                        )}
+                        {step === 'preview' && (
+                            <button type="button" onClick={handleImport} disabled={!scrubResult || scrubResult.kept.length === 0} className="inline-flex justify-center rounded-md border border-transparent bg-indigo-600 px-4 py-2 font-medium text-white shadow-sm hover:bg-indigo-700 disabled:opacity-50">
+                                Importer {scrubResult?.kept.length.toLocaleString('fr-FR')} contacts
+                            </button>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ContactImportModal;
@@ -0,0 +1,60 @@
+import React from 'react';
+import type { Contact, Qualification } from '../types.ts';
+import { CALLBACK_SCOPE_LABELS } from '../services/callbacks.ts';
+
+const CONTACT_STATUS_LABELS: Record<Contact['status'], string> = {
+    pending: 'À appeler',
+    called: 'En attente de rappel',
+    qualified: 'Traité',
+};
+
+interface ContactPreviewCardProps {
+    contact: Contact;
+    // Used to name the qualifications of the previous attempts.
+    qualifications: Qualification[];
+    // Reason why the contact may not be called, shown instead of the actions.
+    warning?: string | null;
+    children?: React.ReactNode;
+}
+
+// Contact shown to the agent before dialing, with the outcome of the previous attempts.
+const ContactPreviewCard: React.FC<ContactPreviewCardProps> = ({ contact, qualifications, warning, children }) => {
+    const attempts = [...(contact.attempts || [])].reverse();
+
+    return (
+        <div className="border border-slate-200 rounded-lg p-4 bg-white">
+            <div className="flex justify-between items-start">
+                <div>
+                    <p className="text-2xl font-bold text-slate-800">{contact.firstName} {contact.lastName}</p>
+                    <p className="text-lg text-slate-600 font-mono">{contact.phoneNumber}</p>
+                    <p className="text-sm text-slate-500">Code Postal : {contact.postalCode || '-'}</p>
+                </div>
+                <span className="text-xs font-semibold bg-slate-100 text-slate-600 rounded-full px-2 py-1">{CONTACT_STATUS_LABELS[contact.status]}</span>
+            </div>
+            {contact.callback && contact.status === 'called' && (
+                <p className="mt-2 text-sm text-amber-700">
+                    Rappel {CALLBACK_SCOPE_LABELS[contact.callback.scope].toLowerCase()} prévu le {new Date(contact.callback.scheduledAt).toLocaleString('fr-FR', { dateStyle: 'short', timeStyle: 'short' })}
+                </p>
+            )}
+            <div className="mt-3">
+                <h4 className="text-sm font-semibold text-slate-600">Historique ({attempts.length} appel{attempts.length > 1 ? 's' : ''})</h4>
+                {attempts.length > 0 ? (
+                    <ul className="mt-1 space-y-1 text-sm max-h-40 overflow-y-auto">
+                        {attempts.map((attempt, i) => (
+                            <li key={`${attempt.timestamp}-${i}`} className="flex justify-between text-slate-600">
+                                <span>{new Date(attempt.timestamp).toLocaleString('fr-FR', { dateStyle: 'short', timeStyle: 'short' })}</span>
+                                <span>{qualifications.find(q => q.id === attempt.qualificationId)?.description ?? attempt.qualificationId}</span>
+                            </li>
+                        ))}
+                    </ul>
+                ) : (
+                    <p className="mt-1 text-sm text-slate-400 italic">Jamais appelé.</p>
+                )}
+            </div>
+            {warning && <p className="mt-3 text-sm font-semibold text-red-600">{warning}</p>}
+            {children && <div className="mt-4 flex justify-end space-x-3">{children}</div>}
+        </div>
+    );
+};
+
+export default ContactPreviewCard;
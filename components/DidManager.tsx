@@ -1,22 +1,24 @@
 import React, { useState } from 'react';
-import type { Feature, Did, Trunk, IvrFlow } from '../types.ts';
+import type { Feature, Did, Trunk, IvrFlow, SavedScript, Permission } from '../types.ts';
 import { PlusIcon, EditIcon, TrashIcon } from './Icons.tsx';
 
 interface DidModalProps {
     did: Did | null;
     trunks: Trunk[];
     ivrFlows: IvrFlow[];
+    savedScripts: SavedScript[];
     onSave: (did: Did) => void;
     onClose: () => void;
 }
 
-const DidModal: React.FC<DidModalProps> = ({ did, trunks, ivrFlows, onSave, onClose }) => {
+const DidModal: React.FC<DidModalProps> = ({ did, trunks, ivrFlows, savedScripts, onSave, onClose }) => {
     const [formData, setFormData] = useState<Did>(did || {
         id: `did-${Date.now()}`,
         number: '',
         description: '',
         trunkId: trunks[0]?.id || '',
         ivrFlowId: null,
+        scriptId: null,
     });
 
     const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
@@ -57,6 +59,14 @@ const DidModal: React.FC<DidModalProps> = ({ did, trunks, ivrFlows, onSave, onCl
                                     {ivrFlows.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
                                 </select>
                             </div>
+                            <div>
+                                <label htmlFor="scriptId" className="block text-sm font-medium text-slate-700">Script des appels entrants</label>
+                                <select name="scriptId" id="scriptId" value={formData.scriptId || 'null'} onChange={handleChange} className="mt-1 block w-full p-2 border bg-white border-slate-300 rounded-md">
+                                    <option value="null">Aucun</option>
+                                    {savedScripts.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                                </select>
+                                <p className="text-xs text-slate-500 mt-1">Affiché à l'agent qui décroche, sauf si la file d'attente a son propre script.</p>
+                            </div>
                         </div>
                     </div>
                     <div className="bg-slate-50 px-4 py-3 sm:flex sm:flex-row-reverse rounded-b-lg">
@@ -74,11 +84,14 @@ interface DidManagerProps {
     dids: Did[];
     trunks: Trunk[];
     ivrFlows: IvrFlow[];
+    savedScripts: SavedScript[];
     onSaveDid: (did: Did) => void;
     onDeleteDid: (didId: string) => void;
+    hasPermission: (permission: Permission) => boolean;
 }
 
-const DidManager: React.FC<DidManagerProps> = ({ feature, dids, trunks, ivrFlows, onSaveDid, onDeleteDid }) => {
+const DidManager: React.FC<DidManagerProps> = ({ feature, dids, trunks, ivrFlows, savedScripts, onSaveDid, onDeleteDid, hasPermission }) => {
+    const canEdit = hasPermission('did.edit');
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [editingDid, setEditingDid] = useState<Did | null>(null);
 
@@ -109,7 +122,7 @@ const DidManager: React.FC<DidManagerProps> = ({ feature, dids, trunks, ivrFlows
 
     return (
         <div className="max-w-5xl mx-auto space-y-8">
-            {isModalOpen && <DidModal did={editingDid} trunks={trunks} ivrFlows={ivrFlows} onSave={handleSave} onClose={() => setIsModalOpen(false)} />}
+            {isModalOpen && <DidModal did={editingDid} trunks={trunks} ivrFlows={ivrFlows} savedScripts={savedScripts} onSave={handleSave} onClose={() => setIsModalOpen(false)} />}
             <header>
                 <h1 className="text-4xl font-bold text-slate-900 tracking-tight">{feature.title}</h1>
                 <p className="mt-2 text-lg text-slate-600">{feature.description}</p>
@@ -118,9 +131,11 @@ const DidManager: React.FC<DidManagerProps> = ({ feature, dids, trunks, ivrFlows
             <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200">
                 <div className="flex justify-between items-center mb-4">
                     <h2 className="text-2xl font-semibold text-slate-800">Numéros configurés</h2>
-                    <button onClick={handleAddNew} className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg shadow-md inline-flex items-center">
-                        <PlusIcon className="w-5 h-5 mr-2" />Ajouter un numéro
-                    </button>
+                    {canEdit && (
+                        <button onClick={handleAddNew} className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg shadow-md inline-flex items-center">
+                            <PlusIcon className="w-5 h-5 mr-2" />Ajouter un numéro
+                        </button>
+                    )}
                 </div>
 
                 <div className="overflow-x-auto">
@@ -140,8 +155,8 @@ const DidManager: React.FC<DidManagerProps> = ({ feature, dids, trunks, ivrFlows
                                     <td className="px-6 py-4 text-slate-600">{did.description}</td>
                                     <td className="px-6 py-4 text-slate-600">{getIvrFlowName(did.ivrFlowId)}</td>
                                     <td className="px-6 py-4 text-right text-sm font-medium space-x-4">
-                                        <button onClick={() => handleEdit(did)} className="text-indigo-600 hover:text-indigo-900"><EditIcon className="w-4 h-4 inline-block -mt-1"/> Modifier</button>
-                                        <button onClick={() => onDeleteDid(did.id)} className="text-red-600 hover:text-red-900"><TrashIcon className="w-4 h-4 inline-block -mt-1"/> Supprimer</button>
+                                        {canEdit && <button onClick={() => handleEdit(did)} className="text-indigo-600 hover:text-indigo-900"><EditIcon className="w-4 h-4 inline-block -mt-1"/> Modifier</button>}
+                                        {canEdit && <button onClick={() => onDeleteDid(did.id)} className="text-red-600 hover:text-red-900"><TrashIcon className="w-4 h-4 inline-block -mt-1"/> Supprimer</button>}
                                     </td>
                                 </tr>
                             ))}
@@ -0,0 +1,204 @@
+import React, { useState, useMemo, useRef } from 'react';
+import type { Feature, DncEntry, Campaign, User, Permission } from '../types.ts';
+import { PlusIcon, TrashIcon, ArrowUpTrayIcon } from './Icons.tsx';
+import { normalizePhoneNumber, readContactFile } from '../services/contactImport.ts';
+import { DNC_EXCLUSION_REASON_LABELS, DNC_SOURCE_LABELS, buildDncEntries, countExclusionsByReason, readDncNumbers, scrubContacts } from '../services/dnc.ts';
+
+const GLOBAL_SCOPE = 'global';
+
+interface DncManagerProps {
+    feature: Feature;
+    dncEntries: DncEntry[];
+    campaigns: Campaign[];
+    users: User[];
+    onAddDncEntries: (entries: DncEntry[]) => void;
+    onDeleteDncEntry: (entryId: string) => void;
+    hasPermission: (permission: Permission) => boolean;
+}
+
+const DncManager: React.FC<DncManagerProps> = ({ feature, dncEntries, campaigns, users, onAddDncEntries, onDeleteDncEntry, hasPermission }) => {
+    const canEdit = hasPermission('dnc.edit');
+    // Scope of the numbers added by hand or imported: the global list or a campaign id.
+    const [scope, setScope] = useState(GLOBAL_SCOPE);
+    const [newNumber, setNewNumber] = useState('');
+    const [scopeFilter, setScopeFilter] = useState('all');
+    const [search, setSearch] = useState('');
+    const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+    const [isReading, setIsReading] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const scopeCampaignId = scope === GLOBAL_SCOPE ? null : scope;
+
+    const getScopeLabel = (campaignId: string | null) => {
+        if (!campaignId) return 'Globale';
+        return campaigns.find(c => c.id === campaignId)?.name || <span className="text-red-500">Campagne supprimée</span>;
+    };
+
+    const getAddedBy = (entry: DncEntry) => {
+        const agent = entry.agentId ? users.find(u => u.id === entry.agentId) : undefined;
+        return agent ? `${DNC_SOURCE_LABELS[entry.source]} · ${agent.firstName} ${agent.lastName}` : DNC_SOURCE_LABELS[entry.source];
+    };
+
+    // Pending contacts the dialer and the agents skip because of the lists.
+    const exclusionReport = useMemo(() => campaigns.map(campaign => {
+        const pending = campaign.contacts.filter(c => c.status === 'pending');
+        const { excluded } = scrubContacts(pending, campaign.id, dncEntries);
+        return { campaign, pending: pending.length, excluded, byReason: countExclusionsByReason(excluded) };
+    }), [campaigns, dncEntries]);
+
+    const filteredEntries = useMemo(() => {
+        const term = search.replace(/[\s.\-]/g, '');
+        return dncEntries
+            .filter(e => scopeFilter === 'all' || (scopeFilter === GLOBAL_SCOPE ? e.campaignId === null : e.campaignId === scopeFilter))
+            .filter(e => !term || e.phoneNumber.includes(term))
+            .sort((a, b) => b.addedAt.localeCompare(a.addedAt));
+    }, [dncEntries, scopeFilter, search]);
+
+    const handleAddNumber = (e: React.FormEvent) => {
+        e.preventDefault();
+        const phoneNumber = normalizePhoneNumber(newNumber);
+        if (!phoneNumber) {
+            setMessage({ text: 'Numéro de téléphone invalide.', isError: true });
+            return;
+        }
+        const entries = buildDncEntries([phoneNumber], scopeCampaignId, dncEntries, 'manual');
+        if (entries.length === 0) {
+            setMessage({ text: `Le numéro ${phoneNumber} est déjà dans cette liste.`, isError: true });
+            return;
+        }
+        onAddDncEntries(entries);
+        setMessage({ text: `Le numéro ${phoneNumber} a été ajouté.`, isError: false });
+        setNewNumber('');
+    };
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        setMessage(null);
+        setIsReading(true);
+        try {
+            const { phoneNumbers, invalidCount } = readDncNumbers(await readContactFile(file));
+            const entries = buildDncEntries(phoneNumbers, scopeCampaignId, dncEntries, 'import');
+            if (entries.length > 0) onAddDncEntries(entries);
+            setMessage({
+                text: `${entries.length} numéro(s) ajouté(s), ${phoneNumbers.length - entries.length} déjà présent(s), ${invalidCount} invalide(s).`,
+                isError: false,
+            });
+        } catch (err) {
+            setMessage({ text: err instanceof Error ? err.message : 'Impossible de lire le fichier.', isError: true });
+        } finally {
+            setIsReading(false);
+            e.target.value = '';
+        }
+    };
+
+    return (
+        <div className="max-w-7xl mx-auto space-y-8">
+            <header>
+                <h1 className="text-4xl font-bold text-slate-900 tracking-tight">{feature.title}</h1>
+                <p className="mt-2 text-lg text-slate-600">{feature.description}</p>
+            </header>
+
+            <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200">
+                <h2 className="text-2xl font-semibold text-slate-800 mb-4">Contacts exclus par campagne</h2>
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-slate-200">
+                        <thead className="bg-slate-50">
+                            <tr>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">Campagne</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">Contacts à appeler</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">{DNC_EXCLUSION_REASON_LABELS.GLOBAL}</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">{DNC_EXCLUSION_REASON_LABELS.CAMPAIGN}</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">Numéros exclus</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-slate-200">
+                            {exclusionReport.map(({ campaign, pending, excluded, byReason }) => (
+                                <tr key={campaign.id}>
+                                    <td className="px-6 py-4 font-medium text-slate-800">{campaign.name}</td>
+                                    <td className="px-6 py-4 text-slate-600">{pending - excluded.length} / {pending}</td>
+                                    <td className="px-6 py-4 text-slate-600">{byReason.GLOBAL}</td>
+                                    <td className="px-6 py-4 text-slate-600">{byReason.CAMPAIGN}</td>
+                                    <td className="px-6 py-4 text-xs text-slate-500 font-mono">
+                                        {excluded.slice(0, 5).map(e => e.contact.phoneNumber).join(', ')}{excluded.length > 5 && ` (+${excluded.length - 5})`}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    {campaigns.length === 0 && <p className="text-center py-8 text-slate-500">Aucune campagne.</p>}
+                </div>
+            </div>
+
+            <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200">
+                <h2 className="text-2xl font-semibold text-slate-800 mb-4">Numéros à ne pas appeler</h2>
+                {canEdit && (
+                    <div className="mb-6 p-4 bg-slate-50 border rounded-md space-y-3">
+                        <form onSubmit={handleAddNumber} className="flex flex-wrap items-end gap-3">
+                            <div>
+                                <label className="block text-sm font-medium text-slate-700">Liste</label>
+                                <select value={scope} onChange={e => setScope(e.target.value)} className="mt-1 block p-2 border bg-white border-slate-300 rounded-md text-sm">
+                                    <option value={GLOBAL_SCOPE}>Globale (toutes les campagnes)</option>
+                                    {campaigns.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-slate-700">Numéro</label>
+                                <input type="tel" value={newNumber} onChange={e => setNewNumber(e.target.value)} placeholder="06 12 34 56 78" className="mt-1 block p-2 border border-slate-300 rounded-md text-sm" />
+                            </div>
+                            <button type="submit" disabled={!newNumber.trim()} className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg shadow-md inline-flex items-center disabled:opacity-50">
+                                <PlusIcon className="w-5 h-5 mr-2" />Ajouter
+                            </button>
+                            <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".csv,.txt,.xlsx,.xls" className="hidden" />
+                            <button type="button" onClick={() => fileInputRef.current?.click()} disabled={isReading} className="bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 font-semibold py-2 px-4 rounded-lg inline-flex items-center disabled:opacity-50">
+                                <ArrowUpTrayIcon className="w-5 h-5 mr-2" />{isReading ? 'Lecture...' : 'Importer un fichier'}
+                            </button>
+                        </form>
+                        <p className="text-xs text-slate-500">Fichier CSV ou Excel : la colonne du téléphone est détectée par son en-tête, sinon la première colonne est lue.</p>
+                        {message && <p className={`text-sm ${message.isError ? 'text-red-600' : 'text-green-700'}`}>{message.text}</p>}
+                    </div>
+                )}
+
+                <div className="flex flex-wrap gap-3 mb-4">
+                    <select value={scopeFilter} onChange={e => setScopeFilter(e.target.value)} className="p-2 border bg-white border-slate-300 rounded-md text-sm">
+                        <option value="all">Toutes les listes</option>
+                        <option value={GLOBAL_SCOPE}>Globale</option>
+                        {campaigns.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                    </select>
+                    <input type="search" value={search} onChange={e => setSearch(e.target.value)} placeholder="Rechercher un numéro..." className="p-2 border border-slate-300 rounded-md text-sm" />
+                    <p className="self-center text-sm text-slate-500">{filteredEntries.length.toLocaleString('fr-FR')} numéro(s)</p>
+                </div>
+
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-slate-200">
+                        <thead className="bg-slate-50">
+                            <tr>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">Numéro</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">Liste</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">Origine</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">Ajouté le</th>
+                                <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-slate-200">
+                            {filteredEntries.map(entry => (
+                                <tr key={entry.id}>
+                                    <td className="px-6 py-4 font-medium text-slate-800 font-mono">{entry.phoneNumber}</td>
+                                    <td className="px-6 py-4 text-slate-600">{getScopeLabel(entry.campaignId)}</td>
+                                    <td className="px-6 py-4 text-slate-600">{getAddedBy(entry)}</td>
+                                    <td className="px-6 py-4 text-slate-600">{new Date(entry.addedAt).toLocaleString('fr-FR')}</td>
+                                    <td className="px-6 py-4 text-right text-sm font-medium">
+                                        {canEdit && <button onClick={() => onDeleteDncEntry(entry.id)} className="text-red-600 hover:text-red-900"><TrashIcon className="w-4 h-4 inline-block -mt-1"/> Retirer</button>}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    {filteredEntries.length === 0 && <p className="text-center py-8 text-slate-500">Aucun numéro.</p>}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default DncManager;
@@ -1,6 +1,6 @@
 
 import React, { useState } from 'react';
-import type { Feature, User, UserGroup } from '../types.ts';
+import type { Feature, User, UserGroup, Permission } from '../types.ts';
 import { PlusIcon, EditIcon, TrashIcon } from './Icons.tsx';
 
 // Modal component for creating/editing a group
@@ -90,9 +90,11 @@ interface GroupManagerProps {
     userGroups: UserGroup[];
     onSaveUserGroup: (group: UserGroup) => void;
     onDeleteUserGroup: (groupId: string) => void;
+    hasPermission: (permission: Permission) => boolean;
 }
 
-const GroupManager: React.FC<GroupManagerProps> = ({ feature, users, userGroups, onSaveUserGroup, onDeleteUserGroup }) => {
+const GroupManager: React.FC<GroupManagerProps> = ({ feature, users, userGroups, onSaveUserGroup, onDeleteUserGroup, hasPermission }) => {
+    const canEdit = hasPermission('group.edit');
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [editingGroup, setEditingGroup] = useState<UserGroup | null>(null);
 
@@ -123,10 +125,12 @@ const GroupManager: React.FC<GroupManagerProps> = ({ feature, users, userGroups,
             <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200">
                 <div className="flex justify-between items-center mb-4">
                     <h2 className="text-2xl font-semibold text-slate-800">Groupes d'agents</h2>
-                    <button onClick={handleAddNew} className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg shadow-md inline-flex items-center">
-                        <PlusIcon className="w-5 h-5 mr-2" />
-                        Créer un groupe
-                    </button>
+                    {canEdit && (
+                        <button onClick={handleAddNew} className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg shadow-md inline-flex items-center">
+                            <PlusIcon className="w-5 h-5 mr-2" />
+                            Créer un groupe
+                        </button>
+                    )}
                 </div>
 
                 <div className="overflow-x-auto">
@@ -144,8 +148,8 @@ const GroupManager: React.FC<GroupManagerProps> = ({ feature, users, userGroups,
                                     <td className="px-6 py-4 font-medium text-slate-800">{group.name}</td>
                                     <td className="px-6 py-4 text-slate-600">{group.memberIds.length}</td>
                                     <td className="px-6 py-4 text-right text-sm font-medium space-x-4">
-                                        <button onClick={() => handleEdit(group)} className="text-indigo-600 hover:text-indigo-900"><EditIcon className="w-4 h-4 inline-block -mt-1"/> Modifier</button>
-                                        <button onClick={() => onDeleteUserGroup(group.id)} className="text-red-600 hover:text-red-900"><TrashIcon className="w-4 h-4 inline-block -mt-1"/> Supprimer</button>
+                                        {canEdit && <button onClick={() => handleEdit(group)} className="text-indigo-600 hover:text-indigo-900"><EditIcon className="w-4 h-4 inline-block -mt-1"/> Modifier</button>}
+                                        {canEdit && <button onClick={() => onDeleteUserGroup(group.id)} className="text-red-600 hover:text-red-900"><TrashIcon className="w-4 h-4 inline-block -mt-1"/> Supprimer</button>}
                                     </td>
                                 </tr>
                             ))}
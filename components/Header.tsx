@@ -4,9 +4,10 @@ import { WrenchScrewdriverIcon, ServerStackIcon } from './Icons.tsx';
 interface HeaderProps {
     activeView: 'app' | 'monitoring';
     onViewChange: (view: 'app' | 'monitoring') => void;
+    canViewMonitoring: boolean;
 }
 
-const Header: React.FC<HeaderProps> = ({ activeView, onViewChange }) => {
+const Header: React.FC<HeaderProps> = ({ activeView, onViewChange, canViewMonitoring }) => {
     const TabButton: React.FC<{
         viewName: 'app' | 'monitoring';
         label: string;
@@ -32,7 +33,7 @@ const Header: React.FC<HeaderProps> = ({ activeView, onViewChange }) => {
         <header className="flex-shrink-0 bg-white shadow-sm border-b border-slate-200">
             <nav className="flex space-x-2">
                 <TabButton viewName="app" label="Application" icon={WrenchScrewdriverIcon} />
-                <TabButton viewName="monitoring" label="Monitoring" icon={ServerStackIcon} />
+                {canViewMonitoring && <TabButton viewName="monitoring" label="Monitoring" icon={ServerStackIcon} />}
             </nav>
         </header>
     );
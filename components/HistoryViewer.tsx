@@ -1,13 +1,24 @@
-import React, { useState, useMemo } from 'react';
-import type { Feature, CallHistoryRecord, User, Campaign, Qualification } from '../types.ts';
+import React, { useState, useMemo, useEffect } from 'react';
+import type { Feature, CallHistoryRecord, CallData, PreviewDecisionRecord, User, Campaign, Qualification, SavedScript, CallRecording, Permission } from '../types.ts';
+import { ChevronDownIcon, InboxArrowDownIcon } from './Icons.tsx';
+import { buildCallDataCsv, formatCallDataValue } from '../services/callData.ts';
+import { PREVIEW_DECISION_LABELS } from '../services/preview.ts';
+import RecordingPlayer from './RecordingPlayer.tsx';
 
 const HistoryViewer: React.FC<{
     feature: Feature;
     callHistory: CallHistoryRecord[];
+    callData: CallData[];
+    previewDecisions: PreviewDecisionRecord[];
     users: User[];
     campaigns: Campaign[];
     qualifications: Qualification[];
-}> = ({ feature, callHistory, users, campaigns, qualifications }) => {
+    savedScripts: SavedScript[];
+    recordings: CallRecording[];
+    hasPermission: (permission: Permission) => boolean;
+    onRefreshRecordings: () => void;
+    onFetchRecordingAudio: (recordingId: string) => Promise<Blob>;
+}> = ({ feature, callHistory, callData, previewDecisions, users, campaigns, qualifications, savedScripts, recordings, hasPermission, onRefreshRecordings, onFetchRecordingAudio }) => {
     const today = new Date().toISOString().split('T')[0];
     const [filters, setFilters] = useState({
         direction: 'all',
@@ -15,6 +26,13 @@ const HistoryViewer: React.FC<{
         endDate: today,
         searchTerm: '',
     });
+    const [expandedCallId, setExpandedCallId] = useState<string | null>(null);
+    const [playingCallId, setPlayingCallId] = useState<string | null>(null);
+    const canListen = hasPermission('records.view');
+
+    useEffect(() => {
+        if (canListen) onRefreshRecordings();
+    }, [canListen]);
 
     const formatDuration = (seconds: number) => {
         if(isNaN(seconds) || seconds < 0) return '00:00:00';
@@ -65,6 +83,48 @@ const HistoryViewer: React.FC<{
         }).sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
     }, [callHistory, filters, users, campaigns]);
 
+    // Contacts skipped or rejected during the preview, in the same period.
+    const filteredDecisions = useMemo(() => {
+        const start = new Date(filters.startDate);
+        start.setHours(0, 0, 0, 0);
+        const end = new Date(filters.endDate);
+        end.setHours(23, 59, 59, 999);
+        const term = filters.searchTerm.toLowerCase();
+
+        return previewDecisions.filter(decision => {
+            const date = new Date(decision.timestamp);
+            if (date < start || date > end) return false;
+            if (term) {
+                const agentName = (findEntityName(decision.agentId, users, true) as string).toLowerCase();
+                const campaignName = (findEntityName(decision.campaignId, campaigns, true) as string).toLowerCase();
+                const contact = campaigns.find(c => c.id === decision.campaignId)?.contacts.find(ct => ct.id === decision.contactId);
+                const contactText = contact ? `${contact.firstName} ${contact.lastName} ${contact.phoneNumber}`.toLowerCase() : '';
+                if (!agentName.includes(term) && !campaignName.includes(term) && !contactText.includes(term)) return false;
+            }
+            return true;
+        }).sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+    }, [previewDecisions, filters, users, campaigns]);
+
+    const callDataByCallId = useMemo(() => new Map<string, CallData>(callData.map(d => [d.callId, d])), [callData]);
+    const recordingByCallId = useMemo(() => new Map(recordings.map(r => [r.callId, r])), [recordings]);
+
+    const handleExportCallData = () => {
+        const records = filteredCalls.map(call => callDataByCallId.get(call.id)).filter((d): d is CallData => !!d);
+        if (records.length === 0) {
+            alert("Aucune donnée d'appel à exporter pour les filtres sélectionnés.");
+            return;
+        }
+        const csv = buildCallDataCsv(records, { callHistory, users, campaigns, qualifications });
+        // The BOM lets Excel detect UTF-8 and display accents correctly.
+        const blob = new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `donnees-appels_${filters.startDate}_${filters.endDate}.csv`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
     return (
         <div className="max-w-7xl mx-auto space-y-8">
             <header>
@@ -98,7 +158,12 @@ const HistoryViewer: React.FC<{
                     </div>
                 </div>
                 
-                <h2 className="text-2xl font-semibold text-slate-800 mb-4 mt-6 border-b pb-2">Historique des Appels</h2>
+                <div className="flex justify-between items-center mb-4 mt-6 border-b pb-2">
+                    <h2 className="text-2xl font-semibold text-slate-800">Historique des Appels</h2>
+                    <button onClick={handleExportCallData} className="bg-slate-200 hover:bg-slate-300 text-slate-800 font-bold py-2 px-4 rounded-lg shadow-sm inline-flex items-center">
+                        <InboxArrowDownIcon className="w-5 h-5 mr-2" /> Exporter les données d'appel (CSV)
+                    </button>
+                </div>
                 <div className="overflow-x-auto">
                     <table className="min-w-full divide-y divide-slate-200">
                         <thead className="bg-slate-50">
@@ -110,11 +175,19 @@ const HistoryViewer: React.FC<{
                                 <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">Campagne</th>
                                 <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">Durée</th>
                                 <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">Qualification</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">Données</th>
+                                {canListen && <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">Enregistrement</th>}
                             </tr>
                         </thead>
                         <tbody className="bg-white divide-y divide-slate-200">
-                            {filteredCalls.map(call => (
-                                <tr key={call.id}>
+                            {filteredCalls.map(call => {
+                                const data = callDataByCallId.get(call.id);
+                                const isExpanded = expandedCallId === call.id;
+                                const recording = canListen ? recordingByCallId.get(call.id) : undefined;
+                                const isPlaying = !!recording && playingCallId === call.id;
+                                return (
+                                <React.Fragment key={call.id}>
+                                <tr>
                                     <td className="px-6 py-4 text-sm text-slate-600">{new Date(call.timestamp).toLocaleString('fr-FR')}</td>
                                     <td className="px-6 py-4 text-sm capitalize">{call.direction === 'inbound' ? 'Entrant' : 'Sortant'}</td>
                                     <td className="px-6 py-4 text-sm font-mono text-slate-800">{call.callerNumber}</td>
@@ -122,13 +195,103 @@ const HistoryViewer: React.FC<{
                                     <td className="px-6 py-4 text-sm text-slate-600">{findEntityName(call.campaignId, campaigns)}</td>
                                     <td className="px-6 py-4 text-sm font-mono text-slate-600">{formatDuration(call.duration)}</td>
                                     <td className="px-6 py-4 text-sm text-slate-600">{findEntityName(call.qualificationId, qualifications)}</td>
+                                    <td className="px-6 py-4 text-sm">
+                                        {data ? (
+                                            <button onClick={() => setExpandedCallId(isExpanded ? null : call.id)} className="inline-flex items-center text-indigo-600 hover:text-indigo-900 font-medium">
+                                                {Object.keys(data.values).length} réponse(s)
+                                                <ChevronDownIcon className={`w-4 h-4 ml-1 transition-transform ${isExpanded ? '' : '-rotate-90'}`} />
+                                            </button>
+                                        ) : <span className="text-slate-400 italic">—</span>}
+                                    </td>
+                                    {canListen && (
+                                        <td className="px-6 py-4 text-sm">
+                                            {recording ? (
+                                                <button onClick={() => setPlayingCallId(isPlaying ? null : call.id)} className="inline-flex items-center text-indigo-600 hover:text-indigo-900 font-medium">
+                                                    Écouter
+                                                    <ChevronDownIcon className={`w-4 h-4 ml-1 transition-transform ${isPlaying ? '' : '-rotate-90'}`} />
+                                                </button>
+                                            ) : <span className="text-slate-400 italic">—</span>}
+                                        </td>
+                                    )}
                                 </tr>
-                            ))}
+                                {recording && isPlaying && (
+                                    <tr className="bg-slate-50">
+                                        <td colSpan={9} className="px-6 py-4">
+                                            <RecordingPlayer recording={recording} onFetchAudio={onFetchRecordingAudio} />
+                                        </td>
+                                    </tr>
+                                )}
+                                {data && isExpanded && (
+                                    <tr className="bg-slate-50">
+                                        <td colSpan={canListen ? 9 : 8} className="px-6 py-4">
+                                            <p className="text-xs text-slate-500 mb-2">
+                                                Script {findEntityName(data.scriptId, savedScripts)} (version {data.scriptVersion}) · enregistré le {new Date(data.savedAt).toLocaleString('fr-FR')}
+                                            </p>
+                                            <dl className="grid grid-cols-1 md:grid-cols-3 gap-x-6 gap-y-2 text-sm">
+                                                {Object.entries(data.values).map(([name, value]) => (
+                                                    <div key={name}>
+                                                        <dt className="font-semibold text-slate-600">{name}</dt>
+                                                        <dd className="text-slate-800">{formatCallDataValue(value) || <span className="text-slate-400 italic">vide</span>}</dd>
+                                                    </div>
+                                                ))}
+                                            </dl>
+                                        </td>
+                                    </tr>
+                                )}
+                                </React.Fragment>
+                                );
+                            })}
                         </tbody>
                     </table>
                     {filteredCalls.length === 0 && <p className="text-center py-8 text-slate-500">Aucun enregistrement d'appel trouvé pour les filtres sélectionnés.</p>}
                 </div>
             </div>
+
+            <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200">
+                <h2 className="text-2xl font-semibold text-slate-800 mb-4">Contacts passés ou rejetés en prévisualisation</h2>
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-slate-200">
+                        <thead className="bg-slate-50">
+                            <tr>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">Date</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">Agent</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">Campagne</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">Contact</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">Décision</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">Motif</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-slate-200">
+                            {filteredDecisions.map(decision => {
+                                const contact = campaigns.find(c => c.id === decision.campaignId)?.contacts.find(ct => ct.id === decision.contactId);
+                                return (
+                                    <tr key={decision.id}>
+                                        <td className="px-6 py-4 text-sm text-slate-600">{new Date(decision.timestamp).toLocaleString('fr-FR')}</td>
+                                        <td className="px-6 py-4 text-sm font-medium text-slate-800">{findEntityName(decision.agentId, users)}</td>
+                                        <td className="px-6 py-4 text-sm text-slate-600">{findEntityName(decision.campaignId, campaigns)}</td>
+                                        <td className="px-6 py-4 text-sm">
+                                            {contact ? (
+                                                <>
+                                                    <p className="font-medium text-slate-800">{contact.firstName} {contact.lastName}</p>
+                                                    <p className="text-slate-500 font-mono">{contact.phoneNumber}</p>
+                                                </>
+                                            ) : <span className="text-red-500">Inconnu</span>}
+                                        </td>
+                                        <td className="px-6 py-4 text-sm">
+                                            <span className={`text-xs font-semibold rounded-full px-2 py-1 ${decision.decision === 'reject' ? 'bg-red-100 text-red-700' : 'bg-slate-100 text-slate-600'}`}>{PREVIEW_DECISION_LABELS[decision.decision]}</span>
+                                        </td>
+                                        <td className="px-6 py-4 text-sm text-slate-600">
+                                            <p>{decision.reason}</p>
+                                            {decision.comment && <p className="text-xs text-slate-500 italic">{decision.comment}</p>}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                    {filteredDecisions.length === 0 && <p className="text-center py-8 text-slate-500">Aucun contact passé ou rejeté pour les filtres sélectionnés.</p>}
+                </div>
+            </div>
         </div>
     );
 };
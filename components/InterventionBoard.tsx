@@ -0,0 +1,67 @@
+import React, { useEffect } from 'react';
+import type { SupervisorActionRecord, SupervisorActionType, User } from '../types.ts';
+
+interface InterventionBoardProps {
+    actions: SupervisorActionRecord[];
+    users: User[];
+    onRefresh: () => void;
+}
+
+export const SUPERVISOR_ACTION_LABELS: { [key in SupervisorActionType]: { label: string; color: string } } = {
+    listen: { label: 'Écoute', color: 'bg-sky-100 text-sky-800' },
+    whisper: { label: 'Coaching', color: 'bg-indigo-100 text-indigo-800' },
+    barge: { label: 'Intervention', color: 'bg-amber-100 text-amber-800' },
+    forcePause: { label: 'Pause forcée', color: 'bg-slate-200 text-slate-800' },
+    forceLogout: { label: 'Déconnexion forcée', color: 'bg-red-100 text-red-800' },
+};
+
+const InterventionBoard: React.FC<InterventionBoardProps> = ({ actions, users, onRefresh }) => {
+    // Actions of the other supervisors are only known to the server.
+    useEffect(() => {
+        onRefresh();
+    }, []);
+
+    const findUserName = (userId: string) => {
+        const user = users.find(u => u.id === userId);
+        return user ? `${user.firstName} ${user.lastName}` : userId;
+    };
+
+    const sortedActions = [...actions].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+
+    return (
+        <div className="overflow-x-auto">
+            <div className="flex justify-end mb-2">
+                <button onClick={onRefresh} className="bg-slate-200 hover:bg-slate-300 text-slate-800 font-semibold py-1 px-3 rounded-md text-sm">Rafraîchir</button>
+            </div>
+            <table className="min-w-full divide-y divide-slate-200">
+                <thead className="bg-slate-50">
+                    <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase">Date & Heure</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase">Superviseur</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase">Action</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase">Agent</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase">Appel</th>
+                    </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-slate-200 text-sm">
+                    {sortedActions.map(action => (
+                        <tr key={action.id}>
+                            <td className="px-4 py-3 text-slate-600">{new Date(action.timestamp).toLocaleString('fr-FR')}</td>
+                            <td className="px-4 py-3 font-medium text-slate-800">{action.supervisorName}</td>
+                            <td className="px-4 py-3">
+                                <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${SUPERVISOR_ACTION_LABELS[action.action].color}`}>
+                                    {SUPERVISOR_ACTION_LABELS[action.action].label}
+                                </span>
+                            </td>
+                            <td className="px-4 py-3 text-slate-800">{findUserName(action.agentId)}</td>
+                            <td className="px-4 py-3 font-mono text-xs text-slate-500">{action.callId || '—'}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            {actions.length === 0 && <p className="text-center py-8 text-slate-500">Aucune intervention enregistrée.</p>}
+        </div>
+    );
+};
+
+export default InterventionBoard;
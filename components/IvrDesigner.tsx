@@ -1,15 +1,16 @@
 
 import React, { useState, useRef, useCallback, useEffect } from 'react';
 // Fix: added .ts extension to import path
-import type { IvrFlow, IvrNode, IvrConnection, IvrNodeType, IvrNodePort, CalendarEvent, DayOfWeek } from '../types.ts';
+import type { IvrFlow, IvrNode, IvrConnection, IvrNodeType, IvrNodePort, CalendarEvent, DayOfWeek, AcdQueue } from '../types.ts';
 import {
-    MenuIcon, SpeakerWaveIcon, InboxArrowDownIcon, PhoneArrowUpRightIcon, PhoneXMarkIcon, DateIcon,
+    UsersIcon, MenuIcon, SpeakerWaveIcon, InboxArrowDownIcon, PhoneArrowUpRightIcon, PhoneXMarkIcon, DateIcon,
     PlayIcon, SettingsIcon, TrashIcon, PlusIcon, XMarkIcon, MinusIcon, ResetViewIcon
 // Fix: added .tsx extension to import path
 } from './Icons.tsx';
 
 interface IvrDesignerProps {
     flow: IvrFlow;
+    acdQueues: AcdQueue[];
     onSave: (flow: IvrFlow) => void;
     onClose: () => void;
 }
@@ -29,6 +30,7 @@ const nodeMetadata: { [key in IvrNodeType]: {
     voicemail: { icon: InboxArrowDownIcon, name: 'Messagerie', defaultContent: { prompt: 'Laissez un message.' }, defaultWidth: 200, defaultHeight: 100, ports: [{ id: 'in', type: 'input', label: '' }] },
     transfer: { icon: PhoneArrowUpRightIcon, name: 'Transfert', defaultContent: { number: '+33...' }, defaultWidth: 200, defaultHeight: 100, ports: [{ id: 'in', type: 'input', label: '' }, { id: 'out', type: 'output', label: 'Échec' }] },
     hangup: { icon: PhoneXMarkIcon, name: 'Raccrocher', defaultContent: {}, defaultWidth: 150, defaultHeight: 60, ports: [{ id: 'in', type: 'input', label: '' }] },
+    queue: { icon: UsersIcon, name: 'File d\'attente', defaultContent: { queueId: '' }, defaultWidth: 200, defaultHeight: 100, ports: [{ id: 'in', type: 'input', label: '' }, { id: 'out-overflow', type: 'output', label: 'Débordement' }] },
 };
 
 const NODE_COLORS: { [key in IvrNodeType]: string } = {
@@ -39,6 +41,7 @@ const NODE_COLORS: { [key in IvrNodeType]: string } = {
     voicemail: 'bg-sky-100 border-sky-300',
     transfer: 'bg-rose-100 border-rose-300',
     hangup: 'bg-slate-200 border-slate-400',
+    queue: 'bg-teal-100 border-teal-300',
 };
 
 // FIX: Explicitly type WEEK_DAYS to ensure day.key is of type DayOfWeek.
@@ -67,7 +70,7 @@ const Port: React.FC<{ node: IvrNode; port: IvrNodePort; onStartConnect: (nodeId
 };
 
 
-const IvrDesigner: React.FC<IvrDesignerProps> = ({ flow: initialFlow, onSave, onClose }) => {
+const IvrDesigner: React.FC<IvrDesignerProps> = ({ flow: initialFlow, acdQueues, onSave, onClose }) => {
     const [flow, setFlow] = useState<IvrFlow>(initialFlow);
     const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
     const [connecting, setConnecting] = useState<{ fromNodeId: string; fromPortId: string; toMouse: { x: number, y: number } } | null>(null);
@@ -289,6 +292,15 @@ const IvrDesigner: React.FC<IvrDesignerProps> = ({ flow: initialFlow, onSave, on
                     <input type="text" value={selectedNode.name} onChange={e => updateFlow(draft => { const n = draft.nodes.find(n => n.id === selectedNode.id); if(n) n.name = e.target.value; })} className="w-full p-1.5 border rounded-md mt-1"/>
                 </div>
 
+                {selectedNode.type === 'queue' && <div>
+                    <label className="font-semibold text-slate-600">File d'attente</label>
+                    <select value={selectedNode.content.queueId} onChange={e => updateNodeContent(selectedNode.id, 'queueId', e.target.value)} className="w-full p-1.5 border rounded-md mt-1 bg-white">
+                        <option value="">-- Choisir --</option>
+                        {acdQueues.map(queue => <option key={queue.id} value={queue.id}>{queue.name}</option>)}
+                    </select>
+                    <p className="text-xs text-slate-500 mt-1">L'appelant attend un agent compétent. La sortie 'Débordement' est suivie selon les règles de la file, ou si l'agent ne décroche pas.</p>
+                </div>}
+
                 {selectedNode.type === 'media' && <div><label className="font-semibold text-slate-600">Message à diffuser</label><textarea value={selectedNode.content.prompt} onChange={e => updateNodeContent(selectedNode.id, 'prompt', e.target.value)} className="w-full p-1.5 border rounded-md mt-1" rows={3}/></div>}
                 
                 {selectedNode.type === 'menu' && <div>
@@ -532,7 +544,7 @@ const IvrDesigner: React.FC<IvrDesignerProps> = ({ flow: initialFlow, onSave, on
                                         <Icon className="w-4 h-4 mr-2" />
                                         {node.name}
                                     </div>
-                                    <div className="text-xs text-slate-600 flex-grow">{node.content.prompt || node.content.number}</div>
+                                    <div className="text-xs text-slate-600 flex-grow">{node.content.prompt || node.content.number || acdQueues.find(q => q.id === node.content.queueId)?.name}</div>
                                     {getAllPortsForNode(node).map(port => {
                                         const portPos = getPortPosition(node.id, port.id);
                                         if (!portPos) return null;
@@ -1,7 +1,7 @@
 
 import React, { useState } from 'react';
 // Fix: added .ts extension to import path
-import type { Feature, IvrFlow, IvrNode } from '../types.ts';
+import type { Feature, IvrFlow, IvrNode, Permission, AcdQueue } from '../types.ts';
 // Fix: added .tsx extension to import path
 import IvrDesigner from './IvrDesigner.tsx';
 // Fix: added .tsx extension to import path
@@ -10,18 +10,23 @@ import { EditIcon, DuplicateIcon, TrashIcon, PlusIcon } from './Icons.tsx';
 interface IvrFeatureProps {
     feature: Feature;
     ivrFlows: IvrFlow[];
+    acdQueues: AcdQueue[];
     onSaveOrUpdateIvrFlow: (flow: IvrFlow) => void;
     onDeleteIvrFlow: (flowId: string) => void;
     onDuplicateIvrFlow: (flowId: string) => void;
+    hasPermission: (permission: Permission) => boolean;
 }
 
 const IvrFeature: React.FC<IvrFeatureProps> = ({
     feature,
     ivrFlows,
+    acdQueues,
     onSaveOrUpdateIvrFlow,
     onDeleteIvrFlow,
     onDuplicateIvrFlow,
+    hasPermission,
 }) => {
+    const canEdit = hasPermission('ivr.edit');
     const [view, setView] = useState<'list' | 'editor'>('list');
     const [activeFlow, setActiveFlow] = useState<IvrFlow | null>(null);
 
@@ -64,6 +69,7 @@ const IvrFeature: React.FC<IvrFeatureProps> = ({
         return (
             <IvrDesigner
                 flow={activeFlow}
+                acdQueues={acdQueues}
                 onSave={handleSave}
                 onClose={handleCloseEditor}
             />
@@ -80,13 +86,15 @@ const IvrFeature: React.FC<IvrFeatureProps> = ({
             <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200">
                 <div className="flex justify-between items-center mb-4">
                     <h2 className="text-2xl font-semibold text-slate-800">Flux SVI Sauvegardés</h2>
-                    <button
-                        onClick={handleCreateNew}
-                        className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg shadow-md transition-colors inline-flex items-center"
-                    >
-                        <PlusIcon className="w-5 h-5 mr-2" />
-                        Créer un nouveau flux
-                    </button>
+                    {canEdit && (
+                        <button
+                            onClick={handleCreateNew}
+                            className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg shadow-md transition-colors inline-flex items-center"
+                        >
+                            <PlusIcon className="w-5 h-5 mr-2" />
+                            Créer un nouveau flux
+                        </button>
+                    )}
                 </div>
 
                 {ivrFlows.length > 0 ? (
@@ -103,9 +111,9 @@ const IvrFeature: React.FC<IvrFeatureProps> = ({
                                     <tr key={flow.id}>
                                         <td className="px-6 py-4 whitespace-nowrap font-medium text-slate-800">{flow.name}</td>
                                         <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-4">
-                                            <button onClick={() => handleEdit(flow)} className="text-indigo-600 hover:text-indigo-900 inline-flex items-center"><EditIcon className="w-4 h-4 mr-1"/> Modifier</button>
-                                            <button onClick={() => onDuplicateIvrFlow(flow.id)} className="text-slate-500 hover:text-slate-800 inline-flex items-center"><DuplicateIcon className="w-4 h-4 mr-1"/> Dupliquer</button>
-                                            <button onClick={() => onDeleteIvrFlow(flow.id)} className="text-red-600 hover:text-red-900 inline-flex items-center"><TrashIcon className="w-4 h-4 mr-1"/> Supprimer</button>
+                                            {canEdit && <button onClick={() => handleEdit(flow)} className="text-indigo-600 hover:text-indigo-900 inline-flex items-center"><EditIcon className="w-4 h-4 mr-1"/> Modifier</button>}
+                                            {canEdit && <button onClick={() => onDuplicateIvrFlow(flow.id)} className="text-slate-500 hover:text-slate-800 inline-flex items-center"><DuplicateIcon className="w-4 h-4 mr-1"/> Dupliquer</button>}
+                                            {canEdit && <button onClick={() => onDeleteIvrFlow(flow.id)} className="text-red-600 hover:text-red-900 inline-flex items-center"><TrashIcon className="w-4 h-4 mr-1"/> Supprimer</button>}
                                         </td>
                                     </tr>
                                 ))}
@@ -1,33 +1,39 @@
 import React, { useState } from 'react';
-import type { User } from '../types.ts';
+import type { ApiClient, ApiRequestError } from '../services/apiClient.ts';
+import type { AuthSession } from '../services/apiContract.ts';
 import { LogoIcon } from './Icons.tsx';
 
 interface LoginScreenProps {
-    users: User[];
-    onLoginSuccess: (user: User) => void;
+    api: ApiClient;
+    onLoginSuccess: (session: AuthSession) => void;
 }
 
-const LoginScreen: React.FC<LoginScreenProps> = ({ users, onLoginSuccess }) => {
+const getLoginErrorMessage = (err: ApiRequestError): string => {
+    switch (err.code) {
+        case 'INVALID_CREDENTIALS': return "Identifiant ou mot de passe incorrect.";
+        case 'ACCOUNT_DISABLED': return "Ce compte utilisateur est désactivé.";
+        case 'ACCOUNT_LOCKED': return "Trop de tentatives échouées. Ce compte est temporairement verrouillé, réessayez plus tard.";
+        default: return err.status ? "La connexion a échoué. Veuillez réessayer." : "Le serveur est injoignable. Veuillez réessayer plus tard.";
+    }
+};
+
+const LoginScreen: React.FC<LoginScreenProps> = ({ api, onLoginSuccess }) => {
     const [loginId, setLoginId] = useState('');
     const [password, setPassword] = useState('');
     const [error, setError] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
 
-    const handleSubmit = (e: React.FormEvent) => {
+    const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setError('');
-
-        const user = users.find(u => u.loginId === loginId);
-
-        // In a real application, never compare passwords in plaintext.
-        // This would be a request to a backend that compares a salted hash.
-        if (user && user.password === password) {
-            if (user.isActive) {
-                onLoginSuccess(user);
-            } else {
-                setError("Ce compte utilisateur est désactivé.");
-            }
-        } else {
-            setError("Identifiant ou mot de passe incorrect.");
+        setIsSubmitting(true);
+        try {
+            onLoginSuccess(await api.login({ loginId, password }));
+        } catch (err) {
+            setError(getLoginErrorMessage(err as ApiRequestError));
+            setPassword('');
+        } finally {
+            setIsSubmitting(false);
         }
     };
 
@@ -83,9 +89,10 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ users, onLoginSuccess }) => {
                         <div>
                             <button
                                 type="submit"
-                                className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                                disabled={isSubmitting}
+                                className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
                             >
-                                Entrer
+                                {isSubmitting ? 'Connexion...' : 'Entrer'}
                             </button>
                         </div>
                     </form>
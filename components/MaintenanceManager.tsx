@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import type { Feature, BackupLog, BackupSchedule } from '../types.ts';
+import type { Feature, BackupLog, BackupSchedule, Permission } from '../types.ts';
 import { DatabaseIcon } from './Icons.tsx';
 
 interface MaintenanceManagerProps {
@@ -8,6 +8,7 @@ interface MaintenanceManagerProps {
     backupSchedule: BackupSchedule;
     onManualBackup: () => void;
     onUpdateSchedule: (schedule: BackupSchedule) => void;
+    hasPermission: (permission: Permission) => boolean;
 }
 
 const MaintenanceManager: React.FC<MaintenanceManagerProps> = ({
@@ -15,8 +16,10 @@ const MaintenanceManager: React.FC<MaintenanceManagerProps> = ({
     backupLogs,
     backupSchedule,
     onManualBackup,
-    onUpdateSchedule
+    onUpdateSchedule,
+    hasPermission
 }) => {
+    const canEdit = hasPermission('maintenance.edit');
     const [schedule, setSchedule] = useState<BackupSchedule>(backupSchedule);
     const [isLoading, setIsLoading] = useState(false);
 
@@ -54,7 +57,7 @@ const MaintenanceManager: React.FC<MaintenanceManagerProps> = ({
                     </p>
                     <button
                         onClick={handleBackupClick}
-                        disabled={isLoading}
+                        disabled={isLoading || !canEdit}
                         className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 px-4 rounded-lg shadow-md inline-flex items-center justify-center disabled:bg-indigo-400 disabled:cursor-not-allowed"
                     >
                         {isLoading ? (
@@ -94,7 +97,8 @@ const MaintenanceManager: React.FC<MaintenanceManagerProps> = ({
                                 name="frequency"
                                 value={schedule.frequency}
                                 onChange={handleScheduleChange}
-                                className="mt-1 block w-full p-2 border border-slate-300 rounded-md bg-white"
+                                disabled={!canEdit}
+                                className="mt-1 block w-full p-2 border border-slate-300 rounded-md bg-white disabled:bg-slate-50"
                             >
                                 <option value="none">Jamais</option>
                                 <option value="daily">Quotidienne</option>
@@ -110,7 +114,8 @@ const MaintenanceManager: React.FC<MaintenanceManagerProps> = ({
                                     name="time"
                                     value={schedule.time}
                                     onChange={handleScheduleChange}
-                                    className="mt-1 block w-full p-2 border border-slate-300 rounded-md"
+                                    disabled={!canEdit}
+                                    className="mt-1 block w-full p-2 border border-slate-300 rounded-md disabled:bg-slate-50"
                                 />
                             </div>
                          )}
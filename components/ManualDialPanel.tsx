@@ -0,0 +1,118 @@
+import React, { useState, useMemo } from 'react';
+import type { Campaign, Contact, DncEntry, PublicHoliday, Qualification } from '../types.ts';
+import ContactPreviewCard from './ContactPreviewCard.tsx';
+import { PhoneIcon, XMarkIcon } from './Icons.tsx';
+import { SEARCH_RESULT_LIMIT, checkManualDial, searchContacts } from '../services/manualDial.ts';
+
+const BACKSPACE_KEY = '⌫';
+const DIAL_PAD_KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '+', '0', BACKSPACE_KEY];
+
+interface ManualDialPanelProps {
+    campaign: Campaign;
+    dncEntries: DncEntry[];
+    publicHolidays: PublicHoliday[];
+    qualifications: Qualification[];
+    // False while the campaign is paused or stopped: the agent may still search.
+    canDial: boolean;
+    onDialContact: (contact: Contact) => void;
+    onDialNumber: (phoneNumber: string) => void;
+}
+
+// Click-to-dial of the manual and preview campaigns: contact search and free-number dial pad.
+const ManualDialPanel: React.FC<ManualDialPanelProps> = ({ campaign, dncEntries, publicHolidays, qualifications, canDial, onDialContact, onDialNumber }) => {
+    const [search, setSearch] = useState('');
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [dialedNumber, setDialedNumber] = useState('');
+    const [dialError, setDialError] = useState<string | null>(null);
+
+    const results = useMemo(() => searchContacts(campaign.contacts, search), [campaign.contacts, search]);
+    const selectedContact = campaign.contacts.find(c => c.id === selectedId);
+    // Checked again on click: the calling hours may close while the card is shown.
+    const selectedWarning = selectedContact ? checkManualDial(selectedContact.phoneNumber, campaign, dncEntries, publicHolidays) : null;
+
+    const handleDialContact = (contact: Contact) => {
+        if (checkManualDial(contact.phoneNumber, campaign, dncEntries, publicHolidays)) return;
+        onDialContact(contact);
+    };
+
+    const handleDialNumber = (e: React.FormEvent) => {
+        e.preventDefault();
+        const error = checkManualDial(dialedNumber, campaign, dncEntries, publicHolidays);
+        setDialError(error);
+        if (!error) onDialNumber(dialedNumber);
+    };
+
+    const handleKey = (key: string) => {
+        setDialError(null);
+        setDialedNumber(prev => key === BACKSPACE_KEY ? prev.slice(0, -1) : prev + key);
+    };
+
+    return (
+        <div className="h-full grid grid-cols-3 divide-x">
+            <div className="col-span-2 flex flex-col overflow-hidden">
+                <div className="p-4 border-b">
+                    <h2 className="text-xl font-semibold text-slate-800">Rechercher un contact</h2>
+                    <input
+                        type="search"
+                        value={search}
+                        onChange={e => setSearch(e.target.value)}
+                        placeholder="Nom, téléphone ou code postal..."
+                        className="mt-3 w-full p-2 border border-slate-300 rounded-md text-sm"
+                    />
+                </div>
+                <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                    {selectedContact && (
+                        <ContactPreviewCard contact={selectedContact} qualifications={qualifications} warning={selectedWarning}>
+                            <button onClick={() => setSelectedId(null)} className="rounded-md border border-slate-300 bg-white px-4 py-2 font-medium text-slate-700 hover:bg-slate-50">Fermer</button>
+                            <button onClick={() => handleDialContact(selectedContact)} disabled={!canDial || !!selectedWarning} className="bg-green-600 hover:bg-green-700 text-white font-semibold py-2 px-4 rounded-lg inline-flex items-center disabled:opacity-50 disabled:cursor-not-allowed">
+                                <PhoneIcon className="w-5 h-5 mr-2"/>Appeler
+                            </button>
+                        </ContactPreviewCard>
+                    )}
+                    {search.trim() && (
+                        <ul className="divide-y border rounded-md">
+                            {results.map(contact => (
+                                <li key={contact.id}>
+                                    <button onClick={() => setSelectedId(contact.id)} className={`w-full text-left px-3 py-2 text-sm flex justify-between hover:bg-slate-50 ${selectedId === contact.id ? 'bg-indigo-50' : ''}`}>
+                                        <span className="font-medium text-slate-800">{contact.firstName} {contact.lastName}</span>
+                                        <span className="text-slate-500 font-mono">{contact.phoneNumber} · {contact.postalCode}</span>
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    {search.trim() && results.length === 0 && <p className="text-center text-sm text-slate-500 italic">Aucun contact trouvé.</p>}
+                    {results.length === SEARCH_RESULT_LIMIT && <p className="text-xs text-slate-500">Seuls les {SEARCH_RESULT_LIMIT} premiers résultats sont affichés : précisez la recherche.</p>}
+                </div>
+            </div>
+            <form onSubmit={handleDialNumber} className="p-4 flex flex-col">
+                <h2 className="text-xl font-semibold text-slate-800">Composer un numéro</h2>
+                <div className="mt-3 flex items-center border border-slate-300 rounded-md">
+                    <input
+                        type="tel"
+                        value={dialedNumber}
+                        onChange={e => { setDialedNumber(e.target.value); setDialError(null); }}
+                        placeholder="06 12 34 56 78"
+                        className="flex-1 p-2 text-lg font-mono rounded-md focus:outline-none"
+                    />
+                    {dialedNumber && (
+                        <button type="button" onClick={() => { setDialedNumber(''); setDialError(null); }} className="p-2 text-slate-400 hover:text-slate-600" title="Effacer">
+                            <XMarkIcon className="w-5 h-5" />
+                        </button>
+                    )}
+                </div>
+                <div className="mt-4 grid grid-cols-3 gap-2">
+                    {DIAL_PAD_KEYS.map(key => (
+                        <button key={key} type="button" onClick={() => handleKey(key)} className="py-3 rounded-md bg-slate-100 hover:bg-slate-200 text-xl font-semibold text-slate-700">{key}</button>
+                    ))}
+                </div>
+                {dialError && <p className="mt-3 text-sm text-red-600">{dialError}</p>}
+                <button type="submit" disabled={!canDial || !dialedNumber.trim()} className="mt-4 bg-green-600 hover:bg-green-700 text-white font-semibold py-2 px-4 rounded-lg inline-flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed">
+                    <PhoneIcon className="w-5 h-5 mr-2"/>Composer
+                </button>
+            </form>
+        </div>
+    );
+};
+
+export default ManualDialPanel;
@@ -1,7 +1,21 @@
 
 import React, { useState } from 'react';
-import type { Feature, Campaign, User, SavedScript, QualificationGroup, Contact } from '../types.ts';
+import type { Feature, Campaign, User, SavedScript, QualificationGroup, Contact, PublicHoliday, Permission, AudioFile, DncEntry } from '../types.ts';
 import { PlusIcon, EditIcon, TrashIcon, ArrowUpTrayIcon } from './Icons.tsx';
+import ContactImportModal from './ContactImportModal.tsx';
+import { checkCallingWindow } from '../services/callingWindow.ts';
+import { CAMPAIGN_RUN_STATUS_LABELS, getCampaignRunStatus } from '../services/campaignLifecycle.ts';
+import { DEFAULT_PREVIEW_COUNTDOWN } from '../services/preview.ts';
+
+const CALLING_DAYS: { value: number; label: string }[] = [
+    { value: 1, label: 'L' },
+    { value: 2, label: 'M' },
+    { value: 3, label: 'M' },
+    { value: 4, label: 'J' },
+    { value: 5, label: 'V' },
+    { value: 6, label: 'S' },
+    { value: 0, label: 'D' },
+];
 
 // --- CampaignModal ---
 interface CampaignModalProps {
@@ -9,11 +23,12 @@ interface CampaignModalProps {
     users: User[];
     scripts: SavedScript[];
     qualificationGroups: QualificationGroup[];
+    audioFiles: AudioFile[];
     onSave: (campaign: Campaign) => void;
     onClose: () => void;
 }
 
-const CampaignModal: React.FC<CampaignModalProps> = ({ campaign, users, scripts, qualificationGroups, onSave, onClose }) => {
+const CampaignModal: React.FC<CampaignModalProps> = ({ campaign, users, scripts, qualificationGroups, audioFiles, onSave, onClose }) => {
     const [formData, setFormData] = useState<Campaign>(campaign || {
         id: `campaign-${Date.now()}`,
         name: '',
@@ -25,6 +40,8 @@ const CampaignModal: React.FC<CampaignModalProps> = ({ campaign, users, scripts,
         qualificationGroupId: qualificationGroups.length > 0 ? qualificationGroups[0].id : null,
         contacts: [],
         dialingMode: 'PROGRESSIVE',
+        previewEnabled: false,
+        previewCountdown: DEFAULT_PREVIEW_COUNTDOWN,
         priority: 5,
         timezone: 'Europe/Paris',
         callingDays: [1, 2, 3, 4, 5],
@@ -39,6 +56,7 @@ const CampaignModal: React.FC<CampaignModalProps> = ({ campaign, users, scripts,
         amdEnabled: true,
         amdConfidence: 80,
         voicemailAction: 'HANGUP',
+        voicemailAudioFileId: null,
         recordingEnabled: true,
         recordingBeep: true,
         maxRingDuration: 25,
@@ -56,8 +74,19 @@ const CampaignModal: React.FC<CampaignModalProps> = ({ campaign, users, scripts,
         }
     };
 
+    const toggleCallingDay = (day: number) => {
+        setFormData(prev => ({
+            ...prev,
+            callingDays: prev.callingDays.includes(day) ? prev.callingDays.filter(d => d !== day) : [...prev.callingDays, day].sort(),
+        }));
+    };
+
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
+        if (formData.amdEnabled && formData.voicemailAction === 'LEAVE_MESSAGE' && !formData.voicemailAudioFileId) {
+            alert('Choisissez le message à déposer sur les répondeurs.');
+            return;
+        }
         onSave(formData);
     };
 
@@ -105,6 +134,85 @@ const CampaignModal: React.FC<CampaignModalProps> = ({ campaign, users, scripts,
                                 <label className="block text-sm font-medium text-slate-700">Numéro présenté (Caller ID)</label>
                                 <input type="text" name="callerId" value={formData.callerId} onChange={handleChange} required className="mt-1 block w-full p-2 border border-slate-300 rounded-md" />
                             </div>
+                        </div>
+                        {formData.dialingMode === 'PROGRESSIVE' && (
+                            <div className="grid grid-cols-2 gap-4 items-end">
+                                <div className="flex items-center h-10">
+                                    <input id="previewEnabled" name="previewEnabled" type="checkbox" checked={!!formData.previewEnabled} onChange={handleChange} className="h-4 w-4 rounded border-slate-300 text-indigo-600"/>
+                                    <label htmlFor="previewEnabled" className="ml-2 text-sm font-medium text-slate-700">Prévisualisation avant appel</label>
+                                </div>
+                                {formData.previewEnabled && (
+                                    <div>
+                                        <label className="block text-sm font-medium text-slate-700">Appel automatique après (s)</label>
+                                        <input type="number" name="previewCountdown" min={0} value={formData.previewCountdown ?? DEFAULT_PREVIEW_COUNTDOWN} onChange={e => setFormData(prev => ({ ...prev, previewCountdown: parseInt(e.target.value, 10) || 0 }))} className="mt-1 block w-full p-2 border border-slate-300 rounded-md" />
+                                    </div>
+                                )}
+                                <p className="col-span-2 text-xs text-slate-500">L'agent consulte la fiche et l'historique du contact avant l'appel, qui part à la fin du compte à rebours (0 : l'agent lance l'appel lui-même). Il peut aussi passer ou rejeter le contact en indiquant un motif.</p>
+                            </div>
+                        )}
+                        <div className="border-t pt-4">
+                            <h4 className="text-sm font-semibold text-slate-800 mb-3">Planification</h4>
+                            <div className="grid grid-cols-3 gap-4">
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700">Fuseau horaire</label>
+                                    <select name="timezone" value={formData.timezone} onChange={handleChange} className="mt-1 block w-full p-2 border bg-white border-slate-300 rounded-md">
+                                        <option>Europe/Paris</option>
+                                        <option>Europe/London</option>
+                                        <option>America/New_York</option>
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700">Début des appels</label>
+                                    <input type="time" name="callingStartTime" value={formData.callingStartTime} onChange={handleChange} required className="mt-1 block w-full p-2 border border-slate-300 rounded-md" />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700">Fin des appels</label>
+                                    <input type="time" name="callingEndTime" value={formData.callingEndTime} onChange={handleChange} required className="mt-1 block w-full p-2 border border-slate-300 rounded-md" />
+                                </div>
+                            </div>
+                            <label className="block text-sm font-medium text-slate-700 mt-3">Jours d'appel</label>
+                            <div className="flex space-x-2 mt-1">
+                                {CALLING_DAYS.map(day => (
+                                    <button
+                                        key={day.value}
+                                        type="button"
+                                        onClick={() => toggleCallingDay(day.value)}
+                                        className={`w-8 h-8 rounded-full text-xs font-bold transition-colors ${formData.callingDays.includes(day.value) ? 'bg-indigo-600 text-white' : 'bg-slate-200 text-slate-700 hover:bg-slate-300'}`}
+                                    >
+                                        {day.label}
+                                    </button>
+                                ))}
+                            </div>
+                            <p className="text-xs text-slate-500 mt-2">Aucun appel n'est passé en dehors de cette plage ni les jours fériés.</p>
+                        </div>
+                        <div className="border-t pt-4">
+                            <div className="flex items-center mb-3">
+                                <input id="amdEnabled" name="amdEnabled" type="checkbox" checked={formData.amdEnabled} onChange={handleChange} className="h-4 w-4 rounded border-slate-300 text-indigo-600"/>
+                                <label htmlFor="amdEnabled" className="ml-2 text-sm font-semibold text-slate-800">Détection de répondeur (AMD)</label>
+                            </div>
+                            {formData.amdEnabled && (
+                                <div className="grid grid-cols-3 gap-4">
+                                    <div>
+                                        <label className="block text-sm font-medium text-slate-700">Seuil de confiance (%)</label>
+                                        <input type="number" name="amdConfidence" min={50} max={100} value={formData.amdConfidence} onChange={e => setFormData(prev => ({ ...prev, amdConfidence: parseInt(e.target.value, 10) || 0 }))} className="mt-1 block w-full p-2 border border-slate-300 rounded-md" />
+                                    </div>
+                                    <div>
+                                        <label className="block text-sm font-medium text-slate-700">Sur répondeur</label>
+                                        <select name="voicemailAction" value={formData.voicemailAction} onChange={handleChange} className="mt-1 block w-full p-2 border bg-white border-slate-300 rounded-md">
+                                            <option value="HANGUP">Raccrocher</option>
+                                            <option value="LEAVE_MESSAGE">Déposer un message</option>
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label className="block text-sm font-medium text-slate-700">Message déposé</label>
+                                        <select name="voicemailAudioFileId" value={formData.voicemailAudioFileId || 'null'} onChange={handleChange} disabled={formData.voicemailAction !== 'LEAVE_MESSAGE'} className="mt-1 block w-full p-2 border bg-white border-slate-300 rounded-md disabled:bg-slate-50">
+                                            <option value="null">Aucun</option>
+                                            {audioFiles.map(file => <option key={file.id} value={file.id}>{file.name}</option>)}
+                                        </select>
+                                    </div>
+                                </div>
+                            )}
+                            <p className="text-xs text-slate-500 mt-2">Les appels détectés comme répondeur avec au moins cette confiance ne sont pas passés aux agents : le message est joué après le bip, puis le contact est qualifié « Répondeur ». Dans le doute, l'appel est passé à un agent.</p>
                         </div>
                          <div className="flex items-start">
                             <div className="flex h-5 items-center">
@@ -133,9 +241,15 @@ interface OutboundCampaignsManagerProps {
     users: User[];
     savedScripts: SavedScript[];
     qualificationGroups: QualificationGroup[];
+    audioFiles: AudioFile[];
     onSaveCampaign: (campaign: Campaign) => void;
     onDeleteCampaign: (campaignId: string) => void;
     onImportContacts: (campaignId: string, contacts: Contact[]) => void;
+    dncEntries: DncEntry[];
+    publicHolidays: PublicHoliday[];
+    onSavePublicHoliday: (holiday: PublicHoliday) => void;
+    onDeletePublicHoliday: (holidayId: string) => void;
+    hasPermission: (permission: Permission) => boolean;
 }
 
 const OutboundCampaignsManager: React.FC<OutboundCampaignsManagerProps> = ({
@@ -144,12 +258,21 @@ const OutboundCampaignsManager: React.FC<OutboundCampaignsManagerProps> = ({
     users,
     savedScripts,
     qualificationGroups,
+    audioFiles,
     onSaveCampaign,
     onDeleteCampaign,
     onImportContacts,
+    dncEntries,
+    publicHolidays,
+    onSavePublicHoliday,
+    onDeletePublicHoliday,
+    hasPermission,
 }) => {
+    const canEdit = hasPermission('campaign.edit');
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [editingCampaign, setEditingCampaign] = useState<Campaign | null>(null);
+    const [importingCampaignId, setImportingCampaignId] = useState<string | null>(null);
+    const [newHoliday, setNewHoliday] = useState({ date: '', name: '' });
 
     const handleAddNew = () => {
         setEditingCampaign(null);
@@ -168,13 +291,16 @@ const OutboundCampaignsManager: React.FC<OutboundCampaignsManagerProps> = ({
     };
 
     const handleImportClick = (campaignId: string) => {
-        // Simulate file import
-        alert("Simulation de l'import de contacts. Ajout de 2 contacts de démonstration.");
-        const newContacts: Contact[] = [
-            { id: `contact-${Date.now()}`, firstName: 'Alice', lastName: 'Import', phoneNumber: '0601020304', postalCode: '33000', status: 'pending' },
-            { id: `contact-${Date.now()+1}`, firstName: 'Bob', lastName: 'Imported', phoneNumber: '0605060708', postalCode: '33100', status: 'pending' },
-        ];
-        onImportContacts(campaignId, newContacts);
+        setImportingCampaignId(campaignId);
+    };
+
+    const importingCampaign = campaigns.find(c => c.id === importingCampaignId);
+
+    const handleAddHoliday = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newHoliday.date || !newHoliday.name.trim()) return;
+        onSavePublicHoliday({ id: `hol-${Date.now()}`, date: newHoliday.date, name: newHoliday.name.trim() });
+        setNewHoliday({ date: '', name: '' });
     };
 
     return (
@@ -185,10 +311,19 @@ const OutboundCampaignsManager: React.FC<OutboundCampaignsManagerProps> = ({
                     users={users}
                     scripts={savedScripts}
                     qualificationGroups={qualificationGroups}
+                    audioFiles={audioFiles}
                     onSave={handleSave}
                     onClose={() => setIsModalOpen(false)}
                 />
             )}
+            {importingCampaign && (
+                <ContactImportModal
+                    campaign={importingCampaign}
+                    dncEntries={dncEntries}
+                    onImport={onImportContacts}
+                    onClose={() => setImportingCampaignId(null)}
+                />
+            )}
             <header>
                 <h1 className="text-4xl font-bold text-slate-900 tracking-tight">{feature.title}</h1>
                 <p className="mt-2 text-lg text-slate-600">{feature.description}</p>
@@ -197,10 +332,12 @@ const OutboundCampaignsManager: React.FC<OutboundCampaignsManagerProps> = ({
             <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200">
                 <div className="flex justify-between items-center mb-4">
                     <h2 className="text-2xl font-semibold text-slate-800">Campagnes</h2>
-                    <button onClick={handleAddNew} className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg shadow-md inline-flex items-center">
-                        <PlusIcon className="w-5 h-5 mr-2" />
-                        Créer une campagne
-                    </button>
+                    {canEdit && (
+                        <button onClick={handleAddNew} className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg shadow-md inline-flex items-center">
+                            <PlusIcon className="w-5 h-5 mr-2" />
+                            Créer une campagne
+                        </button>
+                    )}
                 </div>
 
                 <div className="overflow-x-auto">
@@ -210,6 +347,7 @@ const OutboundCampaignsManager: React.FC<OutboundCampaignsManagerProps> = ({
                                 <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">Nom</th>
                                 <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">Statut</th>
                                 <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">Mode</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">Plage d'appel</th>
                                 <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">Contacts</th>
                                 <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase">Actions</th>
                             </tr>
@@ -222,13 +360,28 @@ const OutboundCampaignsManager: React.FC<OutboundCampaignsManagerProps> = ({
                                         <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${campaign.isActive ? 'bg-green-100 text-green-800' : 'bg-slate-100 text-slate-800'}`}>
                                             {campaign.isActive ? 'Active' : 'Inactive'}
                                         </span>
+                                        {campaign.isActive && getCampaignRunStatus(campaign) !== 'running' && (
+                                            <span className="ml-1 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                                                {CAMPAIGN_RUN_STATUS_LABELS[getCampaignRunStatus(campaign)]}
+                                            </span>
+                                        )}
                                     </td>
                                     <td className="px-6 py-4 text-sm text-slate-600">{campaign.dialingMode}</td>
+                                    <td className="px-6 py-4 text-sm text-slate-600">
+                                        {(() => {
+                                            const callingWindow = checkCallingWindow(campaign, publicHolidays);
+                                            return (
+                                                <span title={callingWindow.message} className={callingWindow.allowed ? 'text-green-700' : 'text-slate-500'}>
+                                                    {campaign.callingStartTime}-{campaign.callingEndTime} · {callingWindow.allowed ? 'Ouverte' : 'Fermée'}
+                                                </span>
+                                            );
+                                        })()}
+                                    </td>
                                     <td className="px-6 py-4 text-sm text-slate-600">{campaign.contacts.length}</td>
                                     <td className="px-6 py-4 text-right text-sm font-medium space-x-4">
-                                        <button onClick={() => handleImportClick(campaign.id)} className="text-slate-500 hover:text-slate-800 inline-flex items-center"><ArrowUpTrayIcon className="w-4 h-4 mr-1"/> Importer</button>
-                                        <button onClick={() => handleEdit(campaign)} className="text-indigo-600 hover:text-indigo-900 inline-flex items-center"><EditIcon className="w-4 h-4 mr-1"/> Modifier</button>
-                                        <button onClick={() => onDeleteCampaign(campaign.id)} className="text-red-600 hover:text-red-900 inline-flex items-center"><TrashIcon className="w-4 h-4 mr-1"/> Supprimer</button>
+                                        {canEdit && <button onClick={() => handleImportClick(campaign.id)} className="text-slate-500 hover:text-slate-800 inline-flex items-center"><ArrowUpTrayIcon className="w-4 h-4 mr-1"/> Importer</button>}
+                                        {canEdit && <button onClick={() => handleEdit(campaign)} className="text-indigo-600 hover:text-indigo-900 inline-flex items-center"><EditIcon className="w-4 h-4 mr-1"/> Modifier</button>}
+                                        {canEdit && <button onClick={() => onDeleteCampaign(campaign.id)} className="text-red-600 hover:text-red-900 inline-flex items-center"><TrashIcon className="w-4 h-4 mr-1"/> Supprimer</button>}
                                     </td>
                                 </tr>
                             ))}
@@ -236,6 +389,35 @@ const OutboundCampaignsManager: React.FC<OutboundCampaignsManagerProps> = ({
                     </table>
                 </div>
             </div>
+
+            <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200">
+                <h2 className="text-2xl font-semibold text-slate-800 mb-1">Jours fériés</h2>
+                <p className="text-sm text-slate-500 mb-4">Aucune campagne ne peut appeler ces jours-là, quel que soit son fuseau horaire.</p>
+                {canEdit && (
+                    <form onSubmit={handleAddHoliday} className="flex items-end gap-3 mb-4">
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700">Date</label>
+                            <input type="date" value={newHoliday.date} onChange={e => setNewHoliday(h => ({ ...h, date: e.target.value }))} required className="mt-1 block p-2 border border-slate-300 rounded-md" />
+                        </div>
+                        <div className="flex-1">
+                            <label className="block text-sm font-medium text-slate-700">Libellé</label>
+                            <input type="text" value={newHoliday.name} onChange={e => setNewHoliday(h => ({ ...h, name: e.target.value }))} required placeholder="Ex: Lundi de Pâques" className="mt-1 block w-full p-2 border border-slate-300 rounded-md" />
+                        </div>
+                        <button type="submit" className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg shadow-md inline-flex items-center">
+                            <PlusIcon className="w-5 h-5 mr-2" /> Ajouter
+                        </button>
+                    </form>
+                )}
+                <ul className="divide-y divide-slate-200 max-h-64 overflow-y-auto">
+                    {publicHolidays.map(holiday => (
+                        <li key={holiday.id} className="flex justify-between items-center py-2 text-sm">
+                            <span><span className="font-mono text-slate-600 mr-4">{new Date(`${holiday.date}T00:00:00`).toLocaleDateString('fr-FR')}</span>{holiday.name}</span>
+                            {canEdit && <button onClick={() => onDeletePublicHoliday(holiday.id)} className="text-red-600 hover:text-red-900"><TrashIcon className="w-4 h-4" /></button>}
+                        </li>
+                    ))}
+                </ul>
+                {publicHolidays.length === 0 && <p className="text-center py-4 text-slate-500">Aucun jour férié configuré.</p>}
+            </div>
         </div>
     );
 };
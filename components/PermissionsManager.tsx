@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import type { Feature, Permission, PermissionProfile, User, UserRole } from '../types.ts';
+import { PERMISSION_GROUPS, ROLE_PERMISSIONS } from '../services/permissions.ts';
+import { PlusIcon, EditIcon, TrashIcon } from './Icons.tsx';
+
+const ROLES: UserRole[] = ['Administrateur', 'Superviseur', 'Agent'];
+
+// Modal component for creating/renaming a profile
+interface ProfileModalProps {
+    profile: PermissionProfile | null;
+    onSave: (profile: PermissionProfile) => void;
+    onClose: () => void;
+}
+
+const ProfileModal: React.FC<ProfileModalProps> = ({ profile, onSave, onClose }) => {
+    const [name, setName] = useState(profile?.name || '');
+    const [baseRole, setBaseRole] = useState<UserRole | ''>('Superviseur');
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (profile) {
+            onSave({ ...profile, name });
+        } else {
+            onSave({
+                id: `profile-${Date.now()}`,
+                name,
+                permissions: baseRole ? [...ROLE_PERMISSIONS[baseRole]] : [],
+            });
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-slate-800 bg-opacity-75 flex items-center justify-center p-4 z-50">
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+                <form onSubmit={handleSubmit}>
+                    <div className="p-6">
+                        <h3 className="text-lg font-medium leading-6 text-slate-900">{profile ? 'Renommer le profil' : 'Nouveau profil'}</h3>
+                        <div className="mt-4 space-y-4">
+                            <div>
+                                <label htmlFor="name" className="block text-sm font-medium text-slate-700">Nom du profil</label>
+                                <input type="text" name="name" id="name" value={name} onChange={e => setName(e.target.value)} required className="mt-1 block w-full p-2 border border-slate-300 rounded-md" />
+                            </div>
+                            {!profile && (
+                                <div>
+                                    <label htmlFor="baseRole" className="block text-sm font-medium text-slate-700">Partir des permissions de</label>
+                                    <select id="baseRole" value={baseRole} onChange={e => setBaseRole(e.target.value as UserRole | '')} className="mt-1 block w-full p-2 border border-slate-300 rounded-md bg-white">
+                                        {ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+                                        <option value="">Aucune permission</option>
+                                    </select>
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                    <div className="bg-slate-50 px-4 py-3 sm:flex sm:flex-row-reverse rounded-b-lg">
+                        <button type="submit" className="inline-flex w-full justify-center rounded-md border border-transparent bg-indigo-600 px-4 py-2 font-medium text-white shadow-sm hover:bg-indigo-700 sm:ml-3 sm:w-auto">Enregistrer</button>
+                        <button type="button" onClick={onClose} className="mt-3 inline-flex w-full justify-center rounded-md border border-slate-300 bg-white px-4 py-2 font-medium text-slate-700 shadow-sm hover:bg-slate-50 sm:mt-0 sm:w-auto">Annuler</button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+
+// Main component: permission matrix of the roles and custom profiles
+interface PermissionsManagerProps {
+    feature: Feature;
+    users: User[];
+    permissionProfiles: PermissionProfile[];
+    onSavePermissionProfile: (profile: PermissionProfile) => void;
+    onDeletePermissionProfile: (profileId: string) => void;
+    hasPermission: (permission: Permission) => boolean;
+}
+
+const PermissionsManager: React.FC<PermissionsManagerProps> = ({ feature, users, permissionProfiles, onSavePermissionProfile, onDeletePermissionProfile, hasPermission }) => {
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [editingProfile, setEditingProfile] = useState<PermissionProfile | null>(null);
+    const canEdit = hasPermission('user.edit');
+
+    const handleAddNew = () => {
+        setEditingProfile(null);
+        setIsModalOpen(true);
+    };
+
+    const handleEdit = (profile: PermissionProfile) => {
+        setEditingProfile(profile);
+        setIsModalOpen(true);
+    };
+
+    const handleSave = (profile: PermissionProfile) => {
+        onSavePermissionProfile(profile);
+        setIsModalOpen(false);
+        setEditingProfile(null);
+    };
+
+    const handleDelete = (profile: PermissionProfile) => {
+        const userCount = users.filter(u => u.profileId === profile.id).length;
+        const message = userCount > 0
+            ? `Le profil "${profile.name}" est assigné à ${userCount} utilisateur(s), qui reprendront les permissions de leur rôle. Supprimer ce profil ?`
+            : `Supprimer le profil "${profile.name}" ?`;
+        if (window.confirm(message)) {
+            onDeletePermissionProfile(profile.id);
+        }
+    };
+
+    const handleTogglePermission = (profile: PermissionProfile, permission: Permission, isChecked: boolean) => {
+        const permissions = isChecked
+            ? [...profile.permissions, permission]
+            : profile.permissions.filter(p => p !== permission);
+        onSavePermissionProfile({ ...profile, permissions });
+    };
+
+    return (
+        <div className="max-w-7xl mx-auto space-y-8">
+            {isModalOpen && <ProfileModal profile={editingProfile} onSave={handleSave} onClose={() => setIsModalOpen(false)} />}
+            <header>
+                <h1 className="text-4xl font-bold text-slate-900 tracking-tight">{feature.title}</h1>
+                <p className="mt-2 text-lg text-slate-600">{feature.description}</p>
+            </header>
+
+            <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200">
+                <div className="flex justify-between items-center mb-4">
+                    <div>
+                        <h2 className="text-2xl font-semibold text-slate-800">Matrice des permissions</h2>
+                        <p className="text-sm text-slate-500 mt-1">Les permissions des rôles s'appliquent aux utilisateurs sans profil. Un profil personnalisé les remplace entièrement.</p>
+                    </div>
+                    {canEdit && (
+                        <button onClick={handleAddNew} className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg shadow-md inline-flex items-center flex-shrink-0">
+                            <PlusIcon className="w-5 h-5 mr-2" />
+                            Créer un profil
+                        </button>
+                    )}
+                </div>
+
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-slate-200">
+                        <thead className="bg-slate-50">
+                            <tr>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase">Permission</th>
+                                {ROLES.map(role => (
+                                    <th key={role} className="px-4 py-3 text-center text-xs font-medium text-slate-500 uppercase">
+                                        {role}
+                                        <span className="block normal-case font-normal text-slate-400">Rôle</span>
+                                    </th>
+                                ))}
+                                {permissionProfiles.map(profile => (
+                                    <th key={profile.id} className="px-4 py-3 text-center text-xs font-medium text-indigo-600 uppercase bg-indigo-50">
+                                        {profile.name}
+                                        <span className="block normal-case font-normal text-slate-400">
+                                            {users.filter(u => u.profileId === profile.id).length} utilisateur(s)
+                                        </span>
+                                        {canEdit && (
+                                            <span className="flex justify-center space-x-2 mt-1">
+                                                <button onClick={() => handleEdit(profile)} className="text-indigo-600 hover:text-indigo-900" title="Renommer"><EditIcon className="w-4 h-4"/></button>
+                                                <button onClick={() => handleDelete(profile)} className="text-red-600 hover:text-red-900" title="Supprimer"><TrashIcon className="w-4 h-4"/></button>
+                                            </span>
+                                        )}
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-slate-200 text-sm">
+                            {PERMISSION_GROUPS.map(group => (
+                                <React.Fragment key={group.label}>
+                                    <tr className="bg-slate-100">
+                                        <td colSpan={1 + ROLES.length + permissionProfiles.length} className="px-4 py-2 text-xs font-semibold text-slate-600 uppercase">{group.label}</td>
+                                    </tr>
+                                    {group.permissions.map(permission => (
+                                        <tr key={permission.id}>
+                                            <td className="px-4 py-2">
+                                                <p className="text-slate-800">{permission.label}</p>
+                                                <p className="text-xs font-mono text-slate-400">{permission.id}</p>
+                                            </td>
+                                            {ROLES.map(role => (
+                                                <td key={role} className="px-4 py-2 text-center">
+                                                    {ROLE_PERMISSIONS[role].includes(permission.id)
+                                                        ? <span className="text-green-600 font-bold">✓</span>
+                                                        : <span className="text-slate-300">—</span>}
+                                                </td>
+                                            ))}
+                                            {permissionProfiles.map(profile => (
+                                                <td key={profile.id} className="px-4 py-2 text-center bg-indigo-50/40">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={profile.permissions.includes(permission.id)}
+                                                        onChange={e => handleTogglePermission(profile, permission.id, e.target.checked)}
+                                                        disabled={!canEdit}
+                                                        className="h-4 w-4 rounded border-slate-300 text-indigo-600 disabled:opacity-50"
+                                                    />
+                                                </td>
+                                            ))}
+                                        </tr>
+                                    ))}
+                                </React.Fragment>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PermissionsManager;
@@ -1,5 +1,5 @@
 import React, { useState, useMemo } from 'react';
-import type { Feature, PlanningEvent, ActivityType, User } from '../types.ts';
+import type { Feature, PlanningEvent, ActivityType, User, Permission } from '../types.ts';
 import { PlusIcon, EditIcon, TrashIcon, ArrowLeftIcon, ArrowRightIcon, CalendarDaysIcon } from './Icons.tsx';
 
 interface PlanningManagerProps {
@@ -9,6 +9,7 @@ interface PlanningManagerProps {
     users: User[];
     onSavePlanningEvent: (event: PlanningEvent) => void;
     onDeletePlanningEvent: (eventId: string) => void;
+    hasPermission: (permission: Permission) => boolean;
 }
 
 const WEEKDAYS = ['Lundi', 'Mardi', 'Mercredi', 'Jeudi', 'Vendredi', 'Samedi', 'Dimanche'];
@@ -85,7 +86,8 @@ const PlanningEventModal: React.FC<PlanningEventModalProps> = ({ event, onSave,
     );
 };
 
-const PlanningManager: React.FC<PlanningManagerProps> = ({ feature, planningEvents, activityTypes, users, onSavePlanningEvent, onDeletePlanningEvent }) => {
+const PlanningManager: React.FC<PlanningManagerProps> = ({ feature, planningEvents, activityTypes, users, onSavePlanningEvent, onDeletePlanningEvent, hasPermission }) => {
+    const canEdit = hasPermission('planning.edit');
     const [currentDate, setCurrentDate] = useState(new Date());
     const [selectedAgentId, setSelectedAgentId] = useState('all');
     const [modalState, setModalState] = useState<{ isOpen: boolean; event: Partial<PlanningEvent> | null }>({ isOpen: false, event: null });
@@ -129,6 +131,7 @@ const PlanningManager: React.FC<PlanningManagerProps> = ({ feature, planningEven
     };
     
     const handleCellClick = (day: Date, hour: number) => {
+        if (!canEdit) return;
         const startDate = new Date(day);
         startDate.setHours(hour, 0, 0, 0);
         const endDate = new Date(startDate);
@@ -206,7 +209,7 @@ const PlanningManager: React.FC<PlanningManagerProps> = ({ feature, planningEven
                             <div key={dayIndex} className="relative border-r">
                                 {/* Background Grid */}
                                 {Array.from({ length: 24 }).map((_, hour) => (
-                                    <div key={hour} onClick={() => handleCellClick(day, hour)} className="h-[60px] border-t hover:bg-indigo-50 cursor-pointer"/>
+                                    <div key={hour} onClick={() => handleCellClick(day, hour)} className={`h-[60px] border-t ${canEdit ? 'hover:bg-indigo-50 cursor-pointer' : ''}`}/>
                                 ))}
                                 {/* Events */}
                                 {filteredEvents
@@ -227,8 +230,8 @@ const PlanningManager: React.FC<PlanningManagerProps> = ({ feature, planningEven
                                         return (
                                             <div
                                                 key={event.id}
-                                                onClick={() => setModalState({ isOpen: true, event })}
-                                                className="absolute w-full p-2 rounded-md shadow-sm border cursor-pointer overflow-hidden"
+                                                onClick={() => canEdit && setModalState({ isOpen: true, event })}
+                                                className={`absolute w-full p-2 rounded-md shadow-sm border overflow-hidden ${canEdit ? 'cursor-pointer' : ''}`}
                                                 style={{ top: `${top}px`, height: `${height}px`, backgroundColor: activity?.color || '#ccc', borderColor: activity ? `${activity.color}99` : '#bbb' }}
                                                 title={`${activity?.name} - ${agent?.firstName} ${agent?.lastName}`}
                                             >
@@ -0,0 +1,102 @@
+import React, { useState, useEffect } from 'react';
+import type { Contact, PreviewDecision, Qualification } from '../types.ts';
+import ContactPreviewCard from './ContactPreviewCard.tsx';
+import { PhoneIcon, PauseIcon, PlayIcon } from './Icons.tsx';
+import { PREVIEW_DECISION_LABELS, PREVIEW_REASONS } from '../services/preview.ts';
+
+interface PreviewDialPanelProps {
+    contact: Contact;
+    qualifications: Qualification[];
+    // Seconds before the contact is dialed, 0 when the agent dials.
+    countdown: number;
+    // Reason why the contact may not be called now: the countdown does not dial it.
+    warning: string | null;
+    // False while the campaign is paused or stopped.
+    canDial: boolean;
+    onDial: (contact: Contact) => void;
+    onDecision: (contact: Contact, decision: PreviewDecision, reason: string, comment: string) => void;
+}
+
+// Next contact of a progressive campaign, shown to the agent before the dialer calls it.
+const PreviewDialPanel: React.FC<PreviewDialPanelProps> = ({ contact, qualifications, countdown, warning, canDial, onDial, onDecision }) => {
+    const [secondsLeft, setSecondsLeft] = useState(countdown);
+    const [isCountdownPaused, setIsCountdownPaused] = useState(false);
+    // Skip or reject being filled in: the countdown stops meanwhile.
+    const [decision, setDecision] = useState<{ decision: PreviewDecision; reason: string; comment: string } | null>(null);
+
+    const isCountingDown = countdown > 0 && canDial && !warning && !isCountdownPaused && !decision;
+
+    useEffect(() => {
+        if (!isCountingDown) return;
+        if (secondsLeft <= 0) {
+            onDial(contact);
+            return;
+        }
+        const timeoutId = setTimeout(() => setSecondsLeft(prev => prev - 1), 1000);
+        return () => clearTimeout(timeoutId);
+    }, [isCountingDown, secondsLeft]);
+
+    const handleStartDecision = (type: PreviewDecision) => {
+        setDecision({ decision: type, reason: PREVIEW_REASONS[type][0], comment: '' });
+    };
+
+    const handleSubmitDecision = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!decision) return;
+        onDecision(contact, decision.decision, decision.reason, decision.comment.trim());
+    };
+
+    return (
+        <div className="h-full overflow-y-auto p-6">
+            <div className="max-w-3xl mx-auto space-y-4">
+                <div className="flex justify-between items-center">
+                    <h2 className="text-xl font-semibold text-slate-800">Prochain contact</h2>
+                    {countdown > 0 && !warning && (
+                        <div className="flex items-center space-x-3">
+                            <span className={`font-mono text-2xl font-bold ${isCountingDown ? 'text-indigo-600' : 'text-slate-400'}`}>{Math.max(0, secondsLeft)} s</span>
+                            <button onClick={() => setIsCountdownPaused(prev => !prev)} disabled={!!decision} className="rounded-md border border-slate-300 bg-white px-3 py-1 text-sm font-medium text-slate-700 hover:bg-slate-50 inline-flex items-center disabled:opacity-50">
+                                {isCountdownPaused
+                                    ? <><PlayIcon className="w-4 h-4 mr-1"/>Reprendre</>
+                                    : <><PauseIcon className="w-4 h-4 mr-1"/>Suspendre</>}
+                            </button>
+                        </div>
+                    )}
+                </div>
+                <ContactPreviewCard contact={contact} qualifications={qualifications} warning={warning}>
+                    {!decision && (
+                        <>
+                            <button onClick={() => handleStartDecision('skip')} className="rounded-md border border-slate-300 bg-white px-4 py-2 font-medium text-slate-700 hover:bg-slate-50">Passer</button>
+                            <button onClick={() => handleStartDecision('reject')} className="rounded-md border border-red-300 bg-white px-4 py-2 font-medium text-red-700 hover:bg-red-50">Rejeter</button>
+                            <button onClick={() => onDial(contact)} disabled={!canDial || !!warning} className="bg-green-600 hover:bg-green-700 text-white font-semibold py-2 px-4 rounded-lg inline-flex items-center disabled:opacity-50 disabled:cursor-not-allowed">
+                                <PhoneIcon className="w-5 h-5 mr-2"/>Appeler maintenant
+                            </button>
+                        </>
+                    )}
+                </ContactPreviewCard>
+                {decision && (
+                    <form onSubmit={handleSubmitDecision} className="border border-slate-200 rounded-lg p-4 bg-white space-y-3">
+                        <h3 className="font-semibold text-slate-800">
+                            {PREVIEW_DECISION_LABELS[decision.decision]} : {decision.decision === 'reject' ? 'le contact ne sera pas appelé.' : 'le contact reste à appeler par les autres agents.'}
+                        </h3>
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700">Motif</label>
+                            <select value={decision.reason} onChange={e => setDecision({ ...decision, reason: e.target.value })} className="mt-1 block w-full p-2 border bg-white border-slate-300 rounded-md">
+                                {PREVIEW_REASONS[decision.decision].map(reason => <option key={reason} value={reason}>{reason}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700">Commentaire</label>
+                            <textarea value={decision.comment} onChange={e => setDecision({ ...decision, comment: e.target.value })} rows={2} className="mt-1 block w-full p-2 border border-slate-300 rounded-md" />
+                        </div>
+                        <div className="flex justify-end space-x-3">
+                            <button type="button" onClick={() => setDecision(null)} className="rounded-md border border-slate-300 bg-white px-4 py-2 font-medium text-slate-700 hover:bg-slate-50">Annuler</button>
+                            <button type="submit" className="rounded-md bg-indigo-600 px-4 py-2 font-medium text-white hover:bg-indigo-700">Valider</button>
+                        </div>
+                    </form>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default PreviewDialPanel;
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import type { Feature, Qualification, QualificationGroup } from '../types.ts';
+import type { Feature, Qualification, QualificationGroup, Permission } from '../types.ts';
 import { PlusIcon, EditIcon, TrashIcon, ArrowLeftIcon, ArrowRightIcon, ChevronDownIcon } from './Icons.tsx';
 
 const TYPE_DOT_COLORS: { [key in Qualification['type']]: string } = {
@@ -254,9 +254,11 @@ interface QualificationsManagerProps {
     onSaveQualificationGroup: (group: QualificationGroup) => void;
     onDeleteQualificationGroup: (groupId: string) => void;
     onUpdateGroupQualifications: (groupId: string, assignedQualIds: string[]) => void;
+    hasPermission: (permission: Permission) => boolean;
 }
 
-const QualificationsManager: React.FC<QualificationsManagerProps> = ({ feature, qualifications, qualificationGroups, onSaveQualification, onDeleteQualification, onSaveQualificationGroup, onDeleteQualificationGroup, onUpdateGroupQualifications }) => {
+const QualificationsManager: React.FC<QualificationsManagerProps> = ({ feature, qualifications, qualificationGroups, onSaveQualification, onDeleteQualification, onSaveQualificationGroup, onDeleteQualificationGroup, onUpdateGroupQualifications, hasPermission }) => {
+    const canEdit = hasPermission('qualification.edit');
     const [isGroupModalOpen, setIsGroupModalOpen] = useState(false);
     const [editingGroup, setEditingGroup] = useState<QualificationGroup | null>(null);
 
@@ -285,9 +287,11 @@ const QualificationsManager: React.FC<QualificationsManagerProps> = ({ feature,
             <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200">
                 <div className="flex justify-between items-center mb-4">
                     <h2 className="text-2xl font-semibold text-slate-800">Groupes de Qualifications</h2>
-                     <button onClick={() => { setEditingGroup(null); setIsGroupModalOpen(true); }} className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg shadow-md inline-flex items-center">
-                        <PlusIcon className="w-5 h-5 mr-2"/>Créer un Groupe
-                    </button>
+                     {canEdit && (
+                         <button onClick={() => { setEditingGroup(null); setIsGroupModalOpen(true); }} className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg shadow-md inline-flex items-center">
+                            <PlusIcon className="w-5 h-5 mr-2"/>Créer un Groupe
+                        </button>
+                     )}
                 </div>
                  <div className="overflow-x-auto">
                     <table className="min-w-full divide-y divide-slate-200">
@@ -306,12 +310,16 @@ const QualificationsManager: React.FC<QualificationsManagerProps> = ({ feature,
                                         {qualifications.filter(q => q.groupId === group.id || q.isStandard).length}
                                     </td>
                                     <td className="px-6 py-4 text-right text-sm font-medium space-x-4">
-                                        <button onClick={() => { setEditingGroup(group); setIsGroupModalOpen(true); }} className="text-indigo-600 hover:text-indigo-900 inline-flex items-center">
-                                            <EditIcon className="w-4 h-4 mr-1"/> Modifier
-                                        </button>
-                                        <button onClick={() => onDeleteQualificationGroup(group.id)} className="text-red-600 hover:text-red-900 inline-flex items-center">
-                                            <TrashIcon className="w-4 h-4 mr-1"/> Supprimer
-                                        </button>
+                                        {canEdit && (
+                                            <button onClick={() => { setEditingGroup(group); setIsGroupModalOpen(true); }} className="text-indigo-600 hover:text-indigo-900 inline-flex items-center">
+                                                <EditIcon className="w-4 h-4 mr-1"/> Modifier
+                                            </button>
+                                        )}
+                                        {canEdit && (
+                                            <button onClick={() => onDeleteQualificationGroup(group.id)} className="text-red-600 hover:text-red-900 inline-flex items-center">
+                                                <TrashIcon className="w-4 h-4 mr-1"/> Supprimer
+                                            </button>
+                                        )}
                                     </td>
                                 </tr>
                             ))}
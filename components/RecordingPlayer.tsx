@@ -0,0 +1,48 @@
+import React, { useEffect, useState } from 'react';
+import type { CallRecording } from '../types.ts';
+import { InboxArrowDownIcon } from './Icons.tsx';
+
+interface RecordingPlayerProps {
+    recording: CallRecording;
+    onFetchAudio: (recordingId: string) => Promise<Blob>;
+}
+
+// The audio is fetched with the session token, then played and downloaded from a local URL.
+const RecordingPlayer: React.FC<RecordingPlayerProps> = ({ recording, onFetchAudio }) => {
+    const [audioUrl, setAudioUrl] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let url: string | null = null;
+        let isCancelled = false;
+        setAudioUrl(null);
+        setError(null);
+        onFetchAudio(recording.id)
+            .then(blob => {
+                if (isCancelled) return;
+                url = URL.createObjectURL(blob);
+                setAudioUrl(url);
+            })
+            .catch(err => {
+                if (!isCancelled) setError(err.status === 404 ? "Le fichier audio de l'enregistrement est introuvable." : "Impossible de charger l'enregistrement.");
+            });
+        return () => {
+            isCancelled = true;
+            if (url) URL.revokeObjectURL(url);
+        };
+    }, [recording.id]);
+
+    if (error) return <p className="text-sm text-red-600">{error}</p>;
+    if (!audioUrl) return <p className="text-sm text-slate-500">Chargement de l'enregistrement...</p>;
+
+    return (
+        <div className="flex items-center space-x-4">
+            <audio controls autoPlay src={audioUrl} className="flex-1" />
+            <a href={audioUrl} download={recording.fileName} className="bg-slate-200 hover:bg-slate-300 text-slate-800 font-semibold py-2 px-3 rounded-md text-sm inline-flex items-center">
+                <InboxArrowDownIcon className="w-4 h-4 mr-2" /> Télécharger
+            </a>
+        </div>
+    );
+};
+
+export default RecordingPlayer;
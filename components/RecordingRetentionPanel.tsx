@@ -0,0 +1,139 @@
+import React, { useState, useEffect } from 'react';
+import type { Campaign, Qualification, RecordingRetentionPolicy, RecordingRetentionRule } from '../types.ts';
+import type { RecordingPurgeReport } from '../services/apiContract.ts';
+import { PlusIcon, TrashIcon } from './Icons.tsx';
+
+interface RecordingRetentionPanelProps {
+    policy: RecordingRetentionPolicy;
+    campaigns: Campaign[];
+    qualifications: Qualification[];
+    canManage: boolean;
+    onSave: (policy: RecordingRetentionPolicy) => void;
+    onPurge: () => Promise<RecordingPurgeReport>;
+}
+
+const formatRetention = (days: number) => days >= 365 && days % 365 === 0 ? `${days / 365} an(s)` : `${days} jour(s)`;
+
+const RecordingRetentionPanel: React.FC<RecordingRetentionPanelProps> = ({ policy, campaigns, qualifications, canManage, onSave, onPurge }) => {
+    const [draft, setDraft] = useState(policy);
+    const [isPurging, setIsPurging] = useState(false);
+    const [lastReport, setLastReport] = useState<RecordingPurgeReport | null>(null);
+
+    useEffect(() => {
+        setDraft(policy);
+    }, [policy]);
+
+    const isDirty = JSON.stringify(draft) !== JSON.stringify(policy);
+
+    const updateRule = (ruleId: string, changes: Partial<RecordingRetentionRule>) => {
+        setDraft(prev => ({ ...prev, rules: prev.rules.map(rule => rule.id === ruleId ? { ...rule, ...changes } : rule) }));
+    };
+
+    const handleAddRule = () => {
+        const rule: RecordingRetentionRule = { id: `retention-${Date.now()}`, scope: 'campaign', targetId: campaigns[0]?.id || '', retentionDays: draft.defaultRetentionDays };
+        setDraft(prev => ({ ...prev, rules: [...prev.rules, rule] }));
+    };
+
+    const handleRemoveRule = (ruleId: string) => {
+        setDraft(prev => ({ ...prev, rules: prev.rules.filter(rule => rule.id !== ruleId) }));
+    };
+
+    const handleSave = () => {
+        const isInvalid = draft.defaultRetentionDays < 1 || draft.rules.some(rule => !rule.targetId || rule.retentionDays < 1);
+        if (isInvalid) {
+            alert('Chaque règle doit avoir une cible et une durée de conservation d\'au moins 1 jour.');
+            return;
+        }
+        onSave(draft);
+    };
+
+    const handlePurge = () => {
+        if (!window.confirm('Supprimer maintenant tous les enregistrements dont la durée de conservation est dépassée ?')) return;
+        setIsPurging(true);
+        onPurge()
+            .then(setLastReport)
+            .catch(err => alert(`Purge impossible : ${err.message}`))
+            .finally(() => setIsPurging(false));
+    };
+
+    return (
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200">
+            <div className="flex justify-between items-center mb-4 border-b pb-2">
+                <h2 className="text-2xl font-semibold text-slate-800">Durées de conservation</h2>
+                {canManage && (
+                    <button onClick={handlePurge} disabled={isPurging} className="bg-red-50 hover:bg-red-100 text-red-700 font-semibold py-1 px-3 rounded-md text-sm disabled:opacity-50">
+                        {isPurging ? 'Purge en cours...' : 'Purger maintenant'}
+                    </button>
+                )}
+            </div>
+            <p className="text-sm text-slate-500 mb-4">
+                Les enregistrements expirés sont supprimés chaque jour par l'API, fichiers et index compris, et chaque purge est tracée dans les journaux système.
+                La règle d'une qualification l'emporte sur celle d'une campagne, qui l'emporte sur la durée par défaut.
+            </p>
+
+            <div className="flex items-center space-x-3 mb-4">
+                <label htmlFor="defaultRetentionDays" className="text-sm font-medium text-slate-700">Durée par défaut (jours)</label>
+                <input type="number" id="defaultRetentionDays" min={1} value={draft.defaultRetentionDays} disabled={!canManage}
+                    onChange={e => setDraft(prev => ({ ...prev, defaultRetentionDays: parseInt(e.target.value, 10) || 0 }))}
+                    className="w-28 p-2 border border-slate-300 rounded-md disabled:bg-slate-50"/>
+                <span className="text-sm text-slate-500">{formatRetention(draft.defaultRetentionDays)}</span>
+            </div>
+
+            <table className="min-w-full divide-y divide-slate-200">
+                <thead className="bg-slate-50">
+                    <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase">Appliquer à</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase">Cible</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase">Conservation (jours)</th>
+                        <th className="px-4 py-2"></th>
+                    </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-slate-200 text-sm">
+                    {draft.rules.map(rule => (
+                        <tr key={rule.id}>
+                            <td className="px-4 py-2">
+                                <select value={rule.scope} disabled={!canManage} onChange={e => updateRule(rule.id, { scope: e.target.value as RecordingRetentionRule['scope'], targetId: '' })} className="p-2 border border-slate-300 rounded-md bg-white">
+                                    <option value="campaign">Campagne</option>
+                                    <option value="qualification">Qualification</option>
+                                </select>
+                            </td>
+                            <td className="px-4 py-2">
+                                <select value={rule.targetId} disabled={!canManage} onChange={e => updateRule(rule.id, { targetId: e.target.value })} className="w-full p-2 border border-slate-300 rounded-md bg-white">
+                                    <option value="">-- Choisir --</option>
+                                    {rule.scope === 'campaign'
+                                        ? campaigns.map(c => <option key={c.id} value={c.id}>{c.name}</option>)
+                                        : qualifications.map(q => <option key={q.id} value={q.id}>{q.code} - {q.description}</option>)}
+                                </select>
+                            </td>
+                            <td className="px-4 py-2">
+                                <input type="number" min={1} value={rule.retentionDays} disabled={!canManage}
+                                    onChange={e => updateRule(rule.id, { retentionDays: parseInt(e.target.value, 10) || 0 })}
+                                    className="w-28 p-2 border border-slate-300 rounded-md disabled:bg-slate-50"/>
+                                <span className="ml-2 text-slate-500">{formatRetention(rule.retentionDays)}</span>
+                            </td>
+                            <td className="px-4 py-2 text-right">
+                                {canManage && <button onClick={() => handleRemoveRule(rule.id)} title="Supprimer la règle" className="text-slate-500 hover:text-red-600 p-1"><TrashIcon className="w-4 h-4"/></button>}
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            {draft.rules.length === 0 && <p className="text-center py-4 text-slate-500 text-sm">Aucune règle : la durée par défaut s'applique à tous les enregistrements.</p>}
+
+            {canManage && (
+                <div className="flex justify-between items-center mt-4">
+                    <button onClick={handleAddRule} className="text-indigo-600 hover:text-indigo-900 font-semibold text-sm inline-flex items-center"><PlusIcon className="w-5 h-5 mr-1"/>Ajouter une règle</button>
+                    <button onClick={handleSave} disabled={!isDirty} className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg shadow-md disabled:opacity-50">Enregistrer</button>
+                </div>
+            )}
+
+            {lastReport && (
+                <p className="mt-4 text-sm text-slate-600">
+                    Dernière purge : {lastReport.purgedCount === 0 ? 'aucun enregistrement expiré.' : `${lastReport.purgedCount} enregistrement(s) supprimé(s).`}
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default RecordingRetentionPanel;
@@ -1,24 +1,211 @@
-
-import React from 'react';
-import type { Feature } from '../types.ts';
+import React, { useState, useMemo, useEffect } from 'react';
+import type { Feature, CallRecording, User, Campaign, Permission, Qualification, RecordingRetentionPolicy } from '../types.ts';
+import type { RecordingPurgeReport } from '../services/apiContract.ts';
+import { ChevronDownIcon, TrashIcon } from './Icons.tsx';
+import RecordingPlayer from './RecordingPlayer.tsx';
+import RecordingRetentionPanel from './RecordingRetentionPanel.tsx';
+import { getRecordingExpiry } from '../services/recordingRetention.ts';
 
 interface RecordsManagerProps {
     feature: Feature;
+    recordings: CallRecording[];
+    users: User[];
+    campaigns: Campaign[];
+    qualifications: Qualification[];
+    recordingRetention: RecordingRetentionPolicy;
+    hasPermission: (permission: Permission) => boolean;
+    onRefreshRecordings: () => void;
+    onDeleteRecording: (recordingId: string) => Promise<void>;
+    onFetchRecordingAudio: (recordingId: string) => Promise<Blob>;
+    onSaveRecordingRetention: (policy: RecordingRetentionPolicy) => void;
+    onPurgeRecordings: () => Promise<RecordingPurgeReport>;
 }
 
-const RecordsManager: React.FC<RecordsManagerProps> = ({ feature }) => {
+const formatBytes = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const formatDuration = (seconds: number) => {
+    const m = Math.floor(seconds / 60).toString().padStart(2, '0');
+    const s = Math.round(seconds % 60).toString().padStart(2, '0');
+    return `${m}:${s}`;
+};
+
+const RecordsManager: React.FC<RecordsManagerProps> = ({
+    feature, recordings, users, campaigns, qualifications, recordingRetention, hasPermission,
+    onRefreshRecordings, onDeleteRecording, onFetchRecordingAudio, onSaveRecordingRetention, onPurgeRecordings,
+}) => {
+    const [filters, setFilters] = useState({
+        startDate: '',
+        endDate: '',
+        agentId: 'all',
+        campaignId: 'all',
+        did: 'all',
+        searchTerm: '',
+    });
+    const [playingId, setPlayingId] = useState<string | null>(null);
+    const canDelete = hasPermission('records.delete');
+
+    // Recordings are indexed by the server as calls end.
+    useEffect(() => {
+        onRefreshRecordings();
+    }, []);
+
+    const handleFilterChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        const { name, value } = e.target;
+        setFilters(prev => ({ ...prev, [name]: value }));
+    };
+
+    const findUserName = (userId: string) => {
+        const user = users.find(u => u.id === userId);
+        return user ? `${user.firstName} ${user.lastName}` : userId;
+    };
+
+    const findCampaignName = (campaignId: string | null) =>
+        campaignId ? campaigns.find(c => c.id === campaignId)?.name || campaignId : '—';
+
+    const dids = useMemo(() => [...new Set(recordings.map(r => r.did).filter((did): did is string => !!did))].sort(), [recordings]);
+
+    const filteredRecordings = useMemo(() => {
+        const start = filters.startDate ? new Date(filters.startDate) : null;
+        start?.setHours(0, 0, 0, 0);
+        const end = filters.endDate ? new Date(filters.endDate) : null;
+        end?.setHours(23, 59, 59, 999);
+        const term = filters.searchTerm.toLowerCase();
+
+        return recordings.filter(recording => {
+            const date = new Date(recording.timestamp);
+            if (start && date < start) return false;
+            if (end && date > end) return false;
+            if (filters.agentId !== 'all' && recording.agentId !== filters.agentId) return false;
+            if (filters.campaignId !== 'all' && recording.campaignId !== filters.campaignId) return false;
+            if (filters.did !== 'all' && recording.did !== filters.did) return false;
+            if (term && !recording.callId.toLowerCase().includes(term) && !recording.callerNumber.toLowerCase().includes(term)) return false;
+            return true;
+        }).sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+    }, [recordings, filters]);
+
+    const handleDelete = (recording: CallRecording) => {
+        if (!window.confirm(`Supprimer définitivement l'enregistrement de l'appel ${recording.callId} ?`)) return;
+        if (playingId === recording.id) setPlayingId(null);
+        onDeleteRecording(recording.id).catch(err => alert(`Suppression impossible : ${err.message}`));
+    };
+
     return (
-        <div className="max-w-5xl mx-auto space-y-8">
+        <div className="max-w-7xl mx-auto space-y-8">
             <header>
                 <h1 className="text-4xl font-bold text-slate-900 tracking-tight">{feature.title}</h1>
                 <p className="mt-2 text-lg text-slate-600">{feature.description}</p>
             </header>
             <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200">
-                <div className="text-center text-slate-500 py-16">
-                    <h2 className="text-xl font-semibold">Fonctionnalité en construction</h2>
-                    <p className="mt-2">La gestion des enregistrements d'appels sera disponible ici.</p>
+                <div className="grid grid-cols-1 md:grid-cols-6 gap-4 items-end mb-4">
+                    <div>
+                        <label htmlFor="startDate" className="block text-sm font-medium text-slate-700">Du</label>
+                        <input type="date" name="startDate" id="startDate" value={filters.startDate} onChange={handleFilterChange} className="mt-1 block w-full p-2 border border-slate-300 rounded-md"/>
+                    </div>
+                    <div>
+                        <label htmlFor="endDate" className="block text-sm font-medium text-slate-700">Au</label>
+                        <input type="date" name="endDate" id="endDate" value={filters.endDate} onChange={handleFilterChange} className="mt-1 block w-full p-2 border border-slate-300 rounded-md"/>
+                    </div>
+                    <div>
+                        <label htmlFor="agentId" className="block text-sm font-medium text-slate-700">Agent</label>
+                        <select id="agentId" name="agentId" value={filters.agentId} onChange={handleFilterChange} className="mt-1 block w-full p-2 border border-slate-300 rounded-md bg-white">
+                            <option value="all">Tous</option>
+                            {users.filter(u => u.role === 'Agent').map(u => <option key={u.id} value={u.id}>{u.firstName} {u.lastName}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="campaignId" className="block text-sm font-medium text-slate-700">Campagne</label>
+                        <select id="campaignId" name="campaignId" value={filters.campaignId} onChange={handleFilterChange} className="mt-1 block w-full p-2 border border-slate-300 rounded-md bg-white">
+                            <option value="all">Toutes</option>
+                            {campaigns.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="did" className="block text-sm font-medium text-slate-700">SDA</label>
+                        <select id="did" name="did" value={filters.did} onChange={handleFilterChange} className="mt-1 block w-full p-2 border border-slate-300 rounded-md bg-white">
+                            <option value="all">Toutes</option>
+                            {dids.map(did => <option key={did} value={did}>{did}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="searchTerm" className="block text-sm font-medium text-slate-700">Rechercher</label>
+                        <input type="text" name="searchTerm" id="searchTerm" value={filters.searchTerm} onChange={handleFilterChange} placeholder="ID d'appel, numéro..." className="mt-1 block w-full p-2 border border-slate-300 rounded-md"/>
+                    </div>
+                </div>
+
+                <div className="flex justify-between items-center mb-4 mt-6 border-b pb-2">
+                    <h2 className="text-2xl font-semibold text-slate-800">Enregistrements ({filteredRecordings.length})</h2>
+                    <button onClick={onRefreshRecordings} className="bg-slate-200 hover:bg-slate-300 text-slate-800 font-semibold py-1 px-3 rounded-md text-sm">Rafraîchir</button>
+                </div>
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-slate-200">
+                        <thead className="bg-slate-50">
+                            <tr>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase">Date & Heure</th>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase">Agent</th>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase">Campagne</th>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase">SDA</th>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase">Numéro</th>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase">Durée</th>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase">Taille</th>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase">Expire le</th>
+                                <th className="px-4 py-3 text-right text-xs font-medium text-slate-500 uppercase">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-slate-200 text-sm">
+                            {filteredRecordings.map(recording => {
+                                const isPlaying = playingId === recording.id;
+                                return (
+                                    <React.Fragment key={recording.id}>
+                                        <tr>
+                                            <td className="px-4 py-3 text-slate-600">
+                                                {new Date(recording.timestamp).toLocaleString('fr-FR')}
+                                                <p className="font-mono text-xs text-slate-400">{recording.callId}</p>
+                                            </td>
+                                            <td className="px-4 py-3 font-medium text-slate-800">{findUserName(recording.agentId)}</td>
+                                            <td className="px-4 py-3 text-slate-600">{findCampaignName(recording.campaignId)}</td>
+                                            <td className="px-4 py-3 font-mono text-slate-600">{recording.did || '—'}</td>
+                                            <td className="px-4 py-3 font-mono text-slate-800">{recording.callerNumber}</td>
+                                            <td className="px-4 py-3 font-mono text-slate-600">{formatDuration(recording.duration)}</td>
+                                            <td className="px-4 py-3 text-slate-600">{formatBytes(recording.size)}</td>
+                                            <td className="px-4 py-3 text-slate-600">{getRecordingExpiry(recording, recordingRetention).toLocaleDateString('fr-FR')}</td>
+                                            <td className="px-4 py-3 text-right space-x-2">
+                                                <button onClick={() => setPlayingId(isPlaying ? null : recording.id)} className="inline-flex items-center text-indigo-600 hover:text-indigo-900 font-medium">
+                                                    Écouter
+                                                    <ChevronDownIcon className={`w-4 h-4 ml-1 transition-transform ${isPlaying ? '' : '-rotate-90'}`} />
+                                                </button>
+                                                {canDelete && (
+                                                    <button onClick={() => handleDelete(recording)} title="Supprimer" className="text-slate-500 hover:text-red-600 p-1 align-middle"><TrashIcon className="w-4 h-4"/></button>
+                                                )}
+                                            </td>
+                                        </tr>
+                                        {isPlaying && (
+                                            <tr className="bg-slate-50">
+                                                <td colSpan={9} className="px-4 py-3">
+                                                    <RecordingPlayer recording={recording} onFetchAudio={onFetchRecordingAudio} />
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </React.Fragment>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                    {filteredRecordings.length === 0 && <p className="text-center py-8 text-slate-500">Aucun enregistrement trouvé pour les filtres sélectionnés.</p>}
                 </div>
             </div>
+
+            <RecordingRetentionPanel
+                policy={recordingRetention}
+                campaigns={campaigns}
+                qualifications={qualifications}
+                canManage={canDelete}
+                onSave={onSaveRecordingRetention}
+                onPurge={onPurgeRecordings}
+            />
         </div>
     );
 };
@@ -6,6 +6,7 @@ import {
     PhoneIcon, EmailIcon, TimeIcon, ButtonIcon, LabelIcon, GroupIcon, MinusIcon, ResetViewIcon,
     AlignLeftIcon, AlignCenterIcon, AlignRightIcon
 } from './Icons.tsx';
+import { SCRIPT_SOURCE_FIELDS, BINDABLE_BLOCK_TYPES } from '../services/scriptBinding.ts';
 
 // Props definition
 interface ScriptBuilderProps {
@@ -353,8 +354,18 @@ const ScriptBuilder: React.FC<ScriptBuilderProps> = ({ script, onSave, onClose,
                     <div className="py-4 space-y-4 flex-1 overflow-y-auto text-sm">
                         {propertiesTab === 'content' && (
                            <>
-                           { (selectedBlock.type === 'label' || selectedBlock.type === 'text') && <textarea value={selectedBlock.content.text} onChange={(e) => handleBlockContentUpdate(selectedBlockId!, { text: e.target.value })} className="w-full p-2 border rounded-md" rows={4}/> }
+                           { (selectedBlock.type === 'label' || selectedBlock.type === 'text') && <><textarea value={selectedBlock.content.text} onChange={(e) => handleBlockContentUpdate(selectedBlockId!, { text: e.target.value })} className="w-full p-2 border rounded-md" rows={4}/><p className="text-xs text-slate-400">Variables disponibles : {SCRIPT_SOURCE_FIELDS.map(f => `{{${f.path}}}`).join(', ')}</p></> }
                            { (selectedBlock.type === 'input' || selectedBlock.type === 'email' || selectedBlock.type === 'phone') && <><div><label className="font-medium">Label</label><input type="text" value={selectedBlock.content.label} onChange={e=>handleBlockContentUpdate(selectedBlockId!, {label: e.target.value})} className="w-full mt-1 p-2 border rounded-md"/></div><div><label className="font-medium">Placeholder</label><input type="text" value={selectedBlock.content.placeholder} onChange={e=>handleBlockContentUpdate(selectedBlockId!, {placeholder: e.target.value})} className="w-full mt-1 p-2 border rounded-md"/></div> {selectedBlock.type === 'input' && <div><label className="font-medium">Format</label><select value={selectedBlock.content.format} onChange={e => handleBlockContentUpdate(selectedBlockId!, { format: e.target.value })} className="w-full mt-1 p-2 border rounded-md bg-white"><option value="text">Texte</option><option value="number">Nombre</option><option value="password">Mot de passe</option></select></div>}</>}
+                           { BINDABLE_BLOCK_TYPES.includes(selectedBlock.type) && (
+                                <div>
+                                    <label className="font-medium">Champ source</label>
+                                    <select value={selectedBlock.content.sourceField || ''} onChange={e => handleBlockContentUpdate(selectedBlockId!, { sourceField: e.target.value || undefined })} className="w-full mt-1 p-2 border rounded-md bg-white">
+                                        <option value="">Aucun</option>
+                                        {SCRIPT_SOURCE_FIELDS.map(f => <option key={f.path} value={f.path}>{f.label}</option>)}
+                                    </select>
+                                    <p className="text-xs text-slate-400 mt-1">Le champ est pré-rempli avec cette donnée pendant l'appel ; l'agent peut la corriger.</p>
+                                </div>
+                           )}
                            { (selectedBlock.type === 'button') && <><div><label className="font-medium">Texte du bouton</label><input type="text" value={selectedBlock.content.text} onChange={e=>handleBlockContentUpdate(selectedBlockId!, {text: e.target.value})} className="w-full mt-1 p-2 border rounded-md"/></div></> }
                            { (selectedBlock.type === 'radio' || selectedBlock.type === 'checkbox' || selectedBlock.type === 'dropdown') && (
                                 <div className="space-y-4">
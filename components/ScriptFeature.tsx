@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 // Fix: added .ts extension to import path
-import type { Feature, SavedScript, Page } from '../types.ts';
+import type { Feature, SavedScript, Page, Permission } from '../types.ts';
 // Fix: added .tsx extension to import path
 import ScriptBuilder from './ScriptBuilder.tsx';
 // Fix: added .tsx extension to import path
@@ -14,6 +14,7 @@ interface ScriptFeatureProps {
     onSaveOrUpdateScript: (script: SavedScript) => void;
     onDeleteScript: (scriptId: string) => void;
     onDuplicateScript: (scriptId: string) => void;
+    hasPermission: (permission: Permission) => boolean;
 }
 
 const ScriptFeature: React.FC<ScriptFeatureProps> = ({
@@ -21,8 +22,10 @@ const ScriptFeature: React.FC<ScriptFeatureProps> = ({
     savedScripts,
     onSaveOrUpdateScript,
     onDeleteScript,
-    onDuplicateScript
+    onDuplicateScript,
+    hasPermission
 }) => {
+    const canEdit = hasPermission('script.edit');
     const [view, setView] = useState<'list' | 'editor' | 'preview'>('list');
     const [activeScript, setActiveScript] = useState<SavedScript | null>(null);
 
@@ -37,7 +40,8 @@ const ScriptFeature: React.FC<ScriptFeatureProps> = ({
             name: "Nouveau Script",
             pages: [firstPage],
             startPageId: firstPage.id,
-            backgroundColor: '#f1f5f9'
+            backgroundColor: '#f1f5f9',
+            version: 1
         });
         setView('editor');
     };
@@ -95,13 +99,15 @@ const ScriptFeature: React.FC<ScriptFeatureProps> = ({
             <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200">
                 <div className="flex justify-between items-center mb-4">
                     <h2 className="text-2xl font-semibold text-slate-800">Scripts Sauvegardés</h2>
-                    <button
-                        onClick={handleCreateNew}
-                        className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg shadow-md transition-colors inline-flex items-center"
-                    >
-                        <PlusIcon className="w-5 h-5 mr-2" />
-                        Créer un nouveau script
-                    </button>
+                    {canEdit && (
+                        <button
+                            onClick={handleCreateNew}
+                            className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg shadow-md transition-colors inline-flex items-center"
+                        >
+                            <PlusIcon className="w-5 h-5 mr-2" />
+                            Créer un nouveau script
+                        </button>
+                    )}
                 </div>
 
                 {savedScripts.length > 0 ? (
@@ -118,9 +124,9 @@ const ScriptFeature: React.FC<ScriptFeatureProps> = ({
                                     <tr key={script.id}>
                                         <td className="px-6 py-4 whitespace-nowrap font-medium text-slate-800">{script.name}</td>
                                         <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-4">
-                                            <button onClick={() => handleEdit(script)} className="text-indigo-600 hover:text-indigo-900 inline-flex items-center"><EditIcon className="w-4 h-4 mr-1"/> Modifier</button>
-                                            <button onClick={() => onDuplicateScript(script.id)} className="text-slate-500 hover:text-slate-800 inline-flex items-center"><DuplicateIcon className="w-4 h-4 mr-1"/> Dupliquer</button>
-                                            <button onClick={() => onDeleteScript(script.id)} className="text-red-600 hover:text-red-900 inline-flex items-center"><TrashIcon className="w-4 h-4 mr-1"/> Supprimer</button>
+                                            {canEdit && <button onClick={() => handleEdit(script)} className="text-indigo-600 hover:text-indigo-900 inline-flex items-center"><EditIcon className="w-4 h-4 mr-1"/> Modifier</button>}
+                                            {canEdit && <button onClick={() => onDuplicateScript(script.id)} className="text-slate-500 hover:text-slate-800 inline-flex items-center"><DuplicateIcon className="w-4 h-4 mr-1"/> Dupliquer</button>}
+                                            {canEdit && <button onClick={() => onDeleteScript(script.id)} className="text-red-600 hover:text-red-900 inline-flex items-center"><TrashIcon className="w-4 h-4 mr-1"/> Supprimer</button>}
                                         </td>
                                     </tr>
                                 ))}
@@ -1,15 +1,29 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import type { Feature, User, Campaign, AgentState, ActiveCall, CampaignState, AgentStatus } from '../types.ts';
+import type { Feature, User, Campaign, AcdQueue, AgentState, ActiveCall, CampaignState, CampaignRunStatus, AgentStatus, Permission, SupervisorActionRecord, SupervisorActionType } from '../types.ts';
 import { UsersIcon, PhoneIcon, ChartBarIcon, BellAlertIcon } from './Icons.tsx';
 import AgentBoard from './AgentBoard.tsx';
 import CallBoard from './CallBoard.tsx';
 import CampaignBoard from './CampaignBoard.tsx';
+import InterventionBoard, { SUPERVISOR_ACTION_LABELS } from './InterventionBoard.tsx';
+import { getQuotaFillRate, isQuotaReached } from '../services/contactRules.ts';
+import { getCampaignRunStatus } from '../services/campaignLifecycle.ts';
+import type { RealtimeConnection } from '../services/realtimeClient.ts';
+import type { ApiRequestError } from '../services/apiClient.ts';
+import type { SupervisorActionRequest } from '../services/apiContract.ts';
+import type { SupervisionSnapshot } from '../services/realtimeEvents.ts';
+import { EMPTY_SNAPSHOT, secondsSince } from '../services/realtimeEvents.ts';
 
 interface SupervisionDashboardProps {
     feature: Feature;
     users: User[];
     campaigns: Campaign[];
-    currentUser: User;
+    acdQueues: AcdQueue[];
+    hasPermission: (permission: Permission) => boolean;
+    realtime: RealtimeConnection | null;
+    supervisorActions: SupervisorActionRecord[];
+    onSupervisorAction: (request: SupervisorActionRequest) => Promise<void>;
+    onRefreshSupervisorActions: () => void;
+    onChangeCampaignRunStatus: (campaignId: string, runStatus: CampaignRunStatus) => Promise<void>;
 }
 
 const STATUS_CONFIG: { [key in AgentStatus]: { label: string; color: string } } = {
@@ -19,93 +33,63 @@ const STATUS_CONFIG: { [key in AgentStatus]: { label: string; color: string } }
     'En Pause': { label: 'En Pause', color: 'bg-slate-500' },
 };
 
-const SupervisionDashboard: React.FC<SupervisionDashboardProps> = ({ feature, users, campaigns, currentUser }) => {
-    const [activeTab, setActiveTab] = useState<'live' | 'agents' | 'calls' | 'campaigns'>('live');
+type SupervisionTab = 'live' | 'agents' | 'calls' | 'campaigns' | 'interventions';
+
+const SupervisionDashboard: React.FC<SupervisionDashboardProps> = ({ feature, users, campaigns, acdQueues, hasPermission, realtime, supervisorActions, onSupervisorAction, onRefreshSupervisorActions, onChangeCampaignRunStatus }) => {
+    const [activeTab, setActiveTab] = useState<SupervisionTab>('live');
     
-    // Live Data State
-    const [agentStates, setAgentStates] = useState<AgentState[]>([]);
-    const [activeCalls, setActiveCalls] = useState<ActiveCall[]>([]);
-    const [campaignStates, setCampaignStates] = useState<CampaignState[]>([]);
+    // Live state, reconciled from the event stream by the connection (services/realtimeClient.ts).
+    const [live, setLive] = useState<SupervisionSnapshot>(EMPTY_SNAPSHOT);
+    const [isConnected, setIsConnected] = useState(false);
+    // Durations are derived from the event timestamps, refreshed every second.
+    const [now, setNow] = useState(() => Date.now());
 
-    const agents = useMemo(() => users.filter(u => u.role === 'Agent'), [users]);
+    useEffect(() => {
+        if (!realtime) return;
+        return realtime.subscribe((snapshot, connected) => {
+            setLive(snapshot);
+            setIsConnected(connected);
+        });
+    }, [realtime]);
 
-    // WebSocket Simulation Effect
     useEffect(() => {
-        // Initial state generation
-        setAgentStates(
-            agents.map(agent => ({
-                ...agent,
-                status: 'En Attente',
-                statusDuration: Math.floor(Math.random() * 600),
-                callsHandledToday: Math.floor(Math.random() * 50),
-                averageHandlingTime: Math.floor(Math.random() * 120) + 180, // 3 to 5 minutes
-            }))
-        );
-        setCampaignStates(
-            campaigns.map(c => ({
-                id: c.id,
-                name: c.name,
-                status: c.isActive ? 'running' : 'stopped',
-                offered: Math.floor(Math.random() * 200) + 50,
-                answered: Math.floor(Math.random() * 150) + 40,
-                hitRate: Math.random() * 20 + 10,
-                agentsOnCampaign: agents.filter(a => a.campaignIds.includes(c.id)).length,
-            }))
-        );
-
-        const timer = setInterval(() => {
-            // Update agent states
-            setAgentStates(prevStates =>
-                prevStates.map(agent => {
-                    let newStatus = agent.status;
-                    let newDuration = agent.statusDuration + 2; // Tick every 2s
-                    // Random state changes
-                    if (Math.random() < 0.05) {
-                        const statuses: AgentStatus[] = ['En Attente', 'En Appel', 'En Post-Appel', 'En Pause'];
-                        newStatus = statuses[Math.floor(Math.random() * statuses.length)];
-                        newDuration = 0;
-                    }
-                    return { ...agent, status: newStatus, statusDuration: newDuration };
-                })
-            );
-            
-            // Update active calls
-            setActiveCalls(prevCalls => {
-                let newCalls = [...prevCalls];
-                // End some calls
-                newCalls = newCalls.filter(() => Math.random() > 0.1);
-                // Add a new call
-                if (Math.random() > 0.6) {
-                    const availableAgents = agentStates.filter(a => a.status === 'En Attente');
-                    if(availableAgents.length > 0) {
-                        const agent = availableAgents[Math.floor(Math.random() * availableAgents.length)];
-                        const campaign = campaigns.find(c => agent.campaignIds.includes(c.id));
-                        newCalls.push({
-                            id: `call-${Date.now()}`,
-                            from: `06${Math.floor(Math.random() * 100000000)}`,
-                            to: campaign?.callerId || 'N/A',
-                            agentId: agent.id,
-                            campaignId: campaign?.id || 'N/A',
-                            duration: 0,
-                            status: 'active',
-                        });
-                    }
-                }
-                return newCalls.map(call => ({...call, duration: call.duration + 2}));
-            });
-            
-            // Update campaign states
-            setCampaignStates(prev => prev.map(cs => ({
-                ...cs,
-                offered: cs.status === 'running' ? cs.offered + (Math.random() > 0.5 ? 1 : 0) : cs.offered,
-                answered: cs.status === 'running' ? cs.answered + (Math.random() > 0.7 ? 1 : 0) : cs.answered,
-            })));
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, []);
+
+    const agentStates = useMemo<AgentState[]>(() => live.agents.flatMap(state => {
+        const user = users.find(u => u.id === state.agentId);
+        if (!user) return [];
+        return [{
+            ...user,
+            status: state.status,
+            statusDuration: secondsSince(state.since, now),
+            callsHandledToday: state.callsHandledToday,
+            averageHandlingTime: state.averageHandlingTime,
+        }];
+    }), [live.agents, users, now]);
+
+    const activeCalls = useMemo<ActiveCall[]>(
+        () => live.calls.map(({ startedAt, ...call }) => ({ ...call, duration: secondsSince(startedAt, now) })),
+        [live.calls, now]
+    );
 
-        }, 2000); // Update every 2 seconds
+    // Campaigns without any event yet are listed with empty counters. The run
+    // status is the saved one, so a change shows even while disconnected.
+    const campaignStates = useMemo<CampaignState[]>(() => campaigns.map(campaign => {
+        const status = getCampaignRunStatus(campaign);
+        const state = live.campaigns.find(s => s.id === campaign.id);
+        return state ? { ...state, status } : {
+            id: campaign.id,
+            name: campaign.name,
+            status,
+            offered: 0,
+            answered: 0,
+            hitRate: 0,
+            agentsOnCampaign: agentStates.filter(a => a.campaignIds.includes(campaign.id)).length,
+        };
+    }), [campaigns, live.campaigns, agentStates]);
 
-        return () => clearInterval(timer);
-    }, [users, campaigns, agents]);
-    
     const kpis = useMemo(() => {
         const agentsReady = agentStates.filter(a => a.status === 'En Attente').length;
         const agentsOnCall = agentStates.filter(a => a.status === 'En Appel').length;
@@ -119,7 +103,36 @@ const SupervisionDashboard: React.FC<SupervisionDashboardProps> = ({ feature, us
         return { agentsReady, agentsOnCall, agentsInWrapUp, agentsInPause, longestWait };
     }, [agentStates, activeCalls]);
 
-    const TabButton: React.FC<{text: string, tabName: 'live' | 'agents' | 'calls' | 'campaigns'}> = ({ text, tabName }) => (
+    const campaignsWithQuotas = useMemo(() => campaigns.filter(c => c.isActive && c.quotaRules.length > 0), [campaigns]);
+
+    const runSupervisorAction = (request: SupervisorActionRequest) => {
+        onSupervisorAction(request).catch((err: ApiRequestError) => {
+            const label = SUPERVISOR_ACTION_LABELS[request.action].label;
+            if (err.code === 'AGENT_NOT_LOGGED_IN') alert(`${label} impossible : l'agent n'est plus connecté.`);
+            else if (err.code === 'CALL_NOT_FOUND') alert(`${label} impossible : l'appel est terminé.`);
+            else alert(`${label} impossible : ${err.message}`);
+        });
+    };
+
+    // The run status of an inactive campaign cannot change: it is stopped until reactivated.
+    const handleChangeRunStatus = (campaignId: string, runStatus: CampaignRunStatus) => {
+        const campaign = campaigns.find(c => c.id === campaignId);
+        if (!campaign) return;
+        if (!campaign.isActive) {
+            alert(`La campagne ${campaign.name} est inactive : activez-la d'abord dans la gestion des campagnes.`);
+            return;
+        }
+        onChangeCampaignRunStatus(campaignId, runStatus)
+            .catch(err => alert(`Le statut de la campagne ${campaign.name} n'a pas pu être modifié : ${err.message}`));
+    };
+
+    // Listen, whisper and barge target the agent's current call.
+    const handleAgentAction = (action: SupervisorActionType, agent: AgentState) => {
+        const call = activeCalls.find(c => c.agentId === agent.id && c.status === 'active');
+        runSupervisorAction({ action, agentId: agent.id, callId: call?.id });
+    };
+
+    const TabButton: React.FC<{text: string, tabName: SupervisionTab}> = ({ text, tabName }) => (
         <button
             onClick={() => setActiveTab(tabName)}
             className={`px-4 py-3 text-sm font-medium border-b-2 ${activeTab === tabName ? 'border-indigo-500 text-indigo-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}
@@ -136,6 +149,35 @@ const SupervisionDashboard: React.FC<SupervisionDashboardProps> = ({ feature, us
                 <KpiCard title="Agents en Post-Appel" value={kpis.agentsInWrapUp} color="text-yellow-600" />
                 <KpiCard title="Agents en Pause" value={kpis.agentsInPause} color="text-slate-600" />
             </div>
+            {campaignsWithQuotas.length > 0 && (
+                <div className="bg-white p-5 rounded-lg shadow-sm border border-slate-200">
+                    <h3 className="text-lg font-semibold text-slate-800 mb-3">Remplissage des Quotas</h3>
+                    <div className="space-y-4">
+                        {campaignsWithQuotas.map(campaign => (
+                            <div key={campaign.id}>
+                                <p className="text-sm font-semibold text-slate-700 mb-2">{campaign.name}</p>
+                                <div className="space-y-2">
+                                    {campaign.quotaRules.map(rule => {
+                                        const fillRate = getQuotaFillRate(rule);
+                                        const reached = isQuotaReached(rule);
+                                        return (
+                                            <div key={rule.id} className="flex items-center text-sm">
+                                                <span className="w-48 text-slate-600">Code postal {rule.operator === 'equals' ? '=' : 'commence par'} {rule.value}</span>
+                                                <div className="flex-1 h-3 bg-slate-200 rounded-full overflow-hidden mx-3">
+                                                    <div className={`h-full ${reached ? 'bg-red-500' : 'bg-indigo-500'}`} style={{ width: `${fillRate}%` }}></div>
+                                                </div>
+                                                <span className={`w-28 text-right font-mono ${reached ? 'text-red-600 font-semibold' : 'text-slate-600'}`}>
+                                                    {rule.currentCount} / {rule.limit}{reached ? ' (atteint)' : ''}
+                                                </span>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
             <div className="bg-white p-5 rounded-lg shadow-sm border border-slate-200 col-span-1 md:col-span-2">
                  <h3 className="text-lg font-semibold text-slate-800 mb-2">Alertes Intelligentes</h3>
                  <div className="space-y-3">
@@ -157,11 +199,13 @@ const SupervisionDashboard: React.FC<SupervisionDashboardProps> = ({ feature, us
             case 'live':
                 return <LiveDashboard />;
             case 'agents':
-                return <AgentBoard agents={agentStates} currentUser={currentUser} />;
+                return <AgentBoard agents={agentStates} canIntervene={hasPermission('supervision.barge')} onSupervisorAction={handleAgentAction} />;
             case 'calls':
-                return <CallBoard calls={activeCalls} agents={users} campaigns={campaigns} />;
+                return <CallBoard calls={activeCalls} agents={users} campaigns={campaigns} queues={acdQueues} canIntervene={hasPermission('supervision.barge')} onSupervisorAction={(action, call) => runSupervisorAction({ action, agentId: call.agentId, callId: call.id })} />;
             case 'campaigns':
-                return <CampaignBoard campaignStates={campaignStates} />;
+                return <CampaignBoard campaignStates={campaignStates} canControl={hasPermission('campaign.edit')} onChangeRunStatus={handleChangeRunStatus} />;
+            case 'interventions':
+                return <InterventionBoard actions={supervisorActions} users={users} onRefresh={onRefreshSupervisorActions} />;
             default:
                 return null;
         }
@@ -169,9 +213,15 @@ const SupervisionDashboard: React.FC<SupervisionDashboardProps> = ({ feature, us
 
     return (
         <div className="max-w-7xl mx-auto space-y-6 font-sans">
-            <header>
-                <h1 className="text-4xl font-bold text-slate-900 tracking-tight">{feature.title}</h1>
-                <p className="mt-2 text-lg text-slate-600">{feature.description}</p>
+            <header className="flex justify-between items-start">
+                <div>
+                    <h1 className="text-4xl font-bold text-slate-900 tracking-tight">{feature.title}</h1>
+                    <p className="mt-2 text-lg text-slate-600">{feature.description}</p>
+                </div>
+                <span className={`mt-2 inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${isConnected ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+                    <span className={`w-2 h-2 rounded-full mr-2 ${isConnected ? 'bg-green-500' : 'bg-red-500'}`}></span>
+                    {isConnected ? 'Temps réel connecté' : 'Temps réel déconnecté'}
+                </span>
             </header>
             
             <div className="bg-white rounded-lg shadow-sm border border-slate-200">
@@ -181,6 +231,7 @@ const SupervisionDashboard: React.FC<SupervisionDashboardProps> = ({ feature, us
                         <TabButton text="Agents" tabName="agents" />
                         <TabButton text="Appels" tabName="calls" />
                         <TabButton text="Campagnes" tabName="campaigns" />
+                        <TabButton text="Interventions" tabName="interventions" />
                     </nav>
                 </div>
                 <div className="p-4">
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import type { Feature, Trunk } from '../types.ts';
+import type { Feature, Trunk, Permission } from '../types.ts';
 import { PlusIcon, EditIcon, TrashIcon } from './Icons.tsx';
 
 interface TrunkModalProps {
@@ -67,9 +67,11 @@ interface TrunkManagerProps {
     trunks: Trunk[];
     onSaveTrunk: (trunk: Trunk) => void;
     onDeleteTrunk: (trunkId: string) => void;
+    hasPermission: (permission: Permission) => boolean;
 }
 
-const TrunkManager: React.FC<TrunkManagerProps> = ({ feature, trunks, onSaveTrunk, onDeleteTrunk }) => {
+const TrunkManager: React.FC<TrunkManagerProps> = ({ feature, trunks, onSaveTrunk, onDeleteTrunk, hasPermission }) => {
+    const canEdit = hasPermission('trunk.edit');
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [editingTrunk, setEditingTrunk] = useState<Trunk | null>(null);
 
@@ -100,9 +102,11 @@ const TrunkManager: React.FC<TrunkManagerProps> = ({ feature, trunks, onSaveTrun
             <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200">
                 <div className="flex justify-between items-center mb-4">
                     <h2 className="text-2xl font-semibold text-slate-800">Trunks configurés</h2>
-                    <button onClick={handleAddNew} className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg shadow-md inline-flex items-center">
-                        <PlusIcon className="w-5 h-5 mr-2" />Ajouter un Trunk
-                    </button>
+                    {canEdit && (
+                        <button onClick={handleAddNew} className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg shadow-md inline-flex items-center">
+                            <PlusIcon className="w-5 h-5 mr-2" />Ajouter un Trunk
+                        </button>
+                    )}
                 </div>
 
                 <div className="overflow-x-auto">
@@ -122,8 +126,8 @@ const TrunkManager: React.FC<TrunkManagerProps> = ({ feature, trunks, onSaveTrun
                                     <td className="px-6 py-4 text-slate-600 font-mono text-sm">{trunk.domain}</td>
                                     <td className="px-6 py-4 text-slate-600 font-mono text-sm">{trunk.login}</td>
                                     <td className="px-6 py-4 text-right text-sm font-medium space-x-4">
-                                        <button onClick={() => handleEdit(trunk)} className="text-indigo-600 hover:text-indigo-900"><EditIcon className="w-4 h-4 inline-block -mt-1"/> Modifier</button>
-                                        <button onClick={() => onDeleteTrunk(trunk.id)} className="text-red-600 hover:text-red-900"><TrashIcon className="w-4 h-4 inline-block -mt-1"/> Supprimer</button>
+                                        {canEdit && <button onClick={() => handleEdit(trunk)} className="text-indigo-600 hover:text-indigo-900"><EditIcon className="w-4 h-4 inline-block -mt-1"/> Modifier</button>}
+                                        {canEdit && <button onClick={() => onDeleteTrunk(trunk.id)} className="text-red-600 hover:text-red-900"><TrashIcon className="w-4 h-4 inline-block -mt-1"/> Supprimer</button>}
                                     </td>
                                 </tr>
                             ))}
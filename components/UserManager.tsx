@@ -1,8 +1,9 @@
 import React, { useState, useEffect } from 'react';
 // Fix: added .ts extension to import path
-import type { Feature, User, UserRole, Campaign, UserGroup } from '../types.ts';
+import type { Feature, User, UserRole, Campaign, UserGroup, PermissionProfile, Permission } from '../types.ts';
 // Fix: added .tsx extension to import path
 import { UsersIcon, PlusIcon, EditIcon, TrashIcon } from './Icons.tsx';
+import { parseSkills } from '../services/acd.ts';
 
 const generatePassword = (): string => {
     const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
@@ -19,14 +20,16 @@ interface UserModalProps {
     users: User[];
     campaigns: Campaign[];
     userGroups: UserGroup[];
+    permissionProfiles: PermissionProfile[];
     onSave: (user: User, groupIds: string[]) => void;
     onClose: () => void;
 }
 
-const UserModal: React.FC<UserModalProps> = ({ user, users, campaigns, userGroups, onSave, onClose }) => {
+const UserModal: React.FC<UserModalProps> = ({ user, users, campaigns, userGroups, permissionProfiles, onSave, onClose }) => {
     const [formData, setFormData] = useState<User>(user);
     const [isEmailEnabled, setIsEmailEnabled] = useState(!!user.email);
     const [error, setError] = useState<string | null>(null);
+    const [skillsText, setSkillsText] = useState((user.skills || []).join(', '));
     const [activeTab, setActiveTab] = useState<'general' | 'groups' | 'campaigns'>('general');
 
     const [selectedGroupIds, setSelectedGroupIds] = useState<string[]>(() => 
@@ -80,7 +83,7 @@ const UserModal: React.FC<UserModalProps> = ({ user, users, campaigns, userGroup
             return;
         }
         
-        const dataToSave = { ...formData };
+        const dataToSave = { ...formData, skills: parseSkills(skillsText) };
         if (!isEmailEnabled) dataToSave.email = '';
 
         onSave(dataToSave, selectedGroupIds);
@@ -147,7 +150,7 @@ const UserModal: React.FC<UserModalProps> = ({ user, users, campaigns, userGroup
                                 <div>
                                     <label htmlFor="password" className="block text-sm font-medium text-slate-700">Mot de passe</label>
                                     <div className="mt-1 flex rounded-md shadow-sm">
-                                        <input type="text" name="password" id="password" value={formData.password || ''} onChange={handleChange} required className="block w-full flex-1 rounded-none rounded-l-md border-slate-300 p-2 border"/>
+                                        <input type="text" name="password" id="password" value={formData.password || ''} onChange={handleChange} required={user.id.startsWith('new-')} placeholder={user.id.startsWith('new-') ? '' : 'Laisser vide pour conserver le mot de passe actuel'} className="block w-full flex-1 rounded-none rounded-l-md border-slate-300 p-2 border"/>
                                         <button type="button" onClick={handleGeneratePassword} className="inline-flex items-center rounded-r-md border border-l-0 border-slate-300 bg-slate-50 px-3 text-sm text-slate-500 hover:bg-slate-100">Générer</button>
                                     </div>
                                 </div>
@@ -159,6 +162,27 @@ const UserModal: React.FC<UserModalProps> = ({ user, users, campaigns, userGroup
                                         <option>Administrateur</option>
                                     </select>
                                 </div>
+                                <div>
+                                    <label htmlFor="profileId" className="block text-sm font-medium text-slate-700">Profil de permissions</label>
+                                    <select id="profileId" value={formData.profileId || ''} onChange={e => setFormData(prev => ({ ...prev, profileId: e.target.value || null }))} className="mt-1 block w-full rounded-md border-slate-300 shadow-sm p-2 border bg-white">
+                                        <option value="">Permissions du rôle ({formData.role})</option>
+                                        {permissionProfiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label htmlFor="skills" className="block text-sm font-medium text-slate-700">Compétences</label>
+                                    <input type="text" id="skills" value={skillsText} onChange={e => setSkillsText(e.target.value)} placeholder="Ex: ventes, anglais" className="mt-1 block w-full rounded-md border-slate-300 shadow-sm p-2 border"/>
+                                    <p className="mt-1 text-xs text-slate-500">Séparées par des virgules. Les files d'attente entrantes ne proposent leurs appels qu'aux agents ayant les compétences requises.</p>
+                                </div>
+                                <div className="flex items-start">
+                                    <div className="flex h-5 items-center">
+                                        <input id="autoAnswer" name="autoAnswer" type="checkbox" checked={!!formData.autoAnswer} onChange={handleChange} className="h-4 w-4 rounded border-slate-300 text-indigo-600"/>
+                                    </div>
+                                    <div className="ml-3 text-sm">
+                                        <label htmlFor="autoAnswer" className="font-medium text-slate-700">Décroché automatique</label>
+                                        <p className="text-slate-500">Les appels entrants proposés à l'agent sont pris sans qu'il ait à cliquer.</p>
+                                    </div>
+                                </div>
                                 <div className="flex items-start">
                                     <div className="flex h-5 items-center">
                                         <input id="isActive" name="isActive" type="checkbox" checked={formData.isActive} onChange={handleChange} className="h-4 w-4 rounded border-slate-300 text-indigo-600"/>
@@ -206,12 +230,15 @@ interface UserManagerProps {
     users: User[];
     campaigns: Campaign[];
     userGroups: UserGroup[];
+    permissionProfiles: PermissionProfile[];
     onSaveUser: (user: User, groupIds: string[]) => void;
     onDeleteUser: (userId: string) => void;
     onGenerateUsers: (count: number) => void;
+    hasPermission: (permission: Permission) => boolean;
 }
 
-const UserManager: React.FC<UserManagerProps> = ({ feature, users, campaigns, userGroups, onSaveUser, onDeleteUser, onGenerateUsers }) => {
+const UserManager: React.FC<UserManagerProps> = ({ feature, users, campaigns, userGroups, permissionProfiles, onSaveUser, onDeleteUser, onGenerateUsers, hasPermission }) => {
+  const canEdit = hasPermission('user.edit');
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingUser, setEditingUser] = useState<User | null>(null);
 
@@ -271,7 +298,7 @@ const UserManager: React.FC<UserManagerProps> = ({ feature, users, campaigns, us
 
   return (
     <div className="max-w-5xl mx-auto space-y-8">
-      {isModalOpen && editingUser && <UserModal user={editingUser} users={users} campaigns={campaigns} userGroups={userGroups} onSave={handleSave} onClose={() => setIsModalOpen(false)} />}
+      {isModalOpen && editingUser && <UserModal user={editingUser} users={users} campaigns={campaigns} userGroups={userGroups} permissionProfiles={permissionProfiles} onSave={handleSave} onClose={() => setIsModalOpen(false)} />}
       <header>
         <h1 className="text-4xl font-bold text-slate-900 tracking-tight">{feature.title}</h1>
         <p className="mt-2 text-lg text-slate-600">{feature.description}</p>
@@ -280,14 +307,14 @@ const UserManager: React.FC<UserManagerProps> = ({ feature, users, campaigns, us
       <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200">
         <div className="flex flex-wrap gap-4 justify-between items-center mb-4">
           <h2 className="text-2xl font-semibold text-slate-800">Utilisateurs</h2>
-          <div className="flex flex-wrap gap-2">
+          {canEdit && <div className="flex flex-wrap gap-2">
             <button onClick={handleImport} className="bg-slate-200 hover:bg-slate-300 text-slate-800 font-bold py-2 px-4 rounded-lg shadow-sm transition-colors">Importer (CSV)</button>
              <button onClick={handleMassGenerateClick} className="bg-slate-200 hover:bg-slate-300 text-slate-800 font-bold py-2 px-4 rounded-lg shadow-sm transition-colors">Générer en masse</button>
             <button onClick={handleAddNew} className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg shadow-md transition-colors inline-flex items-center">
               <PlusIcon className="w-5 h-5 mr-2" />
               Ajouter un utilisateur
             </button>
-          </div>
+          </div>}
         </div>
 
         <div className="overflow-x-auto">
@@ -298,7 +325,7 @@ const UserManager: React.FC<UserManagerProps> = ({ feature, users, campaigns, us
                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Identifiant / Ext.</th>
                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Rôle</th>
                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Statut</th>
-                <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase tracking-wider">Actions</th>
+                {canEdit && <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase tracking-wider">Actions</th>}
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-slate-200">
@@ -318,18 +345,21 @@ const UserManager: React.FC<UserManagerProps> = ({ feature, users, campaigns, us
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-slate-500">{user.loginId}</td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-700">{user.role}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-700">
+                      {user.role}
+                      {user.profileId && <div className="text-xs text-indigo-600">{permissionProfiles.find(p => p.id === user.profileId)?.name}</div>}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${user.isActive ? 'bg-green-100 text-green-800' : 'bg-slate-100 text-slate-800'}`}>
                         {user.isActive ? 'Actif' : 'Inactif'}
                       </span>
                     </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-4">
+                    {canEdit && <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-4">
                       <button onClick={() => handleEdit(user)} className="text-indigo-600 hover:text-indigo-900 inline-flex items-center"><EditIcon className="w-4 h-4 mr-1"/> Modifier</button>
                       <button onClick={() => onDeleteUser(user.id)} className={`inline-flex items-center ${!canDelete ? 'text-slate-400 cursor-not-allowed' : 'text-red-600 hover:text-red-900'}`} disabled={!canDelete} title={tooltip}>
                           <TrashIcon className="w-4 h-4 mr-1"/> Supprimer
                       </button>
-                    </td>
+                    </td>}
                   </tr>
                 )
               })}
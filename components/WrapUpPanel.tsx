@@ -0,0 +1,166 @@
+import React, { useState, useMemo } from 'react';
+import type { CallbackScope, Qualification } from '../types.ts';
+import { CALLBACK_SCOPE_LABELS } from '../services/callbacks.ts';
+
+const TYPE_DOT_COLORS: { [key in Qualification['type']]: string } = {
+    positive: 'bg-green-500',
+    neutral: 'bg-slate-400',
+    negative: 'bg-red-500',
+};
+
+type TreeQualification = Qualification & { children: TreeQualification[] };
+const buildTree = (qualifications: Qualification[], parentId: string | null = null): TreeQualification[] => {
+    return qualifications
+        .filter(q => (q.parentId || null) === parentId)
+        .map(q => ({ ...q, children: buildTree(qualifications, q.id) }))
+        .sort((a,b) => parseInt(a.code) - parseInt(b.code));
+};
+
+// List the number is added to when the caller asks not to be called again.
+export type DoNotCallScope = 'campaign' | 'global';
+
+export interface WrapUpResult {
+    qualificationId: string;
+    doNotCall: DoNotCallScope | null;
+    callback: { scheduledAt: Date; scope: CallbackScope } | null;
+}
+
+// Value of a datetime-local input, in the browser's timezone.
+const toLocalInputValue = (date: Date) => {
+    const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+    return local.toISOString().slice(0, 16);
+};
+
+interface WrapUpPanelProps {
+    callerLabel: string; // name and number of the contact, or the number of an inbound caller
+    callDuration: number;
+    // Standard qualifications plus those of the campaign's qualification group.
+    qualifications: Qualification[];
+    // Inbound calls belong to no campaign: their number can only go on the global list.
+    canScopeToCampaign: boolean;
+    // Only the contacts of the campaign can be called back, not inbound callers or dialed numbers.
+    canScheduleCallback: boolean;
+    // Error message when the campaign may not call at that time, null otherwise.
+    checkCallbackTime: (scheduledAt: Date) => string | null;
+    onSubmit: (result: WrapUpResult) => void;
+}
+
+const WrapUpPanel: React.FC<WrapUpPanelProps> = ({ callerLabel, callDuration, qualifications, canScopeToCampaign, canScheduleCallback, checkCallbackTime, onSubmit }) => {
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [search, setSearch] = useState('');
+    const [doNotCall, setDoNotCall] = useState(false);
+    const [doNotCallScope, setDoNotCallScope] = useState<DoNotCallScope>(canScopeToCampaign ? 'campaign' : 'global');
+    const [hasCallback, setHasCallback] = useState(false);
+    // Tomorrow at the same time by default.
+    const [callbackAt, setCallbackAt] = useState(() => toLocalInputValue(new Date(Date.now() + 24 * 3600 * 1000)));
+    const [callbackScope, setCallbackScope] = useState<CallbackScope>('personal');
+
+    const callbackError = useMemo(() => {
+        if (!canScheduleCallback || !hasCallback || doNotCall) return null;
+        const scheduledAt = new Date(callbackAt);
+        if (isNaN(scheduledAt.getTime())) return 'Date de rappel invalide.';
+        if (scheduledAt.getTime() <= Date.now()) return 'Le rappel doit être planifié dans le futur.';
+        return checkCallbackTime(scheduledAt);
+    }, [canScheduleCallback, hasCallback, doNotCall, callbackAt, checkCallbackTime]);
+
+    const tree = useMemo(() => {
+        const term = search.trim().toLowerCase();
+        if (!term) return buildTree(qualifications);
+        // Keep matching qualifications and their parents so the tree stays readable.
+        const keptIds = new Set<string>();
+        qualifications
+            .filter(q => q.description.toLowerCase().includes(term) || q.code.includes(term))
+            .forEach(q => {
+                let current: Qualification | undefined = q;
+                while (current) {
+                    keptIds.add(current.id);
+                    current = qualifications.find(p => p.id === current!.parentId);
+                }
+            });
+        return buildTree(qualifications.filter(q => keptIds.has(q.id)));
+    }, [qualifications, search]);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!selectedId || callbackError) return;
+        onSubmit({
+            qualificationId: selectedId,
+            doNotCall: doNotCall ? doNotCallScope : null,
+            callback: canScheduleCallback && hasCallback && !doNotCall ? { scheduledAt: new Date(callbackAt), scope: callbackScope } : null,
+        });
+    };
+
+    const renderNodes = (nodes: TreeQualification[], level = 0): React.ReactNode => nodes.map(node => (
+        <div key={node.id} style={{ marginLeft: `${level * 1.25}rem` }}>
+            {node.children.length > 0 ? (
+                // Parent qualifications only group their children and cannot be chosen themselves.
+                <p className="flex items-center p-2 text-sm font-semibold text-slate-600">
+                    <span className="font-mono text-xs bg-slate-200 text-slate-600 rounded px-1.5 py-0.5 mr-2">{node.code}</span>
+                    {node.description}
+                </p>
+            ) : (
+                <label className={`flex items-center p-2 border rounded-md text-sm cursor-pointer ${selectedId === node.id ? 'bg-indigo-50 border-indigo-400' : 'bg-white hover:bg-slate-50'}`}>
+                    <input type="radio" name="qualification" value={node.id} checked={selectedId === node.id} onChange={() => setSelectedId(node.id)} className="mr-3" />
+                    <span className="font-mono text-xs bg-slate-200 text-slate-600 rounded px-1.5 py-0.5 mr-2">{node.code}</span>
+                    <span className={`inline-block w-2.5 h-2.5 rounded-full mr-2 flex-shrink-0 ${TYPE_DOT_COLORS[node.type]}`}></span>
+                    <span className="font-medium text-slate-800">{node.description}</span>
+                </label>
+            )}
+            {node.children.length > 0 && <div className="space-y-2">{renderNodes(node.children, level + 1)}</div>}
+        </div>
+    ));
+
+    return (
+        <form onSubmit={handleSubmit} className="h-full flex flex-col">
+            <div className="p-4 border-b">
+                <h2 className="text-xl font-semibold text-slate-800">Qualification de l'appel</h2>
+                <p className="text-sm text-slate-500">
+                    {callerLabel} · Durée : {Math.floor(callDuration / 60)}m {callDuration % 60}s
+                </p>
+                <input type="search" value={search} onChange={e => setSearch(e.target.value)} placeholder="Rechercher une qualification..." className="mt-3 w-full p-2 border border-slate-300 rounded-md text-sm" />
+            </div>
+            <div className="flex-1 overflow-y-auto p-4 space-y-2">
+                {tree.length > 0 ? renderNodes(tree) : <p className="text-center text-sm text-slate-500 italic py-4">Aucune qualification.</p>}
+            </div>
+            {canScheduleCallback && !doNotCall && (
+                <div className="px-4 py-3 border-t text-sm text-slate-700 space-y-2">
+                    <div className="flex flex-wrap items-center gap-3">
+                        <label className="flex items-center">
+                            <input type="checkbox" checked={hasCallback} onChange={e => setHasCallback(e.target.checked)} className="h-4 w-4 rounded border-slate-300 text-indigo-600 mr-2" />
+                            Planifier un rappel
+                        </label>
+                        {hasCallback && (
+                            <>
+                                <input type="datetime-local" value={callbackAt} onChange={e => setCallbackAt(e.target.value)} className="p-1 border border-slate-300 rounded-md text-sm" />
+                                <select value={callbackScope} onChange={e => setCallbackScope(e.target.value as CallbackScope)} className="p-1 border bg-white border-slate-300 rounded-md text-sm">
+                                    <option value="personal">{CALLBACK_SCOPE_LABELS.personal} (moi uniquement)</option>
+                                    <option value="campaign">{CALLBACK_SCOPE_LABELS.campaign} (tout agent)</option>
+                                </select>
+                            </>
+                        )}
+                    </div>
+                    {callbackError && <p className="text-red-600">{callbackError}</p>}
+                </div>
+            )}
+            <div className="bg-slate-50 px-4 py-3 flex justify-between items-center border-t">
+                <div className="flex items-center space-x-3 text-sm text-slate-700">
+                    <label className="flex items-center">
+                        <input type="checkbox" checked={doNotCall} onChange={e => setDoNotCall(e.target.checked)} className="h-4 w-4 rounded border-slate-300 text-indigo-600 mr-2" />
+                        Ne plus appeler ce numéro
+                    </label>
+                    {doNotCall && (
+                        <select value={doNotCallScope} onChange={e => setDoNotCallScope(e.target.value as DoNotCallScope)} className="p-1 border bg-white border-slate-300 rounded-md text-sm">
+                            {canScopeToCampaign && <option value="campaign">Pour cette campagne</option>}
+                            <option value="global">Pour toutes les campagnes</option>
+                        </select>
+                    )}
+                </div>
+                <button type="submit" disabled={!selectedId || !!callbackError} className="rounded-md bg-indigo-600 px-4 py-2 font-medium text-white shadow-sm hover:bg-indigo-700 disabled:bg-slate-300 disabled:cursor-not-allowed">
+                    Valider et terminer
+                </button>
+            </div>
+        </form>
+    );
+};
+
+export default WrapUpPanel;
@@ -1,13 +1,17 @@
 // data/features.ts
 import type { Feature } from '../types.ts';
 import UserManager from '../components/UserManager.tsx';
+import PermissionsManager from '../components/PermissionsManager.tsx';
 import GroupManager from '../components/GroupManager.tsx';
 import TrunkManager from '../components/TrunkManager.tsx';
 import DidManager from '../components/DidManager.tsx';
 import OutboundCampaignsManager from '../components/OutboundCampaignsManager.tsx';
+import DncManager from '../components/DncManager.tsx';
+import CallbackManager from '../components/CallbackManager.tsx';
 import QualificationsManager from '../components/QualificationsManager.tsx';
 import ScriptFeature from '../components/ScriptFeature.tsx';
 import IvrFeature from '../components/IvrFeature.tsx';
+import AcdQueueManager from '../components/AcdQueueManager.tsx';
 import AudioManager from '../components/AudioManager.tsx';
 import RecordsManager from '../components/RecordsManager.tsx';
 import SupervisionDashboard from '../components/SupervisionDashboard.tsx';
@@ -18,6 +22,7 @@ import HistoryViewer from '../components/HistoryViewer.tsx';
 import SessionViewer from '../components/SessionViewer.tsx';
 import HelpCenter from '../components/HelpCenter.tsx';
 import PlanningManager from '../components/PlanningManager.tsx';
+import AuditLogViewer from '../components/AuditLogViewer.tsx';
 
 export const features: Feature[] = [
     {
@@ -26,6 +31,7 @@ export const features: Feature[] = [
         category: 'Agent',
         description: 'Gérez les comptes utilisateurs, leurs rôles et leurs permissions.',
         component: UserManager,
+        permission: 'user.view',
         userJourney: {
             title: 'Parcours Utilisateur: Ajout d\'un agent',
             steps: [
@@ -42,8 +48,10 @@ export const features: Feature[] = [
                 "Chaque utilisateur doit avoir un identifiant unique (4-6 chiffres).",
                 "Trois rôles disponibles: Agent, Superviseur, Administrateur.",
                 "Les administrateurs peuvent tout voir et tout modifier.",
-                "Les superviseurs peuvent voir les dashboards et coacher les agents.",
-                "Les agents n'ont accès qu'à leur interface d'appel."
+                "Les superviseurs peuvent voir les dashboards et coacher les agents, mais pas modifier les paramètres téléphoniques.",
+                "Les agents n'ont accès qu'à leur interface d'appel.",
+                "Un profil de permissions personnalisé peut remplacer les droits par défaut du rôle.",
+                "Les compétences d'un agent déterminent les files d'attente entrantes dont il reçoit les appels."
             ],
         },
         simplificationTip: {
@@ -51,12 +59,44 @@ export const features: Feature[] = [
             content: "Pour une démo rapide, utilisez la fonction 'Générer en masse' pour créer 10 agents de test en un clic, leur assignant automatiquement des identifiants et mots de passe."
         }
     },
+    {
+        id: 'permissions',
+        title: 'Profils & Permissions',
+        category: 'Agent',
+        description: 'Définissez ce que chaque rôle ou profil personnalisé peut voir et modifier.',
+        component: PermissionsManager,
+        permission: 'user.view',
+        userJourney: {
+            title: 'Parcours Utilisateur: Création d\'un profil restreint',
+            steps: [
+                "L'administrateur ouvre la matrice des permissions et consulte les droits par défaut de chaque rôle.",
+                "Il crée un profil 'Contrôle Qualité' en partant des droits d'un Superviseur.",
+                "Il décoche les permissions de modification et ne garde que la consultation et l'écoute.",
+                "Dans la fiche utilisateur, il assigne ce profil aux contrôleurs concernés.",
+                "À leur prochaine connexion, seules les fonctionnalités autorisées apparaissent dans le menu."
+            ],
+        },
+        specs: {
+            title: 'Spécifications Techniques',
+            points: [
+                "Chaque permission est une capacité nommée '<domaine>.<action>' (ex: campaign.edit, trunk.view, supervision.barge).",
+                "Les rôles ont des permissions par défaut, non modifiables; un profil personnalisé les remplace entièrement.",
+                "Le menu, chaque écran et l'API appliquent les mêmes permissions: l'API renvoie 403 pour toute action non autorisée.",
+                "Les permissions d'un utilisateur sont calculées à la connexion."
+            ],
+        },
+        simplificationTip: {
+            title: 'Conseil de Simplification',
+            content: "Partez toujours des droits d'un rôle existant et retirez ce qui n'est pas nécessaire, plutôt que de cocher chaque permission une à une."
+        }
+    },
     {
         id: 'groups',
         title: 'Groupes',
         category: 'Agent',
         description: 'Créez des groupes d\'agents pour une gestion et un routage simplifiés.',
         component: GroupManager,
+        permission: 'group.view',
          userJourney: {
             title: 'Parcours Utilisateur: Création d\'un groupe "Experts"',
             steps: [
@@ -86,6 +126,7 @@ export const features: Feature[] = [
         category: 'Agent',
         description: 'Créez et gérez les plannings hebdomadaires des agents et leurs activités.',
         component: PlanningManager,
+        permission: 'planning.view',
          userJourney: {
             title: 'Parcours Utilisateur: Planifier une session de formation',
             steps: [
@@ -117,6 +158,7 @@ export const features: Feature[] = [
         category: 'Outbound',
         description: 'Créez et gérez des campagnes d\'appels sortants avec des stratégies de numérotation avancées.',
         component: OutboundCampaignsManager,
+        permission: 'campaign.view',
         userJourney: {
             title: "Parcours Utilisateur: Lancement d'une campagne de prospection",
             steps: [
@@ -132,9 +174,11 @@ export const features: Feature[] = [
             title: 'Spécifications Techniques',
             points: [
                 "Modes de numérotation: Prédictif, Progressif, Manuel.",
+                "Modes manuel et progressif : l'agent recherche un contact (nom, téléphone, code postal) ou compose un numéro libre, contrôlé contre les listes d'exclusion et les horaires d'appel.",
+                "Mode progressif avec prévisualisation : l'agent consulte la fiche et l'historique du prochain contact, appelé à la fin d'un compte à rebours configurable qu'il peut suspendre ; il peut aussi passer ou rejeter le contact avec un motif, conservé dans l'historique.",
                 "Gestion fine des rappels automatiques basée sur les qualifications d'appel.",
                 "Configuration du numéro présenté (Caller ID).",
-                "Détection de répondeur (AMD) configurable."
+                "Détection de répondeur (AMD) avec seuil de confiance : les répondeurs ne sont pas passés aux agents, le dialer raccroche ou dépose un message audio après le bip, puis qualifie le contact « Répondeur » (std-93)."
             ],
         },
         simplificationTip: {
@@ -142,12 +186,74 @@ export const features: Feature[] = [
             content: "Pour démarrer, utilisez le mode 'Progressif'. Il est plus simple que le prédictif et garantit qu'un agent est toujours disponible pour chaque appel connecté, évitant les appels abandonnés."
         }
     },
+    {
+        id: 'dnc',
+        title: 'Listes d\'exclusion (DNC)',
+        category: 'Outbound',
+        description: 'Gérez les numéros à ne jamais appeler, pour toutes les campagnes ou pour une seule.',
+        component: DncManager,
+        permission: 'dnc.view',
+        userJourney: {
+            title: "Parcours Utilisateur: Respect d'une demande d'opposition",
+            steps: [
+                "Un contact demande à ne plus être appelé : l'agent coche 'Ne plus appeler ce numéro' lors de la qualification.",
+                "Le numéro est ajouté à la liste de la campagne, ou à la liste globale.",
+                "Le superviseur importe chaque mois la liste d'opposition officielle dans la liste globale.",
+                "À l'import d'un fichier de contacts, les numéros exclus sont écartés et comptés par motif.",
+                "Le rapport indique, pour chaque campagne, les contacts restants exclus et la liste qui les exclut."
+            ],
+        },
+        specs: {
+            title: 'Spécifications Techniques',
+            points: [
+                "Liste globale (toutes campagnes) et listes par campagne ; la liste globale prime.",
+                "Import CSV/Excel avec normalisation des numéros et dédoublonnage.",
+                "Filtrage à l'import des contacts et à la numérotation (dialer et appel suivant de l'agent).",
+                "Chaque ajout et retrait est tracé dans le journal d'audit."
+            ],
+        },
+        simplificationTip: {
+            title: 'Conseil de Simplification',
+            content: "Mettez les oppositions dans la liste globale : un contact qui ne veut plus être appelé ne veut généralement plus l'être pour aucune campagne."
+        }
+    },
+    {
+        id: 'callbacks',
+        title: 'Rappels',
+        category: 'Outbound',
+        description: 'Suivez les rappels planifiés par les agents, replanifiez-les ou confiez-les à un autre agent.',
+        component: CallbackManager,
+        permission: 'campaign.view',
+        userJourney: {
+            title: "Parcours Utilisateur: Rappel d'un prospect intéressé",
+            steps: [
+                "Le prospect demande à être rappelé : l'agent coche 'Planifier un rappel' lors de la qualification.",
+                "Il choisit la date et l'heure, et un rappel personnel (lui seul) ou de campagne (tout agent).",
+                "À l'heure prévue, le rappel est servi avant les contacts en attente ; il figure aussi dans la liste des rappels de l'agent.",
+                "Le superviseur suit les rappels échus et réattribue ceux d'un agent absent."
+            ],
+        },
+        specs: {
+            title: 'Spécifications Techniques',
+            points: [
+                "Le rappel doit tomber dans les jours et heures d'appel de la campagne.",
+                "Les rappels échus passent avant les contacts en attente, dans l'ordre de leur échéance, sans règle de filtre ni quota.",
+                "Un rappel personnel n'est servi qu'à son agent, par le dialer comme par l'appel suivant.",
+                "Annuler un rappel remet le contact dans la file d'appels de la campagne."
+            ],
+        },
+        simplificationTip: {
+            title: 'Conseil de Simplification',
+            content: "Consultez chaque matin le filtre 'Rappels échus' et confiez à la campagne les rappels personnels des agents absents."
+        }
+    },
     {
         id: 'scripts',
         title: 'Scripts d\'agent',
         category: 'Outbound',
         description: 'Construisez des guides d\'appel interactifs pour vos agents avec un éditeur visuel.',
         component: ScriptFeature,
+        permission: 'script.view',
         userJourney: {
             title: "Parcours Utilisateur: Création d'un script de vente",
             steps: [
@@ -178,6 +284,7 @@ export const features: Feature[] = [
         category: 'Inbound',
         description: 'Concevez des flux d\'appels entrants complexes avec un designer graphique.',
         component: IvrFeature,
+        permission: 'ivr.view',
         userJourney: {
             title: "Parcours Utilisateur: Création d'un SVI de bienvenue",
             steps: [
@@ -193,8 +300,9 @@ export const features: Feature[] = [
             title: 'Spécifications Techniques',
             points: [
                 "Éditeur visuel nodal (connexions entre blocs).",
-                "Noeuds disponibles: Média, Menu, Transfert, Messagerie, Raccrocher, Calendrier.",
-                "Le noeud 'Calendrier' permet de router les appels différemment selon les horaires d'ouverture."
+                "Noeuds disponibles: Média, Menu, Transfert, File d'attente, Messagerie, Raccrocher, Calendrier.",
+                "Le noeud 'Calendrier' permet de router les appels différemment selon les horaires d'ouverture.",
+                "Le noeud 'File d'attente' confie l'appel à l'ACD ; sa sortie 'Débordement' est suivie quand la file déborde."
             ],
         },
         simplificationTip: {
@@ -202,12 +310,48 @@ export const features: Feature[] = [
             content: "Votre premier SVI peut être très simple: un noeud 'Média' (message d'accueil) directement connecté à un noeud 'Transfert' vers votre groupe principal d'agents. Cela professionnalise déjà l'accueil de vos appelants."
         }
     },
+    {
+        id: 'queues',
+        title: 'Files d\'attente (ACD)',
+        category: 'Inbound',
+        description: 'Distribuez les appels entrants aux agents selon leurs compétences, avec priorités, musique d\'attente et débordement.',
+        component: AcdQueueManager,
+        permission: 'queue.view',
+        userJourney: {
+            title: "Parcours Utilisateur: Création d'une file Ventes",
+            steps: [
+                "L'administrateur renseigne la compétence 'ventes' sur la fiche des agents commerciaux.",
+                "Il crée la file 'Ventes' qui requiert cette compétence, choisit une musique d'attente et l'annonce de la position toutes les 30 secondes.",
+                "Il fixe une attente maximale de 3 minutes, au-delà de laquelle l'appel déborde vers la file 'Accueil général'.",
+                "Dans le SVI, il relie l'option '1' du menu à un noeud 'File d'attente' sur la file 'Ventes', et sa sortie 'Débordement' à une messagerie.",
+                "Les appels sont proposés aux agents disponibles dans leur interface ; un 'Appel test' permet de le vérifier."
+            ],
+        },
+        specs: {
+            title: 'Spécifications Techniques',
+            points: [
+                "L'ACD tourne sur le serveur API : le SVI (serveur AGI) y place les appels via POST /api/acd/calls et suit leur état en attendant.",
+                "Un appel est proposé à un seul agent 'En Attente' ayant toutes les compétences de la file, le plus longtemps inactif en premier.",
+                "Les appels des files de priorité plus élevée sont servis d'abord, puis par ordre d'arrivée.",
+                "L'agent voit le numéro de l'appelant, la SDA appelée et le parcours SVI ; il accepte ou refuse l'appel, ou le prend d'office s'il est en décroché automatique.",
+                "Un appel refusé ou non décroché sous 20 secondes revient dans la file et n'est plus proposé à cet agent.",
+                "À la prise d'appel, le script de la file (ou à défaut celui de la SDA) s'ouvre et ses réponses sont enregistrées avec l'appel.",
+                "Règles de débordement : attente maximale, nombre d'appels en attente, aucun agent compétent connecté ; vers une autre file ou la sortie du noeud SVI.",
+                "Le serveur AGI s'authentifie avec le jeton TELEPHONY_API_TOKEN, partagé avec le serveur API."
+            ],
+        },
+        simplificationTip: {
+            title: 'Conseil de Simplification',
+            content: "Commencez par une seule file sans compétence requise : tous les agents connectés reçoivent les appels. Ajoutez des compétences lorsque vous aurez plusieurs équipes spécialisées."
+        }
+    },
     {
         id: 'audio',
         title: 'Bibliothèque Média',
         category: 'Sound',
         description: 'Importez et gérez les messages vocaux pour vos SVI et musiques d\'attente.',
         component: AudioManager,
+        permission: 'audio.view',
         userJourney: {
             title: 'Parcours: Mettre à jour le message d\'accueil',
             steps: [
@@ -238,12 +382,13 @@ export const features: Feature[] = [
         category: 'Sound',
         description: 'Écoutez, téléchargez et archivez les enregistrements d\'appels pour la qualité et la conformité.',
         component: RecordsManager,
+        permission: 'records.view',
          userJourney: {
             title: 'Parcours: Revoir un appel pour le coaching',
             steps: [
                 "Un superviseur veut écouter l'appel d'un agent qui a eu des difficultés.",
                 "Il va dans 'Enregistrements' et filtre par le nom de l'agent et la date d'hier.",
-                "Il trouve l'appel concerné dans la liste et clique sur l'icône 'Play'.",
+                "Il trouve l'appel concerné dans la liste et clique sur 'Écouter'.",
                 "L'enregistrement est lu directement dans le navigateur.",
                 "Il peut ensuite télécharger le fichier pour l'archiver ou le partager."
             ],
@@ -251,10 +396,13 @@ export const features: Feature[] = [
         specs: {
             title: 'Spécifications',
             points: [
-                "Recherche par date, agent, campagne, numéro de téléphone.",
-                "Lecteur audio intégré.",
-                "Téléchargement des enregistrements au format MP3.",
-                "Archivage automatique après une période configurable."
+                "Recherche par date, agent, campagne, SDA, identifiant d'appel ou numéro de téléphone.",
+                "Lecteur audio intégré, aussi accessible depuis l'historique des appels.",
+                "Enregistrement des appels des campagnes où il est activé, indexé par l'API à la fin de l'appel.",
+                "Téléchargement des enregistrements au format WAV.",
+                "Suppression réservée à la permission 'Supprimer les enregistrements' et tracée dans le journal d'audit.",
+                "Durées de conservation par campagne ou par qualification (ex: ventes 2 ans, le reste 90 jours).",
+                "Purge quotidienne des enregistrements expirés (fichiers et index), tracée dans les journaux système."
             ],
         },
         simplificationTip: {
@@ -268,6 +416,7 @@ export const features: Feature[] = [
         category: 'Configuration',
         description: 'Définissez les statuts de fin d\'appel pour le reporting et les stratégies de rappel.',
         component: QualificationsManager,
+        permission: 'qualification.view',
         userJourney: {
             title: "Parcours Utilisateur: Création d'un groupe de qualifications",
             steps: [
@@ -298,6 +447,7 @@ export const features: Feature[] = [
         category: 'Supervision & Reporting',
         description: 'Visualisez l\'activité de votre centre de contact en direct et interagissez avec les agents.',
         component: SupervisionDashboard,
+        permission: 'supervision.view',
         userJourney: {
             title: "Parcours Utilisateur: Coaching d'un agent en difficulté",
             steps: [
@@ -311,9 +461,11 @@ export const features: Feature[] = [
         specs: {
             title: 'Spécifications Techniques',
             points: [
-                "Mise à jour des données toutes les 2 secondes via WebSocket (simulé).",
+                "Mise à jour en temps réel via le flux WebSocket de l'API (états des agents, appels, campagnes).",
                 "KPIs principaux: Agents par statut, appels en attente, temps d'attente max.",
-                "Actions de supervision: Écoute, Coaching (chuchoter), Intervention (barge).",
+                "Actions de supervision: Écoute, Coaching (chuchoter), Intervention (barge) via ChanSpy, pause et déconnexion forcées de l'agent.",
+                "Chaque intervention est tracée (superviseur, agent, appel, horodatage) dans l'onglet 'Interventions'.",
+                "Démarrage, pause et arrêt des campagnes: le numéroteur ne lance plus d'appel, les agents terminent leurs appels en cours.",
                 "Vue détaillée par agent, par appel et par campagne."
             ],
         },
@@ -328,6 +480,7 @@ export const features: Feature[] = [
         category: 'Supervision & Reporting',
         description: 'Explorez les données historiques, créez des rapports personnalisés et exportez les résultats.',
         component: ReportingDashboard,
+        permission: 'reporting.view',
         userJourney: {
             title: "Parcours Utilisateur: Génération d'un rapport de performance hebdomadaire",
             steps: [
@@ -358,6 +511,7 @@ export const features: Feature[] = [
         category: 'Supervision & Reporting',
         description: 'Consultez, filtrez et recherchez dans le journal détaillé de tous les appels entrants et sortants.',
         component: HistoryViewer,
+        permission: 'history.view',
         userJourney: {
             title: "Parcours Utilisateur: Recherche d'un appel spécifique",
             steps: [
@@ -375,6 +529,7 @@ export const features: Feature[] = [
                 "Affichage de l'historique complet des communications (appels entrants/sortants).",
                 "Filtres multiples : par direction, par plage de dates/heures.",
                 "Champ de recherche unifié : recherche par numéro, nom d'agent, ou nom de campagne.",
+                "Journal des contacts passés ou rejetés en prévisualisation, avec leur motif.",
                 "Pagination pour gérer de grands volumes de données (à venir).",
                 "Lien vers l'enregistrement de l'appel (à venir)."
             ],
@@ -390,6 +545,7 @@ export const features: Feature[] = [
         category: 'Supervision & Reporting',
         description: 'Consultez le journal détaillé des connexions, déconnexions et temps de travail des agents.',
         component: SessionViewer,
+        permission: 'sessions.view',
         userJourney: {
             title: "Parcours Utilisateur: Vérification des heures d'un agent",
             steps: [
@@ -420,6 +576,7 @@ export const features: Feature[] = [
         category: 'Paramètres',
         description: 'Connectez vos opérateurs téléphoniques pour les appels entrants et sortants.',
         component: TrunkManager,
+        permission: 'trunk.view',
         userJourney: {
             title: 'Parcours Utilisateur: Configuration d\'un nouvel opérateur',
             steps: [
@@ -449,6 +606,7 @@ export const features: Feature[] = [
         category: 'Paramètres',
         description: 'Gérez vos numéros de téléphone entrants et leur routage initial.',
         component: DidManager,
+        permission: 'did.view',
          userJourney: {
             title: 'Parcours Utilisateur: Routage d\'un numéro de support',
             steps: [
@@ -464,6 +622,7 @@ export const features: Feature[] = [
             points: [
                 "Chaque numéro doit être unique.",
                 "Un numéro est associé à un seul Trunk SIP.",
+                "Un script peut être associé au numéro : il s'affiche aux agents qui décrochent ses appels entrants.",
                 "La destination peut être un SVI ou directement une campagne/groupe (fonctionnalité future)."
             ],
         },
@@ -478,6 +637,7 @@ export const features: Feature[] = [
         category: 'Paramètres',
         description: 'Effectuez des sauvegardes de la configuration et gérez la maintenance du système.',
         component: MaintenanceManager,
+        permission: 'maintenance.view',
         userJourney: {
             title: 'Parcours: Planifier des sauvegardes automatiques',
             steps: [
@@ -508,6 +668,7 @@ export const features: Feature[] = [
         category: 'Système',
         description: 'Surveillez l\'état de santé des services et les ressources système.',
         component: MonitoringDashboard,
+        permission: 'monitoring.view',
         userJourney: {
             title: 'Parcours: Diagnostiquer un ralentissement',
             steps: [
@@ -532,6 +693,37 @@ export const features: Feature[] = [
             content: "L'indicateur global de santé est le point de départ. S'il n'est pas vert, les autres panneaux vous aideront à trouver la cause. S'il est vert, le problème vient probablement d'ailleurs que l'infrastructure de base."
         }
     },
+    {
+        id: 'audit',
+        title: 'Journal d\'audit',
+        category: 'Système',
+        description: 'Retrouvez qui a modifié la configuration, quand, et ce qui a changé.',
+        component: AuditLogViewer,
+        permission: 'audit.view',
+        userJourney: {
+            title: 'Parcours: Expliquer une modification inattendue',
+            steps: [
+                "Un superviseur constate que le trunk principal ne fonctionne plus depuis ce matin.",
+                "L'administrateur ouvre le 'Journal d'audit' et filtre sur le type 'Trunk SIP'.",
+                "Il voit qu'un utilisateur a modifié le trunk à 9h12 et déplie l'entrée.",
+                "Le détail montre l'ancien et le nouveau domaine SIP: une faute de frappe a été introduite.",
+                "Il corrige le domaine et exporte l'entrée en CSV pour le rapport d'incident."
+            ],
+        },
+        specs: {
+            title: 'Spécifications',
+            points: [
+                "Chaque création, modification ou suppression d'utilisateur, profil, campagne, trunk, SDA, script, SVI ou qualification est enregistrée par le serveur.",
+                "Chaque entrée indique l'auteur, la date, l'élément concerné et les champs modifiés avec leur valeur avant et après.",
+                "Les mots de passe ne sont jamais journalisés: seul le fait qu'ils aient changé apparaît.",
+                "Recherche par auteur, élément ou champ, filtres par type, action et période, export CSV."
+            ],
+        },
+        simplificationTip: {
+            title: 'Astuce',
+            content: "Le journal est écrit par le serveur et ne peut pas être modifié depuis l'interface: il fait foi en cas de litige sur une modification de configuration."
+        }
+    },
     {
         id: 'help',
         title: 'Aide & Documentation',
@@ -1,22 +1,29 @@
 import type {
     User,
+    PermissionProfile,
     UserGroup,
     SavedScript,
     Page,
     IvrFlow,
     IvrNode,
-    Campaign,
-    Contact,
+    AcdQueue,
+    CampaignSettings,
+    CampaignContact,
+    DncEntry,
+    PublicHoliday,
     Qualification,
     QualificationGroup,
     Trunk,
     Did,
     BackupLog,
     BackupSchedule,
+    RecordingRetentionPolicy,
     SystemLog,
     VersionInfo,
     ConnectivityService,
     CallHistoryRecord,
+    CallData,
+    PreviewDecisionRecord,
     AgentSession,
     AudioFile,
     ActivityType,
@@ -32,8 +39,7 @@ const users: User[] = [
         email: 'admin.principal@example.com',
         role: 'Administrateur',
         isActive: true,
-        campaignIds: [],
-        password: '9000'
+        campaignIds: []
     },
     {
         id: 'user-supervisor',
@@ -43,8 +49,7 @@ const users: User[] = [
         email: 'serge.superviseur@example.com',
         role: 'Superviseur',
         isActive: true,
-        campaignIds: [],
-        password: '1000'
+        campaignIds: []
     },
     {
         id: 'user-agent-1',
@@ -55,7 +60,7 @@ const users: User[] = [
         role: 'Agent',
         isActive: true,
         campaignIds: ['campaign-1'],
-        password: '1001'
+        skills: ['ventes']
     },
     {
         id: 'user-agent-2',
@@ -66,7 +71,7 @@ const users: User[] = [
         role: 'Agent',
         isActive: true,
         campaignIds: ['campaign-1', 'campaign-2'],
-        password: 'password123'
+        skills: ['ventes', 'support']
     },
      {
         id: 'user-agent-3',
@@ -77,7 +82,15 @@ const users: User[] = [
         role: 'Agent',
         isActive: false,
         campaignIds: ['campaign-2'],
-        password: 'password123'
+        skills: ['support']
+    }
+];
+
+const permissionProfiles: PermissionProfile[] = [
+    {
+        id: 'profile-quality',
+        name: 'Contrôle Qualité',
+        permissions: ['campaign.view', 'script.view', 'qualification.view', 'records.view', 'supervision.view', 'reporting.view', 'history.view']
     }
 ];
 
@@ -99,8 +112,8 @@ const firstPage: Page = {
     name: "Page 1",
     blocks: [
         { id: 'block-1', name: 'Titre Accueil', type: 'label', x: 50, y: 30, width: 400, height: 50, content: { text: 'Bienvenue - Script de Vente' }, displayCondition: null, parentId: null, fontSize: 24, textAlign: 'center' },
-        { id: 'block-2', name: 'Pitch', type: 'text', x: 50, y: 100, width: 400, height: 100, content: { text: 'Bonjour [Nom Contact], je suis [Nom Agent] de [Société].\nComment allez-vous aujourd\'hui ?' }, displayCondition: null, parentId: null },
-        { id: 'block-3', name: 'Nom Contact', type: 'input', x: 50, y: 220, width: 300, height: 70, content: { label: 'Nom du contact', placeholder: 'Saisir le nom ici' }, displayCondition: null, parentId: null },
+        { id: 'block-2', name: 'Pitch', type: 'text', x: 50, y: 100, width: 400, height: 100, content: { text: 'Bonjour {{contact.firstName}} {{contact.lastName}}, je suis [Nom Agent] de [Société].\nComment allez-vous aujourd\'hui ?' }, displayCondition: null, parentId: null },
+        { id: 'block-3', name: 'Nom Contact', type: 'input', x: 50, y: 220, width: 300, height: 70, content: { label: 'Nom du contact', placeholder: 'Saisir le nom ici', sourceField: 'contact.lastName' }, displayCondition: null, parentId: null },
     ]
 };
 
@@ -110,14 +123,16 @@ const savedScripts: SavedScript[] = [
         name: 'Script Vente Trimestre 4',
         pages: [firstPage],
         startPageId: firstPage.id,
-        backgroundColor: '#f1f5f9'
+        backgroundColor: '#f1f5f9',
+        version: 1
     },
     {
         id: 'script-2',
         name: 'Script Support Technique',
         pages: [firstPage],
         startPageId: firstPage.id,
-        backgroundColor: '#f0fdf4'
+        backgroundColor: '#f0fdf4',
+        version: 1
     }
 ];
 
@@ -131,13 +146,16 @@ const savedIvrFlows: IvrFlow[] = [
     }
 ];
 
-const contacts: Contact[] = [
-    { id: 'contact-1', firstName: 'John', lastName: 'Doe', phoneNumber: '0611223344', postalCode: '75001', status: 'pending' },
-    { id: 'contact-2', firstName: 'Jane', lastName: 'Smith', phoneNumber: '0655667788', postalCode: '13001', status: 'pending' },
-    { id: 'contact-3', firstName: 'Peter', lastName: 'Jones', phoneNumber: '0699887766', postalCode: '69001', status: 'called' },
+const contacts: CampaignContact[] = [
+    { id: 'contact-1', campaignId: 'campaign-1', firstName: 'John', lastName: 'Doe', phoneNumber: '0611223344', postalCode: '75001', status: 'pending' },
+    { id: 'contact-2', campaignId: 'campaign-1', firstName: 'Jane', lastName: 'Smith', phoneNumber: '0655667788', postalCode: '13001', status: 'pending' },
+    {
+        id: 'contact-3', campaignId: 'campaign-1', firstName: 'Peter', lastName: 'Jones', phoneNumber: '0699887766', postalCode: '69001', status: 'called',
+        callback: { scheduledAt: '2026-03-02T14:30:00.000Z', scope: 'personal', agentId: 'user-agent-1', createdAt: '2026-02-27T10:12:00.000Z' },
+    },
 ];
 
-const campaigns: Campaign[] = [
+const campaigns: CampaignSettings[] = [
     {
         id: 'campaign-1',
         name: 'Ventes Trimestre 4',
@@ -147,8 +165,9 @@ const campaigns: Campaign[] = [
         isActive: true,
         assignedUserIds: ['user-agent-1', 'user-agent-2'],
         qualificationGroupId: 'qg-1',
-        contacts: contacts,
         dialingMode: 'PROGRESSIVE',
+        previewEnabled: false,
+        previewCountdown: 30,
         priority: 5,
         timezone: 'Europe/Paris',
         callingDays: [1, 2, 3, 4, 5],
@@ -159,10 +178,11 @@ const campaigns: Campaign[] = [
         minAgentsBeforeStart: 1,
         retryAttempts: 3,
         retryIntervals: [30, 60, 120],
-        retryOnStatus: ['qual-neg-2'],
+        retryOnStatus: ['std-90', 'std-92', 'qual-neg-2'],
         amdEnabled: true,
         amdConfidence: 80,
-        voicemailAction: 'HANGUP',
+        voicemailAction: 'LEAVE_MESSAGE',
+        voicemailAudioFileId: 'audio-4',
         recordingEnabled: true,
         recordingBeep: true,
         maxRingDuration: 25,
@@ -183,7 +203,6 @@ const campaigns: Campaign[] = [
         isActive: false,
         assignedUserIds: ['user-agent-3'],
         qualificationGroupId: 'qg-2',
-        contacts: [],
         dialingMode: 'MANUAL',
         priority: 8,
         timezone: 'Europe/Paris',
@@ -208,6 +227,25 @@ const campaigns: Campaign[] = [
     }
 ];
 
+const dncEntries: DncEntry[] = [
+    { id: 'dnc-1', phoneNumber: '0140000000', campaignId: null, agentId: null, source: 'manual', addedAt: '2026-01-05T10:00:00.000Z' },
+    { id: 'dnc-2', phoneNumber: '0655667788', campaignId: 'campaign-1', agentId: 'user-agent-1', source: 'agent', addedAt: '2026-02-12T15:32:00.000Z' },
+];
+
+const publicHolidays: PublicHoliday[] = [
+    { id: 'hol-1', date: '2026-01-01', name: 'Jour de l\'an' },
+    { id: 'hol-2', date: '2026-04-06', name: 'Lundi de Pâques' },
+    { id: 'hol-3', date: '2026-05-01', name: 'Fête du Travail' },
+    { id: 'hol-4', date: '2026-05-08', name: 'Victoire 1945' },
+    { id: 'hol-5', date: '2026-05-14', name: 'Ascension' },
+    { id: 'hol-6', date: '2026-05-25', name: 'Lundi de Pentecôte' },
+    { id: 'hol-7', date: '2026-07-14', name: 'Fête Nationale' },
+    { id: 'hol-8', date: '2026-08-15', name: 'Assomption' },
+    { id: 'hol-9', date: '2026-11-01', name: 'Toussaint' },
+    { id: 'hol-10', date: '2026-11-11', name: 'Armistice 1918' },
+    { id: 'hol-11', date: '2026-12-25', name: 'Noël' },
+];
+
 const qualifications: Qualification[] = [
     // Standard qualifications as requested by the user, non-modifiable.
     { id: 'std-90', code: '90', description: 'Occupé', type: 'neutral', groupId: null, isStandard: true },
@@ -238,13 +276,44 @@ const qualificationGroups: QualificationGroup[] = [
     { id: 'qg-2', name: 'Recouvrement' }
 ];
 
+const acdQueues: AcdQueue[] = [
+    {
+        id: 'queue-1',
+        name: 'Ventes',
+        requiredSkills: ['ventes'],
+        priority: 7,
+        mohAudioFileId: 'audio-2',
+        announcePosition: true,
+        announceFrequency: 30,
+        maxWaitTime: 180,
+        maxWaitingCalls: 10,
+        overflowWhenNoAgents: true,
+        overflowQueueId: 'queue-2',
+        scriptId: 'script-1',
+    },
+    {
+        id: 'queue-2',
+        name: 'Accueil général',
+        requiredSkills: [],
+        priority: 3,
+        mohAudioFileId: null,
+        announcePosition: false,
+        announceFrequency: 60,
+        maxWaitTime: 300,
+        maxWaitingCalls: 0,
+        overflowWhenNoAgents: false,
+        overflowQueueId: null,
+        scriptId: null,
+    }
+];
+
 const trunks: Trunk[] = [
     { id: 'trunk-1', name: 'Opérateur Principal', domain: 'sip.provider.com', login: 'user12345' },
     { id: 'trunk-2', name: 'Opérateur Secondaire', domain: 'sip.another.fr', login: 'user67890' }
 ];
 
 const dids: Did[] = [
-    { id: 'did-1', number: '0188776655', description: 'Numéro principal Ventes', trunkId: 'trunk-1', ivrFlowId: 'ivr-1' }
+    { id: 'did-1', number: '0188776655', description: 'Numéro principal Ventes', trunkId: 'trunk-1', ivrFlowId: 'ivr-1', scriptId: 'script-2' }
 ];
 
 const backupLogs: BackupLog[] = [
@@ -257,6 +326,14 @@ const backupSchedule: BackupSchedule = {
     time: '02:00'
 };
 
+// Sales are kept 2 years as proof of the contract, every other call 90 days.
+const recordingRetention: RecordingRetentionPolicy = {
+    defaultRetentionDays: 90,
+    rules: [
+        { id: 'retention-1', scope: 'qualification', targetId: 'qual-pos-1', retentionDays: 730 },
+    ],
+};
+
 const systemLogs: SystemLog[] = [
     { id: 'slog-1', timestamp: new Date().toISOString(), level: 'INFO', service: 'asterisk', message: 'SIP registration successful for trunk-1' },
     { id: 'slog-2', timestamp: new Date(Date.now() - 5000).toISOString(), level: 'WARNING', service: 'fast-agi', message: 'High latency detected on API endpoint (152ms)' },
@@ -285,6 +362,12 @@ const callHistory: CallHistoryRecord[] = [
     { id: 'callhist-5', timestamp: new Date(Date.now() - 90000000).toISOString(), direction: 'inbound', agentId: 'user-agent-3', campaignId: null, callerNumber: '0712345678', duration: 65, qualificationId: 'std-91' },
 ];
 
+const callData: CallData[] = [
+    { callId: 'callhist-1', contactId: 'contact-1', campaignId: 'campaign-1', agentId: 'user-agent-1', scriptId: 'script-1', scriptVersion: 1, savedAt: new Date(Date.now() - 3420000).toISOString(), values: { 'Nom Contact': 'John Doe' } },
+];
+
+const previewDecisions: PreviewDecisionRecord[] = [];
+
 const agentSessions: AgentSession[] = [
      { id: 'session-1', agentId: 'user-agent-1', loginTime: new Date(Date.now() - 28800000).toISOString(), logoutTime: new Date(Date.now() - 14400000).toISOString() },
      { id: 'session-2', agentId: 'user-agent-2', loginTime: new Date(Date.now() - 28900000).toISOString(), logoutTime: new Date(Date.now() - 14500000).toISOString() },
@@ -315,6 +398,14 @@ const audioFiles: AudioFile[] = [
         duration: 22,
         size: 360448,
         uploadDate: new Date(Date.now() - 86400000 * 2).toISOString(),
+    },
+    {
+        id: 'audio-4',
+        name: 'Message répondeur - Offre T4',
+        fileName: 'repondeur_offre_t4.mp3',
+        duration: 18,
+        size: 294912,
+        uploadDate: new Date(Date.now() - 86400000).toISOString(),
     }
 ];
 
@@ -347,20 +438,28 @@ const planningEvents: PlanningEvent[] = [
 
 export const mockData = {
     users,
+    permissionProfiles,
     userGroups,
     savedScripts,
     savedIvrFlows,
+    acdQueues,
     campaigns,
+    contacts,
+    dncEntries,
+    publicHolidays,
     qualifications,
     qualificationGroups,
     trunks,
     dids,
     backupLogs,
     backupSchedule,
+    recordingRetention,
     systemLogs,
     versionInfo,
     connectivityServices,
     callHistory,
+    callData,
+    previewDecisions,
     agentSessions,
     audioFiles,
     activityTypes,
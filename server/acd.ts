@@ -0,0 +1,260 @@
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import type { AcdOverflowReason, AcdQueue } from '../types.ts';
+import type { AcdCallStatus, AcdEnqueueRequest } from '../services/apiContract.ts';
+import type { LiveCall } from '../services/realtimeEvents.ts';
+import type { QueuedCall } from '../services/acd.ts';
+import { OFFER_TIMEOUT_SECONDS, checkQueueEntry, checkQueueWait, getQueuePosition, hasRequiredSkills, orderWaitingCalls, pickAgent } from '../services/acd.ts';
+import type { Database } from './db/database.ts';
+import type { EventHub } from './events.ts';
+
+export interface AcdEngine {
+    enqueue: (request: AcdEnqueueRequest) => AcdOutcome;
+    getCall: (callId: string) => AcdCallStatus | undefined;
+    answer: (callId: string, agentId: string) => AcdOutcome;
+    // The call goes back to the queue and is offered to another agent.
+    reject: (callId: string, agentId: string) => AcdOutcome;
+    // The caller hung up or the IVR moved on: the call leaves the ACD.
+    release: (callId: string) => boolean;
+    start: () => void;
+    stop: () => void;
+    tick: () => void;
+}
+
+export type AcdOutcome =
+    | { ok: true; call: AcdCallStatus }
+    | { ok: false; reason: 'QUEUE_NOT_FOUND' | 'CALL_NOT_FOUND' | 'CALL_NOT_OFFERED' };
+
+export interface AcdContext {
+    engine: AcdEngine;
+    // Shared with the AGI server (backend/), which has no user session; null disables it.
+    telephonyToken: string | null;
+}
+
+export interface AcdEngineOptions {
+    tickIntervalMs?: number;
+    offerTimeoutSeconds?: number;
+    now?: () => Date;
+}
+
+export const isTelephonyToken = ({ telephonyToken }: AcdContext, token: string | null): boolean => {
+    if (!telephonyToken || !token) return false;
+    const expected = Buffer.from(telephonyToken);
+    const received = Buffer.from(token);
+    return expected.length === received.length && timingSafeEqual(expected, received);
+};
+
+/**
+ * Inbound call distribution. The IVR puts calls in queues; every call is
+ * offered to one waiting agent with the skills of its queue, and goes back to
+ * the queue when the agent lets it ring out. Waiting calls overflow following
+ * the rules of their queue. Queued and answered calls are published on the
+ * event stream like the outbound ones.
+ */
+export const createAcdEngine = (db: Database, hub: EventHub, { tickIntervalMs = 1000, offerTimeoutSeconds = OFFER_TIMEOUT_SECONDS, now = () => new Date() }: AcdEngineOptions = {}): AcdEngine => {
+    const calls = new Map<string, QueuedCall>();
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let unsubscribe: (() => void) | null = null;
+
+    const toLiveCall = (call: QueuedCall, status: LiveCall['status'], startedAt: string = call.arrivedAt): LiveCall => ({
+        id: call.id,
+        from: call.callerNumber,
+        to: call.did,
+        agentId: status === 'active' ? call.agentId ?? '' : '',
+        campaignId: '',
+        queueId: call.queueId,
+        status,
+        startedAt,
+    });
+
+    const toStatus = (call: QueuedCall): AcdCallStatus => {
+        const queue = db.get('acdQueues', call.queueId);
+        const musicOnHold = queue?.mohAudioFileId ? db.get('audioFiles', queue.mohAudioFileId) : undefined;
+        const agent = call.state === 'connected' && call.agentId ? db.get('users', call.agentId) : undefined;
+        return {
+            id: call.id,
+            queueId: call.queueId,
+            state: call.state,
+            position: getQueuePosition(call, [...calls.values()]),
+            agentExtension: agent?.loginId ?? null,
+            overflowReason: call.overflowReason,
+            musicOnHold: musicOnHold?.fileName ?? null,
+            announcePosition: queue?.announcePosition ?? false,
+            announceFrequency: queue?.announceFrequency ?? 0,
+        };
+    };
+
+    const hasSkilledAgent = (queue: AcdQueue) => hub.getSnapshot().agents.some(agent => {
+        const user = db.get('users', agent.agentId);
+        return !!user && hasRequiredSkills(user, queue);
+    });
+
+    // Puts the call at the end of `queue`, or overflows it at once.
+    const enterQueue = (call: QueuedCall, queue: AcdQueue, at: string): QueuedCall => {
+        const waitingCalls = [...calls.values()].filter(c => c.id !== call.id && c.queueId === queue.id && c.state === 'waiting').length;
+        const entered: QueuedCall = {
+            ...call, queueId: queue.id, enqueuedAt: at, state: 'waiting', agentId: null, offeredAt: null,
+            declinedBy: [], visitedQueueIds: [...call.visitedQueueIds, queue.id], overflowReason: null,
+        };
+        const reason = checkQueueEntry(queue, waitingCalls, hasSkilledAgent(queue));
+        return reason ? overflow(entered, queue, reason, at) : entered;
+    };
+
+    const overflow = (call: QueuedCall, queue: AcdQueue | undefined, reason: AcdOverflowReason, at: string): QueuedCall => {
+        const next = queue?.overflowQueueId ? db.get('acdQueues', queue.overflowQueueId) : undefined;
+        if (next && !call.visitedQueueIds.includes(next.id)) return enterQueue(call, next, at);
+        return { ...call, state: 'overflow', overflowReason: reason };
+    };
+
+    // Supervisors see the queued calls, with the queue they are in.
+    const update = (before: QueuedCall | undefined, after: QueuedCall, at: string) => {
+        calls.set(after.id, after);
+        const wasPublished = before !== undefined && before.state !== 'overflow';
+        if (after.state === 'overflow') {
+            if (wasPublished) hub.publish({ type: 'call.ended', callId: after.id, at });
+        } else if (after.state === 'connected') {
+            hub.publish({ type: 'call.updated', call: toLiveCall(after, 'active', at) });
+        } else if (!wasPublished) {
+            hub.publish({ type: 'call.started', call: toLiveCall(after, 'queued') });
+        } else if (before.queueId !== after.queueId) {
+            hub.publish({ type: 'call.updated', call: toLiveCall(after, 'queued') });
+        }
+    };
+
+    // Agents who decline a call, by letting it ring out or rejecting it, are not offered it again.
+    const withdrawOffer = (call: QueuedCall, at: string, isDeclined: boolean): QueuedCall => {
+        if (call.agentId) hub.sendCommand({ type: 'call.offerWithdrawn', agentId: call.agentId, callId: call.id, at });
+        return {
+            ...call, state: 'waiting', agentId: null, offeredAt: null,
+            declinedBy: isDeclined && call.agentId ? [...call.declinedBy, call.agentId] : call.declinedBy,
+        };
+    };
+
+    const dispatch = (at: string) => {
+        const queues = db.list('acdQueues');
+        const users = db.list('users');
+        const dids = db.list('dids');
+        const agents = hub.getSnapshot().agents;
+        // An agent is offered one call at a time.
+        const busyAgentIds = [...calls.values()].filter(c => c.state === 'offered' || c.state === 'connected').map(c => c.agentId as string);
+        orderWaitingCalls([...calls.values()], queues).forEach(call => {
+            const queue = queues.find(q => q.id === call.queueId);
+            const agent = queue ? pickAgent(queue, agents, users, [...busyAgentIds, ...call.declinedBy]) : undefined;
+            if (!queue || !agent) return;
+            busyAgentIds.push(agent.id);
+            const offered: QueuedCall = { ...call, state: 'offered', agentId: agent.id, offeredAt: at };
+            calls.set(call.id, offered);
+            const did = dids.find(d => d.number === call.did);
+            hub.sendCommand({
+                type: 'call.offered',
+                agentId: agent.id,
+                call: toLiveCall(offered, 'ringing'),
+                queueName: queue.name,
+                didDescription: did?.description || null,
+                ivrPath: call.ivrPath,
+                scriptId: queue.scriptId ?? did?.scriptId ?? null,
+                expiresAt: new Date(new Date(at).getTime() + offerTimeoutSeconds * 1000).toISOString(),
+            });
+        });
+    };
+
+    const tick = () => {
+        const current = now();
+        const at = current.toISOString();
+        [...calls.values()].forEach(call => {
+            let next = call;
+            if (next.state === 'offered' && (current.getTime() - new Date(next.offeredAt as string).getTime()) / 1000 >= offerTimeoutSeconds) {
+                next = withdrawOffer(next, at, true);
+            }
+            if (next.state === 'waiting') {
+                const queue = db.get('acdQueues', next.queueId);
+                const reason = queue ? checkQueueWait(next, queue, hasSkilledAgent(queue), current) : 'QUEUE_DELETED';
+                if (reason) next = overflow(next, queue, reason, at);
+            }
+            if (next !== call) update(call, next, at);
+        });
+        dispatch(at);
+    };
+
+    // Agents waiting for a call are offered one at once; an offer is withdrawn
+    // without penalty when its agent pauses, takes another call or logs out.
+    const onAgentChange = (agentId: string, isWaiting: boolean, at: string) => {
+        const offered = [...calls.values()].find(c => c.state === 'offered' && c.agentId === agentId);
+        if (offered && !isWaiting) update(offered, withdrawOffer(offered, at, false), at);
+        dispatch(at);
+    };
+
+    const listen = () => hub.subscribe(message => {
+        switch (message.type) {
+            case 'agent.status':
+                return onAgentChange(message.agentId, message.status === 'En Attente', message.at);
+            case 'agent.loggedOut':
+                return onAgentChange(message.agentId, false, message.at);
+            case 'call.ended': {
+                // Answered calls are ended by the agent interface.
+                const call = calls.get(message.callId);
+                if (call?.state === 'connected') calls.delete(call.id);
+                return;
+            }
+        }
+    });
+
+    return {
+        enqueue: ({ queueId, callerNumber, did, ivrPath = [] }) => {
+            const queue = db.get('acdQueues', queueId);
+            if (!queue) return { ok: false, reason: 'QUEUE_NOT_FOUND' };
+            const at = now().toISOString();
+            const arrival: QueuedCall = {
+                id: `acd-${randomUUID()}`, queueId, callerNumber, did, ivrPath, arrivedAt: at, enqueuedAt: at, state: 'waiting',
+                agentId: null, offeredAt: null, declinedBy: [], visitedQueueIds: [], overflowReason: null,
+            };
+            const call = enterQueue(arrival, queue, at);
+            update(undefined, call, at);
+            dispatch(at);
+            return { ok: true, call: toStatus(calls.get(call.id) as QueuedCall) };
+        },
+        getCall: (callId) => {
+            const call = calls.get(callId);
+            return call ? toStatus(call) : undefined;
+        },
+        answer: (callId, agentId) => {
+            const call = calls.get(callId);
+            if (!call) return { ok: false, reason: 'CALL_NOT_FOUND' };
+            if (call.state !== 'offered' || call.agentId !== agentId) return { ok: false, reason: 'CALL_NOT_OFFERED' };
+            const connected: QueuedCall = { ...call, state: 'connected' };
+            update(call, connected, now().toISOString());
+            return { ok: true, call: toStatus(connected) };
+        },
+        reject: (callId, agentId) => {
+            const call = calls.get(callId);
+            if (!call) return { ok: false, reason: 'CALL_NOT_FOUND' };
+            if (call.state !== 'offered' || call.agentId !== agentId) return { ok: false, reason: 'CALL_NOT_OFFERED' };
+            const at = now().toISOString();
+            const rejected = withdrawOffer(call, at, true);
+            update(call, rejected, at);
+            dispatch(at);
+            return { ok: true, call: toStatus(calls.get(callId) as QueuedCall) };
+        },
+        release: (callId) => {
+            const call = calls.get(callId);
+            if (!call) return false;
+            calls.delete(callId);
+            const at = now().toISOString();
+            if (call.state === 'offered') withdrawOffer(call, at, false);
+            if (call.state === 'waiting' || call.state === 'offered') hub.publish({ type: 'call.ended', callId, at });
+            return true;
+        },
+        start: () => {
+            if (timer !== null) return;
+            unsubscribe = listen();
+            timer = setInterval(tick, tickIntervalMs);
+        },
+        stop: () => {
+            if (timer === null) return;
+            clearInterval(timer);
+            unsubscribe?.();
+            timer = null;
+            unsubscribe = null;
+        },
+        tick,
+    };
+};
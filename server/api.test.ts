@@ -0,0 +1,207 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { TestApi } from './testApi.ts';
+import { startTestApi } from './testApi.ts';
+import { getZonedTime } from '../services/callingWindow.ts';
+
+describe('PUT /api/campaigns/<id>/run-status', () => {
+    let api: TestApi;
+    let supervisor: string;
+    before(async () => {
+        api = await startTestApi();
+        supervisor = await api.login('1000');
+    });
+    after(() => api.close());
+
+    it('changes the run status only', async () => {
+        const before = api.db.get('campaigns', 'campaign-1');
+        const { status, body } = await api.request(supervisor, 'PUT', '/campaigns/campaign-1/run-status', { runStatus: 'paused' });
+        assert.equal(status, 200);
+        assert.deepEqual(body, { ...before, runStatus: 'paused' });
+    });
+
+    it('rejects unknown statuses and inherited keys', async () => {
+        for (const runStatus of ['boost', 'toString', '__proto__', 'constructor', 1, null]) {
+            const { status } = await api.request(supervisor, 'PUT', '/campaigns/campaign-1/run-status', { runStatus });
+            assert.equal(status, 400, `runStatus ${JSON.stringify(runStatus)}`);
+        }
+        assert.equal(api.db.get('campaigns', 'campaign-1')?.runStatus, 'paused');
+    });
+
+    it('is refused to agents', async () => {
+        const agent = await api.login('1001');
+        const { status } = await api.request(agent, 'PUT', '/campaigns/campaign-1/run-status', { runStatus: 'running' });
+        assert.equal(status, 403);
+    });
+});
+
+describe('GET /api/campaigns/<id>/contacts', () => {
+    let api: TestApi;
+    let supervisor: string;
+    let agent: string;
+    before(async () => {
+        api = await startTestApi();
+        supervisor = await api.login('1000');
+        agent = await api.login('1001');
+    });
+    after(() => api.close());
+
+    it('returns a page of the contacts of the campaign', async () => {
+        const { status, body } = await api.request(supervisor, 'GET', '/campaigns/campaign-1/contacts?offset=1&limit=1');
+        assert.equal(status, 200);
+        assert.deepEqual(body, { contacts: [api.db.get('contacts', 'contact-2')], total: 3 });
+    });
+
+    it('rejects invalid pages', async () => {
+        for (const query of ['offset=-1', 'offset=1.5', 'limit=0', 'limit=100000', 'limit=abc']) {
+            const { status } = await api.request(supervisor, 'GET', `/campaigns/campaign-1/contacts?${query}`);
+            assert.equal(status, 400, query);
+        }
+    });
+
+    it('gives agents the contacts of their own campaigns only', async () => {
+        assert.equal((await api.request(agent, 'GET', '/campaigns/campaign-1/contacts')).body.total, 3);
+        const { status } = await api.request(agent, 'GET', '/campaigns/campaign-2/contacts');
+        assert.equal(status, 403);
+    });
+
+    it('keeps the contacts collection closed to reads', async () => {
+        assert.equal((await api.request(supervisor, 'GET', '/contacts')).status, 405);
+        assert.equal((await api.request(agent, 'GET', '/contacts/contact-1')).status, 405);
+    });
+
+    it('publishes the imported contacts on the event stream', async () => {
+        const messages: unknown[] = [];
+        const unsubscribe = api.hub.subscribe(message => messages.push(message));
+        const contact = { id: 'contact-new', firstName: 'Ada', lastName: 'Lovelace', phoneNumber: '0612345678', postalCode: '75001', status: 'pending' };
+        const { body } = await api.request(supervisor, 'POST', '/campaigns/campaign-2/contacts', { contacts: [contact] });
+        unsubscribe();
+        assert.deepEqual(messages, [{ type: 'contacts.changed', campaignId: 'campaign-2', contacts: body }]);
+    });
+});
+
+describe('POST /api/campaigns/<id>/contacts', () => {
+    let api: TestApi;
+    let supervisor: string;
+    const contact = { id: 'contact-new', firstName: 'Ada', lastName: 'Lovelace', phoneNumber: '0612345678', postalCode: '75001', status: 'pending' };
+    before(async () => {
+        api = await startTestApi();
+        supervisor = await api.login('1000');
+    });
+    after(() => api.close());
+
+    it('imports the contacts into the campaign', async () => {
+        const { status, body } = await api.request(supervisor, 'POST', '/campaigns/campaign-2/contacts', { contacts: [contact] });
+        assert.equal(status, 201);
+        assert.deepEqual(body, [{ ...contact, campaignId: 'campaign-2' }]);
+    });
+
+    it('rejects contacts without a dialable phone number or another required field', async () => {
+        const { phoneNumber: _phoneNumber, ...withoutPhone } = contact;
+        for (const invalid of [withoutPhone, { ...contact, phoneNumber: '12' }, { ...contact, firstName: undefined }, { ...contact, status: 'new' }]) {
+            const { status } = await api.request(supervisor, 'POST', '/campaigns/campaign-2/contacts', { contacts: [{ ...invalid, id: 'contact-invalid' }] });
+            assert.equal(status, 400, JSON.stringify(invalid));
+        }
+        assert.equal(api.db.get('contacts', 'contact-invalid'), undefined);
+    });
+
+    it('refuses the contacts of another campaign instead of moving them', async () => {
+        const { status, body } = await api.request(supervisor, 'POST', '/campaigns/campaign-2/contacts', {
+            contacts: [{ ...contact, id: 'contact-other' }, { ...contact, id: 'contact-1' }],
+        });
+        assert.equal(status, 409);
+        assert.equal(body.code, 'CONTACT_IN_OTHER_CAMPAIGN');
+        assert.equal(api.db.get('contacts', 'contact-1')?.campaignId, 'campaign-1');
+        assert.equal(api.db.get('contacts', 'contact-other'), undefined);
+    });
+});
+
+describe('POST /api/campaigns/<id>/next-contact', () => {
+    let api: TestApi;
+    let agent: string;
+    const setCallingDays = (callingDays: number[]) => {
+        const campaign = api.db.get('campaigns', 'campaign-1');
+        assert.ok(campaign);
+        api.db.save('campaigns', { ...campaign, callingDays, callingStartTime: '00:00', callingEndTime: '24:00' });
+    };
+    before(async () => {
+        api = await startTestApi();
+        agent = await api.login('1001');
+        api.db.list('publicHolidays').forEach(holiday => api.db.remove('publicHolidays', holiday.id));
+    });
+    after(() => api.close());
+
+    it('serves a contact within the calling window', async () => {
+        setCallingDays([0, 1, 2, 3, 4, 5, 6]);
+        const { status, body } = await api.request(agent, 'POST', '/campaigns/campaign-1/next-contact', {});
+        assert.equal(status, 200);
+        assert.equal(body.campaignId, 'campaign-1');
+    });
+
+    it('refuses to serve a contact outside the calling days', async () => {
+        setCallingDays([]);
+        const { status, body } = await api.request(agent, 'POST', '/campaigns/campaign-1/next-contact', {});
+        assert.equal(status, 409);
+        assert.equal(body.code, 'OUTSIDE_CALLING_WINDOW');
+    });
+
+    it('refuses to serve a contact on a public holiday', async () => {
+        setCallingDays([0, 1, 2, 3, 4, 5, 6]);
+        api.db.save('publicHolidays', { id: 'holiday-today', date: getZonedTime('Europe/Paris').date, name: 'Aujourd\'hui' });
+        const { status, body } = await api.request(agent, 'POST', '/campaigns/campaign-1/next-contact', {});
+        assert.equal(status, 409);
+        assert.equal(body.code, 'OUTSIDE_CALLING_WINDOW');
+    });
+});
+
+describe('POST /api/contacts/<id>/attempts', () => {
+    let api: TestApi;
+    let agent: string;
+    before(async () => {
+        api = await startTestApi();
+        agent = await api.login('1001');
+    });
+    after(() => api.close());
+
+    it('publishes the quota counters of the campaign on the event stream', async () => {
+        const messages: unknown[] = [];
+        const unsubscribe = api.hub.subscribe(message => messages.push(message));
+        const { status, body } = await api.request(agent, 'POST', '/contacts/contact-1/attempts', { qualificationId: 'qual-pos-1', callId: 'call-1' });
+        unsubscribe();
+        assert.equal(status, 200);
+        const campaign = api.db.get('campaigns', 'campaign-1');
+        assert.equal(campaign?.quotaRules[0].currentCount, 4);
+        assert.deepEqual(messages, [
+            { type: 'campaign.saved', campaign },
+            { type: 'contacts.changed', campaignId: 'campaign-1', contacts: [body] },
+        ]);
+    });
+});
+
+describe('/api/dncEntries', () => {
+    let api: TestApi;
+    let agent: string;
+    let supervisor: string;
+    const entry = { id: 'dnc-agent', phoneNumber: '0611223344', campaignId: 'campaign-1', agentId: 'user-agent-1', source: 'agent', addedAt: '2026-03-02T10:00:00.000Z' };
+    before(async () => {
+        api = await startTestApi();
+        agent = await api.login('1001');
+        supervisor = await api.login('1000');
+    });
+    after(() => api.close());
+
+    it('lets agents add their own entries', async () => {
+        assert.equal((await api.request(agent, 'POST', '/dncEntries', entry)).status, 201);
+        assert.equal((await api.request(agent, 'POST', '/dncEntries', { ...entry, id: 'dnc-other', agentId: 'user-agent-2' })).status, 403);
+    });
+
+    it('does not let agents change or delete entries, even their own', async () => {
+        assert.equal((await api.request(agent, 'PUT', '/dncEntries/dnc-agent', { ...entry, phoneNumber: '0699999999' })).status, 403);
+        assert.equal((await api.request(agent, 'DELETE', '/dncEntries/dnc-agent')).status, 403);
+        assert.equal(api.db.get('dncEntries', 'dnc-agent')?.phoneNumber, entry.phoneNumber);
+    });
+
+    it('lets supervisors delete them', async () => {
+        assert.equal((await api.request(supervisor, 'DELETE', '/dncEntries/dnc-agent')).status, 204);
+    });
+});
@@ -0,0 +1,462 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { ApiCollections, ApiCollectionName, ApiSettings, ApiSettingKey, ApiErrorBody, ApiErrorCode, AuthSession, SupervisorActionRequest, ContactAttemptRequest, ContactPage } from '../services/apiContract.ts';
+import { API_COLLECTION_KEYS, API_COLLECTION_NAMES, API_SETTING_KEYS, CONTACT_PAGE_SIZE } from '../services/apiContract.ts';
+import type { CallHistoryRecord, CallRecording, CampaignSettings, Contact, ContactCallback, Permission, PreviewDecisionRecord } from '../types.ts';
+import { API_COLLECTION_PERMISSIONS, API_SETTING_PERMISSIONS, OWN_RECORDS_COLLECTIONS, OWN_WRITES_COLLECTIONS, canReadCampaignContacts, getUserPermissions, hasAnyPermission } from '../services/permissions.ts';
+import type { Database } from './db/database.ts';
+import type { SessionStore, Session, StoredUser } from './auth.ts';
+import { attemptLogin, toPublicUser, toStoredUser } from './auth.ts';
+import { recordAudit } from './audit.ts';
+import type { SupervisionContext } from './supervision.ts';
+import { SUPERVISOR_ACTIONS, performSupervisorAction, publishCampaignRunStatus } from './supervision.ts';
+import type { RecordingContext } from './recordings.ts';
+import { indexCallRecording, purgeExpiredRecordings } from './recordings.ts';
+import type { AcdContext } from './acd.ts';
+import { isTelephonyToken } from './acd.ts';
+import type { ContactDesk, ContactChangeOutcome } from './contacts.ts';
+import { toCampaignSettings } from './contacts.ts';
+import { CAMPAIGN_RUN_STATUS_LABELS, isCampaignRunStatus } from '../services/campaignLifecycle.ts';
+import { normalizePhoneNumber } from '../services/contactImport.ts';
+import { checkCallingWindow } from '../services/callingWindow.ts';
+
+const MAX_BODY_BYTES = 10 * 1024 * 1024; // contact imports are sent in chunks below this size
+
+const sendJson = (res: ServerResponse, status: number, body?: unknown) => {
+    if (body === undefined) {
+        res.writeHead(status).end();
+        return;
+    }
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' }).end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, status: number, error: string, code?: ApiErrorCode) => {
+    const body: ApiErrorBody = code ? { error, code } : { error };
+    sendJson(res, status, body);
+};
+
+const readJsonBody = (req: IncomingMessage): Promise<unknown> => new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            reject(new RangeError('Request body too large'));
+            req.destroy();
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => {
+        try {
+            resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+        } catch {
+            reject(new SyntaxError('Invalid JSON body'));
+        }
+    });
+    req.on('error', reject);
+});
+
+const isCollection = (name: string): name is ApiCollectionName => (API_COLLECTION_NAMES as string[]).includes(name);
+const isSettingKey = (name: string): name is ApiSettingKey => (API_SETTING_KEYS as string[]).includes(name);
+const isPlainObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === 'string');
+const isCallback = (value: unknown): value is ContactCallback | null => value === null
+    || (isPlainObject(value) && typeof value.scheduledAt === 'string' && (value.scope === 'personal' || value.scope === 'campaign')
+        && typeof value.agentId === 'string' && typeof value.createdAt === 'string');
+
+// Phone numbers are normalized by the import (see contactImport.ts): the dialer calls them as they are.
+const isContact = (value: unknown): value is Contact => isPlainObject(value)
+    && typeof value.id === 'string' && value.id !== '' && typeof value.firstName === 'string' && typeof value.lastName === 'string'
+    && typeof value.phoneNumber === 'string' && normalizePhoneNumber(value.phoneNumber) !== null && typeof value.postalCode === 'string'
+    && (value.status === 'pending' || value.status === 'called' || value.status === 'qualified');
+
+const getBearerToken = (req: IncomingMessage): string | null => {
+    const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization || '');
+    return match ? match[1] : null;
+};
+
+// Users never leave the server with their credentials.
+const toResponse = (collection: ApiCollectionName, entity: unknown) =>
+    collection === 'users' ? toPublicUser(entity as StoredUser) : entity;
+
+const toAuthSession = (session: Session, user: StoredUser, permissions: Permission[]): AuthSession => ({
+    token: session.token,
+    expiresAt: new Date(session.expiresAt).toISOString(),
+    user: toPublicUser(user),
+    permissions,
+});
+
+/**
+ * Routes:
+ *   GET    /api/health
+ *   POST   /api/auth/login            exchange credentials for a session token
+ *   POST   /api/auth/logout
+ *   GET    /api/auth/session          current session
+ *   POST   /api/supervision/actions   listen, whisper, barge, force pause or logout an agent
+ *   POST   /api/acd/calls             put an inbound call in a queue (IVR 'queue' node)
+ *   GET    /api/acd/calls/<id>        state of a queued call, polled by the IVR
+ *   DELETE /api/acd/calls/<id>        the call leaves the ACD (caller hung up, IVR moved on)
+ *   POST   /api/acd/calls/<id>/answer the agent the call is offered to takes it
+ *   POST   /api/acd/calls/<id>/reject or hands it back to the queue
+ *   PUT    /api/campaigns/<id>/run-status    start, pause or stop a campaign, nothing else of it is written
+ *   GET    /api/campaigns/<id>/contacts      contacts of the campaign, a page at a time (offset, limit)
+ *   POST   /api/campaigns/<id>/contacts      import contacts into the campaign
+ *   POST   /api/campaigns/<id>/next-contact  serve the next contact to the agent (204 when none is left,
+ *                                            409 outside the calling window of the campaign)
+ *   POST   /api/contacts/<id>/attempts       record the qualified call of a contact
+ *   PUT    /api/contacts/<id>/callback       schedule, move or cancel the callback of a contact
+ *   GET    /api/<collection>          list
+ *   POST   /api/<collection>          create (409 if the key exists)
+ *   GET    /api/<collection>/<key>    read
+ *   PUT    /api/<collection>/<key>    create or replace
+ *   DELETE /api/<collection>/<key>    delete
+ *   GET    /api/recordings/<id>/audio audio file of a call recording
+ *   POST   /api/recordings/purge      delete the recordings past their retention
+ *   GET    /api/settings/<key>        read a setting
+ *   PUT    /api/settings/<key>        replace a setting
+ * Every route but health and login requires an 'Authorization: Bearer <token>'
+ * header for an active user (or the telephony token of the AGI server for the
+ * ACD routes), and collections and settings the permissions listed
+ * in services/permissions.ts (403 otherwise). Writes to configuration
+ * collections are recorded in the audit log (see audit.ts), and changes of
+ * the run status of a campaign are published on the event stream. Calls added
+ * to the history are recorded when their campaign records calls (see recordings.ts);
+ * recordings can only be read and deleted by clients. Contacts are only read and
+ * changed through the campaign and contact routes (see contacts.ts), agents only
+ * read those of their campaigns.
+ */
+export const createApiHandler = (db: Database, sessions: SessionStore, supervision: SupervisionContext, recordings: RecordingContext, acd: AcdContext, contacts: ContactDesk) => async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    // Passwords sent for users are hashed; their stored credentials are kept otherwise.
+    // Campaigns are stored without their contacts, see toCampaignSettings().
+    const prepareForSave = <K extends ApiCollectionName>(collection: K, body: Record<string, unknown>): ApiCollections[K] => {
+        if (collection === 'campaigns') {
+            return toCampaignSettings(body as unknown as CampaignSettings, db.get('campaigns', body.id as string)) as ApiCollections[K];
+        }
+        if (collection !== 'users') return body as unknown as ApiCollections[K];
+        const user = body as unknown as StoredUser;
+        return toStoredUser(user, db.get('users', user.id) as StoredUser | undefined) as ApiCollections[K];
+    };
+
+    const afterSave = (collection: ApiCollectionName, saved: unknown, existing: unknown) => {
+        if (collection === 'campaigns') publishCampaignRunStatus(db, supervision.hub, saved as CampaignSettings);
+        if (collection === 'previewDecisions' && existing === undefined) contacts.applyPreviewDecision(saved as PreviewDecisionRecord);
+        // The call is answered by then: the response does not wait for the audio.
+        if (collection === 'callHistory' && existing === undefined) {
+            indexCallRecording(db, recordings, saved as CallHistoryRecord)
+                .catch(err => console.error(`API: recording of call '${(saved as CallHistoryRecord).id}' failed:`, err));
+        }
+    };
+
+    const afterDelete = (collection: ApiCollectionName, key: string, existing: unknown) => {
+        if (collection === 'users') sessions.revokeUser(key);
+        if (collection === 'recordings') recordings.store.remove((existing as CallRecording).fileName);
+        if (collection === 'campaigns') contacts.removeCampaignContacts(key);
+    };
+
+    const permissionsOf = (user: StoredUser) => getUserPermissions(user, db.list('permissionProfiles'));
+
+    // `user` is null for the IVR, which may do everything but answer calls.
+    const handleAcdRequest = async (path: string[], user: StoredUser | null, permissions: Permission[]): Promise<void> => {
+        const [collection, callId, action, ...extra] = path;
+        if (collection !== 'calls' || extra.length > 0 || (action !== undefined && action !== 'answer' && action !== 'reject')) return sendError(res, 404, 'Not found');
+        const isAllowed = (permission: Permission) => user === null || permissions.includes(permission);
+        const forbidden = () => sendError(res, 403, `Permission denied for ${method} /api/acd/calls`, 'FORBIDDEN');
+
+        if (!callId) {
+            if (method !== 'POST') return sendError(res, 405, `Method ${method} not allowed`);
+            // Users who manage the queues can place test calls.
+            if (!isAllowed('queue.edit')) return forbidden();
+            const body = await readJsonBody(req);
+            if (!isPlainObject(body) || typeof body.queueId !== 'string' || typeof body.callerNumber !== 'string' || typeof body.did !== 'string') {
+                return sendError(res, 400, "Expected 'queueId', 'callerNumber' and 'did' strings");
+            }
+            const { ivrPath = [] } = body;
+            if (!Array.isArray(ivrPath) || !ivrPath.every(name => typeof name === 'string')) return sendError(res, 400, "Expected 'ivrPath' to be an array of strings");
+            const outcome = acd.engine.enqueue({ queueId: body.queueId, callerNumber: body.callerNumber, did: body.did, ivrPath });
+            if (outcome.ok === false) return sendError(res, 404, `Queue '${body.queueId}' not found`, 'QUEUE_NOT_FOUND');
+            return sendJson(res, 201, outcome.call);
+        }
+        if (action) {
+            if (method !== 'POST') return sendError(res, 405, `Method ${method} not allowed`);
+            if (!user || !permissions.includes('agent.call')) return forbidden();
+            const outcome = action === 'answer' ? acd.engine.answer(callId, user.id) : acd.engine.reject(callId, user.id);
+            if (outcome.ok === false) {
+                if (outcome.reason === 'CALL_NOT_OFFERED') return sendError(res, 409, `Call '${callId}' is not offered to you`, outcome.reason);
+                return sendError(res, 404, `Call '${callId}' not found`, 'CALL_NOT_FOUND');
+            }
+            return sendJson(res, 200, outcome.call);
+        }
+        if (method === 'GET') {
+            if (!isAllowed('queue.view')) return forbidden();
+            const call = acd.engine.getCall(callId);
+            return call ? sendJson(res, 200, call) : sendError(res, 404, `Call '${callId}' not found`, 'CALL_NOT_FOUND');
+        }
+        if (method === 'DELETE') {
+            if (!isAllowed('queue.edit')) return forbidden();
+            return acd.engine.release(callId) ? sendJson(res, 204) : sendError(res, 404, `Call '${callId}' not found`, 'CALL_NOT_FOUND');
+        }
+        return sendError(res, 405, `Method ${method} not allowed`);
+    };
+
+    const sendContactOutcome = (outcome: ContactChangeOutcome, contactId: string) => {
+        if (outcome.ok === true) return sendJson(res, 200, outcome.contact);
+        if (outcome.reason === 'QUALIFICATION_NOT_FOUND') return sendError(res, 400, 'Unknown qualification', outcome.reason);
+        return sendError(res, 404, `Contact '${contactId}' not found`, outcome.reason);
+    };
+
+    // /api/campaigns/<id>/<action> and /api/contacts/<id>/<action>, see contacts.ts.
+    // Agents only work on the contacts of the campaigns they are assigned to.
+    const handleContactRequest = async (resource: string, key: string, action: string, user: StoredUser, permissions: Permission[]): Promise<void> => {
+        const forbidden = () => sendError(res, 403, `Permission denied for ${method} /api/${resource}/<id>/${action}`, 'FORBIDDEN');
+        const isAgentOf = (campaignId: string) => permissions.includes('agent.call') && user.campaignIds.includes(campaignId);
+        if (action === 'contacts' && method === 'GET') {
+            if (!canReadCampaignContacts(user, permissions, key)) return forbidden();
+            const offset = Number(url.searchParams.get('offset') ?? 0);
+            const limit = Number(url.searchParams.get('limit') ?? CONTACT_PAGE_SIZE);
+            if (!Number.isInteger(offset) || offset < 0 || !Number.isInteger(limit) || limit < 1 || limit > CONTACT_PAGE_SIZE) {
+                return sendError(res, 400, `Expected an 'offset' of 0 or more and a 'limit' from 1 to ${CONTACT_PAGE_SIZE}`);
+            }
+            if (!db.get('campaigns', key)) return sendError(res, 404, `Campaign '${key}' not found`, 'CAMPAIGN_NOT_FOUND');
+            const page: ContactPage = { contacts: db.find('contacts', 'campaignId', key, { offset, limit }), total: db.count('contacts', 'campaignId', key) };
+            return sendJson(res, 200, page);
+        }
+        const expectedMethod = action === 'callback' ? 'PUT' : 'POST';
+        if (method !== expectedMethod) return sendError(res, 405, `Method ${method} not allowed`);
+        const contact = resource === 'contacts' ? db.get('contacts', key) : undefined;
+        if (resource === 'contacts' && !contact) return sendError(res, 404, `Contact '${key}' not found`, 'CONTACT_NOT_FOUND');
+        const body = await readJsonBody(req);
+        if (!isPlainObject(body)) return sendError(res, 400, 'Expected a JSON object');
+
+        if (action === 'contacts') {
+            if (!permissions.includes('campaign.edit')) return forbidden();
+            const { contacts: imported } = body;
+            if (!Array.isArray(imported)) return sendError(res, 400, "Expected a 'contacts' array");
+            const invalidIndex = imported.findIndex(contact => !isContact(contact));
+            if (invalidIndex > -1) {
+                return sendError(res, 400, `Contact ${invalidIndex} needs an 'id', a 'firstName', a 'lastName', a valid 'phoneNumber', a 'postalCode' and a 'status'`);
+            }
+            const outcome = contacts.importContacts(key, imported);
+            if (outcome.ok === true) return sendJson(res, 201, outcome.contacts);
+            if (outcome.reason === 'CAMPAIGN_NOT_FOUND') return sendError(res, 404, `Campaign '${key}' not found`, outcome.reason);
+            return sendError(res, 409, `Contacts of another campaign: ${outcome.contactIds.join(', ')}`, outcome.reason);
+        }
+        if (action === 'next-contact') {
+            if (!isAgentOf(key)) return forbidden();
+            const { excludedContactIds = [] } = body;
+            if (!isStringArray(excludedContactIds)) return sendError(res, 400, "Expected 'excludedContactIds' to be an array of strings");
+            const campaign = db.get('campaigns', key);
+            if (!campaign) return sendError(res, 404, `Campaign '${key}' not found`, 'CAMPAIGN_NOT_FOUND');
+            // Agents are served no contact they may not call now, whatever their clock says.
+            const callingWindow = checkCallingWindow(campaign, db.list('publicHolidays'));
+            if (!callingWindow.allowed) {
+                return sendError(res, 409, `Campaign '${key}' may not be called now (${callingWindow.violation})`, 'OUTSIDE_CALLING_WINDOW');
+            }
+            const next = contacts.pickNext(key, user.id, excludedContactIds);
+            return next ? sendJson(res, 200, next) : sendJson(res, 204);
+        }
+        if (action === 'attempts') {
+            if (!contact || !isAgentOf(contact.campaignId)) return forbidden();
+            const { qualificationId, callId, callback } = body;
+            if (typeof qualificationId !== 'string' || (callId !== undefined && typeof callId !== 'string') || (callback !== undefined && !isCallback(callback))) {
+                return sendError(res, 400, "Expected a 'qualificationId' string, an optional 'callId' string and an optional 'callback'");
+            }
+            const attempt = body as unknown as ContactAttemptRequest;
+            return sendContactOutcome(contacts.recordAttempt(key, attempt.qualificationId, attempt.callId, attempt.callback), key);
+        }
+        // Supervisors move, reassign or cancel the callbacks.
+        if (!contact || (!permissions.includes('campaign.edit') && !isAgentOf(contact.campaignId))) return forbidden();
+        if (!isCallback(body.callback)) return sendError(res, 400, "Expected a 'callback' object or null");
+        return sendContactOutcome(contacts.saveCallback(key, body.callback), key);
+    };
+
+    const url = new URL(req.url || '/', 'http://localhost');
+    const segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    const method = req.method || 'GET';
+
+    if (segments[0] !== 'api') return sendError(res, 404, 'Not found');
+    const [, resource, key, ...rest] = segments;
+    const isRecordingAudio = resource === 'recordings' && rest.length === 1 && rest[0] === 'audio';
+    const isContactAction = rest.length === 1 && ((resource === 'campaigns' && (rest[0] === 'contacts' || rest[0] === 'next-contact'))
+        || (resource === 'contacts' && (rest[0] === 'attempts' || rest[0] === 'callback')));
+    const isRunStatusRoute = resource === 'campaigns' && rest.length === 1 && rest[0] === 'run-status';
+    if (rest.length > 0 && !isRecordingAudio && !isContactAction && !isRunStatusRoute && resource !== 'acd') return sendError(res, 404, 'Not found');
+
+    try {
+        if (resource === 'health' && !key) {
+            return sendJson(res, 200, { status: 'ok' });
+        }
+
+        if (resource === 'auth' && key === 'login') {
+            if (method !== 'POST') return sendError(res, 405, `Method ${method} not allowed`);
+            const body = await readJsonBody(req);
+            if (!isPlainObject(body) || typeof body.loginId !== 'string' || typeof body.password !== 'string') {
+                return sendError(res, 400, "Expected 'loginId' and 'password' strings");
+            }
+            const outcome = attemptLogin(db, body.loginId, body.password);
+            if (outcome.ok === false) {
+                if (outcome.reason === 'ACCOUNT_LOCKED') return sendError(res, 423, `Account locked until ${outcome.lockedUntil}`, outcome.reason);
+                if (outcome.reason === 'ACCOUNT_DISABLED') return sendError(res, 403, 'Account disabled', outcome.reason);
+                return sendError(res, 401, 'Invalid login or password', outcome.reason);
+            }
+            return sendJson(res, 200, toAuthSession(sessions.create(outcome.user.id), outcome.user, permissionsOf(outcome.user)));
+        }
+
+        // The IVR of the AGI server (backend/) has no session, see AcdContext.
+        const token = getBearerToken(req);
+        if (resource === 'acd' && isTelephonyToken(acd, token)) return await handleAcdRequest(segments.slice(2), null, []);
+
+        // Everything below requires a valid session. The user is re-read on every
+        // request so deactivating or deleting an account takes effect immediately.
+        const session = token ? sessions.find(token) : undefined;
+        const sessionUser = session ? db.get('users', session.userId) as StoredUser | undefined : undefined;
+        if (!session || !sessionUser || !sessionUser.isActive) {
+            if (session) sessions.revoke(session.token);
+            return sendError(res, 401, 'Authentication required', 'UNAUTHENTICATED');
+        }
+        const permissions = permissionsOf(sessionUser);
+        const isWrite = method !== 'GET';
+        const forbidden = () => sendError(res, 403, `Permission denied for ${method} /api/${resource}`, 'FORBIDDEN');
+
+        if (resource === 'auth') {
+            if (key === 'session' && method === 'GET') return sendJson(res, 200, toAuthSession(session, sessionUser, permissions));
+            if (key === 'logout' && method === 'POST') {
+                sessions.revoke(session.token);
+                return sendJson(res, 204);
+            }
+            return sendError(res, 404, 'Not found');
+        }
+
+        if (resource === 'supervision' && key === 'actions') {
+            if (method !== 'POST') return sendError(res, 405, `Method ${method} not allowed`);
+            if (!permissions.includes('supervision.barge')) return forbidden();
+            const body = await readJsonBody(req);
+            if (!isPlainObject(body) || !SUPERVISOR_ACTIONS.includes(body.action as never) || typeof body.agentId !== 'string'
+                || (body.callId !== undefined && typeof body.callId !== 'string')) {
+                return sendError(res, 400, `Expected an 'action' (${SUPERVISOR_ACTIONS.join(', ')}), an 'agentId' and an optional 'callId'`);
+            }
+            const outcome = await performSupervisorAction(db, supervision, sessionUser, body as unknown as SupervisorActionRequest);
+            if (outcome.ok === false) {
+                if (outcome.reason === 'CALL_NOT_FOUND') return sendError(res, 404, `No active call '${body.callId}' for agent '${body.agentId}'`, outcome.reason);
+                return sendError(res, 409, `Agent '${body.agentId}' is not logged in`, outcome.reason);
+            }
+            return sendJson(res, 201, outcome.record);
+        }
+
+        if (resource === 'acd') return await handleAcdRequest(segments.slice(2), sessionUser, permissions);
+
+        if (isRecordingAudio) {
+            if (method !== 'GET') return sendError(res, 405, `Method ${method} not allowed`);
+            if (!hasAnyPermission(permissions, API_COLLECTION_PERMISSIONS.recordings.read)) return forbidden();
+            const recording = db.get('recordings', key);
+            const audio = recording ? recordings.store.read(recording.fileName) : undefined;
+            if (!recording || !audio) return sendError(res, 404, `Recording '${key}' not found`);
+            res.writeHead(200, {
+                'Content-Type': recording.mimeType,
+                'Content-Length': audio.length,
+                'Content-Disposition': `inline; filename="${recording.fileName}"`,
+            }).end(audio);
+            return;
+        }
+
+        if (isContactAction) return await handleContactRequest(resource, key, rest[0], sessionUser, permissions);
+
+        if (isRunStatusRoute) {
+            if (method !== 'PUT') return sendError(res, 405, `Method ${method} not allowed`);
+            if (!permissions.includes('campaign.edit')) return forbidden();
+            const body = await readJsonBody(req);
+            if (!isPlainObject(body) || !isCampaignRunStatus(body.runStatus)) {
+                return sendError(res, 400, `Expected a 'runStatus' (${Object.keys(CAMPAIGN_RUN_STATUS_LABELS).join(', ')})`);
+            }
+            const existing = db.get('campaigns', key);
+            if (!existing) return sendError(res, 404, `Campaign '${key}' not found`, 'CAMPAIGN_NOT_FOUND');
+            const saved = db.save('campaigns', { ...existing, runStatus: body.runStatus });
+            recordAudit(db, sessionUser, 'campaigns', key, existing, saved);
+            afterSave('campaigns', saved, existing);
+            return sendJson(res, 200, saved);
+        }
+
+        if (resource === 'recordings' && key === 'purge') {
+            if (method !== 'POST') return sendError(res, 405, `Method ${method} not allowed`);
+            if (!permissions.includes('records.delete')) return forbidden();
+            return sendJson(res, 200, purgeExpiredRecordings(db, recordings.store));
+        }
+
+        if (resource === 'settings') {
+            if (!key || !isSettingKey(key)) return sendError(res, 404, `Unknown setting '${key}'`);
+            const rule = API_SETTING_PERMISSIONS[key];
+            if (!hasAnyPermission(permissions, isWrite ? rule.write : rule.read)) return forbidden();
+            if (method === 'GET') {
+                const value = db.getSetting(key);
+                return value === undefined ? sendError(res, 404, `Setting '${key}' is not set`) : sendJson(res, 200, value);
+            }
+            if (method === 'PUT') {
+                const body = await readJsonBody(req);
+                if (!isPlainObject(body)) return sendError(res, 400, 'Expected a JSON object');
+                return sendJson(res, 200, db.saveSetting(key, body as unknown as ApiSettings[typeof key]));
+            }
+            return sendError(res, 405, `Method ${method} not allowed`);
+        }
+
+        if (!resource || !isCollection(resource)) return sendError(res, 404, `Unknown collection '${resource}'`);
+        const keyField = API_COLLECTION_KEYS[resource];
+        const rule = API_COLLECTION_PERMISSIONS[resource];
+        if (!hasAnyPermission(permissions, isWrite ? rule.write : rule.read)) return forbidden();
+        if (resource === 'recordings' && isWrite && method !== 'DELETE') return sendError(res, 405, 'Recordings are indexed by the server');
+        if (resource === 'contacts') return sendError(res, 405, 'Contacts are read and changed through the campaign and contact routes');
+        // Agents reach their call records through 'agent.call' only: restrict them to their own.
+        const ownRecordsOnly = (OWN_RECORDS_COLLECTIONS.includes(resource) || (isWrite && OWN_WRITES_COLLECTIONS.includes(resource)))
+            && !hasAnyPermission(permissions, (isWrite ? rule.write : rule.read).filter(p => p !== 'agent.call'));
+        const isOwnRecord = (entity: unknown) => !ownRecordsOnly || (entity as { agentId?: string }).agentId === sessionUser.id;
+        // They only add entries to the others, see OWN_WRITES_COLLECTIONS.
+        if (ownRecordsOnly && isWrite && method !== 'POST' && OWN_WRITES_COLLECTIONS.includes(resource)) return forbidden();
+
+        if (!key) {
+            if (method === 'GET') return sendJson(res, 200, db.list(resource).filter(isOwnRecord).map(entity => toResponse(resource, entity)));
+            if (method === 'POST') {
+                const body = await readJsonBody(req);
+                if (!isPlainObject(body) || typeof body[keyField] !== 'string' || !body[keyField]) {
+                    return sendError(res, 400, `Expected a JSON object with a '${keyField}' string`);
+                }
+                if (!isOwnRecord(body)) return forbidden();
+                if (db.get(resource, body[keyField] as string)) {
+                    return sendError(res, 409, `${resource} '${body[keyField]}' already exists`);
+                }
+                const created = db.save(resource, prepareForSave(resource, body));
+                recordAudit(db, sessionUser, resource, body[keyField] as string, undefined, created);
+                afterSave(resource, created, undefined);
+                return sendJson(res, 201, toResponse(resource, created));
+            }
+            return sendError(res, 405, `Method ${method} not allowed`);
+        }
+
+        if (method === 'GET') {
+            const entity = db.get(resource, key);
+            return entity === undefined || !isOwnRecord(entity) ? sendError(res, 404, `${resource} '${key}' not found`) : sendJson(res, 200, toResponse(resource, entity));
+        }
+        if (method === 'PUT') {
+            const body = await readJsonBody(req);
+            if (!isPlainObject(body)) return sendError(res, 400, 'Expected a JSON object');
+            if (body[keyField] !== key) return sendError(res, 400, `Body '${keyField}' does not match the URL`);
+            const existing = db.get(resource, key);
+            if (!isOwnRecord(body) || (existing !== undefined && !isOwnRecord(existing))) return forbidden();
+            const saved = db.save(resource, prepareForSave(resource, body));
+            recordAudit(db, sessionUser, resource, key, existing, saved);
+            afterSave(resource, saved, existing);
+            return sendJson(res, 200, toResponse(resource, saved));
+        }
+        if (method === 'DELETE') {
+            const existing = db.get(resource, key);
+            if (existing !== undefined && !isOwnRecord(existing)) return forbidden();
+            if (!db.remove(resource, key)) return sendError(res, 404, `${resource} '${key}' not found`);
+            recordAudit(db, sessionUser, resource, key, existing, undefined);
+            afterDelete(resource, key, existing);
+            return sendJson(res, 204);
+        }
+        return sendError(res, 405, `Method ${method} not allowed`);
+    } catch (err) {
+        if (err instanceof SyntaxError) return sendError(res, 400, err.message);
+        if (err instanceof RangeError) return sendError(res, 413, err.message);
+        console.error(`API: ${method} ${url.pathname} failed:`, err);
+        return sendError(res, 500, 'Internal server error');
+    }
+};
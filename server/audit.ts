@@ -0,0 +1,88 @@
+import { randomUUID } from 'node:crypto';
+import type { AuditAction, AuditChange, AuditLogEntry, User } from '../types.ts';
+import type { ApiCollectionName } from '../services/apiContract.ts';
+import type { Database } from './db/database.ts';
+
+// Configuration collections whose every write is recorded in the audit log, and
+// call recordings, whose deletion must stay traceable. Contacts are left out: their
+// call results and the quota counters are updated by the server (see contacts.ts),
+// outside of the audited writes.
+export const AUDITED_COLLECTIONS: ApiCollectionName[] = [
+    'users', 'permissionProfiles', 'campaigns', 'dncEntries', 'trunks', 'dids',
+    'savedScripts', 'ivrFlows', 'acdQueues', 'qualifications', 'qualificationGroups', 'recordings',
+];
+
+// Bigger values (e.g. the pages of a script) are summarized instead of copied.
+const MAX_VALUE_LENGTH = 500;
+const MASKED_VALUE = '********';
+// Lockout bookkeeping updated by logins, not a configuration change.
+const IGNORED_FIELDS = ['failedLoginAttempts', 'lockedUntil'];
+
+const summarize = (value: unknown): unknown => {
+    if (value === undefined) return undefined;
+    const json = JSON.stringify(value);
+    if (json.length <= MAX_VALUE_LENGTH) return value;
+    return Array.isArray(value) ? `(liste de ${value.length} éléments)` : `(${json.length} caractères)`;
+};
+
+const toChange = (field: string, before: unknown, after: unknown): AuditChange => {
+    // Password hashes are secrets: only the fact that they changed is recorded.
+    if (field === 'passwordHash') {
+        return { field: 'password', before: before === undefined ? undefined : MASKED_VALUE, after: after === undefined ? undefined : MASKED_VALUE };
+    }
+    return { field, before: summarize(before), after: summarize(after) };
+};
+
+/**
+ * Field-level differences between two versions of an entity. Either side may
+ * be undefined (creation, deletion), in which case every field is listed.
+ */
+export const diffEntities = (before: object | undefined, after: object | undefined): AuditChange[] => {
+    const previous = (before || {}) as Record<string, unknown>;
+    const next = (after || {}) as Record<string, unknown>;
+    const fields = [...new Set([...Object.keys(previous), ...Object.keys(next)])]
+        .filter(field => field !== 'password' && !IGNORED_FIELDS.includes(field));
+    return fields
+        .filter(field => JSON.stringify(previous[field]) !== JSON.stringify(next[field]))
+        .map(field => toChange(field, previous[field], next[field]));
+};
+
+const getEntityName = (entity: Record<string, unknown>, entityId: string): string => {
+    if (typeof entity.name === 'string') return entity.name;
+    if (typeof entity.firstName === 'string') return `${entity.firstName} ${entity.lastName ?? ''}`.trim();
+    if (typeof entity.number === 'string') return entity.number;
+    if (typeof entity.description === 'string') return entity.description;
+    if (typeof entity.fileName === 'string') return entity.fileName;
+    return entityId;
+};
+
+/**
+ * Stores an audit entry for a write to an audited collection. Updates that
+ * change nothing are not recorded.
+ */
+export const recordAudit = (
+    db: Database,
+    actor: User,
+    entityType: ApiCollectionName,
+    entityId: string,
+    before: object | undefined,
+    after: object | undefined,
+    now: Date = new Date()
+): AuditLogEntry | null => {
+    if (!AUDITED_COLLECTIONS.includes(entityType)) return null;
+    const action: AuditAction = before === undefined ? 'create' : after === undefined ? 'delete' : 'update';
+    const changes = diffEntities(before, after);
+    if (action === 'update' && changes.length === 0) return null;
+
+    return db.save('auditLogs', {
+        id: `audit-${randomUUID()}`,
+        timestamp: now.toISOString(),
+        actorId: actor.id,
+        actorName: `${actor.firstName} ${actor.lastName}`,
+        action,
+        entityType,
+        entityId,
+        entityName: getEntityName((after || before) as Record<string, unknown>, entityId),
+        changes,
+    });
+};
@@ -0,0 +1,153 @@
+import { randomBytes, scryptSync, timingSafeEqual } from 'node:crypto';
+import type { User } from '../types.ts';
+import type { Database } from './db/database.ts';
+
+export const SESSION_TTL_MS = 8 * 60 * 60 * 1000; // one shift
+export const MAX_FAILED_LOGINS = 5;
+export const LOCKOUT_DURATION_MS = 15 * 60 * 1000;
+
+const SALT_BYTES = 16;
+const KEY_BYTES = 64;
+
+// Fields stored with a user on the server and never sent to clients.
+export interface UserCredentials {
+    passwordHash?: string;
+    failedLoginAttempts?: number;
+    lockedUntil?: string | null; // ISO String
+}
+
+export type StoredUser = User & UserCredentials;
+
+/**
+ * Salted scrypt hash, stored as 'scrypt$<salt hex>$<hash hex>'.
+ */
+export const hashPassword = (password: string): string => {
+    const salt = randomBytes(SALT_BYTES);
+    return `scrypt$${salt.toString('hex')}$${scryptSync(password, salt, KEY_BYTES).toString('hex')}`;
+};
+
+export const verifyPassword = (password: string, storedHash: string | undefined): boolean => {
+    const [scheme, saltHex, hashHex] = (storedHash || '').split('$');
+    if (scheme !== 'scrypt' || !saltHex || !hashHex) return false;
+    const expected = Buffer.from(hashHex, 'hex');
+    const actual = scryptSync(password, Buffer.from(saltHex, 'hex'), expected.length);
+    return timingSafeEqual(actual, expected);
+};
+
+/**
+ * The user as sent to clients: without password, hash or lockout state.
+ */
+export const toPublicUser = (user: StoredUser): User => {
+    const { password, passwordHash, failedLoginAttempts, lockedUntil, ...publicUser } = user;
+    return publicUser;
+};
+
+/**
+ * Merges a user sent by a client with its stored credentials. A non-empty
+ * `password` replaces the hash and unlocks the account; otherwise the existing
+ * credentials are kept. Credential fields sent by the client are ignored.
+ */
+export const toStoredUser = (incoming: StoredUser, existing?: StoredUser): StoredUser => {
+    const user: StoredUser = { ...toPublicUser(incoming) };
+    if (incoming.password) {
+        user.passwordHash = hashPassword(incoming.password);
+        user.failedLoginAttempts = 0;
+        user.lockedUntil = null;
+    } else if (existing) {
+        user.passwordHash = existing.passwordHash;
+        user.failedLoginAttempts = existing.failedLoginAttempts;
+        user.lockedUntil = existing.lockedUntil;
+    }
+    return user;
+};
+
+/**
+ * Replaces any plaintext password left in the database (seed data, databases
+ * created before hashing existed) by its hash.
+ */
+export const hashStoredPlaintextPasswords = (db: Database): void => {
+    (db.list('users') as StoredUser[])
+        .filter(user => user.password)
+        .forEach(user => db.save('users', toStoredUser(user)));
+};
+
+export type LoginOutcome =
+    | { ok: true; user: StoredUser }
+    | { ok: false; reason: 'INVALID_CREDENTIALS' | 'ACCOUNT_LOCKED' | 'ACCOUNT_DISABLED'; lockedUntil?: string };
+
+/**
+ * Checks credentials and updates the lockout counters. After MAX_FAILED_LOGINS
+ * consecutive failures the account is locked for LOCKOUT_DURATION_MS, even for
+ * the right password. Unknown logins and wrong passwords get the same answer.
+ */
+export const attemptLogin = (db: Database, loginId: string, password: string, now: Date = new Date()): LoginOutcome => {
+    const user = (db.list('users') as StoredUser[]).find(u => u.loginId === loginId);
+    if (!user) return { ok: false, reason: 'INVALID_CREDENTIALS' };
+
+    if (user.lockedUntil && new Date(user.lockedUntil).getTime() > now.getTime()) {
+        return { ok: false, reason: 'ACCOUNT_LOCKED', lockedUntil: user.lockedUntil };
+    }
+
+    if (!verifyPassword(password, user.passwordHash)) {
+        const failedLoginAttempts = (user.failedLoginAttempts || 0) + 1;
+        const locked = failedLoginAttempts >= MAX_FAILED_LOGINS;
+        const lockedUntil = locked ? new Date(now.getTime() + LOCKOUT_DURATION_MS).toISOString() : null;
+        const failedUser: StoredUser = { ...user, failedLoginAttempts: locked ? 0 : failedLoginAttempts, lockedUntil };
+        db.save('users', failedUser);
+        return locked ? { ok: false, reason: 'ACCOUNT_LOCKED', lockedUntil: lockedUntil! } : { ok: false, reason: 'INVALID_CREDENTIALS' };
+    }
+
+    // Checked after the password so the answer does not reveal which accounts exist.
+    if (!user.isActive) return { ok: false, reason: 'ACCOUNT_DISABLED' };
+
+    const loggedIn: StoredUser = { ...user, failedLoginAttempts: 0, lockedUntil: null };
+    db.save('users', loggedIn);
+    return { ok: true, user: loggedIn };
+};
+
+export interface Session {
+    token: string;
+    userId: string;
+    expiresAt: number; // epoch ms
+}
+
+export interface SessionStore {
+    create: (userId: string, now?: Date) => Session;
+    // Returns undefined for unknown or expired tokens.
+    find: (token: string, now?: Date) => Session | undefined;
+    revoke: (token: string) => void;
+    revokeUser: (userId: string) => void;
+}
+
+/**
+ * In-memory session tokens. Restarting the API server logs everybody out.
+ */
+export const createSessionStore = (ttlMs: number = SESSION_TTL_MS): SessionStore => {
+    const sessions = new Map<string, Session>();
+
+    const purgeExpired = (now: number) => {
+        sessions.forEach((session, token) => { if (session.expiresAt <= now) sessions.delete(token); });
+    };
+
+    return {
+        create: (userId, now = new Date()) => {
+            purgeExpired(now.getTime());
+            const session = { token: randomBytes(32).toString('hex'), userId, expiresAt: now.getTime() + ttlMs };
+            sessions.set(session.token, session);
+            return session;
+        },
+        find: (token, now = new Date()) => {
+            const session = sessions.get(token);
+            if (!session) return undefined;
+            if (session.expiresAt <= now.getTime()) {
+                sessions.delete(token);
+                return undefined;
+            }
+            return session;
+        },
+        revoke: (token) => { sessions.delete(token); },
+        revokeUser: (userId) => {
+            sessions.forEach((session, token) => { if (session.userId === userId) sessions.delete(token); });
+        },
+    };
+};
@@ -0,0 +1,180 @@
+// Contacts of the outbound campaigns. They are stored apart from their campaign and
+// only changed here, one contact at a time, so agents never overwrite each other's
+// results and no request has to carry a whole contact list. Changed contacts and
+// quota counters are sent on the event stream, so clients never reload a whole campaign.
+import type { Campaign, CampaignContact, CampaignSettings, Contact, ContactCallback, PreviewDecisionRecord } from '../types.ts';
+import type { Database } from './db/database.ts';
+import type { EventHub } from './events.ts';
+import { applyQualificationToQuotas, pickNextContact } from '../services/contactRules.ts';
+import { isRetryDue, recordContactAttempt, requeueContact } from '../services/retryScheduler.ts';
+import { applyCallback } from '../services/callbacks.ts';
+import { applyPreviewDecision } from '../services/preview.ts';
+
+// A contact served to an agent is not served to anyone else until its call is
+// recorded, the agent is served another one or this delay elapses.
+const RESERVATION_MS = 30 * 60 * 1000;
+
+/**
+ * Settings of a campaign sent by a client. Its contacts are dropped and the quota
+ * counters are counted by the server: the stored ones are kept.
+ */
+export const toCampaignSettings = (campaign: CampaignSettings & { contacts?: Contact[] }, existing?: CampaignSettings): CampaignSettings => {
+    const { contacts: _contacts, ...settings } = campaign;
+    if (!existing) return settings;
+    return {
+        ...settings,
+        quotaRules: settings.quotaRules.map(rule => {
+            const stored = existing.quotaRules.find(r => r.id === rule.id);
+            return stored ? { ...rule, currentCount: stored.currentCount } : rule;
+        }),
+    };
+};
+
+/**
+ * Moves the contacts embedded in campaigns (seed data, databases created before
+ * contacts had their own collection) to the contacts collection.
+ */
+export const moveEmbeddedContacts = (db: Database): void => {
+    (db.list('campaigns') as (CampaignSettings & { contacts?: Contact[] })[])
+        .filter(campaign => campaign.contacts)
+        .forEach(campaign => {
+            campaign.contacts?.forEach(contact => db.save('contacts', { ...contact, campaignId: campaign.id }));
+            db.save('campaigns', toCampaignSettings(campaign));
+        });
+};
+
+export type ContactImportOutcome =
+    | { ok: true; contacts: CampaignContact[] }
+    | { ok: false; reason: 'CAMPAIGN_NOT_FOUND' }
+    // Contact ids are unique across campaigns: importing one of another campaign would move it.
+    | { ok: false; reason: 'CONTACT_IN_OTHER_CAMPAIGN'; contactIds: string[] };
+
+export type ContactChangeOutcome =
+    | { ok: true; contact: CampaignContact }
+    | { ok: false; reason: 'CONTACT_NOT_FOUND' | 'QUALIFICATION_NOT_FOUND' };
+
+export interface ContactDesk {
+    // The campaign with its contacts, as the contact rules expect it.
+    getCampaign: (campaignId: string) => Campaign | undefined;
+    // Adds or replaces contacts of the campaign; nothing is stored when one is refused.
+    importContacts: (campaignId: string, contacts: Contact[]) => ContactImportOutcome;
+    removeCampaignContacts: (campaignId: string) => void;
+    // Next contact for the agent (see pickNextContact), reserved to them.
+    // Undefined when the campaign has nothing left to serve.
+    pickNext: (campaignId: string, agentId: string, excludedContactIds?: string[], now?: Date) => CampaignContact | undefined;
+    // Contact of a call the dialer connected to the agent, reserved to them like a served one.
+    reserve: (contactId: string, agentId: string, now?: Date) => void;
+    isReserved: (contactId: string, now?: Date) => boolean;
+    // Qualified call: applies the retry rules and the quotas of the campaign.
+    recordAttempt: (contactId: string, qualificationId: string, callId?: string, callback?: ContactCallback | null, now?: Date) => ContactChangeOutcome;
+    saveCallback: (contactId: string, callback: ContactCallback | null) => ContactChangeOutcome;
+    applyPreviewDecision: (record: PreviewDecisionRecord) => void;
+    // Puts the contacts whose retry is due back in the queue; returns their number.
+    requeueDueContacts: (now?: Date) => number;
+}
+
+export const createContactDesk = (db: Database, hub: EventHub): ContactDesk => {
+    // Contact id -> agent it was served to, and until when.
+    const reservations = new Map<string, { agentId: string; until: number }>();
+
+    const isReservedToOther = (contactId: string, agentId: string, now: number) => {
+        const reservation = reservations.get(contactId);
+        return !!reservation && reservation.agentId !== agentId && reservation.until > now;
+    };
+
+    const releaseAgent = (agentId: string) => {
+        reservations.forEach((reservation, contactId) => {
+            if (reservation.agentId === agentId) reservations.delete(contactId);
+        });
+    };
+
+    // An agent holds one contact at a time.
+    const reserve = (contactId: string, agentId: string, now: Date = new Date()) => {
+        releaseAgent(agentId);
+        reservations.set(contactId, { agentId, until: now.getTime() + RESERVATION_MS });
+    };
+
+    const getCampaign = (campaignId: string): Campaign | undefined => {
+        const campaign = db.get('campaigns', campaignId);
+        return campaign && { ...campaign, contacts: db.find('contacts', 'campaignId', campaignId) };
+    };
+
+    const publishChanges = (campaignId: string, contacts: CampaignContact[]) => {
+        if (contacts.length > 0) hub.sendChange({ type: 'contacts.changed', campaignId, contacts });
+    };
+
+    const saveContact = (contact: CampaignContact): ContactChangeOutcome => {
+        reservations.delete(contact.id);
+        const saved = db.save('contacts', contact);
+        publishChanges(saved.campaignId, [saved]);
+        return { ok: true, contact: saved };
+    };
+
+    return {
+        getCampaign,
+
+        importContacts: (campaignId, contacts) => {
+            if (!db.get('campaigns', campaignId)) return { ok: false, reason: 'CAMPAIGN_NOT_FOUND' };
+            const contactIds = contacts
+                .filter(contact => (db.get('contacts', contact.id)?.campaignId ?? campaignId) !== campaignId)
+                .map(contact => contact.id);
+            if (contactIds.length > 0) return { ok: false, reason: 'CONTACT_IN_OTHER_CAMPAIGN', contactIds };
+            const saved = contacts.map(contact => db.save('contacts', { ...contact, campaignId }));
+            publishChanges(campaignId, saved);
+            return { ok: true, contacts: saved };
+        },
+
+        removeCampaignContacts: (campaignId) => {
+            db.find('contacts', 'campaignId', campaignId).forEach(contact => {
+                reservations.delete(contact.id);
+                db.remove('contacts', contact.id);
+            });
+        },
+
+        pickNext: (campaignId, agentId, excludedContactIds = [], now = new Date()) => {
+            const campaign = getCampaign(campaignId);
+            if (!campaign) return undefined;
+            releaseAgent(agentId);
+            const contacts = campaign.contacts.filter(contact =>
+                !excludedContactIds.includes(contact.id) && !isReservedToOther(contact.id, agentId, now.getTime()));
+            const next = pickNextContact({ ...campaign, contacts }, db.list('dncEntries'), agentId, now) as CampaignContact | undefined;
+            if (next) reserve(next.id, agentId, now);
+            return next;
+        },
+
+        reserve,
+
+        isReserved: (contactId, now = new Date()) => (reservations.get(contactId)?.until ?? 0) > now.getTime(),
+
+        recordAttempt: (contactId, qualificationId, callId, callback, now = new Date()) => {
+            const contact = db.get('contacts', contactId);
+            const campaign = contact && db.get('campaigns', contact.campaignId);
+            if (!contact || !campaign) return { ok: false, reason: 'CONTACT_NOT_FOUND' };
+            const qualification = db.get('qualifications', qualificationId);
+            if (!qualification) return { ok: false, reason: 'QUALIFICATION_NOT_FOUND' };
+            const updatedCampaign = applyQualificationToQuotas(campaign, contact, qualification);
+            if (updatedCampaign !== campaign) hub.sendChange({ type: 'campaign.saved', campaign: db.save('campaigns', updatedCampaign) });
+            // Recording the call clears the previous callback: the new one is set afterwards.
+            const attempted = recordContactAttempt(contact, campaign, qualificationId, now, callId);
+            return saveContact(callback ? applyCallback(attempted, callback) : attempted);
+        },
+
+        saveCallback: (contactId, callback) => {
+            const contact = db.get('contacts', contactId);
+            return contact ? saveContact(applyCallback(contact, callback)) : { ok: false, reason: 'CONTACT_NOT_FOUND' };
+        },
+
+        applyPreviewDecision: (record) => {
+            const contact = db.get('contacts', record.contactId);
+            if (contact) saveContact(applyPreviewDecision(contact, record.decision));
+        },
+
+        requeueDueContacts: (now = new Date()) => {
+            const due = db.find('contacts', 'status', 'called').filter(contact => isRetryDue(contact, now));
+            const requeued = due.map(contact => db.save('contacts', requeueContact(contact)));
+            new Set(requeued.map(contact => contact.campaignId))
+                .forEach(campaignId => publishChanges(campaignId, requeued.filter(contact => contact.campaignId === campaignId)));
+            return due.length;
+        },
+    };
+};
@@ -0,0 +1,45 @@
+import type { ApiCollections, ApiCollectionName, ApiSettings, ApiSettingKey } from '../../services/apiContract.ts';
+
+/**
+ * Storage backend of the REST API. Implementations are interchangeable:
+ * the in-memory one for demos and development, SQLite for persistent installs.
+ * Entities are stored as whole documents keyed by their collection key.
+ */
+export interface Database {
+    list: <K extends ApiCollectionName>(collection: K) => ApiCollections[K][];
+    get: <K extends ApiCollectionName>(collection: K, key: string) => ApiCollections[K] | undefined;
+    // Entities whose `field` holds `value`, e.g. the contacts of one campaign,
+    // in insertion order; `page` skips `offset` of them and returns `limit` at most.
+    find: <K extends ApiCollectionName>(collection: K, field: keyof ApiCollections[K] & string, value: string, page?: DatabasePage) => ApiCollections[K][];
+    count: <K extends ApiCollectionName>(collection: K, field: keyof ApiCollections[K] & string, value: string) => number;
+    // Inserts or replaces the entity.
+    save: <K extends ApiCollectionName>(collection: K, entity: ApiCollections[K]) => ApiCollections[K];
+    // Returns false when no entity had this key.
+    remove: (collection: ApiCollectionName, key: string) => boolean;
+    getSetting: <K extends ApiSettingKey>(key: K) => ApiSettings[K] | undefined;
+    saveSetting: <K extends ApiSettingKey>(key: K, value: ApiSettings[K]) => ApiSettings[K];
+    isEmpty: () => boolean;
+    close: () => void;
+}
+
+export interface DatabasePage {
+    offset: number;
+    limit: number;
+}
+
+export type SeedData = { [K in ApiCollectionName]?: ApiCollections[K][] } & { [K in ApiSettingKey]?: ApiSettings[K] };
+
+/**
+ * Loads the seed data into an empty database. Does nothing once data exists,
+ * so restarting a persistent server never overwrites its content.
+ */
+export const seedDatabase = (db: Database, seed: SeedData, collections: ApiCollectionName[], settings: ApiSettingKey[]): void => {
+    if (!db.isEmpty()) return;
+    collections.forEach(collection => {
+        (seed[collection] as ApiCollections[typeof collection][] | undefined)?.forEach(entity => db.save(collection, entity));
+    });
+    settings.forEach(key => {
+        const value = seed[key];
+        if (value !== undefined) db.saveSetting(key, value);
+    });
+};
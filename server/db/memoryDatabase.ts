@@ -0,0 +1,51 @@
+import type { ApiCollections, ApiCollectionName, ApiSettings, ApiSettingKey } from '../../services/apiContract.ts';
+import { getEntityKey } from '../../services/apiContract.ts';
+import type { Database } from './database.ts';
+
+// Entities are deep-copied in and out so callers can never mutate the stored state.
+const clone = <T>(value: T): T => structuredClone(value);
+
+export const createMemoryDatabase = (): Database => {
+    const collections = new Map<ApiCollectionName, Map<string, unknown>>();
+    const settings = new Map<ApiSettingKey, unknown>();
+
+    const getCollection = (collection: ApiCollectionName) => {
+        let entities = collections.get(collection);
+        if (!entities) {
+            entities = new Map();
+            collections.set(collection, entities);
+        }
+        return entities;
+    };
+
+    const findEntities = (collection: ApiCollectionName, field: string, value: string) => [...getCollection(collection).values()]
+        .filter(entity => (entity as Record<string, unknown>)[field] === value);
+
+    return {
+        list: (collection) => [...getCollection(collection).values()].map(clone) as ApiCollections[typeof collection][],
+        get: (collection, key) => {
+            const entity = getCollection(collection).get(key);
+            return entity === undefined ? undefined : clone(entity) as ApiCollections[typeof collection];
+        },
+        find: (collection, field, value, page) => {
+            const found = findEntities(collection, field, value);
+            return (page ? found.slice(page.offset, page.offset + page.limit) : found).map(clone) as ApiCollections[typeof collection][];
+        },
+        count: (collection, field, value) => findEntities(collection, field, value).length,
+        save: (collection, entity) => {
+            getCollection(collection).set(getEntityKey(collection, entity), clone(entity));
+            return entity;
+        },
+        remove: (collection, key) => getCollection(collection).delete(key),
+        getSetting: (key) => {
+            const value = settings.get(key);
+            return value === undefined ? undefined : clone(value) as ApiSettings[typeof key];
+        },
+        saveSetting: (key, value) => {
+            settings.set(key, clone(value));
+            return value;
+        },
+        isEmpty: () => settings.size === 0 && [...collections.values()].every(entities => entities.size === 0),
+        close: () => {},
+    };
+};
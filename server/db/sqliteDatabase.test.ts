@@ -0,0 +1,44 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { DatabaseSync } from 'node:sqlite';
+import type { CampaignContact } from '../../types.ts';
+import type { Database } from './database.ts';
+import { createSqliteDatabase } from './sqliteDatabase.ts';
+
+describe('createSqliteDatabase: find', () => {
+    let dir: string;
+    let db: Database;
+    const contact = (id: string, campaignId: string): CampaignContact =>
+        ({ id, campaignId, firstName: '', lastName: '', phoneNumber: '0611223344', postalCode: '', status: 'pending' });
+    before(() => {
+        dir = mkdtempSync(join(tmpdir(), 'sqlite-'));
+        db = createSqliteDatabase(join(dir, 'data.sqlite'));
+        ['a', 'b', 'a', 'b', 'a'].forEach((campaignId, i) => db.save('contacts', contact(`contact-${i}`, campaignId)));
+    });
+    after(() => {
+        db.close();
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('returns the matching entities in insertion order, a page at a time', () => {
+        assert.deepEqual(db.find('contacts', 'campaignId', 'a').map(c => c.id), ['contact-0', 'contact-2', 'contact-4']);
+        assert.deepEqual(db.find('contacts', 'campaignId', 'a', { offset: 1, limit: 1 }).map(c => c.id), ['contact-2']);
+        assert.equal(db.count('contacts', 'campaignId', 'a'), 3);
+        assert.equal(db.count('contacts', 'status', 'pending'), 5);
+    });
+
+    it('reads the contacts of a campaign through the campaign index', () => {
+        const raw = new DatabaseSync(join(dir, 'data.sqlite'));
+        const plan = raw.prepare("EXPLAIN QUERY PLAN SELECT data FROM entities WHERE collection = ? AND json_extract(data, '$.campaignId') = ? ORDER BY rowid")
+            .all('contacts', 'a') as { detail: string }[];
+        raw.close();
+        assert.match(plan.map(step => step.detail).join('\n'), /USING INDEX entities_campaign_id/);
+    });
+
+    it('rejects field names that are not property names', () => {
+        assert.throws(() => db.find('contacts', "campaignId') OR ('1" as 'campaignId', 'a'));
+    });
+});
@@ -0,0 +1,86 @@
+import { DatabaseSync } from 'node:sqlite';
+import type { StatementSync } from 'node:sqlite';
+import { getEntityKey } from '../../services/apiContract.ts';
+import type { Database } from './database.ts';
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS entities (
+    collection TEXT NOT NULL,
+    key TEXT NOT NULL,
+    data TEXT NOT NULL, -- JSON document
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (collection, key)
+);
+-- Contacts are read per campaign, by the API and by the dialer on every tick (see find()).
+CREATE INDEX IF NOT EXISTS entities_campaign_id ON entities (collection, json_extract(data, '$.campaignId'));
+CREATE TABLE IF NOT EXISTS settings (
+    key TEXT PRIMARY KEY,
+    data TEXT NOT NULL, -- JSON document
+    updated_at TEXT NOT NULL
+);
+`;
+
+/**
+ * SQLite storage using Node's built-in driver (Node 22.5+), so no native module
+ * has to be compiled on the server. Pass ':memory:' for a throwaway database.
+ */
+export const createSqliteDatabase = (filename: string): Database => {
+    const db = new DatabaseSync(filename);
+    db.exec('PRAGMA journal_mode = WAL;');
+    db.exec(SCHEMA);
+
+    const listStmt = db.prepare('SELECT data FROM entities WHERE collection = ? ORDER BY rowid');
+    const getStmt = db.prepare('SELECT data FROM entities WHERE collection = ? AND key = ?');
+    const saveStmt = db.prepare(`
+        INSERT INTO entities (collection, key, data, updated_at) VALUES (?, ?, ?, ?)
+        ON CONFLICT (collection, key) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at
+    `);
+    const removeStmt = db.prepare('DELETE FROM entities WHERE collection = ? AND key = ?');
+    const getSettingStmt = db.prepare('SELECT data FROM settings WHERE key = ?');
+    const saveSettingStmt = db.prepare(`
+        INSERT INTO settings (key, data, updated_at) VALUES (?, ?, ?)
+        ON CONFLICT (key) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at
+    `);
+    const countStmt = db.prepare('SELECT (SELECT COUNT(*) FROM entities) + (SELECT COUNT(*) FROM settings) AS total');
+
+    // The JSON path is part of the statements, not a parameter, so that SQLite can use
+    // the index of the field when it has one. Fields are property names of the entities.
+    const findStatements = new Map<string, { find: StatementSync; findPage: StatementSync; count: StatementSync }>();
+    const getFindStatements = (field: string) => {
+        let statements = findStatements.get(field);
+        if (!statements) {
+            if (!/^\w+$/.test(field)) throw new Error(`Invalid field name '${field}'`);
+            const where = `WHERE collection = ? AND json_extract(data, '$.${field}') = ?`;
+            statements = {
+                find: db.prepare(`SELECT data FROM entities ${where} ORDER BY rowid`),
+                findPage: db.prepare(`SELECT data FROM entities ${where} ORDER BY rowid LIMIT ? OFFSET ?`),
+                count: db.prepare(`SELECT COUNT(*) AS total FROM entities ${where}`),
+            };
+            findStatements.set(field, statements);
+        }
+        return statements;
+    };
+
+    const parse = (row: unknown) => row === undefined ? undefined : JSON.parse((row as { data: string }).data);
+
+    return {
+        list: (collection) => listStmt.all(collection).map(parse),
+        get: (collection, key) => parse(getStmt.get(collection, key)),
+        find: (collection, field, value, page) => (page
+            ? getFindStatements(field).findPage.all(collection, value, page.limit, page.offset)
+            : getFindStatements(field).find.all(collection, value)).map(parse),
+        count: (collection, field, value) => Number((getFindStatements(field).count.get(collection, value) as { total: number }).total),
+        save: (collection, entity) => {
+            saveStmt.run(collection, getEntityKey(collection, entity), JSON.stringify(entity), new Date().toISOString());
+            return entity;
+        },
+        remove: (collection, key) => Number(removeStmt.run(collection, key).changes) > 0,
+        getSetting: (key) => parse(getSettingStmt.get(key)),
+        saveSetting: (key, value) => {
+            saveSettingStmt.run(key, JSON.stringify(value), new Date().toISOString());
+            return value;
+        },
+        isEmpty: () => Number((countStmt.get() as { total: number }).total) === 0,
+        close: () => db.close(),
+    };
+};
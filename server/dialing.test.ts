@@ -0,0 +1,55 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { SimulatedTelephonyOptions } from '../services/telephony.ts';
+import { createSimulatedTelephony } from '../services/telephony.ts';
+import type { TestApi } from './testApi.ts';
+import { startTestApi } from './testApi.ts';
+import { createDialingManager } from './dialing.ts';
+
+describe('createDialingManager', () => {
+    let api: TestApi;
+    // Runs a dialing manager until its first calls are over.
+    const dial = async (options: SimulatedTelephonyOptions, whileRinging = () => {}) => {
+        const telephony = createSimulatedTelephony({ busyRate: 0, failureRate: 0, machineRate: 0, timeScale: 1, ...options });
+        const manager = createDialingManager(api.db, api.hub, api.contacts, telephony, { tickIntervalMs: 60000 });
+        api.hub.publish({ type: 'agent.status', agentId: 'user-agent-1', status: 'En Attente', at: new Date().toISOString() });
+        manager.start();
+        whileRinging();
+        await new Promise(resolve => setTimeout(resolve, 100));
+        manager.stop();
+    };
+    const getCampaignState = () => api.hub.getSnapshot().campaigns.find(campaign => campaign.id === 'campaign-1');
+
+    before(async () => {
+        api = await startTestApi();
+        // campaign-1 dials at any time; contact-3 has a personal callback of user-agent-1, due.
+        const campaign = api.db.get('campaigns', 'campaign-1');
+        assert.ok(campaign);
+        api.db.save('campaigns', { ...campaign, runStatus: 'running', callingDays: [0, 1, 2, 3, 4, 5, 6], callingStartTime: '00:00', callingEndTime: '24:00', amdEnabled: false });
+        api.db.list('publicHolidays').forEach(holiday => api.db.remove('publicHolidays', holiday.id));
+    });
+    after(() => api.close());
+
+    it('keeps a callback scheduled when its call is abandoned', async () => {
+        // The agent goes on a break while the callback rings.
+        await dial({ answerRate: 1 }, () => api.hub.publish({ type: 'agent.status', agentId: 'user-agent-1', status: 'En Pause', at: new Date().toISOString() }));
+
+        const contact = api.db.get('contacts', 'contact-3');
+        assert.deepEqual(contact?.attempts?.map(attempt => attempt.qualificationId), ['std-96']);
+        assert.equal(contact?.status, 'called');
+        assert.equal(contact?.callback?.agentId, 'user-agent-1');
+        assert.deepEqual(getCampaignState(), { ...getCampaignState(), offered: 1, answered: 1, hitRate: 100 });
+    });
+
+    it('counts the calls connected to agents as answered', async () => {
+        await dial({ answerRate: 1 });
+        assert.ok(api.contacts.isReserved('contact-3'));
+        assert.deepEqual(getCampaignState(), { ...getCampaignState(), offered: 2, answered: 2, hitRate: 100 });
+    });
+
+    it('counts the calls that reached no one as offered only', async () => {
+        await dial({ answerRate: 0, busyRate: 1 });
+        assert.deepEqual(api.db.get('contacts', 'contact-1')?.attempts?.map(attempt => attempt.qualificationId), ['std-90']);
+        assert.deepEqual(getCampaignState(), { ...getCampaignState(), offered: 3, answered: 2, hitRate: (2 / 3) * 100 });
+    });
+});
@@ -0,0 +1,176 @@
+import type { AgentStatus, Campaign, ContactCallback } from '../types.ts';
+import type { Dialer, DialerEvent } from '../services/dialer.ts';
+import { createDialer, isDialerDriven } from '../services/dialer.ts';
+import type { TelephonyAdapter } from '../services/telephony.ts';
+import { canDialCampaign } from '../services/campaignLifecycle.ts';
+import { dialerEventToRealtime } from '../services/realtimeEvents.ts';
+import { DIALER_OUTCOME_QUALIFICATION_IDS } from '../services/retryScheduler.ts';
+import type { Database } from './db/database.ts';
+import type { EventHub } from './events.ts';
+import type { ContactDesk } from './contacts.ts';
+import type { CampaignCallCount } from './supervision.ts';
+import { publishCampaignRunStatus, publishCampaignState } from './supervision.ts';
+
+export interface DialingManager {
+    start: () => void;
+    stop: () => void;
+    tick: () => void;
+}
+
+export interface DialingManagerOptions {
+    tickIntervalMs?: number;
+}
+
+type DialerOutcome = keyof typeof DIALER_OUTCOME_QUALIFICATION_IDS;
+
+/**
+ * Runs the outbound dialer (services/dialer.ts) of every running campaign it
+ * places the calls of: progressive campaigns without a preview step and
+ * predictive ones. The agents waiting on the event stream are the idle agents
+ * of their campaign's dialer. Answered calls go to the agent picked, with the
+ * contact reserved to them until they record the call; the calls no agent
+ * took are recorded against their contact. The calls are counted in the live
+ * state of their campaign. A campaign reaching its abandon ceiling is paused,
+ * and dials with new counters once resumed.
+ */
+export const createDialingManager = (db: Database, hub: EventHub, contacts: ContactDesk, telephony: TelephonyAdapter, { tickIntervalMs = 1000 }: DialingManagerOptions = {}): DialingManager => {
+    const dialers = new Map<string, Dialer>();
+    // Contacts being dialed, kept across dialers: calls of a paused dialer still ring.
+    const dialingContactIds = new Set<string>();
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let unsubscribe: (() => void) | null = null;
+
+    // Agents dial for their first campaign, the one of the agent interface.
+    const isAgentOf = (agentId: string, campaignId: string) => db.get('users', agentId)?.campaignIds[0] === campaignId;
+
+    const updateAgent = (dialer: Dialer, agentId: string, status: AgentStatus) => {
+        dialer.agentLogin(agentId);
+        if (status === 'En Attente') dialer.agentReady(agentId);
+        else dialer.agentBusy(agentId);
+    };
+
+    const recordOutcome = (event: Extract<DialerEvent, { contact: unknown }>, outcome: DialerOutcome, callback?: ContactCallback | null) => {
+        const result = contacts.recordAttempt(event.contact.id, DIALER_OUTCOME_QUALIFICATION_IDS[outcome], event.callId, callback);
+        if (result.ok === false) console.error(`Dialer: outcome of call ${event.callId} not recorded (${result.reason})`);
+    };
+
+    const countCall = (campaignId: string, count: CampaignCallCount) => {
+        const campaign = db.get('campaigns', campaignId);
+        if (campaign) publishCampaignState(db, hub, campaign, count);
+    };
+
+    const pauseCampaign = (campaignId: string) => {
+        dialers.delete(campaignId);
+        const campaign = db.get('campaigns', campaignId);
+        if (!campaign) return;
+        console.warn(`Dialer: campaign '${campaign.name}' paused, its abandon rate reached ${campaign.maxAbandonRate}%`);
+        publishCampaignRunStatus(db, hub, db.save('campaigns', { ...campaign, runStatus: 'paused' }));
+    };
+
+    const handleEvent = (event: DialerEvent) => {
+        const realtime = dialerEventToRealtime(event, db.get('campaigns', event.campaignId)?.callerId ?? '');
+        if (realtime) hub.publish(realtime);
+        switch (event.type) {
+            case 'CALL_STARTED':
+                dialingContactIds.add(event.contact.id);
+                countCall(event.campaignId, { offered: 1 });
+                return;
+            case 'CALL_CONNECTED':
+                countCall(event.campaignId, { answered: 1 });
+                contacts.reserve(event.contact.id, event.agentId);
+                if (realtime?.type === 'call.updated') {
+                    hub.sendCommand({ type: 'call.connected', agentId: event.agentId, call: realtime.call, contact: event.contact });
+                }
+                break;
+            case 'CALL_ABANDONED':
+                // Picked up, then hung up on for want of an agent. Failed calls and
+                // answering machines reached no one.
+                countCall(event.campaignId, { answered: 1 });
+                // A callback stays scheduled, to be dialed again once its agent is free.
+                recordOutcome(event, 'ABANDONED', db.get('contacts', event.contact.id)?.callback);
+                break;
+            case 'CALL_FAILED':
+                // Busy and unanswered numbers are retried following the campaign's retry rules.
+                if (event.outcome !== 'ANSWERED') recordOutcome(event, event.outcome);
+                break;
+            case 'CALL_MACHINE':
+                // Qualified automatically, whether or not a message was left.
+                recordOutcome(event, 'MACHINE');
+                break;
+            case 'DIALER_STOPPED':
+                if (event.reason === 'ABANDON_RATE') pauseCampaign(event.campaignId);
+                return;
+        }
+        dialingContactIds.delete(event.contact.id);
+    };
+
+    const createCampaignDialer = (campaign: Campaign): Dialer => {
+        // A campaign deleted between two ticks reads as inactive until its dialer is dropped.
+        let lastRead = campaign;
+        const dialer = createDialer({
+            telephony,
+            getCampaign: () => {
+                const current = contacts.getCampaign(campaign.id);
+                lastRead = current
+                    ? { ...current, contacts: current.contacts.filter(c => !dialingContactIds.has(c.id) && !contacts.isReserved(c.id)) }
+                    : { ...lastRead, isActive: false };
+                return lastRead;
+            },
+            getPublicHolidays: () => db.list('publicHolidays'),
+            getAudioFiles: () => db.list('audioFiles'),
+            getDncEntries: () => db.list('dncEntries'),
+            onEvent: handleEvent,
+            tickIntervalMs,
+        });
+        hub.getSnapshot().agents
+            .filter(agent => isAgentOf(agent.agentId, campaign.id))
+            .forEach(agent => updateAgent(dialer, agent.agentId, agent.status));
+        dialers.set(campaign.id, dialer);
+        return dialer;
+    };
+
+    // Dialers follow the run status of their campaign. One that ran out of
+    // contacts stops itself and is started again to pick up retries and imports.
+    const tick = () => {
+        const campaigns = db.list('campaigns');
+        campaigns.forEach(campaign => {
+            const dialer = dialers.get(campaign.id);
+            if (!isDialerDriven(campaign) || !canDialCampaign(campaign)) return dialer?.stop();
+            (dialer ?? createCampaignDialer({ ...campaign, contacts: [] })).start();
+        });
+        dialers.forEach((dialer, campaignId) => {
+            if (campaigns.some(campaign => campaign.id === campaignId)) return;
+            dialer.stop();
+            dialers.delete(campaignId);
+        });
+    };
+
+    const listen = () => hub.subscribe(message => {
+        switch (message.type) {
+            case 'agent.status':
+                return dialers.forEach((dialer, campaignId) => {
+                    if (isAgentOf(message.agentId, campaignId)) updateAgent(dialer, message.agentId, message.status);
+                });
+            case 'agent.loggedOut':
+                return dialers.forEach(dialer => dialer.agentLogout(message.agentId));
+        }
+    });
+
+    return {
+        start: () => {
+            if (timer !== null) return;
+            unsubscribe = listen();
+            timer = setInterval(tick, tickIntervalMs);
+            tick();
+        },
+        stop: () => {
+            if (timer === null) return;
+            clearInterval(timer);
+            unsubscribe?.();
+            dialers.forEach(dialer => dialer.stop());
+            timer = null;
+            unsubscribe = null;
+        },
+        tick,
+    };
+};
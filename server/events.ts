@@ -0,0 +1,139 @@
+import type { IncomingMessage } from 'node:http';
+import type { Duplex } from 'node:stream';
+import type { Permission } from '../types.ts';
+import type { AgentMessage, DataChangedMessage, RealtimeEvent, RealtimeServerMessage, SupervisionSnapshot } from '../services/realtimeEvents.ts';
+import { EMPTY_SNAPSHOT, applyRealtimeMessage, isAgentMessage, isRealtimeEvent } from '../services/realtimeEvents.ts';
+import { API_COLLECTION_PERMISSIONS, canReadCampaignContacts, getUserPermissions, hasAnyPermission } from '../services/permissions.ts';
+import type { Database } from './db/database.ts';
+import type { SessionStore, StoredUser } from './auth.ts';
+import { acceptWebSocket, rejectUpgrade } from './websocket.ts';
+
+export const EVENT_STREAM_PATH = '/api/events';
+
+export interface EventHub {
+    publish: (event: RealtimeEvent) => void;
+    // Supervisor commands and call offers, delivered to the agent's own connections
+    // only (see createEventStreamHandler()).
+    sendCommand: (command: AgentMessage) => void;
+    // Delivered to the users who read the changed data.
+    sendChange: (message: DataChangedMessage) => void;
+    getSnapshot: () => SupervisionSnapshot;
+    subscribe: (listener: (message: RealtimeServerMessage) => void) => () => void;
+}
+
+/**
+ * Keeps the live supervision state and fans every event out to the subscribers.
+ */
+export const createEventHub = (): EventHub => {
+    let snapshot = EMPTY_SNAPSHOT;
+    const listeners = new Set<(message: RealtimeServerMessage) => void>();
+
+    return {
+        publish: (event) => {
+            snapshot = applyRealtimeMessage(snapshot, event);
+            listeners.forEach(listener => listener(event));
+        },
+        sendCommand: (command) => {
+            listeners.forEach(listener => listener(command));
+        },
+        sendChange: (message) => {
+            listeners.forEach(listener => listener(message));
+        },
+        getSnapshot: () => snapshot,
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => { listeners.delete(listener); };
+        },
+    };
+};
+
+// Agents only report their own state and calls; campaign states come from the telephony layer.
+const canPublish = (event: RealtimeEvent, user: StoredUser, permissions: Permission[], snapshot: SupervisionSnapshot): boolean => {
+    if (!permissions.includes('agent.call')) return false;
+    switch (event.type) {
+        case 'agent.status':
+        case 'agent.loggedOut':
+            return event.agentId === user.id;
+        case 'call.started':
+        case 'call.updated':
+            return event.call.agentId === user.id;
+        case 'call.ended':
+            return snapshot.calls.some(call => call.id === event.callId && call.agentId === user.id);
+        case 'campaign.state':
+            return false;
+    }
+};
+
+/**
+ * Handles the 'upgrade' requests of the HTTP server on /api/events?token=<session token>
+ * (browsers cannot set headers on a WebSocket). Users with 'supervision.view'
+ * receive the current state, then every event; agents publish their own status
+ * and calls over the same connection and receive the commands of their supervisors
+ * and the state of their campaigns, are offered the inbound calls of the ACD and
+ * get the outbound calls the dialer connects them to. Every user who reads contacts
+ * receives the changes of the contacts and campaigns they may read.
+ * An agent whose connection closes is logged out.
+ */
+export const createEventStreamHandler = (db: Database, sessions: SessionStore, hub: EventHub) => (req: IncomingMessage, socket: Duplex): void => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname !== EVENT_STREAM_PATH) return rejectUpgrade(socket, 404, 'Not Found');
+
+    const authenticate = () => {
+        const session = sessions.find(url.searchParams.get('token') || '');
+        const user = session ? db.get('users', session.userId) as StoredUser | undefined : undefined;
+        return user && user.isActive ? user : undefined;
+    };
+    const user = authenticate();
+    if (!user) return rejectUpgrade(socket, 401, 'Unauthorized');
+    const permissions = getUserPermissions(user, db.list('permissionProfiles'));
+    // Supervisors and agents are among the users who read contacts.
+    if (!hasAnyPermission(permissions, API_COLLECTION_PERMISSIONS.contacts.read)) return rejectUpgrade(socket, 403, 'Forbidden');
+
+    const connection = acceptWebSocket(req, socket);
+    if (!connection) return;
+
+    const isSupervisor = permissions.includes('supervision.view');
+    if (isSupervisor) {
+        connection.send(JSON.stringify({ type: 'snapshot', snapshot: hub.getSnapshot() } satisfies RealtimeServerMessage));
+    }
+    const isForThisUser = (message: RealtimeServerMessage) => {
+        if (isAgentMessage(message)) return message.agentId === user.id;
+        if (message.type === 'contacts.changed') return canReadCampaignContacts(user, permissions, message.campaignId);
+        if (message.type === 'campaign.saved') return hasAnyPermission(permissions, API_COLLECTION_PERMISSIONS.campaigns.read);
+        // Agents follow the run status of their campaigns, to stop dialing when one is paused.
+        if (message.type === 'campaign.state' && user.campaignIds.includes(message.campaign.id)) return true;
+        return isSupervisor;
+    };
+    const unsubscribe = hub.subscribe(message => {
+        if (isForThisUser(message)) connection.send(JSON.stringify(message));
+    });
+
+    let hasPublishedStatus = false;
+    connection.onMessage(text => {
+        // The session is checked again so a revoked account stops publishing at once.
+        if (!authenticate()) return connection.close(1008);
+        let event: unknown;
+        try {
+            event = JSON.parse(text);
+        } catch {
+            return;
+        }
+        if (!isRealtimeEvent(event) || !canPublish(event, user, permissions, hub.getSnapshot())) {
+            console.warn(`Event stream: rejected event from user '${user.id}'`);
+            return;
+        }
+        if (event.type === 'agent.status') hasPublishedStatus = true;
+        if (event.type === 'agent.loggedOut') hasPublishedStatus = false;
+        hub.publish(event);
+    });
+
+    connection.onClose(() => {
+        unsubscribe();
+        if (!hasPublishedStatus) return;
+        const at = new Date().toISOString();
+        hub.getSnapshot().calls
+            .filter(call => call.agentId === user.id)
+            .forEach(call => hub.publish({ type: 'call.ended', callId: call.id, at }));
+        hub.publish({ type: 'agent.loggedOut', agentId: user.id, at });
+    });
+};
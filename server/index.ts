@@ -0,0 +1,120 @@
+// REST API entry point. Run with `npm run server` (Node 22.6+, TypeScript is run directly).
+// Environment:
+//   API_PORT   port to listen on (default 3001)
+//   DB_DRIVER  'sqlite' (default) or 'memory'
+//   DB_FILE    SQLite file (default ./data.sqlite)
+//   RECORDINGS_DIR   directory of the call recordings (default ./recordings)
+//   TELEPHONY_API_TOKEN  token of the AGI server (backend/) for the ACD routes; unset, only users can reach them
+//   EVENT_SIMULATOR  '1' to publish simulated agent, call and campaign events and record calls as beeps (demos)
+import { createServer } from 'node:http';
+import { mockData } from '../data/mockData.ts';
+import { API_COLLECTION_NAMES, API_SETTING_KEYS } from '../services/apiContract.ts';
+import type { Database } from './db/database.ts';
+import { seedDatabase } from './db/database.ts';
+import { createMemoryDatabase } from './db/memoryDatabase.ts';
+import { createApiHandler } from './api.ts';
+import { createSessionStore, hashStoredPlaintextPasswords } from './auth.ts';
+import { createEventHub, createEventStreamHandler } from './events.ts';
+import { createFileRecordingStore, purgeExpiredRecordings } from './recordings.ts';
+import { createAcdEngine } from './acd.ts';
+import { createContactDesk, moveEmbeddedContacts } from './contacts.ts';
+import { createDialingManager } from './dialing.ts';
+import { DEFAULT_RECORDING_RETENTION } from '../services/recordingRetention.ts';
+import { createRealtimeSimulator } from '../services/realtimeSimulator.ts';
+import { createSimulatedTelephony } from '../services/telephony.ts';
+
+const port = Number(process.env.API_PORT) || 3001;
+const driver = process.env.DB_DRIVER || 'sqlite';
+
+// Initial passwords of the demo users, hashed when the database is seeded.
+// They are kept here rather than in data/mockData.ts, which is bundled into the frontend.
+const DEMO_PASSWORDS: Record<string, string> = {
+    'user-admin': '9000',
+    'user-supervisor': '1000',
+    'user-agent-1': '1001',
+    'user-agent-2': 'password123',
+    'user-agent-3': 'password123',
+};
+
+const openDatabase = async (): Promise<Database> => {
+    if (driver === 'memory') return createMemoryDatabase();
+    if (driver === 'sqlite') {
+        // Loaded lazily so the memory driver also works on Node versions without node:sqlite.
+        const { createSqliteDatabase } = await import('./db/sqliteDatabase.ts');
+        return createSqliteDatabase(process.env.DB_FILE || 'data.sqlite');
+    }
+    throw new Error(`Unknown DB_DRIVER '${driver}' (expected 'sqlite' or 'memory')`);
+};
+
+const db = await openDatabase();
+// A fresh database starts with the demo data the frontend used to hard-code.
+seedDatabase(db, {
+    ...mockData,
+    users: mockData.users.map(user => ({ ...user, password: DEMO_PASSWORDS[user.id] })),
+    ivrFlows: mockData.savedIvrFlows,
+}, API_COLLECTION_NAMES, API_SETTING_KEYS);
+hashStoredPlaintextPasswords(db);
+moveEmbeddedContacts(db);
+// Databases created before the retention policy existed get the default one.
+if (db.getSetting('recordingRetention') === undefined) db.saveSetting('recordingRetention', DEFAULT_RECORDING_RETENTION);
+
+const sessions = createSessionStore();
+const eventHub = createEventHub();
+const isDemo = process.env.EVENT_SIMULATOR === '1';
+// No Asterisk connection yet: outbound calls, supervisor ChanSpy requests and recordings go to the simulated adapter.
+const telephony = createSimulatedTelephony({ simulateRecordings: isDemo });
+const recordingStore = createFileRecordingStore(process.env.RECORDINGS_DIR || 'recordings');
+const acdEngine = createAcdEngine(db, eventHub);
+const contactDesk = createContactDesk(db, eventHub);
+const dialingManager = createDialingManager(db, eventHub, contactDesk, telephony);
+const server = createServer(createApiHandler(db, sessions, { hub: eventHub, telephony }, { store: recordingStore, telephony }, {
+    engine: acdEngine,
+    telephonyToken: process.env.TELEPHONY_API_TOKEN || null,
+}, contactDesk));
+server.on('upgrade', createEventStreamHandler(db, sessions, eventHub));
+
+const simulator = isDemo
+    ? createRealtimeSimulator({ getUsers: () => db.list('users'), getCampaigns: () => db.list('campaigns'), publish: eventHub.publish })
+    : null;
+simulator?.start();
+acdEngine.start();
+dialingManager.start();
+
+// Recordings past their retention are purged at startup, then every day.
+const RECORDING_PURGE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const runRecordingPurge = () => {
+    try {
+        const report = purgeExpiredRecordings(db, recordingStore);
+        if (report.purgedCount > 0) console.log(`Retention purge: ${report.purgedCount} recording(s) deleted`);
+    } catch (err) {
+        console.error('Retention purge failed:', err);
+    }
+};
+runRecordingPurge();
+const purgeTimer = setInterval(runRecordingPurge, RECORDING_PURGE_INTERVAL_MS);
+
+// Contacts whose retry interval has elapsed go back in the queue of their campaign.
+const RETRY_SCHEDULER_INTERVAL_MS = 30 * 1000;
+const retryTimer = setInterval(() => {
+    try {
+        contactDesk.requeueDueContacts();
+    } catch (err) {
+        console.error('Retry scheduler failed:', err);
+    }
+}, RETRY_SCHEDULER_INTERVAL_MS);
+
+server.listen(port, () => {
+    console.log(`API server listening on port ${port} (${driver} database${simulator ? ', simulated events' : ''})`);
+});
+
+process.on('SIGINT', () => {
+    console.log('Shutting down API server...');
+    simulator?.stop();
+    acdEngine.stop();
+    dialingManager.stop();
+    clearInterval(purgeTimer);
+    clearInterval(retryTimer);
+    server.close();
+    db.close();
+    process.exit(0);
+});
@@ -0,0 +1,83 @@
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { basename, join } from 'node:path';
+import type { CallHistoryRecord, CallRecording } from '../types.ts';
+import type { RecordingPurgeReport } from '../services/apiContract.ts';
+import type { TelephonyAdapter } from '../services/telephony.ts';
+import { DEFAULT_RECORDING_RETENTION, isRecordingExpired } from '../services/recordingRetention.ts';
+import type { Database } from './db/database.ts';
+
+// Audio files of the recordings; their index is the 'recordings' collection.
+export interface RecordingStore {
+    write: (fileName: string, data: Uint8Array) => void;
+    read: (fileName: string) => Uint8Array | undefined;
+    remove: (fileName: string) => void;
+}
+
+export interface RecordingContext {
+    store: RecordingStore;
+    telephony: TelephonyAdapter;
+}
+
+export const createFileRecordingStore = (directory: string): RecordingStore => {
+    mkdirSync(directory, { recursive: true });
+    // basename() keeps every file inside the directory.
+    const pathOf = (fileName: string) => join(directory, basename(fileName));
+    return {
+        write: (fileName, data) => writeFileSync(pathOf(fileName), data),
+        read: (fileName) => existsSync(pathOf(fileName)) ? readFileSync(pathOf(fileName)) : undefined,
+        remove: (fileName) => rmSync(pathOf(fileName), { force: true }),
+    };
+};
+
+/**
+ * Stores and indexes the recording of a call added to the call history, when
+ * its campaign records calls. Returns null if the call was not recorded.
+ */
+export const indexCallRecording = async (db: Database, { store, telephony }: RecordingContext, call: CallHistoryRecord): Promise<CallRecording | null> => {
+    const campaign = call.campaignId ? db.get('campaigns', call.campaignId) : undefined;
+    if (!campaign?.recordingEnabled) return null;
+    const audio = await telephony.fetchRecording(call.id);
+    if (!audio) return null;
+    store.write(audio.fileName, audio.data);
+    return db.save('recordings', {
+        id: `recording-${call.id}`,
+        callId: call.id,
+        timestamp: call.timestamp,
+        direction: call.direction,
+        agentId: call.agentId,
+        campaignId: call.campaignId,
+        did: call.did ?? null,
+        callerNumber: call.callerNumber,
+        duration: call.duration,
+        qualificationId: call.qualificationId,
+        fileName: audio.fileName,
+        mimeType: audio.mimeType,
+        size: audio.data.length,
+    });
+};
+
+/**
+ * Deletes the files and the index of the recordings past their retention
+ * (see services/recordingRetention.ts). Every run is written to the system logs
+ * with the calls purged, as proof that recordings are deleted on time.
+ */
+export const purgeExpiredRecordings = (db: Database, store: RecordingStore, now: Date = new Date()): RecordingPurgeReport => {
+    const policy = db.getSetting('recordingRetention') ?? DEFAULT_RECORDING_RETENTION;
+    const expired = db.list('recordings').filter(recording => isRecordingExpired(recording, policy, now));
+    expired.forEach(recording => {
+        store.remove(recording.fileName);
+        db.remove('recordings', recording.id);
+    });
+    const callIds = expired.map(recording => recording.callId);
+    const freedBytes = expired.reduce((total, recording) => total + recording.size, 0);
+    const log = db.save('systemLogs', {
+        id: `slog-purge-${now.getTime()}`,
+        timestamp: now.toISOString(),
+        level: 'INFO',
+        service: 'recordings',
+        message: expired.length === 0
+            ? 'Retention purge: no expired recording'
+            : `Retention purge: ${expired.length} recording(s) deleted (${(freedBytes / (1024 * 1024)).toFixed(1)} MB), calls ${callIds.join(', ')}`,
+    });
+    return { purgedCount: expired.length, freedBytes, callIds, log };
+};
@@ -0,0 +1,110 @@
+import { randomUUID } from 'node:crypto';
+import type { CampaignSettings, SupervisorActionRecord, SupervisorActionType, User } from '../types.ts';
+import type { SupervisorActionRequest } from '../services/apiContract.ts';
+import type { SpyMode, TelephonyAdapter } from '../services/telephony.ts';
+import { toSipChannel } from '../services/telephony.ts';
+import { getCampaignRunStatus } from '../services/campaignLifecycle.ts';
+import type { Database } from './db/database.ts';
+import type { EventHub } from './events.ts';
+
+export const SUPERVISOR_ACTIONS: SupervisorActionType[] = ['listen', 'whisper', 'barge', 'forcePause', 'forceLogout'];
+
+const SPY_ACTIONS: SupervisorActionType[] = ['listen', 'whisper', 'barge'];
+
+export interface SupervisionContext {
+    hub: EventHub;
+    telephony: TelephonyAdapter;
+}
+
+export type SupervisorActionOutcome =
+    | { ok: true; record: SupervisorActionRecord }
+    | { ok: false; reason: 'AGENT_NOT_LOGGED_IN' | 'CALL_NOT_FOUND' };
+
+/**
+ * Listen, whisper and barge connect the supervisor's phone to the agent's call
+ * through ChanSpy; force pause and force logout are sent to the agent interface
+ * over the event stream. Every action is recorded in 'supervisorActions'.
+ */
+export const performSupervisorAction = async (
+    db: Database,
+    { hub, telephony }: SupervisionContext,
+    supervisor: User,
+    request: SupervisorActionRequest,
+    now: Date = new Date()
+): Promise<SupervisorActionOutcome> => {
+    const snapshot = hub.getSnapshot();
+    const agent = db.get('users', request.agentId);
+    if (!agent || !snapshot.agents.some(a => a.agentId === agent.id)) return { ok: false, reason: 'AGENT_NOT_LOGGED_IN' };
+
+    const supervisorName = `${supervisor.firstName} ${supervisor.lastName}`;
+    let callId = request.callId ?? snapshot.calls.find(call => call.agentId === agent.id)?.id ?? null;
+
+    if (SPY_ACTIONS.includes(request.action)) {
+        const call = snapshot.calls.find(c => c.id === request.callId && c.agentId === agent.id && c.status === 'active');
+        if (!call) return { ok: false, reason: 'CALL_NOT_FOUND' };
+        callId = call.id;
+        await telephony.spy({
+            callId: call.id,
+            agentChannel: toSipChannel(agent.loginId),
+            supervisorChannel: toSipChannel(supervisor.loginId),
+            mode: request.action as SpyMode,
+        });
+    } else {
+        hub.sendCommand({
+            type: 'agent.command',
+            agentId: agent.id,
+            command: request.action === 'forcePause' ? 'pause' : 'logout',
+            by: supervisorName,
+            at: now.toISOString(),
+        });
+    }
+
+    const record = db.save('supervisorActions', {
+        id: `supervision-${randomUUID()}`,
+        timestamp: now.toISOString(),
+        supervisorId: supervisor.id,
+        supervisorName,
+        action: request.action,
+        agentId: agent.id,
+        callId,
+    });
+    return { ok: true, record };
+};
+
+export interface CampaignCallCount {
+    offered?: number;
+    answered?: number;
+}
+
+/**
+ * Publishes the live state of a campaign. `count` adds calls to its counters:
+ * offered once dialed, answered once picked up by a person. The hit rate follows.
+ */
+export const publishCampaignState = (db: Database, hub: EventHub, campaign: CampaignSettings, count: CampaignCallCount = {}): void => {
+    const snapshot = hub.getSnapshot();
+    const previous = snapshot.campaigns.find(c => c.id === campaign.id);
+    const agentsOnCampaign = snapshot.agents.filter(a => db.get('users', a.agentId)?.campaignIds.includes(campaign.id)).length;
+    const offered = (previous?.offered ?? 0) + (count.offered ?? 0);
+    const answered = (previous?.answered ?? 0) + (count.answered ?? 0);
+    hub.publish({
+        type: 'campaign.state',
+        campaign: {
+            id: campaign.id,
+            name: campaign.name,
+            status: getCampaignRunStatus(campaign),
+            offered,
+            answered,
+            hitRate: offered === 0 ? 0 : (answered / offered) * 100,
+            agentsOnCampaign: previous?.agentsOnCampaign ?? agentsOnCampaign,
+        },
+    });
+};
+
+/**
+ * Publishes the run status of a saved campaign to the supervisors and to the
+ * agents of the campaign, who stop taking new calls when it is paused or stopped.
+ */
+export const publishCampaignRunStatus = (db: Database, hub: EventHub, campaign: CampaignSettings): void => {
+    if (hub.getSnapshot().campaigns.find(c => c.id === campaign.id)?.status === getCampaignRunStatus(campaign)) return;
+    publishCampaignState(db, hub, campaign);
+};
@@ -0,0 +1,76 @@
+// API server on a random port over a fresh memory database seeded with the demo
+// data, for the tests (*.test.ts, run with `npm test`).
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { mockData } from '../data/mockData.ts';
+import { API_COLLECTION_NAMES, API_SETTING_KEYS } from '../services/apiContract.ts';
+import { createSimulatedTelephony } from '../services/telephony.ts';
+import { seedDatabase } from './db/database.ts';
+import type { Database } from './db/database.ts';
+import { createMemoryDatabase } from './db/memoryDatabase.ts';
+import { createApiHandler } from './api.ts';
+import { createSessionStore, hashStoredPlaintextPasswords } from './auth.ts';
+import { createEventHub } from './events.ts';
+import type { EventHub } from './events.ts';
+import { createFileRecordingStore } from './recordings.ts';
+import { createAcdEngine } from './acd.ts';
+import { createContactDesk, moveEmbeddedContacts } from './contacts.ts';
+import type { ContactDesk } from './contacts.ts';
+
+// Every demo user logs in with their login id as password.
+export interface TestApi {
+    db: Database;
+    hub: EventHub;
+    contacts: ContactDesk;
+    login: (loginId: string) => Promise<string>;
+    request: (token: string | null, method: string, path: string, body?: unknown) => Promise<{ status: number; body: any }>;
+    close: () => Promise<void>;
+}
+
+export const startTestApi = async (): Promise<TestApi> => {
+    const db = createMemoryDatabase();
+    seedDatabase(db, {
+        ...mockData,
+        users: mockData.users.map(user => ({ ...user, isActive: true, password: user.loginId })),
+        ivrFlows: mockData.savedIvrFlows,
+    }, API_COLLECTION_NAMES, API_SETTING_KEYS);
+    hashStoredPlaintextPasswords(db);
+    moveEmbeddedContacts(db);
+
+    const recordingsDir = mkdtempSync(join(tmpdir(), 'recordings-'));
+    const hub = createEventHub();
+    const telephony = createSimulatedTelephony();
+    const contacts = createContactDesk(db, hub);
+    const server = createServer(createApiHandler(db, createSessionStore(), { hub, telephony }, {
+        store: createFileRecordingStore(recordingsDir),
+        telephony,
+    }, { engine: createAcdEngine(db, hub), telephonyToken: null }, contacts));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+
+    const request: TestApi['request'] = async (token, method, path, body) => {
+        const res = await fetch(baseUrl + path, {
+            method,
+            headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+            body: body === undefined ? undefined : JSON.stringify(body),
+        });
+        const text = await res.text();
+        return { status: res.status, body: text ? JSON.parse(text) : null };
+    };
+
+    return {
+        db,
+        hub,
+        contacts,
+        request,
+        login: async (loginId) => (await request(null, 'POST', '/auth/login', { loginId, password: loginId })).body.token,
+        close: async () => {
+            await new Promise(resolve => server.close(resolve));
+            db.close();
+            rmSync(recordingsDir, { recursive: true, force: true });
+        },
+    };
+};
@@ -0,0 +1,131 @@
+import { createHash } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import type { Duplex } from 'node:stream';
+
+// Minimal WebSocket (RFC 6455) server side: text frames, ping/pong and close.
+// Enough for the JSON event stream, without adding a dependency to the API server.
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_BYTES = 64 * 1024;
+
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+export interface WebSocketConnection {
+    send: (text: string) => void;
+    close: (code?: number) => void;
+    onMessage: (listener: (text: string) => void) => void;
+    onClose: (listener: () => void) => void;
+}
+
+const encodeFrame = (opcode: number, payload: Buffer): Buffer => {
+    const length = payload.length;
+    let header: Buffer;
+    if (length < 126) {
+        header = Buffer.from([0x80 | opcode, length]);
+    } else if (length < 0x10000) {
+        header = Buffer.alloc(4);
+        header[0] = 0x80 | opcode;
+        header[1] = 126;
+        header.writeUInt16BE(length, 2);
+    } else {
+        header = Buffer.alloc(10);
+        header[0] = 0x80 | opcode;
+        header[1] = 127;
+        header.writeBigUInt64BE(BigInt(length), 2);
+    }
+    return Buffer.concat([header, payload]);
+};
+
+/**
+ * Rejects an upgrade request with a plain HTTP status.
+ */
+export const rejectUpgrade = (socket: Duplex, status: number, reason: string): void => {
+    socket.end(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+};
+
+/**
+ * Completes the handshake of an 'upgrade' request. Fragmented messages are
+ * not supported: browsers do not fragment the small messages sent here.
+ */
+export const acceptWebSocket = (req: IncomingMessage, socket: Duplex): WebSocketConnection | null => {
+    const key = req.headers['sec-websocket-key'];
+    if (typeof key !== 'string' || req.headers.upgrade?.toLowerCase() !== 'websocket') {
+        rejectUpgrade(socket, 400, 'Bad Request');
+        return null;
+    }
+    const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+    socket.write(`HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\nSec-WebSocket-Accept: ${accept}\r\n\r\n`);
+
+    const messageListeners: ((text: string) => void)[] = [];
+    const closeListeners: (() => void)[] = [];
+    let buffered = Buffer.alloc(0);
+    let closed = false;
+
+    const close = (code = 1000) => {
+        if (closed) return;
+        closed = true;
+        const payload = Buffer.alloc(2);
+        payload.writeUInt16BE(code);
+        socket.end(encodeFrame(OPCODE_CLOSE, payload));
+    };
+
+    // Returns the number of bytes consumed, 0 if the frame is not complete yet.
+    const readFrame = (data: Buffer): number => {
+        if (data.length < 2) return 0;
+        const isFinal = (data[0] & 0x80) !== 0;
+        const opcode = data[0] & 0x0f;
+        const isMasked = (data[1] & 0x80) !== 0;
+        let length = data[1] & 0x7f;
+        let offset = 2;
+        if (length === 126) {
+            if (data.length < 4) return 0;
+            length = data.readUInt16BE(2);
+            offset = 4;
+        } else if (length === 127) {
+            if (data.length < 10) return 0;
+            length = Number(data.readBigUInt64BE(2));
+            offset = 10;
+        }
+        // Clients must mask their frames (RFC 6455, section 5.1).
+        if (!isMasked || !isFinal || length > MAX_MESSAGE_BYTES) {
+            close(!isMasked ? 1002 : 1009);
+            return data.length;
+        }
+        if (data.length < offset + 4 + length) return 0;
+        const mask = data.subarray(offset, offset + 4);
+        const payload = Buffer.from(data.subarray(offset + 4, offset + 4 + length));
+        for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+
+        if (opcode === OPCODE_TEXT) messageListeners.forEach(listener => listener(payload.toString('utf8')));
+        else if (opcode === OPCODE_PING) socket.write(encodeFrame(OPCODE_PONG, payload));
+        else if (opcode === OPCODE_CLOSE) close();
+        return offset + 4 + length;
+    };
+
+    socket.on('data', (chunk: Buffer) => {
+        buffered = Buffer.concat([buffered, chunk]);
+        let consumed: number;
+        while (!closed && (consumed = readFrame(buffered)) > 0) {
+            buffered = buffered.subarray(consumed);
+        }
+    });
+    // Upgraded sockets stay half-open when the client goes away without a close frame.
+    socket.on('end', () => socket.end());
+    socket.on('close', () => {
+        closed = true;
+        closeListeners.forEach(listener => listener());
+    });
+    socket.on('error', () => socket.destroy());
+
+    return {
+        send: (text) => {
+            if (!closed) socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(text, 'utf8')));
+        },
+        close,
+        onMessage: (listener) => { messageListeners.push(listener); },
+        onClose: (listener) => { closeListeners.push(listener); },
+    };
+};
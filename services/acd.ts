@@ -0,0 +1,83 @@
+// Routing rules of the inbound ACD, applied by its engine on the API server (server/acd.ts).
+import type { AcdCallState, AcdOverflowReason, AcdQueue, User } from '../types.ts';
+import type { LiveAgentState } from './realtimeEvents.ts';
+
+export const ACD_OVERFLOW_REASON_LABELS: Record<AcdOverflowReason, string> = {
+    MAX_WAIT_TIME: 'Temps d\'attente maximal atteint',
+    QUEUE_FULL: 'File pleine',
+    NO_AGENTS: 'Aucun agent compétent connecté',
+    QUEUE_DELETED: 'File supprimée',
+};
+
+// An agent who lets an offer ring this long is skipped for the call, which goes back to the queue.
+export const OFFER_TIMEOUT_SECONDS = 20;
+
+// A call held by the ACD, from its arrival until it is answered or overflows.
+export interface QueuedCall {
+    id: string;
+    queueId: string;
+    callerNumber: string;
+    did: string;
+    ivrPath: string[];
+    arrivedAt: string; // ISO date of the arrival in the ACD
+    enqueuedAt: string; // ISO date of the arrival in the current queue
+    state: AcdCallState;
+    agentId: string | null; // agent it is offered to or connected with
+    offeredAt: string | null;
+    declinedBy: string[]; // agents who let the offer ring out or rejected it
+    visitedQueueIds: string[]; // a call never overflows back into a queue it left
+    overflowReason: AcdOverflowReason | null;
+}
+
+export const hasRequiredSkills = (user: Pick<User, 'skills'>, queue: Pick<AcdQueue, 'requiredSkills'>): boolean =>
+    queue.requiredSkills.every(skill => (user.skills ?? []).includes(skill));
+
+const isInQueue = (call: QueuedCall) => call.state === 'waiting' || call.state === 'offered';
+
+const compareArrival = (a: QueuedCall, b: QueuedCall) =>
+    a.enqueuedAt === b.enqueuedAt ? a.id.localeCompare(b.id) : a.enqueuedAt.localeCompare(b.enqueuedAt);
+
+/**
+ * Order in which waiting calls are offered: calls of higher priority queues
+ * first, then the longest waiting ones.
+ */
+export const orderWaitingCalls = (calls: QueuedCall[], queues: AcdQueue[]): QueuedCall[] => {
+    const priorityOf = (call: QueuedCall) => queues.find(q => q.id === call.queueId)?.priority ?? 0;
+    return calls.filter(call => call.state === 'waiting').sort((a, b) => priorityOf(b) - priorityOf(a) || compareArrival(a, b));
+};
+
+// 1 for the next call of the queue to be answered, 0 once the call left the queue.
+export const getQueuePosition = (call: QueuedCall, calls: QueuedCall[]): number => {
+    if (!isInQueue(call)) return 0;
+    return calls.filter(other => other.queueId === call.queueId && isInQueue(other) && compareArrival(other, call) < 0).length + 1;
+};
+
+/**
+ * Agent to offer a call of `queue` to: among the active agents waiting for a
+ * call with all the required skills, the one idle for the longest time.
+ */
+export const pickAgent = (queue: AcdQueue, agents: LiveAgentState[], users: User[], excludedIds: string[]): User | undefined =>
+    agents
+        .filter(agent => agent.status === 'En Attente' && !excludedIds.includes(agent.agentId))
+        .sort((a, b) => a.since.localeCompare(b.since))
+        .map(agent => users.find(u => u.id === agent.agentId))
+        .find((user): user is User => !!user && user.isActive && hasRequiredSkills(user, queue));
+
+// Overflow rules checked when a call arrives in `queue`.
+export const checkQueueEntry = (queue: AcdQueue, waitingCalls: number, hasSkilledAgent: boolean): AcdOverflowReason | null => {
+    if (queue.overflowWhenNoAgents && !hasSkilledAgent) return 'NO_AGENTS';
+    if (queue.maxWaitingCalls > 0 && waitingCalls >= queue.maxWaitingCalls) return 'QUEUE_FULL';
+    return null;
+};
+
+// Overflow rules checked while a call waits in `queue`.
+export const checkQueueWait = (call: QueuedCall, queue: AcdQueue, hasSkilledAgent: boolean, now: Date): AcdOverflowReason | null => {
+    if (queue.overflowWhenNoAgents && !hasSkilledAgent) return 'NO_AGENTS';
+    const waitedSeconds = (now.getTime() - new Date(call.enqueuedAt).getTime()) / 1000;
+    if (queue.maxWaitTime > 0 && waitedSeconds >= queue.maxWaitTime) return 'MAX_WAIT_TIME';
+    return null;
+};
+
+// Skills are typed as a comma-separated list in the forms.
+export const parseSkills = (value: string): string[] =>
+    [...new Set(value.split(',').map(skill => skill.trim().toLowerCase()).filter(Boolean))];
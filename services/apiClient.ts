@@ -0,0 +1,118 @@
+import type { ApiCollections, ApiCollectionName, ApiSettings, ApiSettingKey, ApiErrorBody, ApiErrorCode, AuthSession, LoginRequest, RecordingPurgeReport, SupervisorActionRequest, AcdCallStatus, AcdEnqueueRequest, ContactAttemptRequest, ContactPage } from './apiContract.ts';
+import type { CampaignContact, CampaignRunStatus, CampaignSettings, Contact, ContactCallback, SupervisorActionRecord } from '../types.ts';
+import { CONTACT_PAGE_SIZE, getEntityKey } from './apiContract.ts';
+
+// Errors thrown by the client carry the HTTP status and, when the API sent one, its error code.
+export type ApiRequestError = Error & { status?: number; code?: ApiErrorCode };
+
+export interface ApiClient {
+    list: <K extends ApiCollectionName>(collection: K) => Promise<ApiCollections[K][]>;
+    get: <K extends ApiCollectionName>(collection: K, key: string) => Promise<ApiCollections[K]>;
+    create: <K extends ApiCollectionName>(collection: K, entity: ApiCollections[K]) => Promise<ApiCollections[K]>;
+    // Creates or replaces the entity under its own key.
+    save: <K extends ApiCollectionName>(collection: K, entity: ApiCollections[K]) => Promise<ApiCollections[K]>;
+    remove: (collection: ApiCollectionName, key: string) => Promise<void>;
+    getSetting: <K extends ApiSettingKey>(key: K) => Promise<ApiSettings[K]>;
+    saveSetting: <K extends ApiSettingKey>(key: K, value: ApiSettings[K]) => Promise<ApiSettings[K]>;
+    login: (credentials: LoginRequest) => Promise<AuthSession>;
+    logout: () => Promise<void>;
+    getSession: () => Promise<AuthSession>;
+    performSupervisorAction: (action: SupervisorActionRequest) => Promise<SupervisorActionRecord>;
+    // Audio files need the session token too, so they cannot be linked directly.
+    fetchRecordingAudio: (recordingId: string) => Promise<Blob>;
+    // Runs the retention purge now instead of waiting for the daily job.
+    purgeExpiredRecordings: () => Promise<RecordingPurgeReport>;
+    // Test calls: in production the IVR puts the inbound calls in the queues.
+    enqueueAcdCall: (request: AcdEnqueueRequest) => Promise<AcdCallStatus>;
+    // Takes an inbound call offered to the logged-in agent.
+    answerAcdCall: (callId: string) => Promise<AcdCallStatus>;
+    // Hands an offered call back to its queue, for another agent.
+    rejectAcdCall: (callId: string) => Promise<AcdCallStatus>;
+    // Writes the run status only, so the rest of the campaign is never overwritten.
+    setCampaignRunStatus: (campaignId: string, runStatus: CampaignRunStatus) => Promise<CampaignSettings>;
+    // Every contact of the campaign, loaded a page at a time.
+    listCampaignContacts: (campaignId: string) => Promise<CampaignContact[]>;
+    // Sent in chunks, each well below the API's body size limit.
+    importContacts: (campaignId: string, contacts: Contact[]) => Promise<CampaignContact[]>;
+    // Reserves the next contact of the campaign to the logged-in agent; null when none is left.
+    pickNextContact: (campaignId: string, excludedContactIds?: string[]) => Promise<CampaignContact | null>;
+    recordContactAttempt: (contactId: string, attempt: ContactAttemptRequest) => Promise<CampaignContact>;
+    saveContactCallback: (contactId: string, callback: ContactCallback | null) => Promise<CampaignContact>;
+}
+
+const CONTACT_IMPORT_CHUNK_SIZE = 5000;
+
+/**
+ * Typed client for the REST API in server/. Requests go to `baseUrl`,
+ * which Vite proxies to the API server during development. Every request
+ * but login needs the session `token` returned by `login`.
+ */
+export const createApiClient = (baseUrl: string = '/api', token?: string): ApiClient => {
+    const send = async (method: string, path: string, body?: unknown): Promise<Response> => {
+        const headers: Record<string, string> = {};
+        if (body !== undefined) headers['Content-Type'] = 'application/json';
+        if (token) headers['Authorization'] = `Bearer ${token}`;
+        const response = await fetch(`${baseUrl}${path}`, {
+            method,
+            headers,
+            body: body === undefined ? undefined : JSON.stringify(body),
+        });
+        if (!response.ok) {
+            const errorBody: Partial<ApiErrorBody> = await response.json().catch(() => ({}));
+            const error: ApiRequestError = new Error(`${method} ${path} failed (${response.status}): ${errorBody.error || response.statusText}`);
+            error.status = response.status;
+            error.code = errorBody.code;
+            throw error;
+        }
+        return response;
+    };
+
+    const request = async <T>(method: string, path: string, body?: unknown): Promise<T> => {
+        const response = await send(method, path, body);
+        return response.status === 204 ? (undefined as T) : response.json();
+    };
+
+    const entityPath = (collection: string, key: string) => `/${collection}/${encodeURIComponent(key)}`;
+
+    return {
+        list: (collection) => request('GET', `/${collection}`),
+        get: (collection, key) => request('GET', entityPath(collection, key)),
+        create: (collection, entity) => request('POST', `/${collection}`, entity),
+        save: (collection, entity) => request('PUT', entityPath(collection, getEntityKey(collection, entity)), entity),
+        remove: (collection, key) => request('DELETE', entityPath(collection, key)),
+        getSetting: (key) => request('GET', `/settings/${key}`),
+        saveSetting: (key, value) => request('PUT', `/settings/${key}`, value),
+        login: (credentials) => request('POST', '/auth/login', credentials),
+        logout: () => request('POST', '/auth/logout'),
+        getSession: () => request('GET', '/auth/session'),
+        performSupervisorAction: (action) => request('POST', '/supervision/actions', action),
+        fetchRecordingAudio: async (recordingId) => (await send('GET', `${entityPath('recordings', recordingId)}/audio`)).blob(),
+        purgeExpiredRecordings: () => request('POST', '/recordings/purge'),
+        enqueueAcdCall: (call) => request('POST', '/acd/calls', call),
+        answerAcdCall: (callId) => request('POST', `${entityPath('acd/calls', callId)}/answer`),
+        rejectAcdCall: (callId) => request('POST', `${entityPath('acd/calls', callId)}/reject`),
+        setCampaignRunStatus: (campaignId, runStatus) => request('PUT', `${entityPath('campaigns', campaignId)}/run-status`, { runStatus }),
+        listCampaignContacts: async (campaignId) => {
+            const contacts: CampaignContact[] = [];
+            for (let total = Infinity; contacts.length < total;) {
+                const page = await request<ContactPage>('GET', `${entityPath('campaigns', campaignId)}/contacts?offset=${contacts.length}&limit=${CONTACT_PAGE_SIZE}`);
+                if (page.contacts.length === 0) break;
+                contacts.push(...page.contacts);
+                total = page.total;
+            }
+            return contacts;
+        },
+        importContacts: async (campaignId, contacts) => {
+            const imported: CampaignContact[] = [];
+            for (let i = 0; i < contacts.length; i += CONTACT_IMPORT_CHUNK_SIZE) {
+                const chunk = contacts.slice(i, i + CONTACT_IMPORT_CHUNK_SIZE);
+                imported.push(...await request<CampaignContact[]>('POST', `${entityPath('campaigns', campaignId)}/contacts`, { contacts: chunk }));
+            }
+            return imported;
+        },
+        pickNextContact: async (campaignId, excludedContactIds = []) =>
+            (await request<CampaignContact | undefined>('POST', `${entityPath('campaigns', campaignId)}/next-contact`, { excludedContactIds })) ?? null,
+        recordContactAttempt: (contactId, attempt) => request('POST', `${entityPath('contacts', contactId)}/attempts`, attempt),
+        saveContactCallback: (contactId, callback) => request('PUT', `${entityPath('contacts', contactId)}/callback`, { callback }),
+    };
+};
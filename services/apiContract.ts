@@ -0,0 +1,162 @@
+// Shared between the REST API (server/) and its client (services/apiClient.ts).
+import type {
+    User, PermissionProfile, Permission, UserGroup, SavedScript, IvrFlow, CampaignSettings, CampaignContact, ContactCallback, PublicHoliday, Qualification, QualificationGroup,
+    Trunk, Did, BackupLog, BackupSchedule, SystemLog, AudioFile, ActivityType, PlanningEvent,
+    CallHistoryRecord, CallData, AgentSession, AuditLogEntry, SupervisorActionRecord, SupervisorActionType,
+    CallRecording, RecordingRetentionPolicy, AcdQueue, AcdCallState, AcdOverflowReason, DncEntry, PreviewDecisionRecord,
+} from '../types.ts';
+
+// Entity type of each collection exposed under /api/<collection>.
+export interface ApiCollections {
+    users: User;
+    permissionProfiles: PermissionProfile;
+    userGroups: UserGroup;
+    savedScripts: SavedScript;
+    ivrFlows: IvrFlow;
+    acdQueues: AcdQueue;
+    campaigns: CampaignSettings;
+    // Changed through the campaign and contact routes only, see server/contacts.ts.
+    contacts: CampaignContact;
+    dncEntries: DncEntry;
+    publicHolidays: PublicHoliday;
+    qualifications: Qualification;
+    qualificationGroups: QualificationGroup;
+    trunks: Trunk;
+    dids: Did;
+    backupLogs: BackupLog;
+    systemLogs: SystemLog;
+    audioFiles: AudioFile;
+    activityTypes: ActivityType;
+    planningEvents: PlanningEvent;
+    callHistory: CallHistoryRecord;
+    callData: CallData;
+    previewDecisions: PreviewDecisionRecord;
+    agentSessions: AgentSession;
+    auditLogs: AuditLogEntry;
+    supervisorActions: SupervisorActionRecord;
+    recordings: CallRecording;
+}
+
+export type ApiCollectionName = keyof ApiCollections;
+
+// Single-document settings exposed under /api/settings/<key>.
+export interface ApiSettings {
+    backupSchedule: BackupSchedule;
+    recordingRetention: RecordingRetentionPolicy;
+}
+
+export type ApiSettingKey = keyof ApiSettings;
+
+// Property holding the unique key of each collection's entities.
+export const API_COLLECTION_KEYS: { [K in ApiCollectionName]: keyof ApiCollections[K] & string } = {
+    users: 'id',
+    permissionProfiles: 'id',
+    userGroups: 'id',
+    savedScripts: 'id',
+    ivrFlows: 'id',
+    acdQueues: 'id',
+    campaigns: 'id',
+    contacts: 'id',
+    dncEntries: 'id',
+    publicHolidays: 'id',
+    qualifications: 'id',
+    qualificationGroups: 'id',
+    trunks: 'id',
+    dids: 'id',
+    backupLogs: 'id',
+    systemLogs: 'id',
+    audioFiles: 'id',
+    activityTypes: 'id',
+    planningEvents: 'id',
+    callHistory: 'id',
+    callData: 'callId',
+    previewDecisions: 'id',
+    agentSessions: 'id',
+    auditLogs: 'id',
+    supervisorActions: 'id',
+    recordings: 'id',
+};
+
+export const API_COLLECTION_NAMES = Object.keys(API_COLLECTION_KEYS) as ApiCollectionName[];
+
+export const API_SETTING_KEYS: ApiSettingKey[] = ['backupSchedule', 'recordingRetention'];
+
+export const getEntityKey = <K extends ApiCollectionName>(collection: K, entity: ApiCollections[K]): string =>
+    String(entity[API_COLLECTION_KEYS[collection]]);
+
+export type ApiErrorCode = 'UNAUTHENTICATED' | 'FORBIDDEN' | 'INVALID_CREDENTIALS' | 'ACCOUNT_LOCKED' | 'ACCOUNT_DISABLED' | 'AGENT_NOT_LOGGED_IN' | 'CALL_NOT_FOUND'
+    | 'QUEUE_NOT_FOUND' | 'CALL_NOT_OFFERED' | 'CAMPAIGN_NOT_FOUND' | 'CONTACT_NOT_FOUND' | 'CONTACT_IN_OTHER_CAMPAIGN' | 'QUALIFICATION_NOT_FOUND'
+    | 'OUTSIDE_CALLING_WINDOW';
+
+// Body of every non-2xx response.
+export interface ApiErrorBody {
+    error: string;
+    code?: ApiErrorCode;
+}
+
+export interface LoginRequest {
+    loginId: string;
+    password: string;
+}
+
+// Returned by POST /api/auth/login and GET /api/auth/session. `user` never carries a password.
+export interface AuthSession {
+    token: string;
+    expiresAt: string; // ISO String
+    user: User;
+    permissions: Permission[]; // effective permissions of `user`
+}
+
+// Returned by POST /api/recordings/purge; the same report is written to the system logs.
+export interface RecordingPurgeReport {
+    purgedCount: number;
+    freedBytes: number;
+    callIds: string[];
+    log: SystemLog;
+}
+
+// Body of POST /api/acd/calls, sent by the 'queue' node of the IVR (backend/) for each inbound call.
+export interface AcdEnqueueRequest {
+    queueId: string;
+    callerNumber: string;
+    did: string; // number dialed by the caller
+    ivrPath?: string[]; // names of the IVR nodes the caller went through
+}
+
+// State of a call held by the ACD, polled by the IVR while the caller waits.
+export interface AcdCallStatus {
+    id: string;
+    queueId: string; // changes when the call overflows to another queue
+    state: AcdCallState;
+    position: number; // 1 for the next call to be answered, 0 once it left the queue
+    agentExtension: string | null; // SIP extension the IVR bridges the caller to, once connected
+    overflowReason: AcdOverflowReason | null;
+    // Waiting experience configured on the queue.
+    musicOnHold: string | null; // file name of the queue's AudioFile
+    announcePosition: boolean;
+    announceFrequency: number; // in seconds
+}
+
+// Body of POST /api/supervision/actions. `callId` is required to listen, whisper or barge.
+export interface SupervisorActionRequest {
+    action: SupervisorActionType;
+    agentId: string;
+    callId?: string;
+}
+
+// Body of POST /api/contacts/<id>/attempts, sent once the call is qualified.
+// A callback promised during the call replaces the outcome's retry.
+export interface ContactAttemptRequest {
+    qualificationId: string;
+    callId?: string;
+    callback?: ContactCallback | null;
+}
+
+// Largest and default page of GET /api/campaigns/<id>/contacts?offset=<n>&limit=<n>.
+export const CONTACT_PAGE_SIZE = 5000;
+
+// Returned by GET /api/campaigns/<id>/contacts: `total` counts every contact of the campaign.
+export interface ContactPage {
+    contacts: CampaignContact[];
+    total: number;
+}
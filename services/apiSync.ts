@@ -0,0 +1,109 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+import type { ApiCollections, ApiCollectionName, ApiSettings, ApiSettingKey } from './apiContract.ts';
+import { getEntityKey } from './apiContract.ts';
+import type { ApiClient, ApiRequestError } from './apiClient.ts';
+
+const logSyncError = (what: string) => (err: Error) => console.error(`API sync: ${what}:`, err.message);
+
+/**
+ * Drop-in replacement for `useState` on an API collection. The collection is
+ * loaded from the API on mount; afterwards every entity that was added,
+ * replaced or removed in the state is written back. State updates must stay
+ * immutable: an entity is considered changed when its object reference changes.
+ *
+ * If the API cannot be reached the state keeps `initialValue` and is not
+ * persisted, so the frontend still works on its own (demo mode). Nothing is
+ * loaded or persisted while `client` is null (no session yet). A collection
+ * the user is not allowed to read is emptied.
+ *
+ * Entities the API saved on its own (e.g. through a dedicated route) are put
+ * in the state with the third function, which does not write them back.
+ */
+export const usePersistentCollection = <K extends ApiCollectionName>(
+    client: ApiClient | null,
+    collection: K,
+    initialValue: ApiCollections[K][]
+): [ApiCollections[K][], Dispatch<SetStateAction<ApiCollections[K][]>>, (saved: ApiCollections[K]) => void] => {
+    const [items, setItems] = useState(initialValue);
+    // Last state known to the server, by key; null until loaded (and forever when offline).
+    const syncedRef = useRef<Map<string, ApiCollections[K]> | null>(null);
+
+    useEffect(() => {
+        syncedRef.current = null;
+        if (!client) return;
+        let cancelled = false;
+        client.list(collection).then(remoteItems => {
+            if (cancelled) return;
+            syncedRef.current = new Map<string, ApiCollections[K]>(remoteItems.map(item => [getEntityKey(collection, item), item]));
+            setItems(remoteItems);
+        }).catch((err: ApiRequestError) => {
+            if (cancelled) return;
+            if (err.status === 403) {
+                setItems([]);
+                return;
+            }
+            console.warn(`API unavailable, '${collection}' is kept in memory only:`, err.message);
+        });
+        return () => { cancelled = true; };
+    }, [client, collection]);
+
+    useEffect(() => {
+        const synced = syncedRef.current;
+        if (!client || !synced) return;
+        const current = new Map<string, ApiCollections[K]>(items.map(item => [getEntityKey(collection, item), item]));
+        // Added entities are created, so users allowed to add entries only (see
+        // OWN_WRITES_COLLECTIONS) never replace one.
+        current.forEach((item, key) => {
+            if (synced.get(key) === item) return;
+            const write = synced.has(key) ? client.save(collection, item) : client.create(collection, item);
+            write.catch(logSyncError(`saving ${collection} '${key}'`));
+        });
+        synced.forEach((_, key) => {
+            if (!current.has(key)) client.remove(collection, key).catch(logSyncError(`deleting ${collection} '${key}'`));
+        });
+        syncedRef.current = current;
+    }, [client, collection, items]);
+
+    const applySaved = useCallback((saved: ApiCollections[K]) => {
+        const key = getEntityKey(collection, saved);
+        syncedRef.current?.set(key, saved);
+        setItems(prev => prev.map(item => getEntityKey(collection, item) === key ? saved : item));
+    }, [collection]);
+
+    return [items, setItems, applySaved];
+};
+
+/**
+ * Same as usePersistentCollection for a single-document setting.
+ */
+export const usePersistentSetting = <K extends ApiSettingKey>(
+    client: ApiClient | null,
+    key: K,
+    initialValue: ApiSettings[K]
+): [ApiSettings[K], Dispatch<SetStateAction<ApiSettings[K]>>] => {
+    const [value, setValue] = useState(initialValue);
+    const syncedRef = useRef<ApiSettings[K] | null>(null);
+
+    useEffect(() => {
+        syncedRef.current = null;
+        if (!client) return;
+        let cancelled = false;
+        client.getSetting(key).then(remoteValue => {
+            if (cancelled) return;
+            syncedRef.current = remoteValue;
+            setValue(remoteValue);
+        }).catch(err => {
+            console.warn(`API unavailable, setting '${key}' is kept in memory only:`, err.message);
+        });
+        return () => { cancelled = true; };
+    }, [client, key]);
+
+    useEffect(() => {
+        if (!client || syncedRef.current === null || syncedRef.current === value) return;
+        syncedRef.current = value;
+        client.saveSetting(key, value).catch(logSyncError(`saving setting '${key}'`));
+    }, [client, key, value]);
+
+    return [value, setValue];
+};
@@ -0,0 +1,50 @@
+import type { AuditAction, AuditLogEntry } from '../types.ts';
+import { toCsv } from './callData.ts';
+
+// Labels of the collections audited by the API server (server/audit.ts).
+export const AUDIT_ENTITY_LABELS: Record<string, string> = {
+    users: 'Utilisateur',
+    permissionProfiles: 'Profil de permissions',
+    campaigns: 'Campagne',
+    trunks: 'Trunk SIP',
+    dids: 'Numéro (SDA)',
+    savedScripts: 'Script',
+    ivrFlows: 'Flux SVI',
+    acdQueues: 'File d\'attente',
+    dncEntries: 'Liste d\'exclusion',
+    qualifications: 'Qualification',
+    qualificationGroups: 'Groupe de qualifications',
+    recordings: 'Enregistrement',
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+    create: 'Création',
+    update: 'Modification',
+    delete: 'Suppression',
+};
+
+export const formatAuditValue = (value: unknown): string => {
+    if (value === undefined || value === null) return '';
+    return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+/**
+ * One row per changed field, so the file can be filtered in a spreadsheet.
+ */
+export const buildAuditCsv = (entries: AuditLogEntry[]): string => {
+    const header = ['Date', 'Auteur', 'Action', 'Type', 'Élément', 'Identifiant', 'Champ', 'Avant', 'Après'];
+    const rows = entries.flatMap(entry => {
+        const prefix = [
+            new Date(entry.timestamp).toLocaleString('fr-FR'),
+            entry.actorName,
+            AUDIT_ACTION_LABELS[entry.action],
+            AUDIT_ENTITY_LABELS[entry.entityType] || entry.entityType,
+            entry.entityName,
+            entry.entityId,
+        ];
+        return entry.changes.length > 0
+            ? entry.changes.map(change => [...prefix, change.field, formatAuditValue(change.before), formatAuditValue(change.after)])
+            : [[...prefix, '', '', '']];
+    });
+    return toCsv([header, ...rows]);
+};
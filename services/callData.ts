@@ -0,0 +1,53 @@
+import type { CallData, CallDataValue, CallHistoryRecord, Campaign, Qualification, User } from '../types.ts';
+
+const CSV_DELIMITER = ';';
+
+export const formatCallDataValue = (value: CallDataValue | undefined): string => {
+    if (value === undefined) return '';
+    return Array.isArray(value) ? value.join(', ') : value;
+};
+
+const escapeCsvField = (field: string): string =>
+    /[";\n\r]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+
+export const toCsv = (rows: string[][]): string =>
+    rows.map(row => row.map(escapeCsvField).join(CSV_DELIMITER)).join('\r\n');
+
+export interface CallDataExportContext {
+    callHistory: CallHistoryRecord[];
+    users: User[];
+    campaigns: Campaign[];
+    qualifications: Qualification[];
+}
+
+/**
+ * One row per call with saved script answers. Answer columns are the union of the
+ * block names found in the exported records, so scripts of different versions
+ * can be exported together.
+ */
+export const buildCallDataCsv = (records: CallData[], { callHistory, users, campaigns, qualifications }: CallDataExportContext): string => {
+    const fieldNames = [...new Set(records.flatMap(r => Object.keys(r.values)))];
+    const header = ['Appel', 'Date', 'Agent', 'Campagne', 'Contact', 'Numéro', 'Qualification', 'Script', 'Version', ...fieldNames];
+
+    const rows = records.map(record => {
+        const call = callHistory.find(c => c.id === record.callId);
+        const agent = users.find(u => u.id === record.agentId);
+        const campaign = campaigns.find(c => c.id === record.campaignId);
+        const contact = campaign?.contacts.find(c => c.id === record.contactId);
+        const qualification = qualifications.find(q => q.id === call?.qualificationId);
+        return [
+            record.callId,
+            new Date(call?.timestamp || record.savedAt).toLocaleString('fr-FR'),
+            agent ? `${agent.firstName} ${agent.lastName}` : record.agentId,
+            campaign?.name || record.campaignId || 'Appel entrant',
+            contact ? `${contact.firstName} ${contact.lastName}` : record.contactId || '',
+            call?.callerNumber || contact?.phoneNumber || '',
+            qualification ? `${qualification.code} - ${qualification.description}` : '',
+            record.scriptId,
+            String(record.scriptVersion),
+            ...fieldNames.map(name => formatCallDataValue(record.values[name])),
+        ];
+    });
+
+    return toCsv([header, ...rows]);
+};
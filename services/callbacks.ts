@@ -0,0 +1,48 @@
+// Callbacks scheduled by the agents from the wrap-up. A contact waiting for its
+// callback is 'called' with no retry scheduled; once due, it is served before
+// the pending contacts, whatever the campaign's filter and quota rules.
+import type { Campaign, CallbackScope, Contact, ContactCallback } from '../types.ts';
+
+export const CALLBACK_SCOPE_LABELS: Record<CallbackScope, string> = {
+    personal: 'Personnel',
+    campaign: 'Campagne',
+};
+
+export type ContactWithCallback = Contact & { callback: ContactCallback };
+
+export interface ScheduledCallback {
+    campaign: Campaign;
+    contact: ContactWithCallback;
+}
+
+const hasCallback = (contact: Contact): contact is ContactWithCallback =>
+    contact.status === 'called' && !!contact.callback;
+
+export const isCallbackDue = (contact: Contact, now: Date = new Date()): contact is ContactWithCallback =>
+    hasCallback(contact) && new Date(contact.callback.scheduledAt).getTime() <= now.getTime();
+
+// Personal callbacks are only served to their agent.
+export const canServeCallback = (callback: ContactCallback, agentId: string | null): boolean =>
+    callback.scope === 'campaign' || callback.agentId === agentId;
+
+const compareSchedule = (a: ContactWithCallback, b: ContactWithCallback) =>
+    a.callback.scheduledAt.localeCompare(b.callback.scheduledAt);
+
+// Due callbacks of the campaign, the oldest first.
+export const getDueCallbacks = (campaign: Pick<Campaign, 'contacts'>, now: Date = new Date()): ContactWithCallback[] =>
+    campaign.contacts.filter((c): c is ContactWithCallback => isCallbackDue(c, now)).sort(compareSchedule);
+
+// Every scheduled callback of the campaigns, in schedule order.
+export const listCallbacks = (campaigns: Campaign[]): ScheduledCallback[] =>
+    campaigns
+        .flatMap(campaign => campaign.contacts.filter(hasCallback).map(contact => ({ campaign, contact })))
+        .sort((a, b) => compareSchedule(a.contact, b.contact));
+
+/**
+ * Sets, moves or reassigns the contact's callback. Without a callback the
+ * contact goes back to the pending contacts.
+ */
+export const applyCallback = <C extends Contact>(contact: C, callback: ContactCallback | null): C =>
+    callback
+        ? { ...contact, status: 'called', nextEligibleAt: null, callback }
+        : { ...contact, status: 'pending', nextEligibleAt: null, callback: null };
@@ -0,0 +1,83 @@
+import type { Campaign, PublicHoliday } from '../types.ts';
+
+export type CallingWindowViolation = 'OUTSIDE_DAYS' | 'OUTSIDE_HOURS' | 'PUBLIC_HOLIDAY';
+
+export interface ZonedTime {
+    date: string;    // YYYY-MM-DD
+    weekday: number; // 0 = Sunday ... 6 = Saturday
+    time: string;    // HH:mm
+}
+
+export interface CallingWindowCheck {
+    allowed: boolean;
+    violation: CallingWindowViolation | null;
+    message: string;
+    localTime: ZonedTime;
+}
+
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+const DAY_NAMES = ['dimanche', 'lundi', 'mardi', 'mercredi', 'jeudi', 'vendredi', 'samedi'];
+
+/**
+ * Wall-clock date, weekday and time of `now` in the given IANA timezone.
+ * An unknown timezone throws a RangeError: it must block dialing rather than
+ * silently fall back to the browser's timezone.
+ */
+export const getZonedTime = (timezone: string, now: Date = new Date()): ZonedTime => {
+    const parts = Object.fromEntries(
+        new Intl.DateTimeFormat('en-US', {
+            timeZone: timezone,
+            year: 'numeric', month: '2-digit', day: '2-digit',
+            weekday: 'short', hour: '2-digit', minute: '2-digit', hourCycle: 'h23',
+        }).formatToParts(now).map(p => [p.type, p.value])
+    );
+    return {
+        date: `${parts.year}-${parts.month}-${parts.day}`,
+        weekday: WEEKDAY_INDEX[parts.weekday],
+        time: `${parts.hour}:${parts.minute}`,
+    };
+};
+
+/**
+ * Checks whether a campaign may place calls at `now`, in the campaign's timezone.
+ * `callingDays` uses 0 (or 7) for Sunday through 6 for Saturday; the window
+ * includes `callingStartTime` and excludes `callingEndTime`.
+ */
+export const checkCallingWindow = (
+    campaign: Pick<Campaign, 'timezone' | 'callingDays' | 'callingStartTime' | 'callingEndTime'>,
+    publicHolidays: PublicHoliday[],
+    now: Date = new Date()
+): CallingWindowCheck => {
+    let localTime: ZonedTime;
+    try {
+        localTime = getZonedTime(campaign.timezone, now);
+    } catch {
+        return {
+            allowed: false,
+            violation: 'OUTSIDE_HOURS',
+            message: `Fuseau horaire de campagne invalide : "${campaign.timezone}".`,
+            localTime: { date: '', weekday: -1, time: '' },
+        };
+    }
+
+    const holiday = publicHolidays.find(h => h.date === localTime.date);
+    if (holiday) {
+        return { allowed: false, violation: 'PUBLIC_HOLIDAY', message: `Appels interdits : jour férié (${holiday.name}).`, localTime };
+    }
+
+    const callingDays = campaign.callingDays.map(d => d % 7);
+    if (!callingDays.includes(localTime.weekday)) {
+        return { allowed: false, violation: 'OUTSIDE_DAYS', message: `Appels interdits le ${DAY_NAMES[localTime.weekday]} pour cette campagne.`, localTime };
+    }
+
+    if (localTime.time < campaign.callingStartTime || localTime.time >= campaign.callingEndTime) {
+        return {
+            allowed: false,
+            violation: 'OUTSIDE_HOURS',
+            message: `Appels autorisés de ${campaign.callingStartTime} à ${campaign.callingEndTime} (${campaign.timezone}). Heure locale : ${localTime.time}.`,
+            localTime,
+        };
+    }
+
+    return { allowed: true, violation: null, message: '', localTime };
+};
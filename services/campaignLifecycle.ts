@@ -0,0 +1,23 @@
+import type { Campaign, CampaignRunStatus } from '../types.ts';
+
+export const CAMPAIGN_RUN_STATUS_LABELS: Record<CampaignRunStatus, string> = {
+    running: 'En cours',
+    paused: 'En pause',
+    stopped: 'Arrêtée',
+};
+
+// Own keys only: a value such as 'toString' is not a run status.
+export const isCampaignRunStatus = (value: unknown): value is CampaignRunStatus =>
+    typeof value === 'string' && Object.keys(CAMPAIGN_RUN_STATUS_LABELS).includes(value);
+
+/**
+ * An inactive campaign never dials. Campaigns saved before the run status
+ * existed have none and keep running.
+ */
+export const getCampaignRunStatus = (campaign: Pick<Campaign, 'isActive' | 'runStatus'>): CampaignRunStatus =>
+    campaign.isActive ? campaign.runStatus ?? 'running' : 'stopped';
+
+// Pausing or stopping only prevents new calls: calls in progress end normally
+// and their agents go through wrap-up (graceful drain).
+export const canDialCampaign = (campaign: Pick<Campaign, 'isActive' | 'runStatus'>): boolean =>
+    getCampaignRunStatus(campaign) === 'running';
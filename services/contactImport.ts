@@ -0,0 +1,237 @@
+import type { Contact } from '../types.ts';
+
+// SheetJS is loaded from the CDN in index.html, like jsPDF and Chart.js.
+declare var XLSX: any;
+
+export type ContactImportField = 'firstName' | 'lastName' | 'phoneNumber' | 'postalCode';
+
+export const CONTACT_IMPORT_FIELDS: { key: ContactImportField; label: string; required: boolean }[] = [
+    { key: 'phoneNumber', label: 'Téléphone', required: true },
+    { key: 'lastName', label: 'Nom', required: false },
+    { key: 'firstName', label: 'Prénom', required: false },
+    { key: 'postalCode', label: 'Code Postal', required: false },
+];
+
+// Maps each contact field to a column index of the parsed sheet (null = not imported).
+export type ColumnMapping = Record<ContactImportField, number | null>;
+
+export interface ParsedSheet {
+    headers: string[];
+    rows: string[][];
+    // 1-based line number in the source file of each row: blank lines are not in `rows`.
+    rowNumbers: number[];
+}
+
+export interface ImportRowResult {
+    rowNumber: number; // 1-based line number in the source file, header included
+    cells: string[]; // the row as read from the file
+    contact: Contact | null;
+    errors: string[];
+}
+
+export interface ContactImportResult {
+    contacts: Contact[];
+    rows: ImportRowResult[];
+    errorCount: number;
+}
+
+const HEADER_ALIASES: Record<ContactImportField, string[]> = {
+    phoneNumber: ['telephone', 'tel', 'phone', 'phonenumber', 'numero', 'mobile', 'portable', 'gsm'],
+    lastName: ['nom', 'lastname', 'nomdefamille', 'surname', 'name'],
+    firstName: ['prenom', 'firstname', 'givenname'],
+    postalCode: ['codepostal', 'cp', 'postalcode', 'zip', 'zipcode'],
+};
+
+const normalizeHeader = (header: string) =>
+    header.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const detectDelimiter = (firstLine: string): string => {
+    const candidates = [';', ',', '\t', '|'];
+    return candidates.reduce((best, d) => (firstLine.split(d).length > firstLine.split(best).length ? d : best), ',');
+};
+
+// Drops the blank records; the first one left is the header row.
+const toParsedSheet = (records: string[][], lineNumbers: number[]): ParsedSheet => {
+    const kept = records.map((cells, i) => ({ cells, line: lineNumbers[i] })).filter(r => r.cells.some(cell => cell.trim() !== ''));
+    const [header, ...rows] = kept;
+    return {
+        headers: (header?.cells ?? []).map(h => h.trim()),
+        rows: rows.map(r => r.cells),
+        rowNumbers: rows.map(r => r.line),
+    };
+};
+
+/**
+ * Parses CSV text (RFC 4180 quoting) into a header row and data rows.
+ * The delimiter is detected from the first line, since French spreadsheets export with ';'.
+ */
+export const parseCsv = (text: string): ParsedSheet => {
+    const content = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+    const delimiter = detectDelimiter(content.slice(0, content.search(/\r?\n|$/)));
+    const records: string[][] = [];
+    const recordLines: number[] = [];
+    let record: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    // Quoted fields may span several lines: a record is numbered after its first line.
+    let line = 1;
+    let recordLine = 1;
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (inQuotes) {
+            if (char === '\n' || (char === '\r' && content[i + 1] !== '\n')) line++;
+            if (char === '"') {
+                if (content[i + 1] === '"') {
+                    field += '"';
+                    i++;
+                } else {
+                    inQuotes = false;
+                }
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            record.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') i++;
+            record.push(field);
+            records.push(record);
+            recordLines.push(recordLine);
+            record = [];
+            field = '';
+            line++;
+            recordLine = line;
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || record.length > 0) {
+        record.push(field);
+        records.push(record);
+        recordLines.push(recordLine);
+    }
+
+    return toParsedSheet(records, recordLines);
+};
+
+/**
+ * Parses the first worksheet of an XLSX/XLS workbook.
+ */
+export const parseXlsx = (data: ArrayBuffer): ParsedSheet => {
+    if (typeof XLSX === 'undefined') {
+        throw new Error("La librairie de lecture Excel n'est pas chargée.");
+    }
+    const workbook = XLSX.read(data, { type: 'array' });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    const records: any[][] = XLSX.utils.sheet_to_json(sheet, { header: 1, raw: false, defval: '', blankrows: true });
+    // The used range of the sheet may start below its first row.
+    const firstRow = sheet['!ref'] ? XLSX.utils.decode_range(sheet['!ref']).s.r + 1 : 1;
+    return toParsedSheet(records.map(r => r.map(cell => String(cell ?? ''))), records.map((_, i) => firstRow + i));
+};
+
+export const readContactFile = async (file: File): Promise<ParsedSheet> => {
+    const extension = file.name.split('.').pop()?.toLowerCase();
+    if (extension === 'xlsx' || extension === 'xls') {
+        return parseXlsx(await file.arrayBuffer());
+    }
+    if (extension === 'csv' || extension === 'txt') {
+        return parseCsv(await file.text());
+    }
+    throw new Error('Format de fichier non supporté. Utilisez un fichier .csv ou .xlsx.');
+};
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+    const normalized = headers.map(normalizeHeader);
+    const mapping = {} as ColumnMapping;
+    const used = new Set<number>();
+    for (const { key } of CONTACT_IMPORT_FIELDS) {
+        const index = normalized.findIndex((h, i) => !used.has(i) && HEADER_ALIASES[key].includes(h));
+        mapping[key] = index > -1 ? index : null;
+        if (index > -1) used.add(index);
+    }
+    return mapping;
+};
+
+/**
+ * Normalizes a phone number to the national French format (0XXXXXXXXX).
+ * Accepts +33 / 0033 prefixes, separators, and numbers whose leading zero
+ * was dropped by a spreadsheet. Other international numbers are kept in E.164.
+ * Returns null when the number cannot be dialed.
+ */
+export const normalizePhoneNumber = (raw: string): string | null => {
+    const trimmed = raw.trim();
+    if (!trimmed) return null;
+    let digits = trimmed.replace(/[\s.\-()/]/g, '');
+    if (digits.startsWith('00')) digits = `+${digits.slice(2)}`;
+
+    if (digits.startsWith('+')) {
+        if (!/^\+\d{8,15}$/.test(digits)) return null;
+        if (digits.startsWith('+33')) {
+            digits = `0${digits.slice(3)}`;
+        } else {
+            return digits;
+        }
+    }
+
+    if (/^[1-9]\d{8}$/.test(digits)) digits = `0${digits}`;
+    return /^0[1-9]\d{8}$/.test(digits) ? digits : null;
+};
+
+/**
+ * Applies the column mapping to every row, validating and de-duplicating phone numbers
+ * against the file itself and the campaign's existing contacts.
+ */
+export const buildContactsFromSheet = (sheet: ParsedSheet, mapping: ColumnMapping, existingContacts: Contact[]): ContactImportResult => {
+    const seenPhones = new Set(existingContacts.map(c => normalizePhoneNumber(c.phoneNumber) || c.phoneNumber));
+    const idPrefix = `contact-${Date.now()}`;
+    const contacts: Contact[] = [];
+    let errorCount = 0;
+
+    const cell = (row: string[], field: ContactImportField) => {
+        const index = mapping[field];
+        return index === null ? '' : (row[index] ?? '').trim();
+    };
+
+    const rows = sheet.rows.map((row, i): ImportRowResult => {
+        const errors: string[] = [];
+        const rawPhone = cell(row, 'phoneNumber');
+        const phoneNumber = normalizePhoneNumber(rawPhone);
+
+        if (!rawPhone) {
+            errors.push('Numéro de téléphone manquant.');
+        } else if (!phoneNumber) {
+            errors.push(`Numéro de téléphone invalide : "${rawPhone}".`);
+        } else if (seenPhones.has(phoneNumber)) {
+            errors.push('Numéro en doublon.');
+        }
+
+        const postalCode = cell(row, 'postalCode');
+        if (postalCode && !/^\d{4,5}$/.test(postalCode)) {
+            errors.push(`Code postal invalide : "${postalCode}".`);
+        }
+
+        if (errors.length > 0) {
+            errorCount++;
+            return { rowNumber: sheet.rowNumbers[i], cells: row, contact: null, errors };
+        }
+
+        seenPhones.add(phoneNumber!);
+        const contact: Contact = {
+            id: `${idPrefix}-${i}`,
+            firstName: cell(row, 'firstName'),
+            lastName: cell(row, 'lastName'),
+            phoneNumber: phoneNumber!,
+            // Spreadsheets drop the leading zero of départements 01-09.
+            postalCode: postalCode.length === 4 ? `0${postalCode}` : postalCode,
+            status: 'pending',
+        };
+        contacts.push(contact);
+        return { rowNumber: sheet.rowNumbers[i], cells: row, contact, errors };
+    });
+
+    return { contacts, rows, errorCount };
+};
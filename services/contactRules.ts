@@ -0,0 +1,75 @@
+import type { Campaign, Contact, DncEntry, FilterRule, QuotaRule, Qualification } from '../types.ts';
+import { isDoNotCall } from './dnc.ts';
+import { canServeCallback, getDueCallbacks } from './callbacks.ts';
+
+type RuleOperator = FilterRule['operator'] | QuotaRule['operator'];
+
+const matchesValue = (fieldValue: string | undefined, operator: RuleOperator, ruleValue: string): boolean => {
+    const field = (fieldValue || '').trim().toLowerCase();
+    const value = ruleValue.trim().toLowerCase();
+    switch (operator) {
+        case 'equals': return field === value;
+        case 'starts_with': return field.startsWith(value);
+        case 'contains': return field.includes(value);
+        case 'is_not_empty': return field !== '';
+        default: return false;
+    }
+};
+
+export const matchesFilterRule = (contact: Contact, rule: FilterRule): boolean =>
+    matchesValue(contact[rule.contactField], rule.operator, rule.value);
+
+export const matchesQuotaRule = (contact: Contact, rule: QuotaRule): boolean =>
+    matchesValue(contact[rule.contactField], rule.operator, rule.value);
+
+/**
+ * A contact passes when it matches none of the exclude rules and, if the
+ * campaign has include rules, at least one of them.
+ */
+export const passesFilterRules = (contact: Contact, rules: FilterRule[]): boolean => {
+    const includes = rules.filter(r => r.type === 'include');
+    if (includes.length > 0 && !includes.some(r => matchesFilterRule(contact, r))) return false;
+    return !rules.some(r => r.type === 'exclude' && matchesFilterRule(contact, r));
+};
+
+export const isQuotaReached = (rule: QuotaRule): boolean => rule.currentCount >= rule.limit;
+
+/**
+ * Percentage of the quota already filled, capped at 100.
+ */
+export const getQuotaFillRate = (rule: QuotaRule): number =>
+    rule.limit <= 0 ? 100 : Math.min(100, (rule.currentCount / rule.limit) * 100);
+
+/**
+ * Whether the contact may be served: it must pass the campaign's filters and
+ * must not belong to a quota segment whose limit is reached.
+ */
+export const isContactEligible = (contact: Contact, campaign: Pick<Campaign, 'filterRules' | 'quotaRules'>): boolean =>
+    passesFilterRules(contact, campaign.filterRules)
+    && !campaign.quotaRules.some(rule => isQuotaReached(rule) && matchesQuotaRule(contact, rule));
+
+/**
+ * Next contact to serve to `agentId`: the oldest due callback the agent may
+ * take, then the first eligible pending contact. Numbers put on a Do-Not-Call
+ * list after the import are skipped here too.
+ */
+export const pickNextContact = (campaign: Campaign, dncEntries: DncEntry[] = [], agentId: string | null = null, now: Date = new Date()): Contact | undefined => {
+    const isCallable = (c: Contact) => !isDoNotCall(c.phoneNumber, campaign.id, dncEntries);
+    return getDueCallbacks(campaign, now).find(c => canServeCallback(c.callback, agentId) && isCallable(c))
+        ?? campaign.contacts.find(c => c.status === 'pending' && isContactEligible(c, campaign) && isCallable(c));
+};
+
+/**
+ * Counts a positive qualification towards every quota segment the contact belongs to.
+ * Returns the same campaign object when no quota is affected.
+ */
+export const applyQualificationToQuotas = <C extends Pick<Campaign, 'quotaRules'>>(campaign: C, contact: Contact, qualification: Pick<Qualification, 'type'>): C => {
+    if (qualification.type !== 'positive') return campaign;
+    if (!campaign.quotaRules.some(rule => matchesQuotaRule(contact, rule))) return campaign;
+    return {
+        ...campaign,
+        quotaRules: campaign.quotaRules.map(rule =>
+            matchesQuotaRule(contact, rule) ? { ...rule, currentCount: rule.currentCount + 1 } : rule
+        ),
+    };
+};
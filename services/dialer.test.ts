@@ -0,0 +1,84 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Campaign, Contact } from '../types.ts';
+import { mockData } from '../data/mockData.ts';
+import type { DialerEvent } from './dialer.ts';
+import { createDialer } from './dialer.ts';
+import type { OriginateRequest, OriginateResult, TelephonyAdapter } from './telephony.ts';
+
+// Calls ring until the test answers them.
+const createRingingTelephony = () => {
+    const ringing = new Map<string, { request: OriginateRequest; resolve: (result: OriginateResult) => void }>();
+    const telephony: TelephonyAdapter = {
+        originate: (request) => new Promise(resolve => ringing.set(request.contactId, { request, resolve })),
+        hangup: async () => {},
+        dropVoicemail: async () => {},
+        spy: async () => {},
+        fetchRecording: async () => null,
+    };
+    const answer = async (contactId: string) => {
+        const call = ringing.get(contactId);
+        assert.ok(call, `no call ringing for ${contactId}`);
+        ringing.delete(contactId);
+        call.resolve({ callId: call.request.callId, outcome: 'ANSWERED', ringDuration: 5 });
+        await new Promise(resolve => setImmediate(resolve));
+    };
+    return { telephony, ringing, answer };
+};
+
+const callback: Contact = {
+    id: 'contact-callback', firstName: 'Peter', lastName: 'Jones', phoneNumber: '0699887766', postalCode: '69001', status: 'called',
+    callback: { scheduledAt: '2026-03-02T14:30:00.000Z', scope: 'personal', agentId: 'agent-1', createdAt: '2026-02-27T10:12:00.000Z' },
+};
+const pending: Contact = { id: 'contact-pending', firstName: 'John', lastName: 'Doe', phoneNumber: '0611223344', postalCode: '13001', status: 'pending' };
+
+// Progressive campaign allowed to dial at any time, without AMD.
+const campaign: Campaign = {
+    ...mockData.campaigns[0],
+    runStatus: 'running',
+    callingDays: [0, 1, 2, 3, 4, 5, 6],
+    callingStartTime: '00:00',
+    callingEndTime: '24:00',
+    amdEnabled: false,
+    filterRules: [],
+    quotaRules: [],
+    contacts: [callback, pending],
+};
+
+const createTestDialer = () => {
+    const { telephony, ringing, answer } = createRingingTelephony();
+    const events: DialerEvent[] = [];
+    const dialer = createDialer({ telephony, getCampaign: () => campaign, onEvent: event => events.push(event) });
+    ['agent-1', 'agent-2'].forEach(agentId => dialer.agentLogin(agentId));
+    return { dialer, ringing, answer, events };
+};
+
+describe('createDialer: personal callbacks', () => {
+    it('reserves the agent of a ringing callback to it', async () => {
+        const { dialer, ringing, answer, events } = createTestDialer();
+        assert.equal(dialer.tick(), 2);
+        assert.deepEqual([...ringing.keys()], ['contact-callback', 'contact-pending']);
+        // The other call is answered first: it goes to the agent who is not reserved.
+        await answer('contact-pending');
+        await answer('contact-callback');
+        assert.deepEqual(
+            events.filter(event => event.type === 'CALL_CONNECTED').map(event => [event.contact.id, event.type === 'CALL_CONNECTED' && event.agentId]),
+            [['contact-pending', 'agent-2'], ['contact-callback', 'agent-1']],
+        );
+    });
+
+    it('is not dialed while its agent is busy', () => {
+        const { dialer, ringing } = createTestDialer();
+        dialer.agentBusy('agent-1');
+        assert.equal(dialer.tick(), 1);
+        assert.deepEqual([...ringing.keys()], ['contact-pending']);
+    });
+
+    it('is abandoned rather than connected to another agent once its agent is busy', async () => {
+        const { dialer, answer, events } = createTestDialer();
+        dialer.tick();
+        dialer.agentBusy('agent-1');
+        await answer('contact-callback');
+        assert.deepEqual(events.filter(event => event.type !== 'CALL_STARTED').map(event => event.type), ['CALL_ABANDONED']);
+    });
+});
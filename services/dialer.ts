@@ -0,0 +1,309 @@
+import type { AudioFile, Campaign, Contact, DncEntry, PublicHoliday } from '../types.ts';
+import type { AmdResult, TelephonyAdapter, CallOutcome } from './telephony.ts';
+import { checkCallingWindow } from './callingWindow.ts';
+import { isContactEligible } from './contactRules.ts';
+import { isDoNotCall } from './dnc.ts';
+import { getDueCallbacks } from './callbacks.ts';
+import { hasPreviewStep } from './preview.ts';
+import { canDialCampaign } from './campaignLifecycle.ts';
+
+// Abandon rate is only trusted once enough calls were answered;
+// otherwise the first dropped call would read as 100%.
+export const MIN_ANSWERED_FOR_ABANDON_RATE = 20;
+
+export interface DialerStats {
+    dialed: number;
+    answered: number;
+    abandoned: number;
+    failed: number; // NO_ANSWER, BUSY and FAILED outcomes
+    machines: number; // answered by an answering machine, not counted as answered
+    ringing: number;
+}
+
+export interface PacingInput {
+    campaign: Pick<Campaign, 'dialingMode' | 'previewEnabled' | 'paceFactor' | 'maxAbandonRate' | 'minAgentsBeforeStart'>;
+    loggedInAgents: number;
+    availableAgents: number;
+    ringingCalls: number;
+    stats: Pick<DialerStats, 'answered' | 'abandoned'>;
+}
+
+export type DialerStopReason = 'MANUAL' | 'ABANDON_RATE' | 'NO_CONTACTS';
+
+export type DialerEvent =
+    | { type: 'CALL_STARTED'; callId: string; campaignId: string; contact: Contact }
+    | { type: 'CALL_CONNECTED'; callId: string; campaignId: string; contact: Contact; agentId: string }
+    | { type: 'CALL_ABANDONED'; callId: string; campaignId: string; contact: Contact }
+    | { type: 'CALL_FAILED'; callId: string; campaignId: string; contact: Contact; outcome: CallOutcome }
+    // Qualified as MACHINE (see DIALER_OUTCOME_QUALIFICATION_IDS), once the message is left.
+    | { type: 'CALL_MACHINE'; callId: string; campaignId: string; contact: Contact; voicemailDropped: boolean }
+    | { type: 'DIALER_STOPPED'; campaignId: string; reason: DialerStopReason };
+
+export interface DialerOptions {
+    telephony: TelephonyAdapter;
+    // Read on every tick so the engine always works on the latest campaign data.
+    getCampaign: () => Campaign;
+    getPublicHolidays?: () => PublicHoliday[];
+    // Messages left on answering machines (voicemailAction 'LEAVE_MESSAGE').
+    getAudioFiles?: () => AudioFile[];
+    // Read on every tick: numbers added during the campaign are never dialed.
+    getDncEntries?: () => DncEntry[];
+    onEvent?: (event: DialerEvent) => void;
+    tickIntervalMs?: number;
+}
+
+export interface Dialer {
+    start: () => void;
+    stop: (reason?: DialerStopReason) => void;
+    tick: () => number;
+    isRunning: () => boolean;
+    agentLogin: (agentId: string) => void;
+    agentLogout: (agentId: string) => void;
+    agentReady: (agentId: string) => void;
+    // Paused, in a call the dialer did not place or in wrap-up.
+    agentBusy: (agentId: string) => void;
+    getStats: () => DialerStats;
+    getAbandonRate: () => number;
+}
+
+/**
+ * Abandoned calls as a percentage of answered calls.
+ */
+export const computeAbandonRate = (stats: Pick<DialerStats, 'answered' | 'abandoned'>): number =>
+    stats.answered === 0 ? 0 : (stats.abandoned / stats.answered) * 100;
+
+export const isAbandonCeilingReached = (campaign: Pick<Campaign, 'maxAbandonRate'>, stats: Pick<DialerStats, 'answered' | 'abandoned'>): boolean =>
+    stats.answered >= MIN_ANSWERED_FOR_ABANDON_RATE && computeAbandonRate(stats) >= campaign.maxAbandonRate;
+
+/**
+ * AMD stage of an answered call: it goes to an agent unless AMD is enabled and
+ * reports a machine with at least the campaign's confidence. Unsure results
+ * go to an agent, so no person is hung up on.
+ */
+export const isAnsweringMachine = (campaign: Pick<Campaign, 'amdEnabled' | 'amdConfidence'>, amd: AmdResult | undefined): boolean =>
+    campaign.amdEnabled && amd?.status === 'MACHINE' && amd.confidence >= campaign.amdConfidence;
+
+// Message to leave after the beep, undefined to hang up at once.
+export const getVoicemailMessage = (campaign: Pick<Campaign, 'voicemailAction' | 'voicemailAudioFileId'>, audioFiles: AudioFile[]): AudioFile | undefined =>
+    campaign.voicemailAction === 'LEAVE_MESSAGE' && campaign.voicemailAudioFileId
+        ? audioFiles.find(file => file.id === campaign.voicemailAudioFileId)
+        : undefined;
+
+// MANUAL campaigns and PROGRESSIVE ones with a preview step are dialed by their agents.
+export const isDialerDriven = (campaign: Pick<Campaign, 'dialingMode' | 'previewEnabled'>): boolean =>
+    campaign.dialingMode !== 'MANUAL' && !hasPreviewStep(campaign);
+
+/**
+ * Number of new calls to launch now.
+ * - MANUAL never dials on its own, nor PROGRESSIVE with a preview step:
+ *   the agent places the call once the contact has been read.
+ * - PROGRESSIVE dials exactly one line per available agent.
+ * - PREDICTIVE overdials by `paceFactor`, linearly reduced towards 1:1 as
+ *   the abandon rate approaches `maxAbandonRate`.
+ * Calls already ringing are deducted so they are not counted twice.
+ */
+export const computeLinesToDial = ({ campaign, loggedInAgents, availableAgents, ringingCalls, stats }: PacingInput): number => {
+    if (!isDialerDriven(campaign)) return 0;
+    if (loggedInAgents < Math.max(1, campaign.minAgentsBeforeStart)) return 0;
+    if (availableAgents <= 0) return 0;
+
+    let ratio = 1;
+    if (campaign.dialingMode === 'PREDICTIVE') {
+        if (isAbandonCeilingReached(campaign, stats)) return 0;
+        const headroom = campaign.maxAbandonRate > 0
+            ? Math.max(0, 1 - computeAbandonRate(stats) / campaign.maxAbandonRate)
+            : 0;
+        ratio = 1 + Math.max(0, campaign.paceFactor - 1) * headroom;
+    }
+
+    return Math.max(0, Math.floor(availableAgents * ratio) - ringingCalls);
+};
+
+/**
+ * Picks the next `count` contacts to dial: due callbacks first, then the pending
+ * contacts allowed by the campaign's filter and quota rules. Contacts already
+ * being dialed and those on a Do-Not-Call list are skipped. A personal callback
+ * is only dialed while its agent is idle (see createDialer(), which reserves them
+ * to the call), one at a time per agent.
+ */
+export const pickContactsToDial = (
+    campaign: Pick<Campaign, 'id' | 'contacts' | 'filterRules' | 'quotaRules'>,
+    count: number,
+    inFlightContactIds: Set<string>,
+    dncEntries: DncEntry[] = [],
+    idleAgentIds: string[] = [],
+    now: Date = new Date(),
+): Contact[] => {
+    const picked: Contact[] = [];
+    const reservedAgentIds = new Set<string>();
+    const isDialable = (contact: Contact) => !inFlightContactIds.has(contact.id) && !isDoNotCall(contact.phoneNumber, campaign.id, dncEntries);
+    for (const contact of getDueCallbacks(campaign, now)) {
+        if (picked.length >= count) return picked;
+        if (!isDialable(contact)) continue;
+        if (contact.callback.scope === 'personal') {
+            const { agentId } = contact.callback;
+            if (!idleAgentIds.includes(agentId) || reservedAgentIds.has(agentId)) continue;
+            reservedAgentIds.add(agentId);
+        }
+        picked.push(contact);
+    }
+    for (const contact of campaign.contacts) {
+        if (picked.length >= count) break;
+        if (contact.status === 'pending' && isDialable(contact) && isContactEligible(contact, campaign)) {
+            picked.push(contact);
+        }
+    }
+    return picked;
+};
+
+/**
+ * Outbound dialing engine for a single campaign. On every tick it computes how
+ * many lines to launch from agent availability and the abandon rate, originates
+ * the calls and hands answered calls to an idle agent. Calls answered by an
+ * answering machine get the campaign's voicemail message or are hung up. Answered
+ * calls with no idle agent are hung up and counted as abandoned. Due callbacks
+ * are dialed before the pending contacts; the agent of a personal callback is
+ * reserved to it while it rings, and is the only one it is connected to. A
+ * contact is not dialed again before the event of its call's outcome has been handled.
+ */
+export const createDialer = ({ telephony, getCampaign, getPublicHolidays = () => [], getAudioFiles = () => [], getDncEntries = () => [], onEvent = () => {}, tickIntervalMs = 1000 }: DialerOptions): Dialer => {
+    const agents = new Map<string, 'idle' | 'busy'>();
+    const inFlightContactIds = new Set<string>();
+    // Agent id -> call id of the personal callback ringing for them.
+    const reservedAgents = new Map<string, string>();
+    const stats: DialerStats = { dialed: 0, answered: 0, abandoned: 0, failed: 0, machines: 0, ringing: 0 };
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let callSequence = 0;
+
+    const idleAgentIds = () => [...agents.entries()]
+        .filter(([id, state]) => state === 'idle' && !reservedAgents.has(id))
+        .map(([id]) => id);
+
+    const releaseAgent = (callId: string) => {
+        reservedAgents.forEach((reservedCallId, agentId) => {
+            if (reservedCallId === callId) reservedAgents.delete(agentId);
+        });
+    };
+
+    const stop = (reason: DialerStopReason = 'MANUAL') => {
+        if (timer === null) return;
+        clearInterval(timer);
+        timer = null;
+        onEvent({ type: 'DIALER_STOPPED', campaignId: getCampaign().id, reason });
+    };
+
+    const handleMachine = (campaign: Campaign, callId: string, contact: Contact) => {
+        stats.machines++;
+        const message = getVoicemailMessage(campaign, getAudioFiles());
+        const drop = message ? telephony.dropVoicemail(callId, message.fileName) : telephony.hangup(callId);
+        drop
+            .then(() => onEvent({ type: 'CALL_MACHINE', callId, campaignId: campaign.id, contact, voicemailDropped: !!message }))
+            .catch(err => {
+                console.error(`Dialer: voicemail drop failed for call ${callId}:`, err);
+                onEvent({ type: 'CALL_MACHINE', callId, campaignId: campaign.id, contact, voicemailDropped: false });
+            })
+            .finally(() => inFlightContactIds.delete(contact.id));
+    };
+
+    const placeCall = (campaign: Campaign, contact: Contact) => {
+        const callId = `dial-${campaign.id}-${Date.now()}-${++callSequence}`;
+        // Picked only while its agent is idle, see pickContactsToDial().
+        const callback = contact.callback?.scope === 'personal' ? contact.callback : null;
+        if (callback) reservedAgents.set(callback.agentId, callId);
+        inFlightContactIds.add(contact.id);
+        stats.dialed++;
+        stats.ringing++;
+        onEvent({ type: 'CALL_STARTED', callId, campaignId: campaign.id, contact });
+
+        telephony.originate({
+            callId,
+            campaignId: campaign.id,
+            contactId: contact.id,
+            phoneNumber: contact.phoneNumber,
+            callerId: campaign.callerId,
+            ringTimeout: campaign.maxRingDuration,
+            amdEnabled: campaign.amdEnabled,
+        }).then(result => {
+            stats.ringing--;
+            releaseAgent(callId);
+            if (result.outcome !== 'ANSWERED') {
+                stats.failed++;
+                onEvent({ type: 'CALL_FAILED', callId, campaignId: campaign.id, contact, outcome: result.outcome });
+                inFlightContactIds.delete(contact.id);
+                return;
+            }
+            if (isAnsweringMachine(campaign, result.amd)) {
+                handleMachine(campaign, callId, contact);
+                return;
+            }
+            stats.answered++;
+            // A personal callback is connected to its agent only, unless they left meanwhile.
+            const agentId = callback ? (agents.get(callback.agentId) === 'idle' ? callback.agentId : undefined) : idleAgentIds()[0];
+            if (agentId) {
+                agents.set(agentId, 'busy');
+                onEvent({ type: 'CALL_CONNECTED', callId, campaignId: campaign.id, contact, agentId });
+            } else {
+                stats.abandoned++;
+                telephony.hangup(callId).catch(err => console.error(`Dialer: hangup failed for abandoned call ${callId}:`, err));
+                onEvent({ type: 'CALL_ABANDONED', callId, campaignId: campaign.id, contact });
+            }
+            inFlightContactIds.delete(contact.id);
+        }).catch(err => {
+            stats.ringing--;
+            stats.failed++;
+            releaseAgent(callId);
+            console.error(`Dialer: originate failed for call ${callId}:`, err);
+            onEvent({ type: 'CALL_FAILED', callId, campaignId: campaign.id, contact, outcome: 'FAILED' });
+            inFlightContactIds.delete(contact.id);
+        });
+    };
+
+    const tick = (): number => {
+        const campaign = getCampaign();
+        // Paused and stopped campaigns launch no new call; calls already ringing complete.
+        if (!canDialCampaign(campaign)) return 0;
+        // Outside the legal calling window the dialer idles until the window reopens.
+        if (!checkCallingWindow(campaign, getPublicHolidays()).allowed) return 0;
+
+        if (campaign.dialingMode === 'PREDICTIVE' && isAbandonCeilingReached(campaign, stats)) {
+            stop('ABANDON_RATE');
+            return 0;
+        }
+
+        const lines = computeLinesToDial({
+            campaign,
+            loggedInAgents: agents.size,
+            availableAgents: idleAgentIds().length,
+            ringingCalls: stats.ringing,
+            stats,
+        });
+        if (lines === 0) return 0;
+
+        const contacts = pickContactsToDial(campaign, lines, inFlightContactIds, getDncEntries(), idleAgentIds());
+        if (contacts.length === 0 && stats.ringing === 0) {
+            stop('NO_CONTACTS');
+            return 0;
+        }
+        contacts.forEach(contact => placeCall(campaign, contact));
+        return contacts.length;
+    };
+
+    const start = () => {
+        if (timer !== null) return;
+        timer = setInterval(tick, tickIntervalMs);
+        tick();
+    };
+
+    return {
+        start,
+        stop,
+        tick,
+        isRunning: () => timer !== null,
+        agentLogin: (agentId) => { if (!agents.has(agentId)) agents.set(agentId, 'idle'); },
+        agentLogout: (agentId) => { agents.delete(agentId); },
+        agentReady: (agentId) => { if (agents.has(agentId)) agents.set(agentId, 'idle'); },
+        agentBusy: (agentId) => { if (agents.has(agentId)) agents.set(agentId, 'busy'); },
+        getStats: () => ({ ...stats }),
+        getAbandonRate: () => computeAbandonRate(stats),
+    };
+};
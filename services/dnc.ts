@@ -0,0 +1,109 @@
+// Do-Not-Call lists: contacts are scrubbed against them when imported and again when dialed.
+import type { Contact, DncEntry } from '../types.ts';
+import type { ParsedSheet } from './contactImport.ts';
+import { normalizePhoneNumber } from './contactImport.ts';
+
+export type DncExclusionReason = 'GLOBAL' | 'CAMPAIGN';
+
+export const DNC_EXCLUSION_REASON_LABELS: Record<DncExclusionReason, string> = {
+    GLOBAL: 'Liste d\'exclusion globale',
+    CAMPAIGN: 'Liste d\'exclusion de la campagne',
+};
+
+export const DNC_SOURCE_LABELS: Record<DncEntry['source'], string> = {
+    import: 'Import',
+    manual: 'Saisie',
+    agent: 'Agent (post-appel)',
+};
+
+export interface DncExclusion {
+    contact: Contact;
+    reason: DncExclusionReason;
+}
+
+export interface DncScrubResult {
+    kept: Contact[];
+    excluded: DncExclusion[];
+}
+
+const toComparable = (phoneNumber: string) => normalizePhoneNumber(phoneNumber) || phoneNumber.trim();
+
+/**
+ * Reason why `phoneNumber` may not be called in `campaignId`, null if it may.
+ * The global list wins when the number is on both lists.
+ */
+export const getDncReason = (phoneNumber: string, campaignId: string | null, entries: DncEntry[]): DncExclusionReason | null => {
+    const number = toComparable(phoneNumber);
+    const matching = entries.filter(entry => entry.phoneNumber === number);
+    if (matching.some(entry => entry.campaignId === null)) return 'GLOBAL';
+    if (campaignId && matching.some(entry => entry.campaignId === campaignId)) return 'CAMPAIGN';
+    return null;
+};
+
+export const isDoNotCall = (phoneNumber: string, campaignId: string | null, entries: DncEntry[]): boolean =>
+    getDncReason(phoneNumber, campaignId, entries) !== null;
+
+export const scrubContacts = (contacts: Contact[], campaignId: string, entries: DncEntry[]): DncScrubResult => {
+    const result: DncScrubResult = { kept: [], excluded: [] };
+    contacts.forEach(contact => {
+        const reason = getDncReason(contact.phoneNumber, campaignId, entries);
+        if (reason) {
+            result.excluded.push({ contact, reason });
+        } else {
+            result.kept.push(contact);
+        }
+    });
+    return result;
+};
+
+export const countExclusionsByReason = (excluded: DncExclusion[]): Record<DncExclusionReason, number> => ({
+    GLOBAL: excluded.filter(e => e.reason === 'GLOBAL').length,
+    CAMPAIGN: excluded.filter(e => e.reason === 'CAMPAIGN').length,
+});
+
+export interface DncFileResult {
+    phoneNumbers: string[]; // normalized, without duplicates
+    invalidCount: number;
+}
+
+/**
+ * Reads the numbers of a DNC file: the column whose header looks like a phone
+ * number, or the first one. Files without a header row are read as well.
+ */
+export const readDncNumbers = (sheet: ParsedSheet): DncFileResult => {
+    const headerIndex = sheet.headers.findIndex(h => /t[eé]l|phone|num[eé]ro|mobile/i.test(h));
+    const column = headerIndex > -1 ? headerIndex : 0;
+    const hasHeader = headerIndex > -1 || !normalizePhoneNumber(sheet.headers[0] ?? '');
+    const cells = [...(hasHeader ? [] : [sheet.headers[column] ?? '']), ...sheet.rows.map(row => row[column] ?? '')]
+        .map(cell => cell.trim())
+        .filter(Boolean);
+    const phoneNumbers = new Set<string>();
+    let invalidCount = 0;
+    cells.forEach(cell => {
+        const number = normalizePhoneNumber(cell);
+        if (number) {
+            phoneNumbers.add(number);
+        } else {
+            invalidCount++;
+        }
+    });
+    return { phoneNumbers: [...phoneNumbers], invalidCount };
+};
+
+/**
+ * New entries for the numbers not already on the list of `campaignId` (null = global).
+ */
+export const buildDncEntries = (
+    phoneNumbers: string[],
+    campaignId: string | null,
+    existing: DncEntry[],
+    source: DncEntry['source'],
+    agentId: string | null = null,
+    now: Date = new Date(),
+): DncEntry[] => {
+    const listed = new Set(existing.filter(entry => entry.campaignId === campaignId).map(entry => entry.phoneNumber));
+    const idPrefix = `dnc-${now.getTime()}`;
+    return [...new Set(phoneNumbers.map(toComparable))]
+        .filter(number => !listed.has(number))
+        .map((phoneNumber, i) => ({ id: `${idPrefix}-${i}`, phoneNumber, campaignId, agentId, source, addedAt: now.toISOString() }));
+};
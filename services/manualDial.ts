@@ -0,0 +1,54 @@
+// Calls placed by the agent: a contact picked in the search panel or a number typed on the dial pad.
+import type { Campaign, Contact, DncEntry, PublicHoliday } from '../types.ts';
+import { checkCallingWindow } from './callingWindow.ts';
+import { normalizePhoneNumber } from './contactImport.ts';
+import { getDncReason, DNC_EXCLUSION_REASON_LABELS } from './dnc.ts';
+
+export const SEARCH_RESULT_LIMIT = 50;
+
+// The dialer places the calls of predictive campaigns: agents only choose who to call in the other modes.
+export const allowsManualDial = (campaign: Pick<Campaign, 'dialingMode'>): boolean => campaign.dialingMode !== 'PREDICTIVE';
+
+/**
+ * Contacts of the campaign whose name, phone number or postal code contains
+ * `term`. Phone numbers are compared without separators.
+ */
+export const searchContacts = (contacts: Contact[], term: string, limit: number = SEARCH_RESULT_LIMIT): Contact[] => {
+    const text = term.trim().toLowerCase();
+    if (!text) return [];
+    const digits = text.replace(/[\s.\-()/]/g, '');
+    const phone = normalizePhoneNumber(text);
+    return contacts.filter(c => {
+        const name = `${c.firstName} ${c.lastName}`.toLowerCase();
+        const reversedName = `${c.lastName} ${c.firstName}`.toLowerCase();
+        return name.includes(text) || reversedName.includes(text)
+            || c.postalCode.startsWith(text)
+            || (/^\+?\d+$/.test(digits) && c.phoneNumber.includes(digits))
+            || (phone !== null && normalizePhoneNumber(c.phoneNumber) === phone);
+    }).slice(0, limit);
+};
+
+/**
+ * Why the number may not be called now in `campaign`, null if it may:
+ * invalid number, Do-Not-Call list or outside the campaign's calling hours.
+ */
+export const checkManualDial = (
+    phoneNumber: string,
+    campaign: Campaign,
+    dncEntries: DncEntry[],
+    publicHolidays: PublicHoliday[],
+    now: Date = new Date(),
+): string | null => {
+    const number = normalizePhoneNumber(phoneNumber);
+    if (!number) return 'Numéro de téléphone invalide.';
+    const dncReason = getDncReason(number, campaign.id, dncEntries);
+    if (dncReason) return `Numéro interdit d'appel : ${DNC_EXCLUSION_REASON_LABELS[dncReason].toLowerCase()}.`;
+    const callingWindow = checkCallingWindow(campaign, publicHolidays, now);
+    return callingWindow.allowed ? null : callingWindow.message;
+};
+
+// The campaign's contact with this number, so a dialed number is recorded against it.
+export const findContactByNumber = (contacts: Contact[], phoneNumber: string): Contact | undefined => {
+    const number = normalizePhoneNumber(phoneNumber);
+    return number ? contacts.find(c => normalizePhoneNumber(c.phoneNumber) === number) : undefined;
+};
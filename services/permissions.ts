@@ -0,0 +1,127 @@
+// Permission model shared by the frontend and the REST API (server/).
+import type { Permission, PermissionProfile, User, UserRole } from '../types.ts';
+import type { ApiCollectionName, ApiSettingKey } from './apiContract.ts';
+
+export interface PermissionGroup {
+    label: string;
+    permissions: { id: Permission; label: string }[];
+}
+
+// Every permission, grouped by domain as shown in the permission matrix.
+export const PERMISSION_GROUPS: PermissionGroup[] = [
+    { label: 'Utilisateurs', permissions: [{ id: 'user.view', label: 'Consulter les utilisateurs et profils' }, { id: 'user.edit', label: 'Gérer les utilisateurs et profils' }] },
+    { label: 'Groupes', permissions: [{ id: 'group.view', label: 'Consulter les groupes' }, { id: 'group.edit', label: 'Gérer les groupes' }] },
+    { label: 'Planning', permissions: [{ id: 'planning.view', label: 'Consulter le planning' }, { id: 'planning.edit', label: 'Modifier le planning' }] },
+    { label: 'Campagnes', permissions: [{ id: 'campaign.view', label: 'Consulter les campagnes' }, { id: 'campaign.edit', label: 'Gérer les campagnes et contacts' }] },
+    { label: 'Listes d\'exclusion', permissions: [{ id: 'dnc.view', label: 'Consulter les listes d\'exclusion (DNC)' }, { id: 'dnc.edit', label: 'Gérer les listes d\'exclusion (DNC)' }] },
+    { label: 'Scripts', permissions: [{ id: 'script.view', label: 'Consulter les scripts' }, { id: 'script.edit', label: 'Modifier les scripts' }] },
+    { label: 'SVI', permissions: [{ id: 'ivr.view', label: 'Consulter les flux SVI' }, { id: 'ivr.edit', label: 'Modifier les flux SVI' }] },
+    { label: 'Files d\'attente', permissions: [{ id: 'queue.view', label: 'Consulter les files d\'attente' }, { id: 'queue.edit', label: 'Gérer les files d\'attente' }] },
+    { label: 'Sons', permissions: [{ id: 'audio.view', label: 'Consulter la bibliothèque audio' }, { id: 'audio.edit', label: 'Gérer les fichiers audio' }, { id: 'records.view', label: 'Écouter les enregistrements' }, { id: 'records.delete', label: 'Supprimer les enregistrements' }] },
+    { label: 'Qualifications', permissions: [{ id: 'qualification.view', label: 'Consulter les qualifications' }, { id: 'qualification.edit', label: 'Gérer les qualifications' }] },
+    { label: 'Supervision & Reporting', permissions: [
+        { id: 'supervision.view', label: 'Superviser en temps réel' },
+        { id: 'supervision.barge', label: 'Écouter, coacher et forcer l\'état des agents' },
+        { id: 'reporting.view', label: 'Consulter les rapports' },
+        { id: 'history.view', label: 'Consulter l\'historique des appels' },
+        { id: 'sessions.view', label: 'Consulter les sessions agents' },
+    ] },
+    { label: 'Paramètres', permissions: [
+        { id: 'trunk.view', label: 'Consulter les trunks SIP' },
+        { id: 'trunk.edit', label: 'Gérer les trunks SIP' },
+        { id: 'did.view', label: 'Consulter les numéros (SDA)' },
+        { id: 'did.edit', label: 'Gérer les numéros (SDA)' },
+        { id: 'maintenance.view', label: 'Consulter les sauvegardes et journaux' },
+        { id: 'maintenance.edit', label: 'Lancer et planifier les sauvegardes' },
+    ] },
+    { label: 'Système', permissions: [{ id: 'monitoring.view', label: 'Consulter le monitoring' }, { id: 'audit.view', label: 'Consulter le journal d\'audit' }] },
+    { label: 'Interface agent', permissions: [{ id: 'agent.call', label: 'Traiter des appels' }] },
+];
+
+export const ALL_PERMISSIONS: Permission[] = PERMISSION_GROUPS.flatMap(group => group.permissions.map(p => p.id));
+
+// Permissions of users without a custom profile.
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+    'Administrateur': ALL_PERMISSIONS.filter(p => p !== 'agent.call'),
+    'Superviseur': [
+        'user.view', 'group.view', 'group.edit', 'planning.view', 'planning.edit',
+        'campaign.view', 'campaign.edit', 'dnc.view', 'dnc.edit', 'script.view', 'script.edit', 'ivr.view', 'ivr.edit',
+        'queue.view', 'queue.edit', 'audio.view', 'audio.edit', 'records.view', 'qualification.view', 'qualification.edit',
+        'supervision.view', 'supervision.barge', 'reporting.view', 'history.view', 'sessions.view',
+        'trunk.view', 'did.view', 'maintenance.view', 'monitoring.view',
+    ],
+    'Agent': ['agent.call'],
+};
+
+export const getUserPermissions = (user: User, profiles: PermissionProfile[]): Permission[] => {
+    const profile = user.profileId ? profiles.find(p => p.id === user.profileId) : undefined;
+    return profile ? profile.permissions : ROLE_PERMISSIONS[user.role];
+};
+
+export const hasAnyPermission = (granted: Permission[], required: Permission[]): boolean =>
+    required.some(permission => granted.includes(permission));
+
+export interface ApiAccessRule {
+    read: Permission[];
+    write: Permission[];
+}
+
+// Any one of the listed permissions grants access. The agent interface needs to read
+// the data of its campaigns and to write back call results, hence 'agent.call' below.
+export const API_COLLECTION_PERMISSIONS: Record<ApiCollectionName, ApiAccessRule> = {
+    users: { read: ['user.view', 'group.view', 'campaign.view', 'planning.view', 'supervision.view', 'reporting.view', 'history.view', 'sessions.view'], write: ['user.edit'] },
+    permissionProfiles: { read: ['user.view'], write: ['user.edit'] },
+    userGroups: { read: ['group.view', 'user.view', 'planning.view', 'supervision.view'], write: ['group.edit', 'user.edit'] },
+    savedScripts: { read: ['script.view', 'campaign.view', 'history.view', 'agent.call'], write: ['script.edit'] },
+    ivrFlows: { read: ['ivr.view', 'did.view'], write: ['ivr.edit'] },
+    acdQueues: { read: ['queue.view', 'ivr.view', 'supervision.view'], write: ['queue.edit'] },
+    campaigns: { read: ['campaign.view', 'script.view', 'supervision.view', 'reporting.view', 'history.view', 'user.view', 'agent.call'], write: ['campaign.edit'] },
+    // Read, imported, dialed and qualified through the campaign and contact routes only, see server/contacts.ts.
+    // Agents read and qualify the contacts of the campaigns they are assigned to there.
+    contacts: { read: ['campaign.view', 'dnc.view', 'supervision.view', 'history.view', 'agent.call'], write: ['campaign.edit'] },
+    // Contacts are scrubbed against the lists when imported and dialed; agents add numbers from the wrap-up,
+    // see OWN_WRITES_COLLECTIONS.
+    dncEntries: { read: ['dnc.view', 'campaign.edit', 'agent.call'], write: ['dnc.edit', 'agent.call'] },
+    publicHolidays: { read: ['campaign.view', 'agent.call'], write: ['campaign.edit'] },
+    qualifications: { read: ['qualification.view', 'campaign.view', 'reporting.view', 'history.view', 'agent.call'], write: ['qualification.edit'] },
+    qualificationGroups: { read: ['qualification.view', 'campaign.view', 'agent.call'], write: ['qualification.edit'] },
+    trunks: { read: ['trunk.view', 'did.view'], write: ['trunk.edit'] },
+    dids: { read: ['did.view', 'ivr.view'], write: ['did.edit'] },
+    backupLogs: { read: ['maintenance.view'], write: ['maintenance.edit'] },
+    systemLogs: { read: ['maintenance.view', 'monitoring.view'], write: ['maintenance.edit'] },
+    audioFiles: { read: ['audio.view', 'ivr.view', 'records.view'], write: ['audio.edit'] },
+    activityTypes: { read: ['planning.view'], write: ['planning.edit'] },
+    planningEvents: { read: ['planning.view'], write: ['planning.edit'] },
+    // Agents only get their own calls, see OWN_RECORDS_COLLECTIONS.
+    callHistory: { read: ['history.view', 'records.view', 'reporting.view', 'supervision.view', 'agent.call'], write: ['agent.call'] },
+    callData: { read: ['history.view', 'agent.call'], write: ['agent.call'] },
+    previewDecisions: { read: ['history.view', 'reporting.view', 'agent.call'], write: ['agent.call'] },
+    agentSessions: { read: ['sessions.view', 'supervision.view', 'reporting.view'], write: [] },
+    // Written by the API server itself, never by clients.
+    auditLogs: { read: ['audit.view'], write: [] },
+    // Recorded by POST /api/supervision/actions.
+    supervisorActions: { read: ['supervision.view'], write: [] },
+    // Indexed by the server from the telephony layer: clients can only delete them.
+    recordings: { read: ['records.view'], write: ['records.delete'] },
+};
+
+// Collections whose entities carry an agentId. Users who only have access to
+// them through 'agent.call' only see and write their own records.
+export const OWN_RECORDS_COLLECTIONS: ApiCollectionName[] = ['callHistory', 'callData', 'previewDecisions'];
+
+// Collections whose entities may carry an agentId. Users who only have write access
+// to them through 'agent.call' only create their own (POST), but read them all:
+// changing or deleting an entry takes the other write permissions.
+export const OWN_WRITES_COLLECTIONS: ApiCollectionName[] = ['dncEntries'];
+
+// Users who read contacts through 'agent.call' only read those of the campaigns they are assigned to.
+export const canReadCampaignContacts = (user: Pick<User, 'campaignIds'>, permissions: Permission[], campaignId: string): boolean => {
+    const { read } = API_COLLECTION_PERMISSIONS.contacts;
+    return hasAnyPermission(permissions, read.filter(p => p !== 'agent.call'))
+        || (permissions.includes('agent.call') && user.campaignIds.includes(campaignId));
+};
+
+export const API_SETTING_PERMISSIONS: Record<ApiSettingKey, ApiAccessRule> = {
+    backupSchedule: { read: ['maintenance.view'], write: ['maintenance.edit'] },
+    recordingRetention: { read: ['records.view'], write: ['records.delete'] },
+};
@@ -0,0 +1,24 @@
+// Preview step of the progressive campaigns: the agent reads the next contact, then calls, skips or rejects it.
+import type { Campaign, Contact, PreviewDecision } from '../types.ts';
+
+export const PREVIEW_DECISION_LABELS: Record<PreviewDecision, string> = {
+    skip: 'Passé',
+    reject: 'Rejeté',
+};
+
+export const PREVIEW_REASONS: Record<PreviewDecision, string[]> = {
+    skip: ['Compte à préparer', 'Interlocuteur indisponible à cette heure', 'À confier à un autre agent', 'Autre'],
+    reject: ['Hors cible', 'Déjà client', 'Doublon', 'Coordonnées erronées', 'Autre'],
+};
+
+export const DEFAULT_PREVIEW_COUNTDOWN = 30;
+
+export const hasPreviewStep = (campaign: Pick<Campaign, 'dialingMode' | 'previewEnabled'>): boolean =>
+    campaign.dialingMode === 'PROGRESSIVE' && !!campaign.previewEnabled;
+
+/**
+ * Applies the agent's decision to the previewed contact: a rejected contact is
+ * never called, a skipped one stays pending for the other agents.
+ */
+export const applyPreviewDecision = <C extends Contact>(contact: C, decision: PreviewDecision): C =>
+    decision === 'reject' ? { ...contact, status: 'qualified', nextEligibleAt: null, callback: null } : contact;
@@ -0,0 +1,132 @@
+import type { AgentCommand, CallOfferMessage, DataChangedMessage, DialerCallMessage, RealtimeEvent, RealtimeServerMessage, SupervisionSnapshot } from './realtimeEvents.ts';
+import { EMPTY_SNAPSHOT, applyRealtimeMessage } from './realtimeEvents.ts';
+
+const RECONNECT_DELAY_MS = 3000;
+
+export type RealtimeListener = (snapshot: SupervisionSnapshot, connected: boolean) => void;
+
+export interface RealtimeConnection {
+    // The listener is called at once with the current state, then on every change.
+    subscribe: (listener: RealtimeListener) => () => void;
+    // Commands sent to the logged-in agent by a supervisor.
+    onCommand: (listener: (command: AgentCommand) => void) => () => void;
+    // Inbound calls offered to the logged-in agent by the ACD, and their withdrawal.
+    onCallOffer: (listener: (message: CallOfferMessage) => void) => () => void;
+    // Answered outbound calls the dialer connected to the logged-in agent.
+    onDialerCall: (listener: (message: DialerCallMessage) => void) => () => void;
+    // Contacts and campaigns changed by the server, among those the user reads.
+    // Changes made while disconnected are not replayed.
+    onDataChanged: (listener: (message: DataChangedMessage) => void) => () => void;
+    publish: (event: RealtimeEvent) => void;
+    close: () => void;
+}
+
+const getEventStreamUrl = (token: string) => {
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    return `${protocol}//${window.location.host}/api/events?token=${encodeURIComponent(token)}`;
+};
+
+/**
+ * Connects to the event stream of the API server (server/events.ts) and keeps
+ * the supervision state reconciled from its messages. Reconnects until closed;
+ * the server sends a fresh snapshot on every connection.
+ */
+export const connectRealtime = (token: string, url: string = getEventStreamUrl(token)): RealtimeConnection => {
+    const listeners = new Set<RealtimeListener>();
+    const commandListeners = new Set<(command: AgentCommand) => void>();
+    const offerListeners = new Set<(message: CallOfferMessage) => void>();
+    const dialerCallListeners = new Set<(message: DialerCallMessage) => void>();
+    const dataListeners = new Set<(message: DataChangedMessage) => void>();
+    let snapshot = EMPTY_SNAPSHOT;
+    let socket: WebSocket | null = null;
+    let connected = false;
+    let closed = false;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    // Own status and call, replayed on every (re)connection: the server logs
+    // out agents whose connection drops, and events sent while offline are lost.
+    let ownStatus: RealtimeEvent | null = null;
+    let ownCall: RealtimeEvent | null = null;
+
+    const notify = () => listeners.forEach(listener => listener(snapshot, connected));
+
+    const send = (event: RealtimeEvent) => {
+        if (socket && socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(event));
+    };
+
+    const open = () => {
+        socket = new WebSocket(url);
+        socket.onopen = () => {
+            connected = true;
+            [ownStatus, ownCall].forEach(event => event && send(event));
+            notify();
+        };
+        socket.onmessage = (message: MessageEvent<string>) => {
+            try {
+                const serverMessage = JSON.parse(message.data) as RealtimeServerMessage;
+                if (serverMessage.type === 'agent.command') {
+                    commandListeners.forEach(listener => listener(serverMessage));
+                    return;
+                }
+                if (serverMessage.type === 'call.offered' || serverMessage.type === 'call.offerWithdrawn') {
+                    offerListeners.forEach(listener => listener(serverMessage));
+                    return;
+                }
+                if (serverMessage.type === 'call.connected') {
+                    dialerCallListeners.forEach(listener => listener(serverMessage));
+                    return;
+                }
+                if (serverMessage.type === 'contacts.changed' || serverMessage.type === 'campaign.saved') {
+                    dataListeners.forEach(listener => listener(serverMessage));
+                    return;
+                }
+                snapshot = applyRealtimeMessage(snapshot, serverMessage);
+                notify();
+            } catch (err) {
+                console.error('Event stream: invalid message:', (err as Error).message);
+            }
+        };
+        socket.onclose = () => {
+            socket = null;
+            connected = false;
+            notify();
+            if (!closed) reconnectTimer = setTimeout(open, RECONNECT_DELAY_MS);
+        };
+    };
+    open();
+
+    return {
+        subscribe: (listener) => {
+            listeners.add(listener);
+            listener(snapshot, connected);
+            return () => { listeners.delete(listener); };
+        },
+        onCommand: (listener) => {
+            commandListeners.add(listener);
+            return () => { commandListeners.delete(listener); };
+        },
+        onCallOffer: (listener) => {
+            offerListeners.add(listener);
+            return () => { offerListeners.delete(listener); };
+        },
+        onDialerCall: (listener) => {
+            dialerCallListeners.add(listener);
+            return () => { dialerCallListeners.delete(listener); };
+        },
+        onDataChanged: (listener) => {
+            dataListeners.add(listener);
+            return () => { dataListeners.delete(listener); };
+        },
+        publish: (event) => {
+            if (event.type === 'agent.status') ownStatus = event;
+            if (event.type === 'agent.loggedOut') ownStatus = null;
+            if (event.type === 'call.started' || event.type === 'call.updated') ownCall = event;
+            if (event.type === 'call.ended') ownCall = null;
+            send(event);
+        },
+        close: () => {
+            closed = true;
+            if (reconnectTimer !== null) clearTimeout(reconnectTimer);
+            socket?.close();
+        },
+    };
+};
@@ -0,0 +1,171 @@
+// Real-time supervision events, shared by the event hub of the API server
+// (server/events.ts), the WebSocket client and the local simulator.
+import type { ActiveCall, AgentStatus, CampaignContact, CampaignSettings, CampaignState, Contact } from '../types.ts';
+import type { DialerEvent } from './dialer.ts';
+
+// Durations are not sent: they are derived from the timestamps by each subscriber.
+export interface LiveAgentState {
+    agentId: string;
+    status: AgentStatus;
+    since: string; // ISO date of the last status change
+    callsHandledToday: number;
+    averageHandlingTime: number; // in seconds
+}
+
+export interface LiveCall extends Omit<ActiveCall, 'duration'> {
+    startedAt: string;
+}
+
+export interface SupervisionSnapshot {
+    agents: LiveAgentState[];
+    calls: LiveCall[];
+    campaigns: CampaignState[];
+}
+
+export type RealtimeEvent =
+    | { type: 'agent.status'; agentId: string; status: AgentStatus; at: string }
+    | { type: 'agent.loggedOut'; agentId: string; at: string }
+    | { type: 'call.started'; call: LiveCall }
+    | { type: 'call.updated'; call: LiveCall }
+    | { type: 'call.ended'; callId: string; at: string }
+    | { type: 'campaign.state'; campaign: CampaignState };
+
+// Sent by a supervisor to one agent (force pause / force logout), never published by clients.
+export interface AgentCommand {
+    type: 'agent.command';
+    agentId: string;
+    command: 'pause' | 'logout';
+    by: string; // name of the supervisor
+    at: string;
+}
+
+// Sent by the ACD (server/acd.ts) to the agent it picked for an inbound call. The
+// offer is withdrawn when it rings out, the caller hangs up, the agent rejects it
+// or is no longer waiting.
+export type CallOfferMessage =
+    | {
+        type: 'call.offered';
+        agentId: string;
+        call: LiveCall;
+        queueName: string;
+        didDescription: string | null;
+        ivrPath: string[]; // names of the IVR nodes the caller went through
+        scriptId: string | null; // script of the queue, or else of the DID
+        expiresAt: string;
+    }
+    | { type: 'call.offerWithdrawn'; agentId: string; callId: string; at: string };
+
+// Sent by the outbound dialer (server/dialing.ts) to the agent it connected an
+// answered call to. The contact is reserved to the agent until the call is recorded.
+export interface DialerCallMessage {
+    type: 'call.connected';
+    agentId: string;
+    call: LiveCall;
+    contact: Contact;
+}
+
+// Delivered to the connections of `agentId` only.
+export type AgentMessage = AgentCommand | CallOfferMessage | DialerCallMessage;
+
+// Contacts imported, qualified or put back in the queue by the server (server/contacts.ts),
+// delivered to the users who read the contacts of their campaign.
+export interface ContactsChangedMessage {
+    type: 'contacts.changed';
+    campaignId: string;
+    contacts: CampaignContact[];
+}
+
+// Campaign saved by the server itself: the quota counters of a qualified call.
+// Delivered to the users who read the campaigns.
+export interface CampaignSavedMessage {
+    type: 'campaign.saved';
+    campaign: CampaignSettings;
+}
+
+// Data the server changes on its own, sent to keep the clients' copies current.
+export type DataChangedMessage = ContactsChangedMessage | CampaignSavedMessage;
+
+// Sent by the server: the current state on connection, then every event.
+export type RealtimeServerMessage = RealtimeEvent | AgentMessage | DataChangedMessage | { type: 'snapshot'; snapshot: SupervisionSnapshot };
+
+export const EMPTY_SNAPSHOT: SupervisionSnapshot = { agents: [], calls: [], campaigns: [] };
+
+const REALTIME_EVENT_TYPES: RealtimeEvent['type'][] = ['agent.status', 'agent.loggedOut', 'call.started', 'call.updated', 'call.ended', 'campaign.state'];
+
+export const isRealtimeEvent = (value: unknown): value is RealtimeEvent =>
+    typeof value === 'object' && value !== null && REALTIME_EVENT_TYPES.includes((value as { type?: never }).type);
+
+export const isAgentMessage = (message: RealtimeServerMessage): message is AgentMessage =>
+    message.type === 'agent.command' || message.type === 'call.offered' || message.type === 'call.offerWithdrawn' || message.type === 'call.connected';
+
+export const secondsSince = (isoDate: string, now: number): number =>
+    Math.max(0, Math.floor((now - new Date(isoDate).getTime()) / 1000));
+
+const upsert = <T extends object>(items: T[], item: T, isSame: (other: T) => boolean): T[] =>
+    items.some(isSame) ? items.map(other => isSame(other) ? item : other) : [...items, item];
+
+/**
+ * Applies an event to the supervision state. Agent counters are maintained
+ * here, from the calls that end, so every subscriber computes the same values.
+ */
+export const applyRealtimeMessage = (state: SupervisionSnapshot, message: RealtimeServerMessage): SupervisionSnapshot => {
+    switch (message.type) {
+        case 'snapshot':
+            return message.snapshot;
+        case 'agent.status': {
+            const previous = state.agents.find(a => a.agentId === message.agentId);
+            if (previous?.status === message.status) return state;
+            const agent: LiveAgentState = previous
+                ? { ...previous, status: message.status, since: message.at }
+                : { agentId: message.agentId, status: message.status, since: message.at, callsHandledToday: 0, averageHandlingTime: 0 };
+            return { ...state, agents: upsert(state.agents, agent, a => a.agentId === message.agentId) };
+        }
+        case 'agent.loggedOut':
+            return { ...state, agents: state.agents.filter(a => a.agentId !== message.agentId) };
+        case 'call.started':
+        case 'call.updated':
+            return { ...state, calls: upsert(state.calls, message.call, c => c.id === message.call.id) };
+        case 'call.ended': {
+            const call = state.calls.find(c => c.id === message.callId);
+            if (!call) return state;
+            const calls = state.calls.filter(c => c.id !== message.callId);
+            if (call.status !== 'active' || !call.agentId) return { ...state, calls };
+            const duration = secondsSince(call.startedAt, new Date(message.at).getTime());
+            const agents = state.agents.map(agent => {
+                if (agent.agentId !== call.agentId) return agent;
+                const callsHandledToday = agent.callsHandledToday + 1;
+                const averageHandlingTime = Math.round((agent.averageHandlingTime * agent.callsHandledToday + duration) / callsHandledToday);
+                return { ...agent, callsHandledToday, averageHandlingTime };
+            });
+            return { ...state, calls, agents };
+        }
+        case 'campaign.state':
+            return { ...state, campaigns: upsert(state.campaigns, message.campaign, c => c.id === message.campaign.id) };
+        case 'agent.command':
+        case 'call.offered':
+        case 'call.offerWithdrawn':
+        case 'call.connected':
+        case 'contacts.changed':
+        case 'campaign.saved':
+            return state;
+    }
+};
+
+/**
+ * Translates the events of the outbound dialer (telephony layer) into
+ * real-time call events. Calls ring without an agent until they are connected.
+ */
+export const dialerEventToRealtime = (event: DialerEvent, callerId: string, at: string = new Date().toISOString()): RealtimeEvent | null => {
+    switch (event.type) {
+        case 'CALL_STARTED':
+            return { type: 'call.started', call: { id: event.callId, from: callerId, to: event.contact.phoneNumber, agentId: '', campaignId: event.campaignId, status: 'ringing', startedAt: at } };
+        case 'CALL_CONNECTED':
+            return { type: 'call.updated', call: { id: event.callId, from: callerId, to: event.contact.phoneNumber, agentId: event.agentId, campaignId: event.campaignId, status: 'active', startedAt: at } };
+        case 'CALL_ABANDONED':
+        case 'CALL_FAILED':
+        case 'CALL_MACHINE':
+            return { type: 'call.ended', callId: event.callId, at };
+        case 'DIALER_STOPPED':
+            return null;
+    }
+};
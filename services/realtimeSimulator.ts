@@ -0,0 +1,133 @@
+import type { AgentStatus, CampaignSettings, CampaignState, User } from '../types.ts';
+import type { LiveCall, RealtimeEvent } from './realtimeEvents.ts';
+import { canDialCampaign, getCampaignRunStatus } from './campaignLifecycle.ts';
+
+export interface RealtimeSimulatorOptions {
+    // Read on every tick so the simulation follows the latest configuration.
+    getUsers: () => User[];
+    getCampaigns: () => CampaignSettings[];
+    publish: (event: RealtimeEvent) => void;
+    tickIntervalMs?: number;
+    // Injected for deterministic runs, see createSeededRandom() in telephony.ts.
+    random?: () => number;
+    now?: () => Date;
+}
+
+export interface RealtimeSimulator {
+    start: () => void;
+    stop: () => void;
+    tick: () => void;
+    isRunning: () => boolean;
+}
+
+const PAUSE_PROBABILITY = 0.05;
+const CALL_PROBABILITY = 0.4;
+const HANGUP_PROBABILITY = 0.1;
+const WRAP_UP_END_PROBABILITY = 0.3;
+
+/**
+ * Produces the events the telephony layer and the agent interfaces would send,
+ * for demos and tests: every agent logs in, takes calls from the active
+ * campaigns of their assignment, goes through wrap-up and takes breaks.
+ */
+export const createRealtimeSimulator = ({ getUsers, getCampaigns, publish, tickIntervalMs = 2000, random = Math.random, now = () => new Date() }: RealtimeSimulatorOptions): RealtimeSimulator => {
+    const agentStatuses = new Map<string, AgentStatus>();
+    const callsByAgent = new Map<string, LiveCall>();
+    const campaignStates = new Map<string, CampaignState>();
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let callSequence = 0;
+
+    const setStatus = (agentId: string, status: AgentStatus, at: string) => {
+        agentStatuses.set(agentId, status);
+        publish({ type: 'agent.status', agentId, status, at });
+    };
+
+    const updateCampaign = (campaign: CampaignSettings, agents: User[], change: { offered?: number; answered?: number } = {}) => {
+        const previous = campaignStates.get(campaign.id);
+        const offered = (previous?.offered ?? 0) + (change.offered ?? 0);
+        const answered = (previous?.answered ?? 0) + (change.answered ?? 0);
+        const state: CampaignState = {
+            id: campaign.id,
+            name: campaign.name,
+            status: getCampaignRunStatus(campaign),
+            offered,
+            answered,
+            hitRate: offered === 0 ? 0 : (answered / offered) * 100,
+            agentsOnCampaign: agents.filter(a => a.campaignIds.includes(campaign.id)).length,
+        };
+        if (previous && JSON.stringify(previous) === JSON.stringify(state)) return;
+        campaignStates.set(campaign.id, state);
+        publish({ type: 'campaign.state', campaign: state });
+    };
+
+    const tick = () => {
+        const at = now().toISOString();
+        const agents = getUsers().filter(u => u.role === 'Agent' && u.isActive);
+        const campaigns = getCampaigns();
+
+        agents.forEach(agent => {
+            const status = agentStatuses.get(agent.id);
+            const call = callsByAgent.get(agent.id);
+            if (status === undefined) {
+                setStatus(agent.id, 'En Attente', at);
+            } else if (status === 'En Appel' && call && random() < HANGUP_PROBABILITY) {
+                callsByAgent.delete(agent.id);
+                publish({ type: 'call.ended', callId: call.id, at });
+                setStatus(agent.id, 'En Post-Appel', at);
+            } else if (status === 'En Post-Appel' && random() < WRAP_UP_END_PROBABILITY) {
+                setStatus(agent.id, 'En Attente', at);
+            } else if (status === 'En Pause' && random() < WRAP_UP_END_PROBABILITY) {
+                setStatus(agent.id, 'En Attente', at);
+            } else if (status === 'En Attente') {
+                const roll = random();
+                const campaign = campaigns.find(c => canDialCampaign(c) && agent.campaignIds.includes(c.id));
+                if (roll < PAUSE_PROBABILITY) {
+                    setStatus(agent.id, 'En Pause', at);
+                } else if (campaign && roll < PAUSE_PROBABILITY + CALL_PROBABILITY) {
+                    const newCall: LiveCall = {
+                        id: `sim-call-${++callSequence}`,
+                        from: campaign.callerId,
+                        to: `06${Math.floor(random() * 100000000).toString().padStart(8, '0')}`,
+                        agentId: agent.id,
+                        campaignId: campaign.id,
+                        status: 'active',
+                        startedAt: at,
+                    };
+                    callsByAgent.set(agent.id, newCall);
+                    publish({ type: 'call.started', call: newCall });
+                    setStatus(agent.id, 'En Appel', at);
+                    updateCampaign(campaign, agents, { offered: 1, answered: 1 });
+                } else if (campaign && random() < 0.5) {
+                    // Unanswered attempt: only the campaign counters move.
+                    updateCampaign(campaign, agents, { offered: 1 });
+                }
+            }
+        });
+
+        // Agents deactivated or deleted since the last tick log out.
+        [...agentStatuses.keys()].filter(id => !agents.some(a => a.id === id)).forEach(agentId => {
+            const call = callsByAgent.get(agentId);
+            if (call) publish({ type: 'call.ended', callId: call.id, at });
+            callsByAgent.delete(agentId);
+            agentStatuses.delete(agentId);
+            publish({ type: 'agent.loggedOut', agentId, at });
+        });
+
+        campaigns.forEach(campaign => updateCampaign(campaign, agents));
+    };
+
+    return {
+        start: () => {
+            if (timer !== null) return;
+            timer = setInterval(tick, tickIntervalMs);
+            tick();
+        },
+        stop: () => {
+            if (timer === null) return;
+            clearInterval(timer);
+            timer = null;
+        },
+        tick,
+        isRunning: () => timer !== null,
+    };
+};
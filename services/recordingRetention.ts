@@ -0,0 +1,28 @@
+import type { CallRecording, RecordingRetentionPolicy } from '../types.ts';
+
+// Applied until an administrator saves a policy.
+export const DEFAULT_RECORDING_RETENTION: RecordingRetentionPolicy = { defaultRetentionDays: 90, rules: [] };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type RetainedRecording = Pick<CallRecording, 'timestamp' | 'campaignId' | 'qualificationId'>;
+
+/**
+ * Retention of a recording: the rule of its qualification, else the rule of its
+ * campaign, else the default of the policy.
+ */
+export const getRetentionDays = (recording: RetainedRecording, policy: RecordingRetentionPolicy): number => {
+    const qualificationRule = recording.qualificationId
+        ? policy.rules.find(rule => rule.scope === 'qualification' && rule.targetId === recording.qualificationId)
+        : undefined;
+    const campaignRule = recording.campaignId
+        ? policy.rules.find(rule => rule.scope === 'campaign' && rule.targetId === recording.campaignId)
+        : undefined;
+    return (qualificationRule ?? campaignRule)?.retentionDays ?? policy.defaultRetentionDays;
+};
+
+export const getRecordingExpiry = (recording: RetainedRecording, policy: RecordingRetentionPolicy): Date =>
+    new Date(new Date(recording.timestamp).getTime() + getRetentionDays(recording, policy) * DAY_MS);
+
+export const isRecordingExpired = (recording: RetainedRecording, policy: RecordingRetentionPolicy, now: Date): boolean =>
+    getRecordingExpiry(recording, policy).getTime() <= now.getTime();
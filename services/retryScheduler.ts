@@ -0,0 +1,64 @@
+import type { Campaign, Contact } from '../types.ts';
+import type { CallOutcome } from './telephony.ts';
+
+// Standard qualifications recorded for calls the dialer did not connect to an
+// agent: failed calls, calls answered by an answering machine (MACHINE) and
+// calls answered while no agent was free (ABANDONED).
+export const DIALER_OUTCOME_QUALIFICATION_IDS: Record<Exclude<CallOutcome, 'ANSWERED'> | 'MACHINE' | 'ABANDONED', string> = {
+    BUSY: 'std-90',      // Occupé
+    NO_ANSWER: 'std-92', // Absent
+    FAILED: 'std-96',    // Indisponible
+    MACHINE: 'std-93',   // Répondeur
+    ABANDONED: 'std-96', // Indisponible
+};
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Delay in minutes before the retry following `attemptCount` attempts.
+ * When fewer intervals than retries are configured, the last interval is reused.
+ */
+export const getRetryDelayMinutes = (campaign: Pick<Campaign, 'retryIntervals'>, attemptCount: number): number => {
+    const intervals = campaign.retryIntervals;
+    if (intervals.length === 0) return 0;
+    return intervals[Math.min(attemptCount - 1, intervals.length - 1)];
+};
+
+/**
+ * A contact can be retried when its last outcome is listed in `retryOnStatus`
+ * and it has not used up the first call plus `retryAttempts` retries.
+ */
+export const shouldRetry = (campaign: Pick<Campaign, 'retryAttempts' | 'retryOnStatus'>, qualificationId: string, attemptCount: number): boolean =>
+    campaign.retryOnStatus.includes(qualificationId) && attemptCount <= campaign.retryAttempts;
+
+/**
+ * Appends an attempt to the contact's history and schedules the next one if the
+ * campaign's retry rules allow it. Otherwise the contact is final ('qualified').
+ * A callback the contact was waiting for is done once the contact is called again.
+ */
+export const recordContactAttempt = <C extends Contact>(
+    contact: C,
+    campaign: Pick<Campaign, 'retryAttempts' | 'retryOnStatus' | 'retryIntervals'>,
+    qualificationId: string,
+    now: Date = new Date(),
+    callId?: string
+): C => {
+    const attempts = [...(contact.attempts || []), { timestamp: now.toISOString(), qualificationId, callId }];
+    if (shouldRetry(campaign, qualificationId, attempts.length)) {
+        const delay = getRetryDelayMinutes(campaign, attempts.length);
+        return {
+            ...contact,
+            attempts,
+            status: 'called',
+            nextEligibleAt: new Date(now.getTime() + delay * MINUTE_MS).toISOString(),
+            callback: null,
+        };
+    }
+    return { ...contact, attempts, status: 'qualified', nextEligibleAt: null, callback: null };
+};
+
+export const isRetryDue = (contact: Contact, now: Date = new Date()): boolean =>
+    contact.status === 'called' && !!contact.nextEligibleAt && new Date(contact.nextEligibleAt).getTime() <= now.getTime();
+
+// Puts a contact whose retry time has passed back in the dialing queue.
+export const requeueContact = <C extends Contact>(contact: C): C => ({ ...contact, status: 'pending', nextEligibleAt: null });
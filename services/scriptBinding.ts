@@ -0,0 +1,56 @@
+import type { Campaign, Contact, SavedScript } from '../types.ts';
+
+// Data an agent script can read from during a live call.
+export interface ScriptBindingContext {
+    contact?: Contact | null;
+    campaign?: Campaign | null;
+}
+
+// Fields offered as "source field" on input blocks and usable as {{placeholders}} in texts.
+export const SCRIPT_SOURCE_FIELDS: { path: string; label: string }[] = [
+    { path: 'contact.firstName', label: 'Contact - Prénom' },
+    { path: 'contact.lastName', label: 'Contact - Nom' },
+    { path: 'contact.phoneNumber', label: 'Contact - Téléphone' },
+    { path: 'contact.postalCode', label: 'Contact - Code postal' },
+    { path: 'campaign.name', label: 'Campagne - Nom' },
+    { path: 'campaign.callerId', label: 'Campagne - Numéro présenté' },
+];
+
+// Block types whose content can be pre-filled from a source field.
+export const BINDABLE_BLOCK_TYPES = ['input', 'email', 'phone'];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(contact|campaign)\.(\w+)\s*\}\}/g;
+
+/**
+ * Value of a 'contact.xxx' or 'campaign.xxx' path, or undefined when the path
+ * is unknown or its entity is not available (e.g. preview without a live call).
+ */
+export const resolveSourceField = (path: string, context: ScriptBindingContext): string | undefined => {
+    const [entity, field] = path.split('.');
+    const source = entity === 'contact' ? context.contact : entity === 'campaign' ? context.campaign : null;
+    if (!source || !field || !(field in source)) return undefined;
+    const value = (source as unknown as Record<string, unknown>)[field];
+    return typeof value === 'string' || typeof value === 'number' ? String(value) : undefined;
+};
+
+/**
+ * Replaces {{contact.xxx}} / {{campaign.xxx}} placeholders. Placeholders that
+ * cannot be resolved are kept as written so script authors can spot them in preview.
+ */
+export const interpolatePlaceholders = (text: string | undefined, context: ScriptBindingContext): string =>
+    (text || '').replace(PLACEHOLDER_PATTERN, (placeholder, entity: string, field: string) =>
+        resolveSourceField(`${entity}.${field}`, context) ?? placeholder
+    );
+
+/**
+ * Initial form values for every block bound to a source field, keyed by block name.
+ */
+export const buildInitialFormValues = (script: SavedScript, context: ScriptBindingContext): Record<string, string> => {
+    const values: Record<string, string> = {};
+    script.pages.forEach(page => page.blocks.forEach(block => {
+        if (!BINDABLE_BLOCK_TYPES.includes(block.type) || !block.content?.sourceField) return;
+        const value = resolveSourceField(block.content.sourceField, context);
+        if (value !== undefined) values[block.name] = value;
+    }));
+    return values;
+};
@@ -0,0 +1,210 @@
+// Abstraction over the telephony engine used by the outbound dialer.
+// The production adapter drives Asterisk (AMI Originate); the simulated one
+// below lets the dialer run offline, in demos and in tests.
+
+export type CallOutcome = 'ANSWERED' | 'NO_ANSWER' | 'BUSY' | 'FAILED';
+
+export interface OriginateRequest {
+    callId: string;
+    campaignId: string;
+    contactId: string;
+    phoneNumber: string;
+    callerId: string;
+    ringTimeout: number; // in seconds
+    amdEnabled: boolean;
+}
+
+// Result of Asterisk's AMD() application on an answered call.
+export type AmdStatus = 'HUMAN' | 'MACHINE' | 'NOTSURE';
+
+export interface AmdResult {
+    status: AmdStatus;
+    confidence: number; // 0 to 100, compared with the campaign's amdConfidence
+}
+
+export interface OriginateResult {
+    callId: string;
+    outcome: CallOutcome;
+    ringDuration: number; // in seconds
+    amd?: AmdResult; // answered calls with amdEnabled only
+}
+
+export type SpyMode = 'listen' | 'whisper' | 'barge';
+
+// ChanSpy options: q = no beep when the supervisor joins, w = whisper (only the
+// agent hears the supervisor), B = barge (both parties hear the supervisor).
+export const CHANSPY_OPTIONS: Record<SpyMode, string> = {
+    listen: 'q',
+    whisper: 'qw',
+    barge: 'qB',
+};
+
+export interface SpyRequest {
+    callId: string;
+    agentChannel: string;      // e.g. 'SIP/1001'
+    supervisorChannel: string; // rung first, then bridged to ChanSpy
+    mode: SpyMode;
+}
+
+// Application and data of the AMI Originate that connects the supervisor.
+export const buildChanSpyApplication = (request: Pick<SpyRequest, 'agentChannel' | 'mode'>): { application: string; data: string } => ({
+    application: 'ChanSpy',
+    data: `${request.agentChannel},${CHANSPY_OPTIONS[request.mode]}`,
+});
+
+export const toSipChannel = (extension: string): string => `SIP/${extension}`;
+
+// Audio written by MixMonitor for the calls of campaigns with recording enabled.
+export interface RecordedAudio {
+    fileName: string;
+    mimeType: string;
+    data: Uint8Array;
+}
+
+/**
+ * Encodes 16-bit mono PCM samples as a .wav file, the format of MixMonitor recordings.
+ */
+export const encodeWav = (samples: Int16Array, sampleRate: number = 8000): Uint8Array => {
+    const bytes = new Uint8Array(44 + samples.length * 2);
+    const view = new DataView(bytes.buffer);
+    const writeAscii = (offset: number, text: string) => [...text].forEach((char, i) => view.setUint8(offset + i, char.charCodeAt(0)));
+    writeAscii(0, 'RIFF');
+    view.setUint32(4, 36 + samples.length * 2, true);
+    writeAscii(8, 'WAVE');
+    writeAscii(12, 'fmt ');
+    view.setUint32(16, 16, true); // size of the format chunk
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, 1, true); // mono
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * 2, true); // bytes per second
+    view.setUint16(32, 2, true); // bytes per sample
+    view.setUint16(34, 16, true); // bits per sample
+    writeAscii(36, 'data');
+    view.setUint32(40, samples.length * 2, true);
+    samples.forEach((sample, i) => view.setInt16(44 + i * 2, sample, true));
+    return bytes;
+};
+
+export interface TelephonyAdapter {
+    // Resolves once the call is answered or has definitely failed.
+    originate: (request: OriginateRequest) => Promise<OriginateResult>;
+    hangup: (callId: string) => Promise<void>;
+    // Waits for the beep of the answering machine, plays `fileName` then hangs up.
+    dropVoicemail: (callId: string, fileName: string) => Promise<void>;
+    // Connects a supervisor to an agent's call.
+    spy: (request: SpyRequest) => Promise<void>;
+    // Recording of a finished call, null if the call was not recorded.
+    fetchRecording: (callId: string) => Promise<RecordedAudio | null>;
+}
+
+export interface SimulatedTelephonyOptions {
+    answerRate?: number;  // 0..1
+    busyRate?: number;    // 0..1
+    failureRate?: number; // 0..1
+    machineRate?: number; // 0..1, share of the answered calls picked up by an answering machine
+    minRingSeconds?: number;
+    maxRingSeconds?: number;
+    // Real milliseconds per simulated second. 0 resolves calls on the next tick.
+    timeScale?: number;
+    // Injected for deterministic runs.
+    random?: () => number;
+    // Hangups, spy requests and voicemail drops kept for inspection, the latest ones.
+    historySize?: number;
+    // Demos: every call gets a few seconds of beeps as its recording. Off, no call
+    // has a recording, so nothing fake is stored when no real audio exists.
+    simulateRecordings?: boolean;
+}
+
+/**
+ * Returns a pseudo-random generator (mulberry32) so simulations can be replayed with a seed.
+ */
+export const createSeededRandom = (seed: number): (() => number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+const SIMULATED_RECORDING_SECONDS = 5;
+const DEFAULT_HISTORY_SIZE = 100;
+
+// Appends to a bounded log: the simulated adapter also runs in the long-lived API server.
+const remember = <T>(log: T[], entry: T, size: number) => {
+    log.push(entry);
+    if (log.length > size) log.splice(0, log.length - size);
+};
+
+export const createSimulatedTelephony = (options: SimulatedTelephonyOptions = {}): TelephonyAdapter & { hungUpCallIds: string[]; spyRequests: SpyRequest[]; droppedVoicemails: { callId: string; fileName: string }[] } => {
+    const {
+        answerRate = 0.35,
+        busyRate = 0.1,
+        failureRate = 0.05,
+        machineRate = 0.3,
+        minRingSeconds = 3,
+        maxRingSeconds = 20,
+        timeScale = 0,
+        random = Math.random,
+        historySize = DEFAULT_HISTORY_SIZE,
+        simulateRecordings = false,
+    } = options;
+    const hungUpCallIds: string[] = [];
+    const spyRequests: SpyRequest[] = [];
+    const droppedVoicemails: { callId: string; fileName: string }[] = [];
+
+    const originate = (request: OriginateRequest): Promise<OriginateResult> => {
+        const ringSeconds = Math.round(minRingSeconds + random() * (maxRingSeconds - minRingSeconds));
+        const roll = random();
+        let outcome: CallOutcome;
+        let ringDuration = Math.min(ringSeconds, request.ringTimeout);
+        if (roll < failureRate) {
+            outcome = 'FAILED';
+            ringDuration = 0;
+        } else if (roll < failureRate + busyRate) {
+            outcome = 'BUSY';
+            ringDuration = 0;
+        } else if (roll < failureRate + busyRate + answerRate && ringSeconds <= request.ringTimeout) {
+            outcome = 'ANSWERED';
+        } else {
+            outcome = 'NO_ANSWER';
+            ringDuration = request.ringTimeout;
+        }
+        // AMD is never fully sure: the confidence is drawn between 50 and 100.
+        const amd: AmdResult | undefined = outcome === 'ANSWERED' && request.amdEnabled
+            ? { status: random() < machineRate ? 'MACHINE' : 'HUMAN', confidence: Math.round(50 + random() * 50) }
+            : undefined;
+        return new Promise(resolve => {
+            setTimeout(() => resolve({ callId: request.callId, outcome, ringDuration, amd }), ringDuration * timeScale);
+        });
+    };
+
+    const hangup = async (callId: string) => {
+        remember(hungUpCallIds, callId, historySize);
+    };
+
+    const spy = async (request: SpyRequest) => {
+        remember(spyRequests, request, historySize);
+    };
+
+    const dropVoicemail = async (callId: string, fileName: string) => {
+        remember(droppedVoicemails, { callId, fileName }, historySize);
+        remember(hungUpCallIds, callId, historySize);
+    };
+
+    // A few seconds of beeps stand in for the conversation.
+    const fetchRecording = async (callId: string): Promise<RecordedAudio | null> => {
+        if (!simulateRecordings) return null;
+        const sampleRate = 8000;
+        const samples = new Int16Array(sampleRate * SIMULATED_RECORDING_SECONDS);
+        samples.forEach((_, i) => {
+            const isBeep = Math.floor((i / sampleRate) * 2) % 2 === 0;
+            samples[i] = isBeep ? Math.round(3000 * Math.sin((2 * Math.PI * 440 * i) / sampleRate)) : 0;
+        });
+        return { fileName: `${callId}.wav`, mimeType: 'audio/wav', data: encodeWav(samples, sampleRate) };
+    };
+
+    return { originate, hangup, dropVoicemail, spy, fetchRecording, hungUpCallIds, spyRequests, droppedVoicemails };
+};
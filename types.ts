@@ -2,13 +2,17 @@ import React from 'react';
 
 export type FeatureId =
   | 'users'
+  | 'permissions'
   | 'groups'
   | 'trunks'
   | 'dids'
   | 'outbound'
+  | 'dnc'
+  | 'callbacks'
   | 'qualifications'
   | 'scripts'
   | 'ivr'
+  | 'queues'
   | 'audio'
   | 'records'
   | 'supervision'
@@ -18,6 +22,7 @@ export type FeatureId =
   | 'planning'
   | 'maintenance'
   | 'monitoring'
+  | 'audit'
   | 'help';
 
 export type FeatureCategory = 'Agent' | 'Outbound' | 'Inbound' | 'Sound' | 'Configuration' | 'Supervision & Reporting' | 'Système' | 'Paramètres';
@@ -28,6 +33,8 @@ export interface Feature {
   category: FeatureCategory;
   description: string;
   component: React.FC<any>;
+  // Needed to see the feature; features without one are open to everybody.
+  permission?: Permission;
   userJourney: {
     title: string;
     steps: string[];
@@ -44,6 +51,37 @@ export interface Feature {
 
 export type UserRole = 'Agent' | 'Superviseur' | 'Administrateur';
 
+// Named capabilities, '<domain>.<action>'. See services/permissions.ts for the role defaults.
+export type Permission =
+  | 'user.view' | 'user.edit'
+  | 'group.view' | 'group.edit'
+  | 'planning.view' | 'planning.edit'
+  | 'campaign.view' | 'campaign.edit'
+  | 'dnc.view' | 'dnc.edit'
+  | 'script.view' | 'script.edit'
+  | 'ivr.view' | 'ivr.edit'
+  | 'queue.view' | 'queue.edit'
+  | 'audio.view' | 'audio.edit'
+  | 'records.view' | 'records.delete'
+  | 'qualification.view' | 'qualification.edit'
+  | 'supervision.view' | 'supervision.barge'
+  | 'reporting.view'
+  | 'history.view'
+  | 'sessions.view'
+  | 'trunk.view' | 'trunk.edit'
+  | 'did.view' | 'did.edit'
+  | 'maintenance.view' | 'maintenance.edit'
+  | 'monitoring.view'
+  | 'audit.view'
+  | 'agent.call';
+
+// Custom set of permissions that replaces the role defaults of the users it is assigned to.
+export interface PermissionProfile {
+    id: string;
+    name: string;
+    permissions: Permission[];
+}
+
 export interface User {
     id: string;
     loginId: string;
@@ -53,7 +91,10 @@ export interface User {
     role: UserRole;
     isActive: boolean;
     campaignIds: string[];
-    password?: string;
+    profileId?: string | null; // PermissionProfile replacing the role defaults
+    skills?: string[]; // matched against the required skills of the inbound queues (AcdQueue)
+    autoAnswer?: boolean; // inbound calls offered by the ACD are taken without a click
+    password?: string; // Only sent to the API to set a new password, never returned by it
 }
 
 export interface UserGroup {
@@ -68,6 +109,8 @@ export interface SavedScript {
     pages: Page[];
     startPageId: string;
     backgroundColor: string;
+    // Incremented on every save so call data can be traced to the script it was captured with.
+    version: number;
 }
 
 export interface Page {
@@ -125,6 +168,8 @@ export interface FilterRule {
     value: string;
 }
 
+export type CampaignRunStatus = 'running' | 'paused' | 'stopped';
+
 export interface Campaign {
     id: string;
     name: string;
@@ -132,10 +177,14 @@ export interface Campaign {
     scriptId: string | null;
     callerId: string;
     isActive: boolean;
+    runStatus?: CampaignRunStatus; // dialing state while active, missing = running (see services/campaignLifecycle.ts)
     assignedUserIds: string[];
     qualificationGroupId: string | null;
     contacts: Contact[];
     dialingMode: 'PREDICTIVE' | 'PROGRESSIVE' | 'MANUAL';
+    // PROGRESSIVE only: the agent reads the next contact before the call is placed.
+    previewEnabled?: boolean;
+    previewCountdown?: number; // seconds before the previewed contact is dialed, 0 = the agent dials
     priority: number;
     timezone: string;
     callingDays: number[];
@@ -150,6 +199,7 @@ export interface Campaign {
     amdEnabled: boolean;
     amdConfidence: number;
     voicemailAction: 'HANGUP' | 'LEAVE_MESSAGE';
+    voicemailAudioFileId?: string | null; // AudioFile left after the beep with 'LEAVE_MESSAGE'
     recordingEnabled: boolean;
     recordingBeep: boolean;
     maxRingDuration: number;
@@ -158,13 +208,57 @@ export interface Campaign {
     filterRules: FilterRule[];
 }
 
+export interface ContactAttempt {
+    timestamp: string; // ISO String
+    qualificationId: string;
+    callId?: string;
+}
+
+export type CallbackScope = 'personal' | 'campaign';
+
+// Callback promised to the contact during a call, served before the pending contacts once due.
+export interface ContactCallback {
+    scheduledAt: string; // ISO String
+    scope: CallbackScope; // personal: only the agent who scheduled it, campaign: any agent of the campaign
+    agentId: string; // agent who scheduled it, or to whom a supervisor assigned it
+    createdAt: string; // ISO String
+}
+
 export interface Contact {
     id: string;
     firstName: string;
     lastName: string;
     phoneNumber: string;
     postalCode: string;
+    // pending: to be dialed, called: waiting for a retry, qualified: no further attempt
     status: 'pending' | 'called' | 'qualified';
+    attempts?: ContactAttempt[];
+    nextEligibleAt?: string | null; // ISO String, set while a retry is scheduled
+    callback?: ContactCallback | null; // set while a callback is scheduled (status 'called')
+}
+
+// Contacts are stored apart from their campaign and only changed by the API (see server/contacts.ts).
+export interface CampaignContact extends Contact {
+    campaignId: string;
+}
+
+// Campaign as stored by the API, without its contacts.
+export type CampaignSettings = Omit<Campaign, 'contacts'>;
+
+// Number that must not be called (Do-Not-Call list), in every campaign or in one.
+export interface DncEntry {
+    id: string;
+    phoneNumber: string; // normalized, see normalizePhoneNumber()
+    campaignId: string | null; // null = global list
+    agentId: string | null; // agent who added it from the wrap-up, null from the back office
+    source: 'import' | 'manual' | 'agent';
+    addedAt: string; // ISO String
+}
+
+export interface PublicHoliday {
+    id: string;
+    date: string; // YYYY-MM-DD
+    name: string;
 }
 
 export interface Qualification {
@@ -189,7 +283,7 @@ export interface IvrFlow {
     connections: IvrConnection[];
 }
 
-export type IvrNodeType = 'start' | 'menu' | 'media' | 'transfer' | 'voicemail' | 'hangup' | 'calendar';
+export type IvrNodeType = 'start' | 'menu' | 'media' | 'transfer' | 'voicemail' | 'hangup' | 'calendar' | 'queue';
 
 export interface IvrNode {
     id: string;
@@ -229,6 +323,29 @@ export interface CalendarEvent {
     endDate: string;
 }
 
+// Inbound queue of the ACD (server/acd.ts), entered from the 'queue' node of an IVR flow.
+export interface AcdQueue {
+    id: string;
+    name: string;
+    requiredSkills: string[]; // an agent needs all of them to be offered the calls
+    priority: number; // 1 to 10: calls of higher priority queues are offered first
+    mohAudioFileId: string | null; // AudioFile played while waiting, Asterisk's default music otherwise
+    announcePosition: boolean;
+    announceFrequency: number; // in seconds, between two position announcements
+    // Overflow rules: the call leaves the queue for `overflowQueueId`, or the
+    // 'overflow' port of the IVR node when there is none.
+    maxWaitTime: number; // in seconds, 0 = no limit
+    maxWaitingCalls: number; // new calls overflow at once beyond it, 0 = no limit
+    overflowWhenNoAgents: boolean; // no logged-in agent has the required skills
+    overflowQueueId: string | null;
+    scriptId: string | null; // shown to the agent who answers, before the script of the DID
+}
+
+// 'offered': ringing on the agent picked by the ACD; 'connected': answered by the agent.
+export type AcdCallState = 'waiting' | 'offered' | 'connected' | 'overflow';
+
+export type AcdOverflowReason = 'MAX_WAIT_TIME' | 'QUEUE_FULL' | 'NO_AGENTS' | 'QUEUE_DELETED';
+
 export interface Trunk {
     id: string;
     name: string;
@@ -243,6 +360,7 @@ export interface Did {
     description: string;
     trunkId: string;
     ivrFlowId: string | null;
+    scriptId?: string | null; // shown to the agents answering the inbound calls of the number
 }
 
 export interface BackupLog {
@@ -272,14 +390,28 @@ export interface ActiveCall {
     to: string;
     agentId: string;
     campaignId: string;
+    queueId?: string; // inbound calls distributed by the ACD
     duration: number;
-    status: 'active' | 'queued';
+    status: 'ringing' | 'queued' | 'active';
+}
+
+// Listen, whisper and barge join the agent's call through Asterisk ChanSpy.
+export type SupervisorActionType = 'listen' | 'whisper' | 'barge' | 'forcePause' | 'forceLogout';
+
+export interface SupervisorActionRecord {
+    id: string;
+    timestamp: string; // ISO String
+    supervisorId: string;
+    supervisorName: string;
+    action: SupervisorActionType;
+    agentId: string;
+    callId: string | null; // null for force pause / logout outside a call
 }
 
 export interface CampaignState {
     id: string;
     name: string;
-    status: 'running' | 'paused' | 'stopped';
+    status: CampaignRunStatus;
     offered: number;
     answered: number;
     hitRate: number;
@@ -292,11 +424,71 @@ export interface CallHistoryRecord {
     direction: 'inbound' | 'outbound';
     agentId: string;
     campaignId: string | null;
+    contactId?: string;
     callerNumber: string;
+    did?: string | null; // number presented (outbound) or called (inbound)
     duration: number;
     qualificationId: string | null;
 }
 
+export type PreviewDecision = 'skip' | 'reject';
+
+// Contact passed over by an agent during the preview, instead of being called.
+export interface PreviewDecisionRecord {
+    id: string;
+    timestamp: string; // ISO String
+    agentId: string;
+    campaignId: string;
+    contactId: string;
+    decision: PreviewDecision; // skip: left for later, reject: never called
+    reason: string;
+    comment: string;
+}
+
+// Audio of a recorded call (campaigns with recordingEnabled), indexed by the API server.
+export interface CallRecording {
+    id: string;
+    callId: string;
+    timestamp: string; // ISO String, start of the call
+    direction: 'inbound' | 'outbound';
+    agentId: string;
+    campaignId: string | null;
+    did: string | null; // number presented (outbound) or called (inbound)
+    callerNumber: string;
+    duration: number; // in seconds
+    qualificationId: string | null; // decides the retention, see RecordingRetentionPolicy
+    fileName: string;
+    mimeType: string;
+    size: number; // in bytes
+}
+
+export interface RecordingRetentionRule {
+    id: string;
+    scope: 'campaign' | 'qualification';
+    targetId: string; // campaign or qualification id
+    retentionDays: number;
+}
+
+// How long recordings are kept: a qualification rule wins over a campaign rule,
+// which wins over the default. See services/recordingRetention.ts.
+export interface RecordingRetentionPolicy {
+    defaultRetentionDays: number;
+    rules: RecordingRetentionRule[];
+}
+
+export type CallDataValue = string | string[];
+
+export interface CallData {
+    callId: string;
+    contactId: string | null; // null for inbound calls
+    campaignId: string | null;
+    agentId: string;
+    scriptId: string;
+    scriptVersion: number;
+    savedAt: string; // ISO String
+    values: Record<string, CallDataValue>; // keyed by script block name
+}
+
 export interface AgentSession {
     id: string;
     agentId: string;
@@ -312,6 +504,27 @@ export interface SystemLog {
     message: string;
 }
 
+export type AuditAction = 'create' | 'update' | 'delete';
+
+export interface AuditChange {
+    field: string;
+    before?: unknown; // absent on create
+    after?: unknown; // absent on delete
+}
+
+// One configuration change, recorded by the API server on every write to an audited collection.
+export interface AuditLogEntry {
+    id: string;
+    timestamp: string; // ISO String
+    actorId: string;
+    actorName: string; // kept in case the user is deleted later
+    action: AuditAction;
+    entityType: string; // API collection name, e.g. 'campaigns'
+    entityId: string;
+    entityName: string;
+    changes: AuditChange[];
+}
+
 export interface VersionInfo {
     application: string;
     asterisk: string;
@@ -8,6 +8,12 @@ export default defineConfig(({ mode }) => {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
       },
+      server: {
+        proxy: {
+          // REST API and event stream WebSocket (server/index.ts)
+          '/api': { target: env.API_URL || 'http://localhost:3001', ws: true },
+        }
+      },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),